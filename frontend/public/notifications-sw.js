@@ -0,0 +1,20 @@
+/**
+ * Service worker for notifications with actions: browsers only support actions on notifications
+ * shown by a service worker. Clicks focus the app, actions are passed on to the focused page.
+ */
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windowClients) => {
+      const client =
+        windowClients.find((windowClient) => windowClient.url.includes("/portal/time-logs")) ?? windowClients[0];
+      if (!client) {
+        return self.clients.openWindow("/portal/time-logs");
+      }
+      if (event.action) {
+        client.postMessage({ type: "aionify-notification-action", action: event.action });
+      }
+      return client.focus();
+    })
+  );
+});
@@ -7,6 +7,7 @@ import { UsersPage } from "@/pages/UsersPage";
 import { CreateUserPage } from "@/pages/CreateUserPage";
 import { EditUserPage } from "@/pages/EditUserPage";
 import { TimeLogsPage } from "@/pages/TimeLogsPage";
+import { SearchPage } from "@/pages/SearchPage";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { RootRedirect } from "@/components/auth/RootRedirect";
 import { useTokenRefresh } from "@/hooks/useTokenRefresh";
@@ -60,6 +61,14 @@ export function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/portal/search"
+          element={
+            <ProtectedRoute requireAdmin={false}>
+              <SearchPage />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/portal/settings"
           element={
@@ -1,9 +1,10 @@
 import { useEffect, useState, ReactNode } from "react";
 import { useLocation } from "react-router";
 import { useTranslation } from "react-i18next";
-import { Settings, Users, Clock } from "lucide-react";
+import { Settings, Users, Clock, Search } from "lucide-react";
 import { TopNav, NavItem } from "@/components/navigation/TopNav";
 import { LAST_USERNAME_KEY } from "@/lib/constants";
+import { KeyboardShortcutsProvider } from "@/hooks/useKeyboardShortcuts";
 
 interface PortalLayoutProps {
   children: ReactNode;
@@ -37,6 +38,11 @@ export function PortalLayout({ children, testId }: PortalLayoutProps) {
       icon: <Clock className="h-4 w-4 mr-2" />,
       href: "/portal/time-logs",
     },
+    {
+      label: t("nav.search"),
+      icon: <Search className="h-4 w-4 mr-2" />,
+      href: "/portal/search",
+    },
     {
       label: t("nav.settings"),
       icon: <Settings className="h-4 w-4 mr-2" />,
@@ -46,10 +52,13 @@ export function PortalLayout({ children, testId }: PortalLayoutProps) {
 
   const menuItems = isAdmin ? adminMenuItems : userMenuItems;
 
-  return (
+  const content = (
     <div className="dark min-h-screen" data-testid={testId}>
       <TopNav menuItems={menuItems} userName={userInfo?.userName} greeting={userInfo?.greeting} />
       {children}
     </div>
   );
+
+  // Keyboard shortcuts are for time tracking, so they are only available in the user portal
+  return isAdmin ? content : <KeyboardShortcutsProvider>{content}</KeyboardShortcutsProvider>;
 }
@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { CalendarDays, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { InlineCalendar } from "@/components/ui/inline-calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { TagSelector } from "@/components/time-logs/TagSelector";
+import { EMPTY_SEARCH_FILTERS, type EntrySearchFilters } from "@/lib/entry-search";
+import { formatISODate, parseISODate } from "@/lib/time-utils";
+import { useShortcutAction } from "@/hooks/useKeyboardShortcuts";
+
+interface SearchFiltersProps {
+  /** Currently applied filters; edits are applied on search */
+  filters: EntrySearchFilters;
+  locale: string;
+  startOfWeek: number;
+  onSearch: (filters: EntrySearchFilters) => void;
+}
+
+interface DayFilterProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+  locale: string;
+  startOfWeek: number;
+  testIdPrefix: string;
+}
+
+function DayFilter({ value, onChange, locale, startOfWeek, testIdPrefix }: DayFilterProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const date = value ? parseISODate(value) : null;
+
+  return (
+    <div className="flex items-center gap-1">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="text-foreground" type="button" data-testid={`${testIdPrefix}-button`}>
+            <CalendarDays className="h-4 w-4 mr-2" />
+            {date
+              ? date.toLocaleDateString(locale, { day: "numeric", month: "short", year: "numeric" })
+              : t("search.anyDate")}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="dark w-auto p-3" data-testid={`${testIdPrefix}-picker`}>
+          <InlineCalendar
+            value={date ?? new Date()}
+            onChange={(selected) => {
+              onChange(formatISODate(selected));
+              setOpen(false);
+            }}
+            locale={locale}
+            startOfWeek={startOfWeek}
+            testIdPrefix={`${testIdPrefix}-picker`}
+          />
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button
+          variant="ghost"
+          size="icon"
+          type="button"
+          onClick={() => onChange(null)}
+          title={t("search.clearDate")}
+          data-testid={`${testIdPrefix}-clear-button`}
+          className="text-foreground"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function parseMinutesInput(value: string): number | null {
+  return value === "" ? null : Math.max(0, Math.floor(Number(value)));
+}
+
+/**
+ * Form with filters of the full-history entries search: title text, tags, start date range and duration range.
+ */
+export function SearchFilters({ filters, locale, startOfWeek, onSearch }: SearchFiltersProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState(filters);
+  const queryInputRef = useRef<HTMLInputElement>(null);
+
+  // Already on the search page, so the search shortcut just focuses the query
+  useShortcutAction("search", () => queryInputRef.current?.focus());
+
+  // Applied filters change on browser history navigation
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSearch(draft);
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_SEARCH_FILTERS);
+    onSearch(EMPTY_SEARCH_FILTERS);
+  };
+
+  return (
+    <Card className="border-none shadow-md mb-6">
+      <CardContent className="p-4">
+        <form onSubmit={handleSubmit} className="space-y-4" data-testid="search-form">
+          <div className="flex items-center gap-2">
+            <Input
+              ref={queryInputRef}
+              value={draft.query}
+              onChange={(e) => setDraft({ ...draft, query: e.target.value })}
+              placeholder={t("search.queryPlaceholder")}
+              className="text-foreground"
+              data-testid="search-query-input"
+            />
+            <TagSelector
+              selectedTags={draft.tags}
+              onTagsChange={(tags) => setDraft({ ...draft, tags })}
+              testIdPrefix="search-tags"
+            />
+          </div>
+          {draft.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {draft.tags.map((tag) => (
+                <Badge key={tag} variant="outline" data-testid="search-selected-tag">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap items-end gap-6">
+            <div className="space-y-2">
+              <Label className="text-foreground">{t("search.startedBetween")}</Label>
+              <div className="flex items-center gap-2 text-foreground">
+                <DayFilter
+                  value={draft.from}
+                  onChange={(from) => setDraft({ ...draft, from })}
+                  locale={locale}
+                  startOfWeek={startOfWeek}
+                  testIdPrefix="search-from"
+                />
+                <span>-</span>
+                <DayFilter
+                  value={draft.to}
+                  onChange={(to) => setDraft({ ...draft, to })}
+                  locale={locale}
+                  startOfWeek={startOfWeek}
+                  testIdPrefix="search-to"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-foreground">{t("search.durationMinutes")}</Label>
+              <div className="flex items-center gap-2 text-foreground">
+                <Input
+                  type="number"
+                  min={0}
+                  value={draft.minDurationMinutes ?? ""}
+                  onChange={(e) => setDraft({ ...draft, minDurationMinutes: parseMinutesInput(e.target.value) })}
+                  placeholder={t("search.minDuration")}
+                  className="w-24 text-foreground"
+                  data-testid="search-min-duration-input"
+                />
+                <span>-</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={draft.maxDurationMinutes ?? ""}
+                  onChange={(e) => setDraft({ ...draft, maxDurationMinutes: parseMinutesInput(e.target.value) })}
+                  placeholder={t("search.maxDuration")}
+                  className="w-24 text-foreground"
+                  data-testid="search-max-duration-input"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2 ml-auto">
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={handleReset}
+                className="text-foreground"
+                data-testid="search-reset-button"
+              >
+                {t("search.reset")}
+              </Button>
+              <Button type="submit" data-testid="search-submit-button">
+                <Search className="h-4 w-4 mr-2" />
+                {t("search.search")}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ChevronDown } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TimePicker } from "@/components/ui/time-picker";
+import { apiGet, apiPut } from "@/lib/api";
+import { requestNotificationPermission } from "@/lib/browser-notifications";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import type { NotificationSettings, WeekDay } from "@/components/time-logs/types";
+
+const weekDays: WeekDay[] = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY", "SUNDAY"];
+
+function localTimeToDate(value: string): Date {
+  const [hours, minutes] = value.split(":").map(Number);
+  return new Date(2024, 0, 1, hours, minutes, 0, 0);
+}
+
+function dateToLocalTime(value: Date): string {
+  return `${value.getHours().toString().padStart(2, "0")}:${value.getMinutes().toString().padStart(2, "0")}`;
+}
+
+export function NotificationSettingsPanel() {
+  const { t } = useTranslation();
+  const [locale, setLocale] = useState("en-GB");
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("notification-settings");
+  const [noActiveEntryEnabled, setNoActiveEntryEnabled] = useState(false);
+  const [workingHoursFrom, setWorkingHoursFrom] = useState("09:00");
+  const [workingHoursTo, setWorkingHoursTo] = useState("17:00");
+  const [workingDays, setWorkingDays] = useState<WeekDay[]>(["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"]);
+  const [longRunningEntryEnabled, setLongRunningEntryEnabled] = useState(false);
+  const [longRunningEntryMinutes, setLongRunningEntryMinutes] = useState(120);
+  const [dailyGoalReachedEnabled, setDailyGoalReachedEnabled] = useState(false);
+
+  const loadNotificationSettings = async () => {
+    const [data, profile] = await Promise.all([
+      apiGet<NotificationSettings>("/api-ui/users/notification-settings"),
+      apiGet<{ locale: string }>("/api-ui/users/profile"),
+    ]);
+    setLocale(profile.locale);
+    setNoActiveEntryEnabled(data.noActiveEntryEnabled);
+    setWorkingHoursFrom(data.workingHoursFrom);
+    setWorkingHoursTo(data.workingHoursTo);
+    setWorkingDays(data.workingDays);
+    setLongRunningEntryEnabled(data.longRunningEntryEnabled);
+    setLongRunningEntryMinutes(data.longRunningEntryMinutes);
+    setDailyGoalReachedEnabled(data.dailyGoalReachedEnabled);
+  };
+
+  useEffect(() => {
+    void executeApiCall(loadNotificationSettings);
+  }, [executeApiCall]);
+
+  const handleWorkingDayChange = (day: WeekDay, checked: boolean) => {
+    setWorkingDays(checked ? [...workingDays, day] : workingDays.filter((workingDay) => workingDay !== day));
+  };
+
+  const selectedWorkingDaysLabel = weekDays
+    .filter((day) => workingDays.includes(day))
+    .map((day) => t(`settings.preferences.weekDays.${day}`))
+    .join(", ");
+
+  const handleSave = async () => {
+    await executeApiCall(async () => {
+      await apiPut("/api-ui/users/notification-settings", {
+        noActiveEntryEnabled,
+        workingHoursFrom,
+        workingHoursTo,
+        workingDays: weekDays.filter((day) => workingDays.includes(day)),
+        longRunningEntryEnabled,
+        longRunningEntryMinutes,
+        dailyGoalReachedEnabled,
+      });
+      // Reminders are browser notifications, which the user has to allow
+      if (noActiveEntryEnabled || longRunningEntryEnabled || dailyGoalReachedEnabled) {
+        await requestNotificationPermission();
+      }
+      return t("settings.notifications.updateSuccess");
+    });
+  };
+
+  return (
+    <Card className="border-none shadow-md">
+      <CardHeader>
+        <CardTitle data-testid="notifications-title">{t("settings.notifications.title")}</CardTitle>
+        <CardDescription>{t("settings.notifications.subtitle")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-4">{formMessage}</div>
+
+        <div className="space-y-4">
+          <div className="space-y-4 rounded-md border border-input bg-background/30 p-4">
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="notifications-no-active-entry"
+                checked={noActiveEntryEnabled}
+                onCheckedChange={(checked) => setNoActiveEntryEnabled(checked === true)}
+                disabled={apiCallInProgress}
+                data-testid="notifications-no-active-entry-toggle"
+              />
+              <div className="-mt-0.5 space-y-1">
+                <Label htmlFor="notifications-no-active-entry" className="cursor-pointer leading-none text-foreground">
+                  {t("settings.notifications.noActiveEntry.title")}
+                </Label>
+                <p className="text-sm text-muted-foreground">{t("settings.notifications.noActiveEntry.description")}</p>
+              </div>
+            </div>
+
+            {noActiveEntryEnabled && (
+              <div className="space-y-4" data-testid="notifications-working-hours-section">
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-foreground">{t("settings.notifications.noActiveEntry.from")}</Label>
+                    <TimePicker
+                      key={`from-${workingHoursFrom}`}
+                      value={localTimeToDate(workingHoursFrom)}
+                      onChange={(date) => setWorkingHoursFrom(dateToLocalTime(date))}
+                      disabled={apiCallInProgress}
+                      locale={locale}
+                      testIdPrefix="notifications-working-hours-from"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-foreground">{t("settings.notifications.noActiveEntry.to")}</Label>
+                    <TimePicker
+                      key={`to-${workingHoursTo}`}
+                      value={localTimeToDate(workingHoursTo)}
+                      onChange={(date) => setWorkingHoursTo(dateToLocalTime(date))}
+                      disabled={apiCallInProgress}
+                      locale={locale}
+                      testIdPrefix="notifications-working-hours-to"
+                    />
+                  </div>
+                </div>
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={apiCallInProgress}
+                      className="min-h-10 w-full justify-between text-left font-normal text-foreground sm:w-[360px]"
+                      data-testid="notifications-working-days-trigger"
+                    >
+                      <span className="truncate" data-testid="notifications-working-days-summary">
+                        {selectedWorkingDaysLabel || t("settings.notifications.noActiveEntry.workingDaysPlaceholder")}
+                      </span>
+                      <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-70" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent className="dark w-[var(--radix-dropdown-menu-trigger-width)]" align="start">
+                    {weekDays.map((day) => (
+                      <DropdownMenuCheckboxItem
+                        key={day}
+                        checked={workingDays.includes(day)}
+                        onCheckedChange={(checked) => handleWorkingDayChange(day, checked === true)}
+                        onSelect={(event) => event.preventDefault()}
+                        data-testid={`notifications-working-day-${day}`}
+                      >
+                        {t(`settings.preferences.weekDays.${day}`)}
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4 rounded-md border border-input bg-background/30 p-4">
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="notifications-long-running-entry"
+                checked={longRunningEntryEnabled}
+                onCheckedChange={(checked) => setLongRunningEntryEnabled(checked === true)}
+                disabled={apiCallInProgress}
+                data-testid="notifications-long-running-entry-toggle"
+              />
+              <div className="-mt-0.5 space-y-1">
+                <Label
+                  htmlFor="notifications-long-running-entry"
+                  className="cursor-pointer leading-none text-foreground"
+                >
+                  {t("settings.notifications.longRunningEntry.title")}
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  {t("settings.notifications.longRunningEntry.description")}
+                </p>
+              </div>
+            </div>
+
+            {longRunningEntryEnabled && (
+              <div className="space-y-2">
+                <Label htmlFor="notifications-long-running-entry-minutes" className="text-foreground">
+                  {t("settings.notifications.longRunningEntry.minutes")}
+                </Label>
+                <Input
+                  id="notifications-long-running-entry-minutes"
+                  type="number"
+                  min={1}
+                  value={longRunningEntryMinutes}
+                  onChange={(e) => setLongRunningEntryMinutes(Math.max(0, Number(e.target.value) || 0))}
+                  disabled={apiCallInProgress}
+                  className="w-20 text-center font-mono text-foreground [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none"
+                  data-testid="notifications-long-running-entry-minutes-input"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-md border border-input bg-background/30 p-4">
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="notifications-daily-goal-reached"
+                checked={dailyGoalReachedEnabled}
+                onCheckedChange={(checked) => setDailyGoalReachedEnabled(checked === true)}
+                disabled={apiCallInProgress}
+                data-testid="notifications-daily-goal-reached-toggle"
+              />
+              <div className="-mt-0.5 space-y-1">
+                <Label
+                  htmlFor="notifications-daily-goal-reached"
+                  className="cursor-pointer leading-none text-foreground"
+                >
+                  {t("settings.notifications.dailyGoalReached.title")}
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  {t("settings.notifications.dailyGoalReached.description")}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <Button
+            onClick={handleSave}
+            disabled={apiCallInProgress}
+            data-testid="save-notifications-button"
+            className="bg-teal-600 hover:bg-teal-700"
+          >
+            {apiCallInProgress ? t("settings.notifications.saving") : t("settings.notifications.save")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiGet, apiPut } from "@/lib/api";
+import { requestNotificationPermission } from "@/lib/browser-notifications";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import type { PomodoroIntervalEndAction, PomodoroSettings } from "@/components/time-logs/types";
+
+const intervalEndActions: PomodoroIntervalEndAction[] = ["NOTIFY", "STOP_ENTRY", "START_BREAK"];
+
+const numberInputClassName =
+  "w-20 text-center font-mono text-foreground [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none";
+
+export function PomodoroSettingsPanel() {
+  const { t } = useTranslation();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("pomodoro-settings");
+  const [enabled, setEnabled] = useState(false);
+  const [workMinutes, setWorkMinutes] = useState(25);
+  const [breakMinutes, setBreakMinutes] = useState(5);
+  const [intervalEndAction, setIntervalEndAction] = useState<PomodoroIntervalEndAction>("NOTIFY");
+  const [breakTag, setBreakTag] = useState("break");
+
+  const loadPomodoroSettings = async () => {
+    const data = await apiGet<PomodoroSettings>("/api-ui/users/pomodoro-settings");
+    setEnabled(data.enabled);
+    setWorkMinutes(data.workMinutes);
+    setBreakMinutes(data.breakMinutes);
+    setIntervalEndAction(data.intervalEndAction);
+    setBreakTag(data.breakTag);
+  };
+
+  useEffect(() => {
+    void executeApiCall(loadPomodoroSettings);
+  }, [executeApiCall]);
+
+  const handleSave = async () => {
+    await executeApiCall(async () => {
+      await apiPut("/api-ui/users/pomodoro-settings", {
+        enabled,
+        workMinutes,
+        breakMinutes,
+        intervalEndAction,
+        breakTag,
+      });
+      // Interval ends are announced with browser notifications, if the user allows them
+      if (enabled) {
+        await requestNotificationPermission();
+      }
+      return t("settings.pomodoro.updateSuccess");
+    });
+  };
+
+  return (
+    <Card className="border-none shadow-md">
+      <CardHeader>
+        <CardTitle data-testid="pomodoro-title">{t("settings.pomodoro.title")}</CardTitle>
+        <CardDescription>{t("settings.pomodoro.subtitle")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-4">{formMessage}</div>
+
+        <div className="space-y-4">
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="pomodoro-enabled"
+              checked={enabled}
+              onCheckedChange={(checked) => setEnabled(checked === true)}
+              disabled={apiCallInProgress}
+              data-testid="pomodoro-toggle"
+            />
+            <div className="-mt-0.5 space-y-1">
+              <Label htmlFor="pomodoro-enabled" className="cursor-pointer leading-none text-foreground">
+                {t("settings.pomodoro.enabled")}
+              </Label>
+              <p className="text-sm text-muted-foreground">{t("settings.pomodoro.description")}</p>
+            </div>
+          </div>
+
+          {enabled && (
+            <div className="space-y-4" data-testid="pomodoro-section">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="pomodoro-work-minutes" className="text-foreground">
+                    {t("settings.pomodoro.workMinutes")}
+                  </Label>
+                  <Input
+                    id="pomodoro-work-minutes"
+                    type="number"
+                    min={1}
+                    value={workMinutes}
+                    onChange={(e) => setWorkMinutes(Math.max(0, Number(e.target.value) || 0))}
+                    disabled={apiCallInProgress}
+                    className={numberInputClassName}
+                    data-testid="pomodoro-work-minutes-input"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="pomodoro-break-minutes" className="text-foreground">
+                    {t("settings.pomodoro.breakMinutes")}
+                  </Label>
+                  <Input
+                    id="pomodoro-break-minutes"
+                    type="number"
+                    min={1}
+                    value={breakMinutes}
+                    onChange={(e) => setBreakMinutes(Math.max(0, Number(e.target.value) || 0))}
+                    disabled={apiCallInProgress}
+                    className={numberInputClassName}
+                    data-testid="pomodoro-break-minutes-input"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="pomodoro-interval-end-action" className="text-foreground">
+                  {t("settings.pomodoro.intervalEndAction")}
+                </Label>
+                <Select
+                  value={intervalEndAction}
+                  onValueChange={(value) => setIntervalEndAction(value as PomodoroIntervalEndAction)}
+                  disabled={apiCallInProgress}
+                >
+                  <SelectTrigger
+                    id="pomodoro-interval-end-action"
+                    className="w-full text-foreground sm:w-[360px]"
+                    data-testid="pomodoro-interval-end-action-select"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="dark">
+                    {intervalEndActions.map((action) => (
+                      <SelectItem
+                        key={action}
+                        value={action}
+                        data-testid={`pomodoro-interval-end-action-option-${action}`}
+                      >
+                        {t(`settings.pomodoro.intervalEndActions.${action}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="pomodoro-break-tag" className="text-foreground">
+                  {t("settings.pomodoro.breakTag")}
+                </Label>
+                <p className="text-sm text-muted-foreground">{t("settings.pomodoro.breakTagDescription")}</p>
+                <Input
+                  id="pomodoro-break-tag"
+                  value={breakTag}
+                  onChange={(e) => setBreakTag(e.target.value)}
+                  disabled={apiCallInProgress}
+                  className="w-full text-foreground sm:w-[360px]"
+                  data-testid="pomodoro-break-tag-input"
+                />
+              </div>
+            </div>
+          )}
+
+          <Button
+            onClick={handleSave}
+            disabled={apiCallInProgress}
+            data-testid="save-pomodoro-button"
+            className="bg-teal-600 hover:bg-teal-700"
+          >
+            {apiCallInProgress ? t("settings.pomodoro.saving") : t("settings.pomodoro.save")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiGet, apiPut } from "@/lib/api";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import type { RoundingApplication, RoundingDirection, RoundingSettings } from "@/components/time-logs/types";
+
+const directions: RoundingDirection[] = ["UP", "DOWN", "NEAREST"];
+const applications: RoundingApplication[] = ["ON_DISPLAY", "ON_STOP"];
+
+const numberInputClassName =
+  "w-20 text-center font-mono text-foreground [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none";
+
+export function RoundingSettingsPanel() {
+  const { t } = useTranslation();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("rounding-settings");
+  const [enabled, setEnabled] = useState(false);
+  const [incrementMinutes, setIncrementMinutes] = useState(15);
+  const [direction, setDirection] = useState<RoundingDirection>("NEAREST");
+  const [application, setApplication] = useState<RoundingApplication>("ON_DISPLAY");
+
+  const loadRoundingSettings = async () => {
+    const data = await apiGet<RoundingSettings>("/api-ui/users/rounding-settings");
+    setEnabled(data.enabled);
+    setIncrementMinutes(data.incrementMinutes);
+    setDirection(data.direction);
+    setApplication(data.application);
+  };
+
+  useEffect(() => {
+    void executeApiCall(loadRoundingSettings);
+  }, [executeApiCall]);
+
+  const handleSave = async () => {
+    await executeApiCall(async () => {
+      await apiPut("/api-ui/users/rounding-settings", {
+        enabled,
+        incrementMinutes,
+        direction,
+        application,
+      });
+      return t("settings.rounding.updateSuccess");
+    });
+  };
+
+  return (
+    <Card className="border-none shadow-md">
+      <CardHeader>
+        <CardTitle data-testid="rounding-title">{t("settings.rounding.title")}</CardTitle>
+        <CardDescription>{t("settings.rounding.subtitle")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-4">{formMessage}</div>
+
+        <div className="space-y-4">
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="rounding-enabled"
+              checked={enabled}
+              onCheckedChange={(checked) => setEnabled(checked === true)}
+              disabled={apiCallInProgress}
+              data-testid="rounding-toggle"
+            />
+            <div className="-mt-0.5 space-y-1">
+              <Label htmlFor="rounding-enabled" className="cursor-pointer leading-none text-foreground">
+                {t("settings.rounding.enabled")}
+              </Label>
+              <p className="text-sm text-muted-foreground">{t("settings.rounding.description")}</p>
+            </div>
+          </div>
+
+          {enabled && (
+            <div className="space-y-4" data-testid="rounding-section">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rounding-increment-minutes" className="text-foreground">
+                    {t("settings.rounding.incrementMinutes")}
+                  </Label>
+                  <Input
+                    id="rounding-increment-minutes"
+                    type="number"
+                    min={1}
+                    value={incrementMinutes}
+                    onChange={(e) => setIncrementMinutes(Math.max(0, Number(e.target.value) || 0))}
+                    disabled={apiCallInProgress}
+                    className={numberInputClassName}
+                    data-testid="rounding-increment-minutes-input"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="rounding-direction" className="text-foreground">
+                    {t("settings.rounding.direction")}
+                  </Label>
+                  <Select
+                    value={direction}
+                    onValueChange={(value) => setDirection(value as RoundingDirection)}
+                    disabled={apiCallInProgress}
+                  >
+                    <SelectTrigger
+                      id="rounding-direction"
+                      className="w-[200px] text-foreground"
+                      data-testid="rounding-direction-select"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="dark">
+                      {directions.map((value) => (
+                        <SelectItem key={value} value={value} data-testid={`rounding-direction-option-${value}`}>
+                          {t(`settings.rounding.directions.${value}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rounding-application" className="text-foreground">
+                  {t("settings.rounding.application")}
+                </Label>
+                <Select
+                  value={application}
+                  onValueChange={(value) => setApplication(value as RoundingApplication)}
+                  disabled={apiCallInProgress}
+                >
+                  <SelectTrigger
+                    id="rounding-application"
+                    className="w-full text-foreground sm:w-[360px]"
+                    data-testid="rounding-application-select"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="dark">
+                    {applications.map((value) => (
+                      <SelectItem key={value} value={value} data-testid={`rounding-application-option-${value}`}>
+                        {t(`settings.rounding.applications.${value}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  {t(`settings.rounding.applicationDescriptions.${application}`)}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <Button
+            onClick={handleSave}
+            disabled={apiCallInProgress}
+            data-testid="save-rounding-button"
+            className="bg-teal-600 hover:bg-teal-700"
+          >
+            {apiCallInProgress ? t("settings.rounding.saving") : t("settings.rounding.save")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Trash2 } from "lucide-react";
+import { apiDelete, apiGet, apiPut } from "@/lib/api";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import type { TagRate } from "@/components/time-logs/types";
+
+interface TagRatesResponse {
+  rates: TagRate[];
+}
+
+const DEFAULT_CURRENCY = "USD";
+
+export function TagRatesPanel() {
+  const { t, i18n } = useTranslation();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("tag-rates");
+  const [rates, setRates] = useState<TagRate[]>([]);
+  const [tag, setTag] = useState("");
+  const [hourlyRate, setHourlyRate] = useState("");
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+
+  const loadTagRates = async () => {
+    const data = await apiGet<TagRatesResponse>("/api-ui/tag-rates");
+    setRates(data.rates);
+  };
+
+  useEffect(() => {
+    void executeApiCall(loadTagRates);
+  }, [executeApiCall]);
+
+  const handleSave = async () => {
+    await executeApiCall(async () => {
+      await apiPut("/api-ui/tag-rates", {
+        tag: tag.trim(),
+        hourlyRate: Number(hourlyRate),
+        currency,
+      });
+      await loadTagRates();
+      setTag("");
+      setHourlyRate("");
+      return t("settings.tagRates.saveSuccess");
+    });
+  };
+
+  const handleDelete = async (tagRate: TagRate) => {
+    await executeApiCall(async () => {
+      await apiDelete(`/api-ui/tag-rates/${tagRate.id}`);
+      await loadTagRates();
+      return t("settings.tagRates.deleteSuccess");
+    });
+  };
+
+  // Selecting an existing rate fills the form to update it
+  const handleEdit = (tagRate: TagRate) => {
+    setTag(tagRate.tag);
+    setHourlyRate(String(tagRate.hourlyRate));
+    setCurrency(tagRate.currency);
+  };
+
+  const formatRate = (tagRate: TagRate) =>
+    new Intl.NumberFormat(i18n.language, { style: "currency", currency: tagRate.currency }).format(tagRate.hourlyRate);
+
+  return (
+    <Card className="border-none shadow-md">
+      <CardHeader>
+        <CardTitle data-testid="tag-rates-title">{t("settings.tagRates.title")}</CardTitle>
+        <CardDescription>{t("settings.tagRates.subtitle")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-4">{formMessage}</div>
+
+        <div className="space-y-4">
+          {rates.length === 0 ? (
+            <div className="text-center py-4 text-muted-foreground" data-testid="tag-rates-empty">
+              {t("settings.tagRates.noRates")}
+            </div>
+          ) : (
+            <Table data-testid="tag-rates-table">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("settings.tagRates.table.tag")}</TableHead>
+                  <TableHead>{t("settings.tagRates.table.hourlyRate")}</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((tagRate) => (
+                  <TableRow key={tagRate.id} data-testid="tag-rate-row">
+                    <TableCell
+                      className="cursor-pointer text-foreground hover:underline"
+                      onClick={() => handleEdit(tagRate)}
+                      title={t("settings.tagRates.edit")}
+                      data-testid="tag-rate-tag"
+                    >
+                      {tagRate.tag}
+                    </TableCell>
+                    <TableCell className="font-mono text-foreground" data-testid="tag-rate-hourly-rate">
+                      {formatRate(tagRate)}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(tagRate)}
+                        disabled={apiCallInProgress}
+                        data-testid="delete-tag-rate-button"
+                        className="text-foreground"
+                        title={t("settings.tagRates.delete")}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tag-rate-tag" className="text-foreground">
+                {t("settings.tagRates.tag")}
+              </Label>
+              <Input
+                id="tag-rate-tag"
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                disabled={apiCallInProgress}
+                className="w-[200px] text-foreground"
+                data-testid="tag-rate-tag-input"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tag-rate-hourly-rate" className="text-foreground">
+                {t("settings.tagRates.hourlyRate")}
+              </Label>
+              <Input
+                id="tag-rate-hourly-rate"
+                type="number"
+                min={0}
+                step="0.01"
+                value={hourlyRate}
+                onChange={(e) => setHourlyRate(e.target.value)}
+                disabled={apiCallInProgress}
+                className="w-[120px] font-mono text-foreground"
+                data-testid="tag-rate-hourly-rate-input"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tag-rate-currency" className="text-foreground">
+                {t("settings.tagRates.currency")}
+              </Label>
+              <Input
+                id="tag-rate-currency"
+                value={currency}
+                maxLength={3}
+                onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+                disabled={apiCallInProgress}
+                className="w-20 text-center font-mono text-foreground"
+                data-testid="tag-rate-currency-input"
+              />
+            </div>
+
+            <Button
+              onClick={handleSave}
+              disabled={apiCallInProgress || !tag.trim() || !hourlyRate}
+              data-testid="save-tag-rate-button"
+              className="bg-teal-600 hover:bg-teal-700"
+            >
+              {apiCallInProgress ? t("settings.tagRates.saving") : t("settings.tagRates.save")}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
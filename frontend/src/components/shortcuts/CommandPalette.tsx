@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { apiGet, apiPost } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { formatShortcutKeys, KEYBOARD_SHORTCUTS, type ShortcutAction } from "@/lib/keyboard-shortcuts";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+
+interface AutocompleteEntry {
+  title: string;
+  tags: string[];
+  lastStartTime: string;
+  billable: boolean;
+}
+
+interface PaletteItem {
+  key: string;
+  label: string;
+  hint?: string;
+  onSelect: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Shortcut actions available on the current page */
+  actions: ShortcutAction[];
+  onAction: (action: ShortcutAction) => void;
+}
+
+/**
+ * Searchable list of shortcut actions, portal pages and recent entries titles (to start a new entry with).
+ */
+export function CommandPalette({ open, onOpenChange, actions, onAction }: CommandPaletteProps) {
+  const { t } = useTranslation();
+  // Selected command runs once the dialog is closed, so that it can move focus outside of the dialog
+  const pendingCommandRef = useRef<(() => void) | null>(null);
+
+  const runAfterClose = (command: () => void) => {
+    pendingCommandRef.current = command;
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="p-4"
+        data-testid="command-palette"
+        onCloseAutoFocus={(event) => {
+          const command = pendingCommandRef.current;
+          if (!command) return;
+          event.preventDefault();
+          pendingCommandRef.current = null;
+          command();
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle className="text-foreground">{t("shortcuts.palette.title")}</DialogTitle>
+        </DialogHeader>
+        {/* Content is mounted on open only, so that every opening starts with an empty query */}
+        {open && <CommandPaletteContent actions={actions} onAction={onAction} runAfterClose={runAfterClose} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface CommandPaletteContentProps {
+  actions: ShortcutAction[];
+  onAction: (action: ShortcutAction) => void;
+  runAfterClose: (command: () => void) => void;
+}
+
+function CommandPaletteContent({ actions, onAction, runAfterClose }: CommandPaletteContentProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("command-palette");
+  const [query, setQuery] = useState("");
+  const [recentEntries, setRecentEntries] = useState<AutocompleteEntry[]>([]);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  // Debounced lookup of previously used titles
+  useEffect(() => {
+    const searchQuery = query.trim();
+    if (!searchQuery) {
+      setRecentEntries([]);
+      return;
+    }
+
+    const abortController = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await apiGet<{ entries: AutocompleteEntry[] }>(
+          `/api-ui/time-log-entries/autocomplete?query=${encodeURIComponent(searchQuery)}`,
+          abortController.signal
+        );
+        setRecentEntries(response.entries || []);
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") return;
+        console.error("Failed to fetch command palette entries:", err);
+        setRecentEntries([]);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeout);
+      abortController.abort();
+    };
+  }, [query]);
+
+  const handleStartEntry = async (entry: AutocompleteEntry) => {
+    await executeApiCall(async () => {
+      await apiPost("/api-ui/time-log-entries", {
+        title: entry.title,
+        tags: entry.tags,
+        billable: entry.billable,
+        stopActiveEntry: true,
+      });
+      // Time log page picks the started entry from the server events
+      runAfterClose(() => {
+        if (location.pathname !== "/portal/time-logs") navigate("/portal/time-logs");
+      });
+    });
+  };
+
+  const pages = [
+    { href: "/portal/time-logs", label: t("nav.timeEntry") },
+    { href: "/portal/search", label: t("nav.search") },
+    { href: "/portal/settings", label: t("nav.settings") },
+    { href: "/portal/profile", label: t("nav.profile") },
+  ];
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const matchesQuery = (label: string) => label.toLowerCase().includes(normalizedQuery);
+
+  const items: PaletteItem[] = [
+    ...KEYBOARD_SHORTCUTS.filter((shortcut) => actions.includes(shortcut.action)).map((shortcut) => ({
+      key: `action-${shortcut.action}`,
+      label: t(`shortcuts.actions.${shortcut.action}`),
+      hint: formatShortcutKeys(shortcut),
+      onSelect: () => runAfterClose(() => onAction(shortcut.action)),
+    })),
+    ...pages.map((page) => ({
+      key: `page-${page.href}`,
+      label: t("shortcuts.palette.goTo", { page: page.label }),
+      onSelect: () => runAfterClose(() => navigate(page.href)),
+    })),
+  ].filter((item) => matchesQuery(item.label));
+
+  recentEntries.forEach((entry) =>
+    items.push({
+      key: `entry-${entry.title}`,
+      label: t("shortcuts.palette.startEntry", { title: entry.title }),
+      hint: entry.tags.join(", "),
+      onSelect: () => handleStartEntry(entry),
+    })
+  );
+
+  const selectedIndex = Math.min(highlightedIndex, items.length - 1);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlightedIndex(selectedIndex < items.length - 1 ? selectedIndex + 1 : 0);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlightedIndex(selectedIndex > 0 ? selectedIndex - 1 : items.length - 1);
+    } else if (e.key === "Enter" && selectedIndex >= 0 && !apiCallInProgress) {
+      e.preventDefault();
+      items[selectedIndex].onSelect();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {formMessage}
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setHighlightedIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder={t("shortcuts.palette.placeholder")}
+        className="text-foreground"
+        autoFocus
+        data-testid="command-palette-input"
+      />
+      {items.length === 0 ? (
+        <div className="text-center py-2 text-sm text-muted-foreground" data-testid="command-palette-no-results">
+          {t("shortcuts.palette.noResults")}
+        </div>
+      ) : (
+        <div className="max-h-80 overflow-y-auto space-y-1">
+          {items.map((item, index) => (
+            <button
+              key={item.key}
+              type="button"
+              onClick={item.onSelect}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              disabled={apiCallInProgress}
+              className={cn(
+                "w-full flex items-center justify-between gap-4 text-left px-3 py-2 rounded-sm hover:bg-accent cursor-pointer transition-colors",
+                selectedIndex === index && "bg-accent"
+              )}
+              data-testid="command-palette-item"
+              data-highlighted={selectedIndex === index ? "true" : "false"}
+            >
+              <span className="text-sm text-foreground">{item.label}</span>
+              {item.hint && <span className="text-xs text-muted-foreground font-mono">{item.hint}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
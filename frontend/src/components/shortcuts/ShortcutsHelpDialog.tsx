@@ -0,0 +1,40 @@
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatShortcutKeys, KEYBOARD_SHORTCUTS } from "@/lib/keyboard-shortcuts";
+
+interface ShortcutsHelpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Overlay documenting all the portal keyboard shortcuts.
+ */
+export function ShortcutsHelpDialog({ open, onOpenChange }: ShortcutsHelpDialogProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="shortcuts-help">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">{t("shortcuts.help.title")}</DialogTitle>
+          <DialogDescription>{t("shortcuts.help.description")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {KEYBOARD_SHORTCUTS.map((shortcut) => (
+            <div
+              key={shortcut.action}
+              className="flex items-center justify-between gap-4 text-sm"
+              data-testid="shortcuts-help-item"
+            >
+              <span className="text-foreground">{t(`shortcuts.actions.${shortcut.action}`)}</span>
+              <kbd className="px-2 py-0.5 rounded border border-border bg-muted font-mono text-xs text-foreground">
+                {formatShortcutKeys(shortcut)}
+              </kbd>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
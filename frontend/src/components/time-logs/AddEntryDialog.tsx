@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { TimePicker } from "@/components/ui/time-picker";
+import { InlineCalendar } from "@/components/ui/inline-calendar";
+import { AlertCircle } from "lucide-react";
+import { apiGet, apiPost } from "@/lib/api";
+import { findOverlappingEntries } from "@/lib/overlap-detection";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import { EntryAutocomplete } from "./EntryAutocomplete";
+import { TagSelector } from "./TagSelector";
+import type { TimeEntry, TimeLogEntry } from "./types";
+
+interface AddEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Day the new entry is added to, used to pre-fill start and end times */
+  date: Date;
+  /** Times to pre-fill instead of the defaults for the day */
+  initialTimes?: EntryTimes;
+  locale: string;
+  startOfWeek: number;
+  onDataChange: () => Promise<void>;
+}
+
+interface EntryTimes {
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Dialog for adding a past time log entry with explicit start and end times,
+ * without running the timer.
+ */
+export function AddEntryDialog({
+  open,
+  onOpenChange,
+  date,
+  initialTimes,
+  locale,
+  startOfWeek,
+  onDataChange,
+}: AddEntryDialogProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" data-testid="add-entry-dialog">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">{t("timeLogs.addEntry.title")}</DialogTitle>
+        </DialogHeader>
+        {/* Form is mounted on open only, so that pickers are initialized with fresh default times */}
+        <AddEntryForm
+          initialTimes={initialTimes ?? getDefaultTimes(date)}
+          locale={locale}
+          startOfWeek={startOfWeek}
+          onDataChange={onDataChange}
+          onClose={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AddEntryFormProps {
+  initialTimes: EntryTimes;
+  locale: string;
+  startOfWeek: number;
+  onDataChange: () => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Calculates default times for a new entry: the last hour for today,
+ * and 09:00 - 10:00 for any other day.
+ */
+function getDefaultTimes(date: Date): EntryTimes {
+  const now = new Date();
+  const isToday = date.toDateString() === now.toDateString();
+
+  if (isToday) {
+    const endTime = new Date(now);
+    endTime.setSeconds(0, 0);
+    const startTime = new Date(endTime);
+    startTime.setHours(startTime.getHours() - 1);
+    return { startTime, endTime };
+  }
+
+  const startTime = new Date(date);
+  startTime.setHours(9, 0, 0, 0);
+  const endTime = new Date(date);
+  endTime.setHours(10, 0, 0, 0);
+  return { startTime, endTime };
+}
+
+function AddEntryForm({ initialTimes, locale, startOfWeek, onDataChange, onClose }: AddEntryFormProps) {
+  const { t } = useTranslation();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("add-entry");
+  const [title, setTitle] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [billable, setBillable] = useState(false);
+  const [startTime, setStartTime] = useState(initialTimes.startTime);
+  const [endTime, setEndTime] = useState(initialTimes.endTime);
+  const [existingEntries, setExistingEntries] = useState<TimeLogEntry[]>([]);
+
+  const getValidationMessage = () => {
+    if (endTime <= startTime) {
+      return t("timeLogs.validation.mustBeAfter");
+    }
+    if (endTime > new Date()) {
+      return t("timeLogs.addEntry.endInFuture");
+    }
+    return null;
+  };
+
+  const validationMessage = getValidationMessage();
+
+  // Times can be moved to any day, so the entries to check against are loaded for the selected range
+  useEffect(() => {
+    if (endTime <= startTime) {
+      setExistingEntries([]);
+      return;
+    }
+
+    const abortController = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await apiGet<{ entries: TimeLogEntry[] }>(
+          `/api-ui/time-log-entries/overlapping?startTime=${encodeURIComponent(startTime.toISOString())}&endTime=${encodeURIComponent(endTime.toISOString())}`,
+          abortController.signal
+        );
+        setExistingEntries(response.entries || []);
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") return;
+        console.error("Failed to fetch overlapping entries:", err);
+        setExistingEntries([]);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeout);
+      abortController.abort();
+    };
+  }, [startTime.getTime(), endTime.getTime()]);
+
+  const overlappingEntries = validationMessage
+    ? []
+    : findOverlappingEntries(startTime.toISOString(), endTime.toISOString(), existingEntries);
+
+  const handleSave = async () => {
+    await executeApiCall(async () => {
+      await apiPost<TimeEntry>("/api-ui/time-log-entries/with-times", {
+        title: title.trim() || "New Entry",
+        tags,
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        billable,
+      });
+      await onDataChange();
+      onClose();
+    });
+  };
+
+  return (
+    <>
+      {formMessage}
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <EntryAutocomplete
+            value={title}
+            onChange={setTitle}
+            onSelect={(entry) => {
+              setTitle(entry.title);
+              setTags(entry.tags);
+            }}
+            placeholder={t("timeLogs.currentEntry.placeholder")}
+            disabled={apiCallInProgress}
+            testId="add-entry-title-input"
+            locale={locale}
+          />
+          <TagSelector
+            selectedTags={tags}
+            onTagsChange={setTags}
+            disabled={apiCallInProgress}
+            testIdPrefix="add-entry-tags"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label className="text-foreground">{t("timeLogs.currentEntry.startTimeLabel")}</Label>
+            <TimePicker
+              value={startTime}
+              onChange={setStartTime}
+              disabled={apiCallInProgress}
+              locale={locale}
+              testIdPrefix="add-entry-start-time"
+            />
+            <InlineCalendar
+              value={startTime}
+              onChange={setStartTime}
+              locale={locale}
+              startOfWeek={startOfWeek}
+              testIdPrefix="add-entry-start"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-foreground">{t("timeLogs.currentEntry.endTimeLabel")}</Label>
+            <TimePicker
+              value={endTime}
+              onChange={setEndTime}
+              disabled={apiCallInProgress}
+              locale={locale}
+              testIdPrefix="add-entry-end-time"
+            />
+            <InlineCalendar
+              value={endTime}
+              onChange={setEndTime}
+              locale={locale}
+              startOfWeek={startOfWeek}
+              testIdPrefix="add-entry-end"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="add-entry-billable"
+            checked={billable}
+            onCheckedChange={(checked) => setBillable(checked === true)}
+            disabled={apiCallInProgress}
+            data-testid="add-entry-billable-checkbox"
+          />
+          <Label htmlFor="add-entry-billable" className="text-sm text-foreground">
+            {t("timeLogs.addEntry.billable")}
+          </Label>
+        </div>
+
+        {validationMessage && (
+          <div className="text-sm text-destructive" data-testid="add-entry-validation-message">
+            {validationMessage}
+          </div>
+        )}
+
+        {overlappingEntries.length > 0 && (
+          <div className="flex items-start gap-2 text-sm text-yellow-500" data-testid="add-entry-overlap-warning">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <div>
+              {overlappingEntries.map((entry) => (
+                <div key={entry.id}>{t("timeLogs.overlapWarning", { title: entry.title })}</div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+      <DialogFooter>
+        <Button
+          variant="ghost"
+          onClick={onClose}
+          disabled={apiCallInProgress}
+          data-testid="add-entry-cancel-button"
+          className="text-foreground"
+        >
+          {t("timeLogs.addEntry.cancel")}
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={apiCallInProgress || validationMessage !== null}
+          data-testid="add-entry-save-button"
+          className="bg-teal-600 hover:bg-teal-700"
+        >
+          {apiCallInProgress
+            ? t("timeLogs.addEntry.saving")
+            : overlappingEntries.length > 0
+              ? t("timeLogs.addEntry.saveAnyway")
+              : t("timeLogs.addEntry.save")}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
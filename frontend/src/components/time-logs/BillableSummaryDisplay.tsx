@@ -0,0 +1,65 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { useDurationFormat } from "@/hooks/useDurationFormat";
+import { useDisplayRounding } from "@/hooks/useDisplayRounding";
+import { calculateBillableSummary } from "@/lib/billing";
+import type { TimePeriod } from "@/lib/day-attribution";
+import type { TagRate, TimeLogEntry } from "./types";
+
+interface BillableSummaryDisplayProps {
+  entries: TimeLogEntry[];
+  tagRates: TagRate[];
+  locale: string;
+  testId?: string;
+  /** When provided, only the time of the entries within the period is counted */
+  period?: TimePeriod;
+}
+
+/**
+ * Displays the billable time of the entries and the amounts earned for it, next to the totals.
+ * Nothing is displayed if none of the entries is billable; updates every second if a billable entry is active.
+ */
+export function BillableSummaryDisplay({ entries, tagRates, locale, testId, period }: BillableSummaryDisplayProps) {
+  const { t } = useTranslation();
+  const { formatDuration } = useDurationFormat();
+  const rounding = useDisplayRounding();
+  const hasBillableEntries = entries.some((e) => e.billable);
+  const hasActiveBillableEntry = entries.some((e) => e.billable && e.endTime == null);
+
+  const calculateSummary = () => calculateBillableSummary(entries, tagRates, new Date(), period, rounding);
+
+  const [summary, setSummary] = useState(() => calculateSummary());
+
+  useEffect(() => {
+    setSummary(calculateSummary());
+  }, [entries, tagRates, period?.from.getTime(), period?.to.getTime(), rounding]);
+
+  useEffect(() => {
+    if (!hasActiveBillableEntry) return;
+
+    const interval = setInterval(() => {
+      setSummary(calculateSummary());
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [hasActiveBillableEntry, entries, tagRates, period?.from.getTime(), period?.to.getTime(), rounding]);
+
+  if (!hasBillableEntries) return null;
+
+  const formattedAmounts = summary.amounts.map(({ currency, amount }) =>
+    new Intl.NumberFormat(locale, { style: "currency", currency }).format(amount)
+  );
+
+  return (
+    <div className="text-sm text-muted-foreground" data-testid={testId}>
+      {t("timeLogs.billable.summary")}:{" "}
+      <span data-testid="billable-duration">{formatDuration(summary.billableDuration)}</span>
+      {formattedAmounts.length > 0 && (
+        <>
+          {" · "}
+          <span data-testid="billable-amount">{formattedAmounts.join(", ")}</span>
+        </>
+      )}
+    </div>
+  );
+}
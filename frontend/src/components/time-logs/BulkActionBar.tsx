@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import { Pencil, Tag, Trash2, X, Loader2 } from "lucide-react";
+import { apiPatch, apiPut, apiRequest } from "@/lib/api";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import { useUndo } from "@/hooks/useUndo";
+import { restoreDeletedEntries, restoreEntriesState } from "@/lib/entry-undo";
+import { EntryAutocomplete } from "./EntryAutocomplete";
+import { TagListContent } from "./TagListContent";
+import type { TimeLogEntry } from "./types";
+
+interface BulkActionBarProps {
+  /** Selected entries, possibly spanning several days */
+  selectedEntries: TimeLogEntry[];
+  locale: string;
+  onClearSelection: () => void;
+  onDataChange: () => Promise<void>;
+}
+
+/**
+ * Sticky action bar for the entries selected in the week view.
+ * Allows to retitle, add or remove tags and delete all selected entries at once.
+ */
+export function BulkActionBar({ selectedEntries, locale, onClearSelection, onDataChange }: BulkActionBarProps) {
+  const { t } = useTranslation();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("bulk-actions");
+  const { registerUndo } = useUndo();
+  const [retitleOpen, setRetitleOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [addTagsOpen, setAddTagsOpen] = useState(false);
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [removeTagsOpen, setRemoveTagsOpen] = useState(false);
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+
+  const entryIds = selectedEntries.map((entry) => entry.id);
+
+  const registerUpdateUndo = () => {
+    registerUndo(t("timeLogs.undo.entriesUpdated", { count: selectedEntries.length }), () =>
+      restoreEntriesState(selectedEntries)
+    );
+  };
+  const tagsInSelection = Array.from(new Set(selectedEntries.flatMap((entry) => entry.tags || []))).sort();
+
+  const handleRetitleOpenChange = (open: boolean) => {
+    setRetitleOpen(open);
+    if (open) setTitle("");
+  };
+
+  const handleAddTagsOpenChange = (open: boolean) => {
+    setAddTagsOpen(open);
+    if (open) setTagsToAdd([]);
+  };
+
+  const handleRemoveTagsOpenChange = (open: boolean) => {
+    setRemoveTagsOpen(open);
+    if (open) setTagsToRemove([]);
+  };
+
+  const handleRetitle = async () => {
+    if (!title.trim() || title.length > 1000) return;
+    await executeApiCall(async () => {
+      await apiPatch("/api-ui/time-log-entries/bulk-update-title", {
+        entryIds,
+        title: title.trim(),
+      });
+      await onDataChange();
+      setRetitleOpen(false);
+      registerUpdateUndo();
+    });
+  };
+
+  const handleAutocompleteSelect = async (selected: { title: string; tags: string[] }) => {
+    await executeApiCall(async () => {
+      await apiPut("/api-ui/time-log-entries/bulk-update", {
+        entryIds,
+        title: selected.title,
+        tags: selected.tags,
+      });
+      await onDataChange();
+      setRetitleOpen(false);
+      registerUpdateUndo();
+    });
+  };
+
+  const handleModifyTags = async (added: string[], removed: string[]) => {
+    if (added.length === 0 && removed.length === 0) return;
+    await executeApiCall(async () => {
+      await apiPatch("/api-ui/time-log-entries/bulk-modify-tags", {
+        entryIds,
+        tagsToAdd: added,
+        tagsToRemove: removed,
+      });
+      await onDataChange();
+      setAddTagsOpen(false);
+      setRemoveTagsOpen(false);
+      registerUpdateUndo();
+    });
+  };
+
+  const handleDelete = async () => {
+    await executeApiCall(async () => {
+      await apiRequest("/api-ui/time-log-entries/bulk-delete", {
+        method: "DELETE",
+        body: JSON.stringify({ entryIds }),
+      });
+      await onDataChange();
+      setDeleteDialogOpen(false);
+      onClearSelection();
+      registerUndo(t("timeLogs.undo.entriesDeleted", { count: entryIds.length }), () =>
+        restoreDeletedEntries(entryIds)
+      );
+    });
+  };
+
+  const toggleTagToRemove = (tag: string, checked: boolean) => {
+    setTagsToRemove((previous) => (checked ? [...previous, tag] : previous.filter((it) => it !== tag)));
+  };
+
+  return (
+    <div
+      className="sticky bottom-4 z-40 p-3 rounded-md border border-border bg-card shadow-lg space-y-2"
+      data-testid="bulk-action-bar"
+    >
+      {!deleteDialogOpen && formMessage}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-foreground mr-auto" data-testid="bulk-selected-count">
+          {t("timeLogs.bulkActions.selected", { count: selectedEntries.length })}
+        </span>
+
+        <Popover open={retitleOpen} onOpenChange={handleRetitleOpenChange}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={apiCallInProgress}
+              className="text-foreground"
+              data-testid="bulk-retitle-button"
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              {t("timeLogs.bulkActions.retitle")}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent
+            className="dark w-auto min-w-[300px] p-2"
+            side="top"
+            collisionPadding={20}
+            data-testid="bulk-retitle-popover"
+          >
+            <div className="flex items-center gap-2">
+              <EntryAutocomplete
+                value={title}
+                onChange={setTitle}
+                onSelect={handleAutocompleteSelect}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleRetitle();
+                  }
+                }}
+                disabled={apiCallInProgress}
+                testId="bulk-retitle-input"
+                locale={locale}
+                placeholder={t("timeLogs.currentEntry.placeholder")}
+              />
+              <Button
+                onClick={handleRetitle}
+                disabled={!title.trim() || title.length > 1000 || apiCallInProgress}
+                className="bg-teal-600 hover:bg-teal-700"
+                size="sm"
+                data-testid="bulk-retitle-save-button"
+              >
+                {apiCallInProgress ? <Loader2 className="h-4 w-4 animate-spin" /> : t("timeLogs.bulkActions.apply")}
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Popover open={addTagsOpen} onOpenChange={handleAddTagsOpenChange}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={apiCallInProgress}
+              className="text-foreground"
+              data-testid="bulk-add-tags-button"
+            >
+              <Tag className="h-4 w-4 mr-2" />
+              {t("timeLogs.bulkActions.addTags")}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent
+            className="dark w-80 p-0"
+            side="top"
+            collisionPadding={20}
+            data-testid="bulk-add-tags-popover"
+          >
+            <TagListContent
+              selectedTags={tagsToAdd}
+              onTagsChange={setTagsToAdd}
+              disabled={apiCallInProgress}
+              testIdPrefix="bulk-add-tags"
+              isOpen={addTagsOpen}
+              onEnterWithEmptyInput={() => handleModifyTags(tagsToAdd, [])}
+              onEscape={() => setAddTagsOpen(false)}
+            />
+            <div className="flex justify-end p-2 border-t border-border">
+              <Button
+                onClick={() => handleModifyTags(tagsToAdd, [])}
+                disabled={tagsToAdd.length === 0 || apiCallInProgress}
+                className="bg-teal-600 hover:bg-teal-700"
+                size="sm"
+                data-testid="bulk-add-tags-apply-button"
+              >
+                {t("timeLogs.bulkActions.apply")}
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Popover open={removeTagsOpen} onOpenChange={handleRemoveTagsOpenChange}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={apiCallInProgress || tagsInSelection.length === 0}
+              className="text-foreground"
+              data-testid="bulk-remove-tags-button"
+            >
+              <X className="h-4 w-4 mr-2" />
+              {t("timeLogs.bulkActions.removeTags")}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent
+            className="dark w-64 p-0"
+            side="top"
+            collisionPadding={20}
+            data-testid="bulk-remove-tags-popover"
+          >
+            <div className="max-h-60 overflow-y-auto p-2 space-y-1">
+              {tagsInSelection.map((tag) => (
+                <label
+                  key={tag}
+                  className="flex items-center gap-2 p-1 rounded hover:bg-muted cursor-pointer text-sm text-foreground"
+                  data-testid={`bulk-remove-tags-item-${tag}`}
+                >
+                  <Checkbox
+                    checked={tagsToRemove.includes(tag)}
+                    onCheckedChange={(checked) => toggleTagToRemove(tag, checked === true)}
+                    disabled={apiCallInProgress}
+                    data-testid={`bulk-remove-tags-checkbox-${tag}`}
+                  />
+                  {tag}
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end p-2 border-t border-border">
+              <Button
+                onClick={() => handleModifyTags([], tagsToRemove)}
+                disabled={tagsToRemove.length === 0 || apiCallInProgress}
+                className="bg-teal-600 hover:bg-teal-700"
+                size="sm"
+                data-testid="bulk-remove-tags-apply-button"
+              >
+                {t("timeLogs.bulkActions.apply")}
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDeleteDialogOpen(true)}
+          disabled={apiCallInProgress}
+          className="text-destructive"
+          data-testid="bulk-delete-button"
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          {t("timeLogs.bulkActions.delete")}
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClearSelection}
+          disabled={apiCallInProgress}
+          className="text-foreground"
+          data-testid="bulk-clear-selection-button"
+          title={t("timeLogs.bulkActions.clearSelection")}
+          aria-label={t("timeLogs.bulkActions.clearSelection")}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ConfirmationDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        title={t("timeLogs.bulkActions.deleteDialog.title")}
+        description={t("timeLogs.bulkActions.deleteDialog.message", { count: selectedEntries.length })}
+        confirmLabel={apiCallInProgress ? t("timeLogs.deleting") : t("timeLogs.deleteDialog.confirm")}
+        cancelLabel={t("timeLogs.deleteDialog.cancel")}
+        onConfirm={handleDelete}
+        isConfirming={apiCallInProgress}
+        confirmTestId="bulk-delete-confirm-button"
+        dialogTestId="bulk-delete-dialog"
+      >
+        {formMessage}
+      </ConfirmationDialog>
+    </div>
+  );
+}
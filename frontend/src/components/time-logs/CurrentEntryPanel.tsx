@@ -1,21 +1,36 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useTranslation } from "react-i18next";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Play, Square } from "lucide-react";
-import { formatDateTime } from "@/lib/date-format";
+import { Play, Scissors, Square } from "lucide-react";
 import { DurationDisplay } from "./DurationDisplay";
 import { TagSelector } from "./TagSelector";
 import { EntryAutocomplete } from "./EntryAutocomplete";
-import { apiPost, apiPut } from "@/lib/api";
+import { SplitEntryDialog } from "./SplitEntryDialog";
+import { PomodoroCountdown } from "./PomodoroCountdown";
+import { StartTimeSelector } from "./StartTimeSelector";
+import { InlineTitleEdit } from "./InlineTitleEdit";
+import { InlineTimeEdit } from "./InlineTimeEdit";
+import { InlineTagsEdit } from "./InlineTagsEdit";
+import { FormMessage } from "@/components/ui/form-message";
+import { apiGet, apiPatch, apiPost, apiPut } from "@/lib/api";
+import { continueLastEntry } from "@/lib/entry-actions";
+import { getDefaultStartTime, validateStartTime } from "@/lib/backdated-start";
+import { restoreEntriesState } from "@/lib/entry-undo";
 import { useApiExecutor } from "@/hooks/useApiExecutor";
-import type { TimeEntry } from "./types";
+import { useUndo } from "@/hooks/useUndo";
+import { useShortcutAction } from "@/hooks/useKeyboardShortcuts";
+import { showBrowserNotification } from "@/lib/browser-notifications";
+import type { PomodoroIntervalKind } from "@/lib/pomodoro";
+import type { PomodoroSettings, TimeEntry } from "./types";
 
 interface CurrentEntryPanelProps {
   activeEntry: TimeEntry | null;
   locale: string;
   startOfWeek: number;
   isEditingStoppedEntry: boolean;
+  /** Pomodoro mode settings, the mode is off if null or disabled */
+  pomodoroSettings: PomodoroSettings | null;
   onDataChange: () => Promise<void>;
 }
 
@@ -24,6 +39,7 @@ export function CurrentEntryPanel({
   locale,
   startOfWeek,
   isEditingStoppedEntry,
+  pomodoroSettings,
   onDataChange,
 }: CurrentEntryPanelProps) {
   const { t } = useTranslation();
@@ -39,18 +55,81 @@ export function CurrentEntryPanel({
   } = useApiExecutor("stop-entry");
   const [newEntryTitle, setNewEntryTitle] = useState("");
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [newEntryStartTime, setNewEntryStartTime] = useState<Date | null>(null);
+  const [newEntryStartTimePicked, setNewEntryStartTimePicked] = useState(false);
+  const [splitDialogOpen, setSplitDialogOpen] = useState(false);
+  const newEntryInputRef = useRef<HTMLInputElement>(null);
+  const [pomodoroMessage, setPomodoroMessage] = useState<string | null>(null);
+  const [previousEntryEndTime, setPreviousEntryEndTime] = useState<string | null>(null);
+  const { registerUndo } = useUndo();
+
+  // Start times of both the active and the new entry cannot be before the end of the previous entry
+  useEffect(() => {
+    setPreviousEntryEndTime(null);
+    setNewEntryStartTime(null);
+    setNewEntryStartTimePicked(false);
+
+    let cancelled = false;
+    const loadPreviousEntry = async () => {
+      try {
+        const url = activeEntry
+          ? `/api-ui/time-log-entries/last-stopped?startedBefore=${encodeURIComponent(activeEntry.startTime)}`
+          : "/api-ui/time-log-entries/last-stopped";
+        const { entry: previousEntry } = await apiGet<{ entry: TimeEntry | null }>(url);
+        if (cancelled || !previousEntry?.endTime) return;
+        setPreviousEntryEndTime(previousEntry.endTime);
+        if (!activeEntry) {
+          setNewEntryStartTime(getDefaultStartTime(previousEntry.endTime, Date.now()));
+        }
+      } catch (error) {
+        console.error("Failed to load previous entry:", error);
+      }
+    };
+    void loadPreviousEntry();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeEntry?.id, activeEntry?.startTime]);
+
+  // The suggested start time only holds while the previous entry is recent, so it is refreshed until the user picks one
+  useEffect(() => {
+    if (activeEntry || newEntryStartTimePicked || !previousEntryEndTime) return;
+
+    const interval = setInterval(() => {
+      setNewEntryStartTime(getDefaultStartTime(previousEntryEndTime, Date.now()));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [activeEntry?.id, newEntryStartTimePicked, previousEntryEndTime]);
+
+  const handleNewEntryStartTimeChange = (startTime: Date | null) => {
+    setNewEntryStartTime(startTime);
+    setNewEntryStartTimePicked(true);
+  };
+
+  const newEntryStartTimeError = newEntryStartTime
+    ? validateStartTime(newEntryStartTime, previousEntryEndTime, Date.now())
+    : null;
 
   const handleStart = async () => {
+    if (newEntryStartTimeError) return;
+    setPomodoroMessage(null);
     await executeStartCall(async () => {
       // Auto-populate title with default if empty
       const titleToSend = newEntryTitle.trim() || "New Entry";
+      const startTime = newEntryStartTimePicked
+        ? newEntryStartTime
+        : getDefaultStartTime(previousEntryEndTime, Date.now());
       await apiPost<TimeEntry>("/api-ui/time-log-entries", {
         title: titleToSend,
         tags: selectedTags,
+        startTime: startTime?.toISOString(),
       });
       await onDataChange();
       setNewEntryTitle("");
       setSelectedTags([]);
+      setNewEntryStartTime(null);
+      setNewEntryStartTimePicked(false);
     });
   };
 
@@ -62,6 +141,74 @@ export function CurrentEntryPanel({
     });
   };
 
+  const handleActiveEntryUpdated = async (entry: TimeEntry) => {
+    await onDataChange();
+    registerUndo(t("timeLogs.undo.entryUpdated"), () => restoreEntriesState([entry]));
+  };
+
+  const handleTitleUpdate = async (newTitle: string) => {
+    if (!activeEntry) return;
+    await apiPatch<TimeEntry>(`/api-ui/time-log-entries/${activeEntry.id}/title`, { title: newTitle });
+    await handleActiveEntryUpdated(activeEntry);
+  };
+
+  const handleAutocompleteSelect = async (title: string, tags: string[]) => {
+    if (!activeEntry) return;
+    await apiPut(`/api-ui/time-log-entries/bulk-update`, { entryIds: [activeEntry.id], title, tags });
+    await handleActiveEntryUpdated(activeEntry);
+  };
+
+  const handleStartTimeUpdate = async (newDateTime: Date) => {
+    if (!activeEntry) return;
+    await apiPatch<TimeEntry>(`/api-ui/time-log-entries/${activeEntry.id}/start-time`, {
+      startTime: newDateTime.toISOString(),
+    });
+    await handleActiveEntryUpdated(activeEntry);
+  };
+
+  const handleTagsUpdate = async (newTags: string[]) => {
+    if (!activeEntry) return;
+    await apiPatch<TimeEntry>(`/api-ui/time-log-entries/${activeEntry.id}/tags`, { tags: newTags });
+    await handleActiveEntryUpdated(activeEntry);
+  };
+
+  const handleContinueLastEntry = async () => {
+    await executeStartCall(async () => {
+      if (await continueLastEntry()) {
+        await onDataChange();
+      }
+    });
+  };
+
+  const handleStartBreak = async () => {
+    if (!pomodoroSettings) return;
+    await executeStartCall(async () => {
+      await apiPost<TimeEntry>("/api-ui/time-log-entries", {
+        title: t("timeLogs.pomodoro.breakEntryTitle"),
+        tags: [pomodoroSettings.breakTag],
+        stopActiveEntry: true,
+      });
+      await onDataChange();
+    });
+  };
+
+  const handlePomodoroIntervalEnd = async (kind: PomodoroIntervalKind) => {
+    const message = t(`timeLogs.pomodoro.intervalEnded.${kind}`);
+    setPomodoroMessage(message);
+    void showBrowserNotification(message, activeEntry?.title);
+
+    if (kind !== "focus" || !pomodoroSettings) return;
+    if (pomodoroSettings.intervalEndAction === "STOP_ENTRY") {
+      await handleStop();
+    } else if (pomodoroSettings.intervalEndAction === "START_BREAK") {
+      await handleStartBreak();
+    }
+  };
+
+  useShortcutAction("focusNewEntry", activeEntry ? null : () => newEntryInputRef.current?.focus());
+  useShortcutAction("stopEntry", activeEntry && !isStopping ? handleStop : null);
+  useShortcutAction("continueLastEntry", isStarting ? null : handleContinueLastEntry);
+
   return (
     <Card className="mb-6 border-none shadow-md" data-testid="current-entry-panel">
       <CardHeader>
@@ -70,21 +217,73 @@ export function CurrentEntryPanel({
       <CardContent>
         {startFormMessage}
         {stopFormMessage}
+        {pomodoroMessage && (
+          <FormMessage
+            type="success"
+            message={pomodoroMessage}
+            onClose={() => setPomodoroMessage(null)}
+            testId="pomodoro-notification"
+          />
+        )}
         {activeEntry ? (
           /* View Mode */
           <div className="flex items-center justify-between">
             <div className="flex-1">
-              <div className="flex items-center gap-2 mb-1">
-                <p className="font-semibold text-foreground">{activeEntry.title}</p>
+              <div
+                className="flex items-center gap-2 mb-1 font-semibold text-foreground"
+                data-testid="active-entry-title"
+              >
+                <InlineTitleEdit
+                  currentTitle={activeEntry.title}
+                  onSave={handleTitleUpdate}
+                  onAutocompleteSelect={handleAutocompleteSelect}
+                  locale={locale}
+                  testIdPrefix="active-entry-inline-title"
+                />
               </div>
               <div className="text-sm text-muted-foreground" data-testid="active-entry-started-at">
-                {t("timeLogs.startedAt")}: {formatDateTime(activeEntry.startTime, locale)}
+                {t("timeLogs.startedAt")}:{" "}
+                <InlineTimeEdit
+                  currentDateTime={activeEntry.startTime}
+                  onSave={handleStartTimeUpdate}
+                  locale={locale}
+                  startOfWeek={startOfWeek}
+                  showDate
+                  testIdPrefix="active-entry-inline-start-time"
+                  minDateTime={previousEntryEndTime ?? undefined}
+                  minDateTimeInclusive
+                  minDateTimeMessage={t("timeLogs.validation.mustBeAfterPreviousEntry")}
+                  maxDateTime={new Date().toISOString()}
+                  maxDateTimeMessage={t("timeLogs.validation.mustBeInPast")}
+                />
               </div>
             </div>
             <div className="flex items-center gap-4">
+              {pomodoroSettings?.enabled && (
+                <PomodoroCountdown
+                  activeEntry={activeEntry}
+                  settings={pomodoroSettings}
+                  onIntervalEnd={handlePomodoroIntervalEnd}
+                />
+              )}
               <div className="text-2xl font-mono font-bold text-foreground" data-testid="active-timer">
                 <DurationDisplay startTime={activeEntry.startTime} endTime={null} />
               </div>
+              <InlineTagsEdit
+                currentTags={activeEntry.tags || []}
+                onSave={handleTagsUpdate}
+                testIdPrefix="active-entry-inline-tags"
+              />
+              <Button
+                variant="ghost"
+                onClick={() => setSplitDialogOpen(true)}
+                disabled={isStopping}
+                data-testid="split-active-entry-button"
+                className="text-foreground"
+                title={t("timeLogs.splitEntry.action")}
+              >
+                <Scissors className="h-4 w-4" />
+              </Button>
               <Button
                 onClick={handleStop}
                 disabled={isStopping}
@@ -94,6 +293,14 @@ export function CurrentEntryPanel({
                 <Square className="h-4 w-4" />
               </Button>
             </div>
+            <SplitEntryDialog
+              open={splitDialogOpen}
+              onOpenChange={setSplitDialogOpen}
+              entry={activeEntry}
+              locale={locale}
+              startOfWeek={startOfWeek}
+              onDataChange={onDataChange}
+            />
           </div>
         ) : (
           <div className="flex items-center gap-2">
@@ -113,6 +320,7 @@ export function CurrentEntryPanel({
               disabled={isStarting}
               testId="new-entry-input"
               locale={locale}
+              inputRef={newEntryInputRef}
             />
             <TagSelector
               selectedTags={selectedTags}
@@ -120,10 +328,17 @@ export function CurrentEntryPanel({
               disabled={isStarting}
               testIdPrefix="new-entry-tags"
             />
+            <StartTimeSelector
+              value={newEntryStartTime}
+              onChange={handleNewEntryStartTimeChange}
+              validationError={newEntryStartTimeError}
+              locale={locale}
+              disabled={isStarting}
+            />
             <Button
               onClick={handleStart}
               className="bg-teal-600 hover:bg-teal-700"
-              disabled={isStarting}
+              disabled={isStarting || newEntryStartTimeError !== null}
               data-testid="start-button"
             >
               <Play className="h-4 w-4" />
@@ -2,15 +2,19 @@ import { useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { calculateDailyGoalProgress } from "@/lib/daily-goal-progress";
+import type { DayAttribution } from "@/lib/day-attribution";
 import type { DailyGoalSettings, TimeLogEntry } from "./types";
 
 interface DailyGoalProgressBarProps {
   entries: TimeLogEntry[];
   dailyGoal: DailyGoalSettings;
   locale: string;
+  /** ISO date of the day the entries are displayed for */
+  day: string;
+  dayAttribution: DayAttribution;
 }
 
-export function DailyGoalProgressBar({ entries, dailyGoal, locale }: DailyGoalProgressBarProps) {
+export function DailyGoalProgressBar({ entries, dailyGoal, locale, day, dayAttribution }: DailyGoalProgressBarProps) {
   const { t } = useTranslation();
   const [now, setNow] = useState(() => new Date());
 
@@ -27,6 +31,8 @@ export function DailyGoalProgressBar({ entries, dailyGoal, locale }: DailyGoalPr
     goalMinutes: dailyGoal.goalMinutes,
     typicalBreaks: dailyGoal.typicalBreaks,
     now,
+    day,
+    dayAttribution,
   });
   if (!progress) return null;
 
@@ -1,29 +1,96 @@
+import { Fragment, useState } from "react";
 import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Merge, Plus } from "lucide-react";
 import { TimeEntry } from "./TimeEntry";
 import { GroupedTimeEntry } from "./GroupedTimeEntry";
 import { TotalDurationDisplay } from "./TotalDurationDisplay";
+import { BillableSummaryDisplay } from "./BillableSummaryDisplay";
 import { DailyGoalProgressBar } from "./DailyGoalProgressBar";
-import { groupEntriesByTitleAndTags, isGroupedEntry } from "@/lib/entry-grouping";
+import { DayTimeline } from "./DayTimeline";
+import { AddEntryDialog } from "./AddEntryDialog";
+import { MergeEntriesDialog } from "./MergeEntriesDialog";
+import { UntrackedGapMarker } from "./UntrackedGapMarker";
+import { groupEntries, isGroupedEntry, type EntryGroupingMode } from "@/lib/entry-grouping";
 import { detectOverlaps } from "@/lib/overlap-detection";
-import type { DailyGoalSettings, DayGroup as DayGroupType } from "./types";
+import { detectUntrackedGaps, type UntrackedGap } from "@/lib/untracked-gaps";
+import { parseISODate } from "@/lib/time-utils";
+import { getDayPeriod, type DayAttribution } from "@/lib/day-attribution";
+import type { DailyGoalSettings, DayGroup as DayGroupType, TagRate } from "./types";
 
 interface DayGroupProps {
   group: DayGroupType;
   locale: string;
   startOfWeek: number;
   dailyGoal: DailyGoalSettings | null;
+  dayAttribution: DayAttribution;
+  groupingMode: EntryGroupingMode;
+  tagRates: TagRate[];
   onDataChange: () => Promise<void>;
+  /** IDs of the entries selected across the whole week */
+  selectedEntryIds: Set<number>;
+  onSelectionChange: (entryId: number, selected: boolean) => void;
+  onClearSelection: () => void;
 }
 
-export function DayGroup({ group, locale, startOfWeek, dailyGoal, onDataChange }: DayGroupProps) {
+export function DayGroup({
+  group,
+  locale,
+  startOfWeek,
+  dailyGoal,
+  dayAttribution,
+  groupingMode,
+  tagRates,
+  onDataChange,
+  selectedEntryIds,
+  onSelectionChange,
+  onClearSelection,
+}: DayGroupProps) {
   const { t } = useTranslation();
+  const [addEntryDialogOpen, setAddEntryDialogOpen] = useState(false);
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  // Gap the add entry dialog is opened for, to pre-fill the new entry times
+  const [newEntryGap, setNewEntryGap] = useState<UntrackedGap | null>(null);
+  // Merge is offered for the entries of this day only
+  const selectedEntries = group.entries.filter((entry) => selectedEntryIds.has(entry.id));
 
-  // Detect overlaps within this day group
-  const overlaps = detectOverlaps(group.entries);
+  // Detect overlaps within this day group, including the entries hidden by the filter
+  const overlaps = detectOverlaps(group.allEntries);
 
-  // Group entries by title and tags
-  const groupedEntries = groupEntriesByTitleAndTags(group.entries);
+  const typicalBreaks = dailyGoal?.typicalBreaks ?? [];
+
+  // Entries crossing midnight are split between the days, so only the time within this day is counted
+  const totalsPeriod = dayAttribution === "SPLIT_AT_MIDNIGHT" ? getDayPeriod(group.date) : undefined;
+
+  // Detect untracked time between consecutive entries
+  const untrackedGaps = detectUntrackedGaps(group.allEntries, typicalBreaks);
+
+  // Group entries according to the chosen view setting
+  const groupedEntries = groupEntries(group.entries, groupingMode);
+
+  const handleNewEntryForGap = (gap: UntrackedGap) => {
+    setNewEntryGap(gap);
+    setAddEntryDialogOpen(true);
+  };
+
+  const handleAddEntryDialogOpenChange = (open: boolean) => {
+    setAddEntryDialogOpen(open);
+    if (!open) setNewEntryGap(null);
+  };
+
+  // Entries are displayed latest first, so gaps are rendered below the entry following them
+  const renderGapsPrecedingEntries = (entryIds: number[]) =>
+    untrackedGaps
+      .filter((gap) => entryIds.includes(gap.nextEntry.id))
+      .map((gap) => (
+        <UntrackedGapMarker
+          key={`gap-${gap.previousEntry.id}-${gap.nextEntry.id}`}
+          gap={gap}
+          onDataChange={onDataChange}
+          onNewEntry={handleNewEntryForGap}
+        />
+      ));
 
   return (
     <Card className="border-none shadow-md" data-testid="day-group">
@@ -33,46 +100,126 @@ export function DayGroup({ group, locale, startOfWeek, dailyGoal, onDataChange }
             {group.displayTitle}
           </CardTitle>
           {group.isToday && dailyGoal?.enabled && (
-            <DailyGoalProgressBar entries={group.entries} dailyGoal={dailyGoal} locale={locale} />
+            <DailyGoalProgressBar
+              entries={group.totalsEntries}
+              dailyGoal={dailyGoal}
+              locale={locale}
+              day={group.date}
+              dayAttribution={dayAttribution}
+            />
           )}
-          <div className="text-sm text-muted-foreground" data-testid="day-total-duration">
-            {t("timeLogs.totalDuration")}: <TotalDurationDisplay entries={group.entries} />
+          <div className="flex items-center gap-2">
+            {selectedEntries.length >= 2 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setMergeDialogOpen(true)}
+                data-testid="merge-selected-button"
+                className="text-foreground"
+              >
+                <Merge className="h-4 w-4 mr-2" />
+                {t("timeLogs.mergeEntries.mergeSelected", { count: selectedEntries.length })}
+              </Button>
+            )}
+            <div className="text-sm text-muted-foreground" data-testid="day-total-duration">
+              {t("timeLogs.totalDuration")}:{" "}
+              <TotalDurationDisplay entries={group.totalsEntries} period={totalsPeriod} />
+            </div>
+            <BillableSummaryDisplay
+              entries={group.totalsEntries}
+              tagRates={tagRates}
+              locale={locale}
+              period={totalsPeriod}
+              testId="day-billable-summary"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setAddEntryDialogOpen(true)}
+              data-testid="day-group-add-entry-button"
+              className="text-foreground"
+              title={t("timeLogs.addEntry.button")}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
           </div>
         </div>
       </CardHeader>
       <CardContent>
+        <div className="mb-4">
+          <DayTimeline
+            date={group.date}
+            entries={group.allEntries}
+            typicalBreaks={typicalBreaks}
+            locale={locale}
+            onDataChange={onDataChange}
+          />
+        </div>
         <div className="space-y-3">
           {groupedEntries.map((item) => {
             if (isGroupedEntry(item)) {
+              const entryIds = item.entries.map((e) => e.id);
               return (
-                <GroupedTimeEntry
-                  key={item.entries
-                    .map((e) => e.id)
-                    .sort((a, b) => a - b)
-                    .join(",")}
-                  groupedEntry={item}
-                  locale={locale}
-                  startOfWeek={startOfWeek}
-                  onDataChange={onDataChange}
-                  overlaps={overlaps}
-                />
+                <Fragment key={[...entryIds].sort((a, b) => a - b).join(",")}>
+                  <GroupedTimeEntry
+                    groupedEntry={item}
+                    locale={locale}
+                    startOfWeek={startOfWeek}
+                    day={group.date}
+                    groupingMode={groupingMode}
+                    onDataChange={onDataChange}
+                    overlaps={overlaps}
+                    selectedEntryIds={selectedEntryIds}
+                    onSelectionChange={onSelectionChange}
+                  />
+                  {renderGapsPrecedingEntries(entryIds)}
+                </Fragment>
               );
             } else {
-              const overlap = overlaps.get(item.id);
               return (
-                <TimeEntry
-                  key={`${item.id}-${item.startTime}`}
-                  entry={item}
-                  locale={locale}
-                  startOfWeek={startOfWeek}
-                  onDataChange={onDataChange}
-                  overlap={overlap}
-                />
+                <Fragment key={`${item.id}-${item.startTime}`}>
+                  <TimeEntry
+                    entry={item}
+                    locale={locale}
+                    startOfWeek={startOfWeek}
+                    day={group.date}
+                    onDataChange={onDataChange}
+                    overlaps={overlaps.get(item.id)}
+                    isSelected={selectedEntryIds.has(item.id)}
+                    onSelectionChange={onSelectionChange}
+                  />
+                  {renderGapsPrecedingEntries([item.id])}
+                </Fragment>
               );
             }
           })}
         </div>
       </CardContent>
+
+      <AddEntryDialog
+        open={addEntryDialogOpen}
+        onOpenChange={handleAddEntryDialogOpenChange}
+        date={parseISODate(group.date)}
+        initialTimes={
+          newEntryGap
+            ? { startTime: new Date(newEntryGap.startTime), endTime: new Date(newEntryGap.endTime) }
+            : undefined
+        }
+        locale={locale}
+        startOfWeek={startOfWeek}
+        onDataChange={onDataChange}
+      />
+
+      {selectedEntries.length >= 2 && (
+        <MergeEntriesDialog
+          open={mergeDialogOpen}
+          onOpenChange={setMergeDialogOpen}
+          entries={selectedEntries}
+          locale={locale}
+          onDataChange={onDataChange}
+          onMerged={onClearSelection}
+        />
+      )}
     </Card>
   );
 }
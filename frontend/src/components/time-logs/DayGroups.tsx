@@ -1,22 +1,72 @@
 import { useState, useEffect } from "react";
 import { useTranslation } from "react-i18next";
 import { DayGroup } from "./DayGroup";
-import { formatISODate, calculateDuration } from "@/lib/time-utils";
+import { BulkActionBar } from "./BulkActionBar";
+import { formatISODate } from "@/lib/time-utils";
 import { formatDate } from "@/lib/date-format";
-import type { DailyGoalSettings, TimeLogEntry, DayGroup as DayGroupType } from "./types";
+import {
+  calculateDayDuration,
+  groupEntriesByAttributedDay,
+  type DayAttribution,
+  type TimePeriod,
+} from "@/lib/day-attribution";
+import { DEFAULT_ENTRY_GROUPING_MODE, type EntryGroupingMode } from "@/lib/entry-grouping";
+import type { DailyGoalSettings, TagRate, TimeLogEntry, DayGroup as DayGroupType } from "./types";
 
 interface DayGroupsProps {
+  /** Displayed entries */
   entries: TimeLogEntry[];
+  /** All loaded entries when the displayed entries are filtered */
+  unfilteredEntries?: TimeLogEntry[];
+  /** Whether day totals and daily goal progress are calculated for the displayed entries only */
+  filteredTotals?: boolean;
   activeEntry: TimeLogEntry | null;
   locale: string;
   startOfWeek: number;
   dailyGoal: DailyGoalSettings | null;
+  dayAttribution?: DayAttribution;
+  /** Displayed period; entries crossing midnight may be loaded with their start day outside of it */
+  period?: TimePeriod;
+  groupingMode?: EntryGroupingMode;
+  /** Hourly rates the earnings of the billable entries are calculated with */
+  tagRates: TagRate[];
   onDataChange: () => Promise<void>;
 }
 
-export function DayGroups({ entries, activeEntry, locale, startOfWeek, dailyGoal, onDataChange }: DayGroupsProps) {
+export function DayGroups({
+  entries,
+  unfilteredEntries = entries,
+  filteredTotals = false,
+  activeEntry,
+  locale,
+  startOfWeek,
+  dailyGoal,
+  dayAttribution = "START_DAY",
+  period,
+  groupingMode = DEFAULT_ENTRY_GROUPING_MODE,
+  tagRates,
+  onDataChange,
+}: DayGroupsProps) {
   const { t } = useTranslation();
   const [dayGroups, setDayGroups] = useState<DayGroupType[]>([]);
+  const [selectedEntryIds, setSelectedEntryIds] = useState<Set<number>>(new Set());
+
+  // Entries may disappear after data reload or week change, so selection is resolved against the current entries
+  const selectedEntries = entries.filter((entry) => selectedEntryIds.has(entry.id));
+
+  const handleSelectionChange = (entryId: number, selected: boolean) => {
+    setSelectedEntryIds((previous) => {
+      const next = new Set(previous);
+      if (selected) {
+        next.add(entryId);
+      } else {
+        next.delete(entryId);
+      }
+      return next;
+    });
+  };
+
+  const handleClearSelection = () => setSelectedEntryIds(new Set());
 
   // Get day title (Today, Yesterday, or day of week + date)
   function getDayTitle(dateStr: string, locale: string): string {
@@ -41,22 +91,30 @@ export function DayGroups({ entries, activeEntry, locale, startOfWeek, dailyGoal
     }
   }
 
-  // Group entries by day - always show on start day
-  function groupEntriesByDay(entries: TimeLogEntry[], locale: string): DayGroupType[] {
-    const groups: { [key: string]: TimeLogEntry[] } = {};
-
-    entries.forEach((entry) => {
-      const startDate = new Date(entry.startTime);
-      const startDay = formatISODate(startDate);
+  // Group entries by day - on start day, or on every covered day when splitting at midnight
+  function groupEntriesByDay(entries: TimeLogEntry[], now: Date): Map<string, TimeLogEntry[]> {
+    const groups = groupEntriesByAttributedDay(entries, dayAttribution, now);
+    if (period) {
+      const firstDay = formatISODate(period.from);
+      const lastDay = formatISODate(new Date(period.to.getTime() - 1));
+      groups.forEach((_, day) => {
+        if (day < firstDay || day > lastDay) groups.delete(day);
+      });
+    }
+    return groups;
+  }
 
-      if (!groups[startDay]) groups[startDay] = [];
-      groups[startDay].push(entry);
-    });
+  // Days are displayed for the displayed entries; hidden entries are only used for totals, gaps and overlaps
+  function createDayGroups(locale: string): DayGroupType[] {
+    const now = new Date();
+    const allEntriesByDay = groupEntriesByDay(unfilteredEntries, now);
 
-    return Object.entries(groups)
+    return Array.from(groupEntriesByDay(entries, now))
       .map(([date, entries]) => {
-        const totalDuration = entries.reduce(
-          (sum, entry) => sum + calculateDuration(entry.startTime, entry.endTime),
+        const allEntries = allEntriesByDay.get(date) ?? entries;
+        const totalsEntries = filteredTotals ? entries : allEntries;
+        const totalDuration = totalsEntries.reduce(
+          (sum, entry) => sum + calculateDayDuration(entry, date, dayAttribution, now),
           0
         );
 
@@ -64,6 +122,8 @@ export function DayGroups({ entries, activeEntry, locale, startOfWeek, dailyGoal
           date,
           displayTitle: getDayTitle(date, locale),
           entries: entries.sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()),
+          allEntries,
+          totalsEntries,
           totalDuration,
           isToday: date === formatISODate(new Date()),
         };
@@ -79,9 +139,16 @@ export function DayGroups({ entries, activeEntry, locale, startOfWeek, dailyGoal
 
   // Recalculate day groups when entries change
   useEffect(() => {
-    const groups = groupEntriesByDay(entries, locale);
-    setDayGroups(groups);
-  }, [entries, locale]);
+    setDayGroups(createDayGroups(locale));
+  }, [entries, unfilteredEntries, filteredTotals, locale, dayAttribution, period]);
+
+  if (dayGroups.length === 0 && unfilteredEntries.length > 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground" data-testid="no-matching-entries">
+        {t("timeLogs.entryFilter.noMatchingEntries")}
+      </div>
+    );
+  }
 
   if (dayGroups.length === 0) {
     return (
@@ -100,9 +167,23 @@ export function DayGroups({ entries, activeEntry, locale, startOfWeek, dailyGoal
           locale={locale}
           startOfWeek={startOfWeek}
           dailyGoal={dailyGoal}
+          dayAttribution={dayAttribution}
+          groupingMode={groupingMode}
+          tagRates={tagRates}
           onDataChange={onDataChange}
+          selectedEntryIds={selectedEntryIds}
+          onSelectionChange={handleSelectionChange}
+          onClearSelection={handleClearSelection}
         />
       ))}
+      {selectedEntries.length > 0 && (
+        <BulkActionBar
+          selectedEntries={selectedEntries}
+          locale={locale}
+          onClearSelection={handleClearSelection}
+          onDataChange={onDataChange}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { apiPatch } from "@/lib/api";
+import { formatTime } from "@/lib/date-format";
+import {
+  calculateBreakSegments,
+  calculateDragBounds,
+  calculateTimelineBlocks,
+  getDayBounds,
+  getTagColor,
+  snapDragTime,
+  timelinePositionToTime,
+  type DragBounds,
+  type TimelineEdge,
+} from "@/lib/day-timeline";
+import { restoreEntriesState } from "@/lib/entry-undo";
+import { parseISODate } from "@/lib/time-utils";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import { useUndo } from "@/hooks/useUndo";
+import type { DailyGoalSettings, TimeEntry, TimeLogEntry } from "./types";
+
+interface DayTimelineProps {
+  /** Day in ISO format (YYYY-MM-DD) */
+  date: string;
+  entries: TimeLogEntry[];
+  typicalBreaks: DailyGoalSettings["typicalBreaks"];
+  locale: string;
+  onDataChange: () => Promise<void>;
+}
+
+interface DragState {
+  entry: TimeLogEntry;
+  edge: TimelineEdge;
+  bounds: DragBounds;
+  time: number;
+}
+
+const HOUR_MARKS = [0, 6, 12, 18, 24];
+
+/**
+ * Horizontal 24h timeline of the day, showing entries as blocks colored by tag and typical breaks as shaded areas.
+ * Block edges can be dragged to change start and end times; dragging is limited by the neighbouring entries.
+ */
+export function DayTimeline({ date, entries, typicalBreaks, locale, onDataChange }: DayTimelineProps) {
+  const { t } = useTranslation();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("day-timeline");
+  const { registerUndo } = useUndo();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  useEffect(() => {
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [entries]);
+
+  const day = getDayBounds(parseISODate(date));
+
+  // While dragging, the dragged entry is displayed with its new time
+  const displayedEntries = drag
+    ? entries.map((entry) =>
+        entry.id === drag.entry.id
+          ? { ...entry, [drag.edge === "start" ? "startTime" : "endTime"]: new Date(drag.time).toISOString() }
+          : entry
+      )
+    : entries;
+
+  const blocks = calculateTimelineBlocks(displayedEntries, day, now);
+  const breaks = calculateBreakSegments(typicalBreaks, day);
+
+  const getPointerTime = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return day.start;
+    return timelinePositionToTime((clientX - rect.left) / rect.width, day);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, entry: TimeLogEntry, edge: TimelineEdge) => {
+    if (apiCallInProgress) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const bounds = calculateDragBounds(entry, edge, entries, day, now);
+    const currentTime = new Date(edge === "start" ? entry.startTime : entry.endTime!).getTime();
+    setDrag({ entry, edge, bounds, time: currentTime });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    setDrag({ ...drag, time: snapDragTime(getPointerTime(e.clientX), drag.bounds) });
+  };
+
+  const handlePointerUp = async () => {
+    if (!drag) return;
+    const { entry, edge, time } = drag;
+    const originalTime = new Date(edge === "start" ? entry.startTime : entry.endTime!).getTime();
+
+    if (time === originalTime) {
+      setDrag(null);
+      return;
+    }
+
+    await executeApiCall(async () => {
+      if (edge === "start") {
+        await apiPatch<TimeEntry>(`/api-ui/time-log-entries/${entry.id}/start-time`, {
+          startTime: new Date(time).toISOString(),
+        });
+      } else {
+        await apiPatch<TimeEntry>(`/api-ui/time-log-entries/${entry.id}/end-time`, {
+          endTime: new Date(time).toISOString(),
+        });
+      }
+      await onDataChange();
+      registerUndo(t("timeLogs.undo.entryUpdated"), () => restoreEntriesState([entry]));
+    });
+    setDrag(null);
+  };
+
+  return (
+    <div data-testid="day-timeline">
+      {formMessage}
+      <div
+        ref={containerRef}
+        className="relative h-6 rounded bg-muted overflow-hidden select-none touch-none"
+        data-testid="day-timeline-bar"
+      >
+        {breaks.map((segment, index) => (
+          <div
+            key={`break-${index}`}
+            className="absolute inset-y-0 bg-foreground/10 bg-[repeating-linear-gradient(45deg,transparent,transparent_4px,rgba(0,0,0,0.15)_4px,rgba(0,0,0,0.15)_8px)]"
+            style={{ left: `${segment.startPercent}%`, width: `${segment.widthPercent}%` }}
+            data-testid="day-timeline-break"
+          />
+        ))}
+        {blocks.map((block) => {
+          const isDragged = drag?.entry.id === block.entry.id;
+          const endTimeDisplay = block.entry.endTime
+            ? formatTime(block.entry.endTime, locale)
+            : t("timeLogs.inProgress");
+          return (
+            <div
+              key={block.entry.id}
+              className={`absolute inset-y-1 rounded-sm ${isDragged ? "opacity-80 ring-2 ring-foreground" : ""}`}
+              style={{
+                left: `${block.startPercent}%`,
+                width: `${block.widthPercent}%`,
+                backgroundColor: getTagColor(block.entry.tags || []),
+              }}
+              title={`${block.entry.title}: ${formatTime(block.entry.startTime, locale)} - ${endTimeDisplay}`}
+              data-testid="day-timeline-block"
+              data-entry-id={block.entry.id}
+            >
+              {block.startsWithinDay && (
+                <div
+                  className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize hover:bg-foreground/40"
+                  onPointerDown={(e) => handlePointerDown(e, block.entry, "start")}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  data-testid="day-timeline-block-start-handle"
+                />
+              )}
+              {block.endsWithinDay && (
+                <div
+                  className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize hover:bg-foreground/40"
+                  onPointerDown={(e) => handlePointerDown(e, block.entry, "end")}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  data-testid="day-timeline-block-end-handle"
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="relative h-4 text-xs text-muted-foreground">
+        {HOUR_MARKS.map((hour) => (
+          <span
+            key={hour}
+            className="absolute -translate-x-1/2 first:translate-x-0 last:-translate-x-full"
+            style={{ left: `${(hour / 24) * 100}%` }}
+          >
+            {String(hour).padStart(2, "0")}:00
+          </span>
+        ))}
+        {drag && (
+          <span
+            className="absolute -translate-x-1/2 px-1 rounded bg-background text-foreground"
+            style={{ left: `${((drag.time - day.start) / (day.end - day.start)) * 100}%` }}
+            data-testid="day-timeline-drag-time"
+          >
+            {formatTime(new Date(drag.time).toISOString(), locale)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
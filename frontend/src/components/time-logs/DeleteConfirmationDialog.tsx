@@ -1,7 +1,8 @@
 import { useTranslation } from "react-i18next";
 import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
 import { formatTime } from "@/lib/date-format";
-import { calculateDuration, formatDuration } from "@/lib/time-utils";
+import { calculateDuration } from "@/lib/time-utils";
+import { useDurationFormat } from "@/hooks/useDurationFormat";
 import type { TimeEntry } from "./types";
 
 interface DeleteConfirmationDialogProps {
@@ -24,6 +25,7 @@ export function DeleteConfirmationDialog({
   formMessage,
 }: DeleteConfirmationDialogProps) {
   const { t } = useTranslation();
+  const { formatDuration } = useDurationFormat();
 
   return (
     <ConfirmationDialog
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import { calculateDuration, formatDuration } from "@/lib/time-utils";
+import { calculateDuration } from "@/lib/time-utils";
+import { useDurationFormat } from "@/hooks/useDurationFormat";
 
 interface DurationDisplayProps {
   startTime: string;
@@ -14,6 +15,7 @@ interface DurationDisplayProps {
  * while the parent component remains stable.
  */
 export function DurationDisplay({ startTime, endTime, className, testId }: DurationDisplayProps) {
+  const { formatDuration } = useDurationFormat();
   const [duration, setDuration] = useState(() => calculateDuration(startTime, endTime));
 
   // Update duration when start/end times change
@@ -2,14 +2,17 @@ import { useState, useEffect, useRef } from "react";
 import { useTranslation } from "react-i18next";
 import { Input } from "@/components/ui/input";
 import { Loader } from "@/components/ui/loader";
+import { Pin, PinOff } from "lucide-react";
 import { apiGet } from "@/lib/api";
 import { cn } from "@/lib/utils";
 import { formatDateTime } from "@/lib/date-format";
+import { usePinnedEntries } from "@/hooks/usePinnedEntries";
 
 interface AutocompleteEntry {
   title: string;
   tags: string[];
   lastStartTime: string;
+  billable: boolean;
 }
 
 interface EntryAutocompleteProps {
@@ -21,6 +24,8 @@ interface EntryAutocompleteProps {
   disabled?: boolean;
   testId?: string;
   locale: string;
+  /** Ref to the input element, e.g. to focus it from outside */
+  inputRef?: React.RefObject<HTMLInputElement | null>;
 }
 
 /**
@@ -36,6 +41,7 @@ export function EntryAutocomplete({
   disabled = false,
   testId = "new-entry-input",
   locale,
+  inputRef,
 }: EntryAutocompleteProps) {
   const { t } = useTranslation();
   const [open, setOpen] = useState(false);
@@ -43,8 +49,9 @@ export function EntryAutocomplete({
   const [loading, setLoading] = useState(false);
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const inputRef = useRef<HTMLInputElement>(null);
+  const ownInputRef = useRef<HTMLInputElement>(null);
   const selectedEntryTitleRef = useRef<string | null>(null);
+  const pinning = usePinnedEntries();
 
   // Debounced search function
   useEffect(() => {
@@ -147,7 +154,7 @@ export function EntryAutocomplete({
   return (
     <div className="relative flex-1">
       <Input
-        ref={inputRef}
+        ref={inputRef ?? ownInputRef}
         value={value}
         onChange={handleInputChange}
         onKeyDown={handleKeyDown}
@@ -183,33 +190,58 @@ export function EntryAutocomplete({
             </div>
           ) : (
             <div className="space-y-1">
-              {suggestions.map((entry, index) => (
-                <button
-                  key={index}
-                  type="button"
-                  onMouseDown={(e) => {
-                    // Prevent blur event on input when clicking suggestion
-                    e.preventDefault();
-                  }}
-                  onClick={() => handleSelectEntry(entry)}
-                  className={cn(
-                    "w-full text-left px-3 py-2 rounded-sm hover:bg-accent cursor-pointer transition-colors",
-                    highlightedIndex === index && "bg-accent"
-                  )}
-                  data-testid={`autocomplete-item-${index}`}
-                  data-highlighted={highlightedIndex === index ? "true" : "false"}
-                >
-                  <div className="font-medium text-foreground text-sm">{entry.title}</div>
-                  <div className="text-xs text-muted-foreground mt-0.5" data-testid="autocomplete-last-started">
-                    {t("timeLogs.autocomplete.lastStarted", { time: formatDateTime(entry.lastStartTime, locale) })}
+              {suggestions.map((entry, index) => {
+                const pinnedEntry = pinning.findPinnedEntry(entry.title, entry.tags || []);
+                return (
+                  <div key={index} className="flex items-start gap-1">
+                    <button
+                      type="button"
+                      onMouseDown={(e) => {
+                        // Prevent blur event on input when clicking suggestion
+                        e.preventDefault();
+                      }}
+                      onClick={() => handleSelectEntry(entry)}
+                      className={cn(
+                        "flex-1 text-left px-3 py-2 rounded-sm hover:bg-accent cursor-pointer transition-colors",
+                        highlightedIndex === index && "bg-accent"
+                      )}
+                      data-testid={`autocomplete-item-${index}`}
+                      data-highlighted={highlightedIndex === index ? "true" : "false"}
+                    >
+                      <div className="font-medium text-foreground text-sm">{entry.title}</div>
+                      <div className="text-xs text-muted-foreground mt-0.5" data-testid="autocomplete-last-started">
+                        {t("timeLogs.autocomplete.lastStarted", { time: formatDateTime(entry.lastStartTime, locale) })}
+                      </div>
+                      {entry.tags && entry.tags.length > 0 && (
+                        <div className="text-xs text-muted-foreground mt-0.5" data-testid="autocomplete-tags">
+                          {t("timeLogs.autocomplete.tags", { tags: entry.tags.join(", ") })}
+                        </div>
+                      )}
+                    </button>
+                    {pinning.available && (
+                      <button
+                        type="button"
+                        onMouseDown={(e) => {
+                          // Prevent blur event on input when clicking the pin button
+                          e.preventDefault();
+                        }}
+                        onClick={() =>
+                          pinnedEntry
+                            ? pinning.unpinEntry(pinnedEntry.id)
+                            : pinning.pinEntry(entry.title, entry.tags || [], entry.billable)
+                        }
+                        disabled={pinning.apiCallInProgress}
+                        className="p-2 rounded-sm text-muted-foreground hover:bg-accent hover:text-foreground"
+                        data-testid={`autocomplete-pin-${index}`}
+                        data-pinned={pinnedEntry ? "true" : "false"}
+                        title={pinnedEntry ? t("timeLogs.pinnedEntries.unpin") : t("timeLogs.pinnedEntries.pin")}
+                      >
+                        {pinnedEntry ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                      </button>
+                    )}
                   </div>
-                  {entry.tags && entry.tags.length > 0 && (
-                    <div className="text-xs text-muted-foreground mt-0.5" data-testid="autocomplete-tags">
-                      {t("timeLogs.autocomplete.tags", { tags: entry.tags.join(", ") })}
-                    </div>
-                  )}
-                </button>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
@@ -0,0 +1,100 @@
+import { useTranslation } from "react-i18next";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { EMPTY_ENTRY_FILTER, isEntryFilterActive, type EntryFilter } from "@/lib/entry-filter";
+import { TagSelector } from "./TagSelector";
+
+interface EntryFilterBarProps {
+  filter: EntryFilter;
+  onFilterChange: (filter: EntryFilter) => void;
+  /** Whether totals and goals progress are calculated for the filtered entries only */
+  filteredTotals: boolean;
+  onFilteredTotalsChange: (filteredTotals: boolean) => void;
+}
+
+/**
+ * Narrows displayed entries by included and excluded tags and by title text.
+ */
+export function EntryFilterBar({
+  filter,
+  onFilterChange,
+  filteredTotals,
+  onFilteredTotalsChange,
+}: EntryFilterBarProps) {
+  const { t } = useTranslation();
+  const isActive = isEntryFilterActive(filter);
+
+  return (
+    <Card className="border-none shadow-md mb-6" data-testid="entry-filter-bar">
+      <CardContent className="flex flex-wrap items-center gap-4 p-4">
+        <Input
+          value={filter.text}
+          onChange={(e) => onFilterChange({ ...filter, text: e.target.value })}
+          placeholder={t("timeLogs.entryFilter.textPlaceholder")}
+          className="w-64 text-foreground"
+          data-testid="entry-filter-text-input"
+        />
+        <div className="flex items-center gap-2 text-sm text-foreground">
+          <TagSelector
+            selectedTags={filter.includedTags}
+            onTagsChange={(includedTags) => onFilterChange({ ...filter, includedTags })}
+            testIdPrefix="entry-filter-include-tags"
+          />
+          {t("timeLogs.entryFilter.includeTags")}
+        </div>
+        <div className="flex items-center gap-2 text-sm text-foreground">
+          <TagSelector
+            selectedTags={filter.excludedTags}
+            onTagsChange={(excludedTags) => onFilterChange({ ...filter, excludedTags })}
+            testIdPrefix="entry-filter-exclude-tags"
+          />
+          {t("timeLogs.entryFilter.excludeTags")}
+        </div>
+        {(filter.includedTags.length > 0 || filter.excludedTags.length > 0) && (
+          <div className="flex flex-wrap gap-2">
+            {filter.includedTags.map((tag) => (
+              <Badge key={`include-${tag}`} variant="outline" data-testid="entry-filter-included-tag">
+                +{tag}
+              </Badge>
+            ))}
+            {filter.excludedTags.map((tag) => (
+              <Badge key={`exclude-${tag}`} variant="destructive" data-testid="entry-filter-excluded-tag">
+                −{tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {isActive && (
+          <div className="flex items-center gap-4 ml-auto">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="entry-filter-totals"
+                checked={filteredTotals}
+                onCheckedChange={(checked) => onFilteredTotalsChange(checked === true)}
+                data-testid="entry-filter-totals-checkbox"
+              />
+              <Label htmlFor="entry-filter-totals" className="text-sm text-foreground">
+                {t("timeLogs.entryFilter.filteredTotals")}
+              </Label>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onFilterChange(EMPTY_ENTRY_FILTER)}
+              className="text-foreground"
+              data-testid="entry-filter-clear-button"
+            >
+              <X className="h-4 w-4 mr-2" />
+              {t("timeLogs.entryFilter.clear")}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
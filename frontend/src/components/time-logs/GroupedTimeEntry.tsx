@@ -1,13 +1,23 @@
 import { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Button } from "@/components/ui/button";
-import { Play } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Play, MoreVertical, Merge } from "lucide-react";
 import { formatTime } from "@/lib/date-format";
 import { apiPost, apiPatch, apiPut } from "@/lib/api";
 import { useApiExecutor } from "@/hooks/useApiExecutor";
+import { useUndo } from "@/hooks/useUndo";
+import { restoreEntriesState } from "@/lib/entry-undo";
+import { loadExpandedEntryGroups, storeEntryGroupExpanded, type EntryGroupingMode } from "@/lib/entry-grouping";
 import { InlineTitleEdit } from "./InlineTitleEdit";
 import { InlineTagsEdit } from "./InlineTagsEdit";
 import { TotalDurationDisplay } from "./TotalDurationDisplay";
+import { MergeEntriesDialog } from "./MergeEntriesDialog";
 import type { EntryOverlap } from "@/lib/overlap-detection";
 import type { GroupedTimeLogEntry, TimeLogEntry, TimeEntry } from "@/components/time-logs/types";
 import { TimeEntry as TimeEntryComponent } from "./TimeEntry";
@@ -16,25 +26,55 @@ interface GroupedTimeEntryProps {
   groupedEntry: GroupedTimeLogEntry;
   locale: string;
   startOfWeek: number;
+  /** ISO date of the day the entries are displayed for */
+  day?: string;
+  /** Mode the entries were grouped with, defining which of the common attributes can be edited for the group */
+  groupingMode?: EntryGroupingMode;
   onDataChange: () => Promise<void>;
-  overlaps: Map<number, EntryOverlap>;
+  overlaps: Map<number, EntryOverlap[]>;
+  selectedEntryIds?: Set<number>;
+  onSelectionChange?: (entryId: number, selected: boolean) => void;
 }
 
-export function GroupedTimeEntry({ groupedEntry, locale, startOfWeek, onDataChange, overlaps }: GroupedTimeEntryProps) {
+export function GroupedTimeEntry({
+  groupedEntry,
+  locale,
+  startOfWeek,
+  day,
+  groupingMode = "TITLE_AND_TAGS",
+  onDataChange,
+  overlaps,
+  selectedEntryIds,
+  onSelectionChange,
+}: GroupedTimeEntryProps) {
   const { t } = useTranslation();
   const { executeApiCall: executeContinueCall, apiCallInProgress: isContinuing } = useApiExecutor("continue-entry");
-  const [isExpanded, setIsExpanded] = useState(false);
+  const { registerUndo } = useUndo();
+  // Expanded groups are remembered across reloads
+  const expansionKey = `${day ?? ""}|${groupedEntry.groupId}`;
+  const [isExpanded, setIsExpanded] = useState(() => loadExpandedEntryGroups().includes(expansionKey));
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
 
   const endTimeDisplay = groupedEntry.endTime ? formatTime(groupedEntry.endTime, locale) : t("timeLogs.inProgress");
 
   // Use the first entry for the continue action
   const firstEntry = groupedEntry.entries[0];
 
+  // Entries grouped by tag have different titles, and entries grouped by title may have different tags
+  const isTagGroup = groupingMode === "PRIMARY_TAG";
+  const canEditTags = groupingMode === "TITLE_AND_TAGS";
+
+  const handleToggleExpanded = () => {
+    setIsExpanded(!isExpanded);
+    storeEntryGroupExpanded(expansionKey, !isExpanded);
+  };
+
   const handleContinue = async () => {
     await executeContinueCall(async () => {
       await apiPost<TimeEntry>("/api-ui/time-log-entries", {
         title: firstEntry.title,
         tags: firstEntry.tags,
+        billable: firstEntry.billable,
         stopActiveEntry: true,
       });
       await onDataChange();
@@ -48,6 +88,9 @@ export function GroupedTimeEntry({ groupedEntry, locale, startOfWeek, onDataChan
       title: newTitle,
     });
     await onDataChange();
+    registerUndo(t("timeLogs.undo.entriesUpdated", { count: entryIds.length }), () =>
+      restoreEntriesState(groupedEntry.entries)
+    );
   };
 
   const handleAutocompleteSelect = async (title: string, tags: string[]) => {
@@ -58,6 +101,9 @@ export function GroupedTimeEntry({ groupedEntry, locale, startOfWeek, onDataChan
       tags,
     });
     await onDataChange();
+    registerUndo(t("timeLogs.undo.entriesUpdated", { count: entryIds.length }), () =>
+      restoreEntriesState(groupedEntry.entries)
+    );
   };
 
   const handleInlineTagsUpdate = async (newTags: string[]) => {
@@ -67,6 +113,9 @@ export function GroupedTimeEntry({ groupedEntry, locale, startOfWeek, onDataChan
       tags: newTags,
     });
     await onDataChange();
+    registerUndo(t("timeLogs.undo.entriesUpdated", { count: entryIds.length }), () =>
+      restoreEntriesState(groupedEntry.entries)
+    );
   };
 
   return (
@@ -80,7 +129,7 @@ export function GroupedTimeEntry({ groupedEntry, locale, startOfWeek, onDataChan
           <div className="flex items-center gap-2">
             {/* Count badge */}
             <button
-              onClick={() => setIsExpanded(!isExpanded)}
+              onClick={handleToggleExpanded}
               data-testid="entry-count-badge"
               title={isExpanded ? t("timeLogs.groupedEntry.collapse") : t("timeLogs.groupedEntry.expand")}
               className={`
@@ -99,15 +148,21 @@ export function GroupedTimeEntry({ groupedEntry, locale, startOfWeek, onDataChan
             >
               {groupedEntry.entries.length}
             </button>
-            <div data-testid="entry-title">
-              <InlineTitleEdit
-                currentTitle={groupedEntry.title}
-                onSave={handleInlineTitleUpdate}
-                onAutocompleteSelect={handleAutocompleteSelect}
-                locale={locale}
-                testIdPrefix="grouped-entry-inline-title"
-              />
-            </div>
+            {isTagGroup ? (
+              <div className="font-medium text-foreground" data-testid="grouped-entry-tag">
+                {groupedEntry.title || t("timeLogs.groupingMode.noTag")}
+              </div>
+            ) : (
+              <div data-testid="entry-title">
+                <InlineTitleEdit
+                  currentTitle={groupedEntry.title}
+                  onSave={handleInlineTitleUpdate}
+                  onAutocompleteSelect={canEditTags ? handleAutocompleteSelect : handleInlineTitleUpdate}
+                  locale={locale}
+                  testIdPrefix="grouped-entry-inline-title"
+                />
+              </div>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-4 text-sm">
@@ -122,22 +177,43 @@ export function GroupedTimeEntry({ groupedEntry, locale, startOfWeek, onDataChan
           <div className="flex items-center gap-2">
             {/* Spacer matching the size of the delete button in individual entries */}
             <div className="w-9 h-9" aria-hidden="true" />
-            <InlineTagsEdit
-              currentTags={groupedEntry.tags || []}
-              onSave={handleInlineTagsUpdate}
-              testIdPrefix="grouped-entry-inline-tags"
-            />
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleContinue}
-              disabled={isContinuing}
-              data-testid="continue-button"
-              className="text-foreground"
-              title={t("timeLogs.startFromEntry")}
-            >
-              <Play className="h-4 w-4" />
-            </Button>
+            {canEditTags ? (
+              <InlineTagsEdit
+                currentTags={groupedEntry.tags || []}
+                onSave={handleInlineTagsUpdate}
+                testIdPrefix="grouped-entry-inline-tags"
+              />
+            ) : (
+              <div className="w-9 h-9" aria-hidden="true" />
+            )}
+            {isTagGroup ? (
+              <div className="w-9 h-9" aria-hidden="true" />
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleContinue}
+                disabled={isContinuing}
+                data-testid="continue-button"
+                className="text-foreground"
+                title={t("timeLogs.startFromEntry")}
+              >
+                <Play className="h-4 w-4" />
+              </Button>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" data-testid="grouped-entry-menu-button" className="text-foreground">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="dark">
+                <DropdownMenuItem onClick={() => setMergeDialogOpen(true)} data-testid="merge-group-menu-item">
+                  <Merge className="h-4 w-4 mr-2" />
+                  {t("timeLogs.mergeEntries.action")}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </div>
@@ -146,22 +222,32 @@ export function GroupedTimeEntry({ groupedEntry, locale, startOfWeek, onDataChan
       {isExpanded && (
         <div className="ml-8 mt-2 space-y-2" data-testid="grouped-entries-expanded">
           {groupedEntry.entries.map((entry) => {
-            const overlap = overlaps.get(entry.id);
             return (
               <TimeEntryComponent
                 key={`${entry.id}-${entry.startTime}`}
                 entry={entry}
                 locale={locale}
                 startOfWeek={startOfWeek}
+                day={day}
                 onDataChange={onDataChange}
                 hideTitle={false}
                 hideContinue={true}
-                overlap={overlap}
+                overlaps={overlaps.get(entry.id)}
+                isSelected={selectedEntryIds?.has(entry.id)}
+                onSelectionChange={onSelectionChange}
               />
             );
           })}
         </div>
       )}
+
+      <MergeEntriesDialog
+        open={mergeDialogOpen}
+        onOpenChange={setMergeDialogOpen}
+        entries={groupedEntry.entries}
+        locale={locale}
+        onDataChange={onDataChange}
+      />
     </div>
   );
 }
@@ -0,0 +1,123 @@
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiPost, apiPut } from "@/lib/api";
+import { formatTime } from "@/lib/date-format";
+import { useDurationFormat } from "@/hooks/useDurationFormat";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import type { TimeEntry } from "./types";
+
+interface IdleTimeDialogProps {
+  /** The entry that kept running while the user was away */
+  activeEntry: TimeEntry;
+  /** Start of the idle time in milliseconds, the dialog is closed if null */
+  idleSince: number | null;
+  locale: string;
+  onDataChange: () => Promise<void>;
+  /** Called when the user has decided what to do with the idle time */
+  onClose: () => void;
+}
+
+/**
+ * Asks the user returning to a running timer whether to keep the time they were away,
+ * discard it by stopping the entry at the start of the idle time, or discard it and continue the entry.
+ */
+export function IdleTimeDialog({ activeEntry, idleSince, locale, onDataChange, onClose }: IdleTimeDialogProps) {
+  const { t } = useTranslation();
+  const { formatDuration } = useDurationFormat();
+
+  return (
+    <Dialog open={idleSince !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent data-testid="idle-time-dialog">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">{t("timeLogs.idleTime.title")}</DialogTitle>
+          <DialogDescription className="text-foreground" data-testid="idle-time-message">
+            {idleSince !== null &&
+              t("timeLogs.idleTime.message", {
+                title: activeEntry.title,
+                time: formatTime(new Date(idleSince).toISOString(), locale),
+                duration: formatDuration(Date.now() - idleSince),
+              })}
+          </DialogDescription>
+        </DialogHeader>
+        {idleSince !== null && (
+          <IdleTimeActions
+            activeEntry={activeEntry}
+            idleSince={idleSince}
+            onDataChange={onDataChange}
+            onClose={onClose}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface IdleTimeActionsProps {
+  activeEntry: TimeEntry;
+  idleSince: number;
+  onDataChange: () => Promise<void>;
+  onClose: () => void;
+}
+
+function IdleTimeActions({ activeEntry, idleSince, onDataChange, onClose }: IdleTimeActionsProps) {
+  const { t } = useTranslation();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("idle-time");
+
+  const discardIdleTime = async (continueEntry: boolean) => {
+    await executeApiCall(async () => {
+      await apiPut(`/api-ui/time-log-entries/${activeEntry.id}/stop`, {
+        endTime: new Date(idleSince).toISOString(),
+      });
+      if (continueEntry) {
+        await apiPost<TimeEntry>("/api-ui/time-log-entries", {
+          title: activeEntry.title,
+          tags: activeEntry.tags || [],
+        });
+      }
+      await onDataChange();
+      onClose();
+    });
+  };
+
+  return (
+    <>
+      {formMessage}
+      <DialogFooter>
+        <Button
+          variant="ghost"
+          onClick={onClose}
+          disabled={apiCallInProgress}
+          data-testid="idle-time-keep-button"
+          className="text-foreground"
+        >
+          {t("timeLogs.idleTime.keep")}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => discardIdleTime(false)}
+          disabled={apiCallInProgress}
+          data-testid="idle-time-discard-button"
+          className="text-foreground"
+        >
+          {t("timeLogs.idleTime.discard")}
+        </Button>
+        <Button
+          onClick={() => discardIdleTime(true)}
+          disabled={apiCallInProgress}
+          data-testid="idle-time-discard-continue-button"
+          className="bg-teal-600 hover:bg-teal-700"
+        >
+          {t("timeLogs.idleTime.discardAndContinue")}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
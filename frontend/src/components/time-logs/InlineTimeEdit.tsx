@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Send, Loader2 } from "lucide-react";
 import { TimePicker } from "@/components/ui/time-picker";
 import { InlineCalendar } from "@/components/ui/inline-calendar";
-import { formatTime, formatTimeWithWeekday } from "@/lib/date-format";
+import { formatDateTime, formatTime, formatTimeWithWeekday } from "@/lib/date-format";
 
 interface InlineTimeEditProps {
   currentDateTime: string; // ISO 8601 timestamp
@@ -14,10 +14,14 @@ interface InlineTimeEditProps {
   locale: string;
   startOfWeek: number;
   showWeekday?: boolean; // Show weekday in trigger for cross-day entries
+  showDate?: boolean; // Show date in trigger
   testIdPrefix?: string;
   // For validation
   minDateTime?: string; // ISO 8601 timestamp - selected time must be after this
+  minDateTimeInclusive?: boolean; // Selected time may also be equal to minDateTime
   maxDateTime?: string; // ISO 8601 timestamp - selected time must be before this
+  minDateTimeMessage?: string; // Overrides the default validation message for minDateTime
+  maxDateTimeMessage?: string; // Overrides the default validation message for maxDateTime
 }
 
 export function InlineTimeEdit({
@@ -26,9 +30,13 @@ export function InlineTimeEdit({
   locale,
   startOfWeek,
   showWeekday = false,
+  showDate = false,
   testIdPrefix = "inline-time-edit",
   minDateTime,
+  minDateTimeInclusive = false,
   maxDateTime,
+  minDateTimeMessage,
+  maxDateTimeMessage,
 }: InlineTimeEditProps) {
   const { t } = useTranslation();
   const [isOpen, setIsOpen] = useState(false);
@@ -44,11 +52,13 @@ export function InlineTimeEdit({
     }
   }, [isOpen, currentDateTime]);
 
+  const isBeforeMinDateTime = (minDate: Date) => (minDateTimeInclusive ? dateTime < minDate : dateTime <= minDate);
+
   // Validate selected time
   const isValidSelection = () => {
     if (minDateTime) {
       const minDate = new Date(minDateTime);
-      if (dateTime <= minDate) {
+      if (isBeforeMinDateTime(minDate)) {
         return false;
       }
     }
@@ -64,14 +74,14 @@ export function InlineTimeEdit({
   const getValidationMessage = () => {
     if (minDateTime) {
       const minDate = new Date(minDateTime);
-      if (dateTime <= minDate) {
-        return t("timeLogs.validation.mustBeAfter");
+      if (isBeforeMinDateTime(minDate)) {
+        return minDateTimeMessage ?? t("timeLogs.validation.mustBeAfter");
       }
     }
     if (maxDateTime) {
       const maxDate = new Date(maxDateTime);
       if (dateTime >= maxDate) {
-        return t("timeLogs.validation.mustBeBefore");
+        return maxDateTimeMessage ?? t("timeLogs.validation.mustBeBefore");
       }
     }
     return "";
@@ -96,7 +106,11 @@ export function InlineTimeEdit({
     <Popover open={isOpen} onOpenChange={setIsOpen}>
       <PopoverTrigger asChild>
         <span className="text-muted-foreground cursor-pointer" data-testid={`${testIdPrefix}-trigger`}>
-          {showWeekday ? formatTimeWithWeekday(currentDateTime, locale) : formatTime(currentDateTime, locale)}
+          {showDate
+            ? formatDateTime(currentDateTime, locale)
+            : showWeekday
+              ? formatTimeWithWeekday(currentDateTime, locale)
+              : formatTime(currentDateTime, locale)}
         </span>
       </PopoverTrigger>
       <PopoverContent className="dark w-auto p-3" align="start" side="bottom" data-testid={`${testIdPrefix}-popover`}>
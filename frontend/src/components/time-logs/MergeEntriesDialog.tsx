@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiPost } from "@/lib/api";
+import { formatTime, formatTimeWithWeekday } from "@/lib/date-format";
+import { calculateMergePreview } from "@/lib/entry-merge";
+import { isDifferentDay } from "@/lib/time-utils";
+import { useDurationFormat } from "@/hooks/useDurationFormat";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import { useUndo } from "@/hooks/useUndo";
+import { restoreMergedEntries } from "@/lib/entry-undo";
+import { EntryAutocomplete } from "./EntryAutocomplete";
+import { TagSelector } from "./TagSelector";
+import type { TimeEntry, TimeLogEntry } from "./types";
+
+interface MergeEntriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Entries to merge, at least two */
+  entries: TimeLogEntry[];
+  locale: string;
+  onDataChange: () => Promise<void>;
+  /** Called after the entries have been merged successfully */
+  onMerged?: () => void;
+}
+
+/**
+ * Dialog for merging several time log entries into a single entry spanning
+ * from the earliest start to the latest end.
+ */
+export function MergeEntriesDialog({
+  open,
+  onOpenChange,
+  entries,
+  locale,
+  onDataChange,
+  onMerged,
+}: MergeEntriesDialogProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="merge-entries-dialog">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">{t("timeLogs.mergeEntries.title")}</DialogTitle>
+          <DialogDescription className="text-foreground">
+            {t("timeLogs.mergeEntries.message", { count: entries.length })}
+          </DialogDescription>
+        </DialogHeader>
+        <MergeEntriesForm
+          entries={entries}
+          locale={locale}
+          onDataChange={onDataChange}
+          onClose={() => onOpenChange(false)}
+          onMerged={onMerged}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface MergeEntriesFormProps {
+  entries: TimeLogEntry[];
+  locale: string;
+  onDataChange: () => Promise<void>;
+  onClose: () => void;
+  onMerged?: () => void;
+}
+
+function MergeEntriesForm({ entries, locale, onDataChange, onClose, onMerged }: MergeEntriesFormProps) {
+  const { t } = useTranslation();
+  const { formatDuration } = useDurationFormat();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("merge-entries");
+  const { registerUndo } = useUndo();
+
+  // Title and tags default to the earliest entry
+  const earliestEntry = entries.reduce((earliest, entry) =>
+    new Date(entry.startTime) < new Date(earliest.startTime) ? entry : earliest
+  );
+  const [title, setTitle] = useState(earliestEntry.title);
+  const [tags, setTags] = useState<string[]>(earliestEntry.tags || []);
+
+  const preview = calculateMergePreview(entries);
+  const endTimeDisplay = preview.endTime
+    ? isDifferentDay(preview.startTime, preview.endTime)
+      ? formatTimeWithWeekday(preview.endTime, locale)
+      : formatTime(preview.endTime, locale)
+    : t("timeLogs.inProgress");
+
+  const handleMerge = async () => {
+    await executeApiCall(async () => {
+      const mergedEntry = await apiPost<TimeEntry>("/api-ui/time-log-entries/merge", {
+        entryIds: entries.map((e) => e.id),
+        title: title.trim() || earliestEntry.title,
+        tags,
+      });
+      await onDataChange();
+      onMerged?.();
+      onClose();
+      registerUndo(t("timeLogs.undo.entriesMerged", { count: entries.length }), () =>
+        restoreMergedEntries(entries, mergedEntry.id)
+      );
+    });
+  };
+
+  return (
+    <>
+      {formMessage}
+      <div className="space-y-4">
+        <div className="p-2 bg-muted rounded text-sm text-foreground space-y-1" data-testid="merge-entries-preview">
+          <div data-testid="merge-entries-preview-range">
+            {formatTime(preview.startTime, locale)} - {endTimeDisplay}
+          </div>
+          <div data-testid="merge-entries-preview-tracked">
+            {t("timeLogs.mergeEntries.tracked", { duration: formatDuration(preview.trackedDuration) })}
+          </div>
+          <div data-testid="merge-entries-preview-gap">
+            {t("timeLogs.mergeEntries.absorbedGap", { duration: formatDuration(preview.absorbedGapDuration) })}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-foreground">{t("timeLogs.currentEntry.titleLabel")}</Label>
+          <div className="flex items-center gap-2">
+            <EntryAutocomplete
+              value={title}
+              onChange={setTitle}
+              onSelect={(selected) => {
+                setTitle(selected.title);
+                setTags(selected.tags);
+              }}
+              disabled={apiCallInProgress}
+              testId="merge-entries-title-input"
+              locale={locale}
+            />
+            <TagSelector
+              selectedTags={tags}
+              onTagsChange={setTags}
+              disabled={apiCallInProgress}
+              testIdPrefix="merge-entries-tags"
+            />
+          </div>
+        </div>
+      </div>
+      <DialogFooter>
+        <Button
+          variant="ghost"
+          onClick={onClose}
+          disabled={apiCallInProgress}
+          data-testid="merge-entries-cancel-button"
+          className="text-foreground"
+        >
+          {t("timeLogs.mergeEntries.cancel")}
+        </Button>
+        <Button
+          onClick={handleMerge}
+          disabled={apiCallInProgress}
+          data-testid="merge-entries-confirm-button"
+          className="bg-teal-600 hover:bg-teal-700"
+        >
+          {apiCallInProgress ? t("timeLogs.mergeEntries.merging") : t("timeLogs.mergeEntries.confirm")}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
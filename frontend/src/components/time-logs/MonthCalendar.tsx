@@ -0,0 +1,143 @@
+import { useTranslation } from "react-i18next";
+import { Card, CardContent } from "@/components/ui/card";
+import { CheckCircle2, Circle } from "lucide-react";
+import { calculateDailyGoalProgress } from "@/lib/daily-goal-progress";
+import { calculateIntensityLevel, generateMonthWeeks } from "@/lib/month-calendar";
+import { calculateDayDuration, groupEntriesByAttributedDay, type DayAttribution } from "@/lib/day-attribution";
+import { formatISODate } from "@/lib/time-utils";
+import { useDurationFormat } from "@/hooks/useDurationFormat";
+import { useDisplayRounding } from "@/hooks/useDisplayRounding";
+import { roundDuration } from "@/lib/duration-rounding";
+import { RoundedTotalIndicator } from "./RoundedTotalIndicator";
+import type { DailyGoalSettings, TimeLogEntry } from "./types";
+
+interface MonthCalendarProps {
+  entries: TimeLogEntry[];
+  /** First day of the displayed month */
+  monthStart: Date;
+  locale: string;
+  startOfWeek: number;
+  dailyGoal: DailyGoalSettings | null;
+  dayAttribution: DayAttribution;
+  /** Called when a day is clicked, to show the week of this day */
+  onDaySelect: (date: Date) => void;
+}
+
+const INTENSITY_CLASSES = ["bg-muted/30", "bg-primary/15", "bg-primary/30", "bg-primary/50", "bg-primary/70"];
+
+/**
+ * Calendar grid of the month, showing total tracked time of each day with a colored intensity scale
+ * and whether the daily goal was met.
+ */
+export function MonthCalendar({
+  entries,
+  monthStart,
+  locale,
+  startOfWeek,
+  dailyGoal,
+  dayAttribution,
+  onDaySelect,
+}: MonthCalendarProps) {
+  const { t } = useTranslation();
+  const { formatDuration } = useDurationFormat();
+  const rounding = useDisplayRounding();
+  const weeks = generateMonthWeeks(monthStart, startOfWeek);
+  const now = new Date();
+  const entriesByDay = groupEntriesByAttributedDay(entries, dayAttribution, now);
+  const today = formatISODate(now);
+
+  const totalsByDay = new Map<string, number>();
+  entriesByDay.forEach((dayEntries, day) =>
+    totalsByDay.set(
+      day,
+      dayEntries.reduce((sum, entry) => {
+        const duration = calculateDayDuration(entry, day, dayAttribution, now);
+        return sum + (rounding ? roundDuration(duration, rounding.incrementMinutes, rounding.direction) : duration);
+      }, 0)
+    )
+  );
+  const maxTotal = Math.max(0, ...totalsByDay.values());
+
+  // Goal is only evaluated for days with tracked time, so that days off are not marked as missed
+  const isGoalMet = (day: string, dayEntries: TimeLogEntry[]) => {
+    if (!dailyGoal) return false;
+    const progress = calculateDailyGoalProgress({
+      entries: dayEntries,
+      goalMinutes: dailyGoal.goalMinutes,
+      typicalBreaks: dailyGoal.typicalBreaks,
+      now,
+      day,
+      dayAttribution,
+    });
+    return progress != null && progress.progressPercent >= 100;
+  };
+
+  const dayNames = weeks[0].map((day) => day.toLocaleDateString(locale, { weekday: "short" }));
+
+  return (
+    <Card className="border-none shadow-md" data-testid="month-calendar">
+      <CardContent className="p-4">
+        <div className="grid grid-cols-7 gap-2">
+          {dayNames.map((dayName) => (
+            <div key={dayName} className="text-center text-xs font-medium text-muted-foreground">
+              {dayName}
+            </div>
+          ))}
+          {weeks.flat().map((day) => {
+            const isoDate = formatISODate(day);
+            if (day.getMonth() !== monthStart.getMonth()) {
+              return <div key={isoDate} />;
+            }
+
+            const dayEntries = entriesByDay.get(isoDate);
+            const total = totalsByDay.get(isoDate) ?? 0;
+            const intensity = calculateIntensityLevel(total, maxTotal);
+            const goalMet = dayEntries ? isGoalMet(isoDate, dayEntries) : false;
+
+            return (
+              <button
+                key={isoDate}
+                type="button"
+                onClick={() => onDaySelect(day)}
+                className={`flex h-20 flex-col items-start justify-between rounded-md p-2 text-left text-foreground hover:ring-2 hover:ring-ring cursor-pointer ${INTENSITY_CLASSES[intensity]} ${isoDate === today ? "ring-1 ring-foreground" : ""}`}
+                data-testid="month-calendar-day"
+                data-date={isoDate}
+                data-intensity={intensity}
+              >
+                <div className="flex w-full items-center justify-between">
+                  <span className="text-sm font-medium">{day.getDate()}</span>
+                  {dailyGoal?.enabled &&
+                    dayEntries &&
+                    (goalMet ? (
+                      <CheckCircle2
+                        className="h-4 w-4 text-green-500"
+                        aria-label={t("timeLogs.monthCalendar.goalMet")}
+                        data-testid="month-calendar-day-goal-met"
+                      />
+                    ) : (
+                      <Circle
+                        className="h-4 w-4 text-muted-foreground"
+                        aria-label={t("timeLogs.monthCalendar.goalNotMet")}
+                        data-testid="month-calendar-day-goal-not-met"
+                      />
+                    ))}
+                </div>
+                {total > 0 && (
+                  <span className="font-mono text-xs" data-testid="month-calendar-day-total">
+                    {formatDuration(total)}
+                    {rounding && (
+                      <>
+                        {" "}
+                        <RoundedTotalIndicator />
+                      </>
+                    )}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { TotalDurationDisplay } from "./TotalDurationDisplay";
+import type { DayAttribution } from "@/lib/day-attribution";
+import type { TimeLogEntry } from "./types";
+
+interface MonthNavigationProps {
+  entries: TimeLogEntry[];
+  locale: string;
+  /** In split mode the total only counts the time within the displayed period */
+  dayAttribution: DayAttribution;
+  /** First day of the displayed month */
+  monthStart: Date;
+  /** Called with a date within the month to display */
+  onMonthChange: (date: Date) => void;
+}
+
+export function MonthNavigation({ entries, locale, dayAttribution, monthStart, onMonthChange }: MonthNavigationProps) {
+  const { t } = useTranslation();
+
+  function handlePreviousMonth() {
+    onMonthChange(new Date(monthStart.getFullYear(), monthStart.getMonth() - 1, 1));
+  }
+
+  function handleNextMonth() {
+    onMonthChange(new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1));
+  }
+
+  const monthEnd = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1);
+  const totalsPeriod = dayAttribution === "SPLIT_AT_MIDNIGHT" ? { from: monthStart, to: monthEnd } : undefined;
+
+  const monthTitle = monthStart.toLocaleDateString(locale, { month: "long", year: "numeric" });
+
+  return (
+    <Card className="border-none shadow-md mb-6">
+      <CardContent className="flex items-center justify-between p-4">
+        <Button
+          variant="ghost"
+          onClick={handlePreviousMonth}
+          data-testid="previous-month-button"
+          className="text-foreground"
+        >
+          <ChevronLeft className="h-4 w-4 mr-2" />
+          {t("timeLogs.previousMonth")}
+        </Button>
+        <div className="flex flex-col items-center">
+          <h2 className="text-xl font-semibold text-foreground" data-testid="month-title">
+            {monthTitle}
+          </h2>
+          <div className="mt-1 text-sm text-muted-foreground" data-testid="monthly-total">
+            {t("timeLogs.monthlyTotal")}: <TotalDurationDisplay entries={entries} period={totalsPeriod} />
+          </div>
+        </div>
+        <Button variant="ghost" onClick={handleNextMonth} data-testid="next-month-button" className="text-foreground">
+          {t("timeLogs.nextMonth")}
+          <ChevronRight className="h-4 w-4 ml-2" />
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
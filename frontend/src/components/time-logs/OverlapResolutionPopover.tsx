@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertCircle } from "lucide-react";
+import { apiPatch, apiPost } from "@/lib/api";
+import { formatTime } from "@/lib/date-format";
+import { restoreEntriesState, restoreSplitEntry } from "@/lib/entry-undo";
+import { calculateShift, calculateTrim, findEntryToSplit, type EntryTimesChange } from "@/lib/overlap-resolution";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import { useUndo } from "@/hooks/useUndo";
+import type { EntryOverlap } from "@/lib/overlap-detection";
+import type { SplitTimeLogEntryResponse, TimeEntry, TimeLogEntry } from "./types";
+
+interface OverlapResolutionPopoverProps {
+  entry: TimeLogEntry;
+  /** All overlaps of the entry, each offering its own resolutions */
+  overlaps: EntryOverlap[];
+  locale: string;
+  onDataChange: () => Promise<void>;
+}
+
+/**
+ * Updates entry times via the start and end time endpoints.
+ * The order of the updates keeps the entry valid (start before end) after each of them.
+ */
+async function applyTimesChange({ entry, startTime, endTime }: EntryTimesChange) {
+  const updateStartTime = () => apiPatch<TimeEntry>(`/api-ui/time-log-entries/${entry.id}/start-time`, { startTime });
+  const updateEndTime = () => apiPatch<TimeEntry>(`/api-ui/time-log-entries/${entry.id}/end-time`, { endTime });
+
+  const startChanged = startTime !== entry.startTime;
+  const endChanged = endTime !== entry.endTime;
+
+  if (new Date(startTime).getTime() < new Date(entry.endTime!).getTime()) {
+    if (startChanged) await updateStartTime();
+    if (endChanged) await updateEndTime();
+  } else {
+    if (endChanged) await updateEndTime();
+    if (startChanged) await updateStartTime();
+  }
+}
+
+/**
+ * Warning about overlaps of the entry, with a popover listing every overlap
+ * and offering actions to resolve it.
+ */
+export function OverlapResolutionPopover({ entry, overlaps, locale, onDataChange }: OverlapResolutionPopoverProps) {
+  const { t } = useTranslation();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("overlap-resolution");
+  const { registerUndo } = useUndo();
+  const [open, setOpen] = useState(false);
+
+  const handleTimesChange = async (change: EntryTimesChange) => {
+    await executeApiCall(async () => {
+      await applyTimesChange(change);
+      await onDataChange();
+      setOpen(false);
+      registerUndo(t("timeLogs.undo.entryUpdated"), () => restoreEntriesState([change.entry]));
+    });
+  };
+
+  // The containing entry is split into parts before and after the contained one
+  const handleSplit = async (entryToSplit: TimeLogEntry, containedEntry: TimeLogEntry) => {
+    await executeApiCall(async () => {
+      const { secondEntry } = await apiPost<SplitTimeLogEntryResponse>(
+        `/api-ui/time-log-entries/${entryToSplit.id}/split`,
+        {
+          splitTime: containedEntry.startTime,
+          resumeTime: containedEntry.endTime,
+          title: entryToSplit.title,
+          tags: entryToSplit.tags,
+        }
+      );
+      await onDataChange();
+      setOpen(false);
+      registerUndo(t("timeLogs.undo.entrySplit"), () => restoreSplitEntry(entryToSplit, secondEntry.id));
+    });
+  };
+
+  const now = new Date();
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <AlertCircle className="h-4 w-4 text-yellow-500 cursor-pointer" data-testid="overlap-warning" />
+      </PopoverTrigger>
+      <PopoverContent className="dark w-96 text-sm" data-testid="overlap-tooltip">
+        {formMessage}
+        <div className="space-y-3">
+          {overlaps.map((overlap) => {
+            const other = overlap.otherEntry;
+            const trimThis = calculateTrim(entry, other);
+            const trimOther = calculateTrim(other, entry);
+            const shift = calculateShift(entry, other, now);
+            const entryToSplit = findEntryToSplit(entry, other);
+
+            return (
+              <div key={other.id} className="space-y-2" data-testid="overlap-item">
+                <div className="text-foreground" data-testid="overlap-description">
+                  {t("timeLogs.overlapResolution.description", {
+                    title: other.title,
+                    from: formatTime(overlap.overlapStart, locale),
+                    to: formatTime(overlap.overlapEnd, locale),
+                  })}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {trimThis && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-foreground"
+                      onClick={() => handleTimesChange(trimThis)}
+                      disabled={apiCallInProgress}
+                      data-testid="overlap-trim-this-button"
+                    >
+                      {t("timeLogs.overlapResolution.trimThis")}
+                    </Button>
+                  )}
+                  {trimOther && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-foreground"
+                      onClick={() => handleTimesChange(trimOther)}
+                      disabled={apiCallInProgress}
+                      data-testid="overlap-trim-other-button"
+                    >
+                      {t("timeLogs.overlapResolution.trimOther")}
+                    </Button>
+                  )}
+                  {shift && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-foreground"
+                      onClick={() => handleTimesChange(shift)}
+                      disabled={apiCallInProgress}
+                      data-testid="overlap-shift-button"
+                    >
+                      {t("timeLogs.overlapResolution.shift")}
+                    </Button>
+                  )}
+                  {entryToSplit && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-foreground"
+                      onClick={() => handleSplit(entryToSplit, entryToSplit === entry ? other : entry)}
+                      disabled={apiCallInProgress}
+                      data-testid="overlap-split-button"
+                    >
+                      {t("timeLogs.overlapResolution.split")}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
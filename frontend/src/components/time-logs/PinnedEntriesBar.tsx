@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Check, Pencil, Pin, X } from "lucide-react";
+import { apiPost } from "@/lib/api";
+import { movePinnedEntry } from "@/lib/pinned-entries";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import { usePinnedEntries } from "@/hooks/usePinnedEntries";
+import type { PinnedEntry, TimeEntry } from "./types";
+
+interface PinnedEntriesBarProps {
+  onDataChange: () => Promise<void>;
+}
+
+/**
+ * One-click start chips for the pinned entries, which can also be reordered and unpinned here.
+ */
+export function PinnedEntriesBar({ onDataChange }: PinnedEntriesBarProps) {
+  const { t } = useTranslation();
+  const { pinnedEntries, unpinEntry, reorderPinnedEntries, apiCallInProgress, formMessage } = usePinnedEntries();
+  const {
+    executeApiCall: executeStartCall,
+    apiCallInProgress: isStarting,
+    formMessage: startFormMessage,
+  } = useApiExecutor("pinned-entry-start");
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Starts the same way as continuing an entry, stopping the active one
+  const handleStart = async (pinnedEntry: PinnedEntry) => {
+    await executeStartCall(async () => {
+      await apiPost<TimeEntry>("/api-ui/time-log-entries", {
+        title: pinnedEntry.title,
+        tags: pinnedEntry.tags,
+        billable: pinnedEntry.billable,
+        stopActiveEntry: true,
+      });
+      await onDataChange();
+    });
+  };
+
+  const isBusy = apiCallInProgress || isStarting;
+
+  return (
+    <div className={pinnedEntries.length > 0 ? "mb-6" : undefined} data-testid="pinned-entries-bar">
+      {formMessage}
+      {startFormMessage}
+      {pinnedEntries.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Pin className="h-4 w-4 text-muted-foreground" />
+          {pinnedEntries.map((pinnedEntry, index) => (
+            <div
+              key={pinnedEntry.id}
+              className="flex items-center rounded-md border border-border bg-card"
+              data-testid={`pinned-entry-${index}`}
+            >
+              {isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => reorderPinnedEntries(movePinnedEntry(pinnedEntries, index, -1))}
+                  disabled={isBusy || index === 0}
+                  className="h-8 px-1 text-foreground"
+                  data-testid={`pinned-entry-move-left-${index}`}
+                  aria-label={t("timeLogs.pinnedEntries.moveLeft")}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleStart(pinnedEntry)}
+                disabled={isBusy || isEditing}
+                className="h-8 text-foreground"
+                title={
+                  pinnedEntry.tags.length > 0
+                    ? t("timeLogs.autocomplete.tags", { tags: pinnedEntry.tags.join(", ") })
+                    : undefined
+                }
+                data-testid={`pinned-entry-start-${index}`}
+              >
+                {pinnedEntry.title}
+                {pinnedEntry.tags.length > 0 && (
+                  <span className="text-xs text-muted-foreground">{pinnedEntry.tags.join(", ")}</span>
+                )}
+              </Button>
+              {isEditing && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => reorderPinnedEntries(movePinnedEntry(pinnedEntries, index, 1))}
+                    disabled={isBusy || index === pinnedEntries.length - 1}
+                    className="h-8 px-1 text-foreground"
+                    data-testid={`pinned-entry-move-right-${index}`}
+                    aria-label={t("timeLogs.pinnedEntries.moveRight")}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => unpinEntry(pinnedEntry.id)}
+                    disabled={isBusy}
+                    className="h-8 px-1 text-foreground"
+                    data-testid={`pinned-entry-unpin-${index}`}
+                    aria-label={t("timeLogs.pinnedEntries.unpin")}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsEditing(!isEditing)}
+            className="text-foreground"
+            data-testid="pinned-entries-edit-button"
+            title={isEditing ? t("timeLogs.pinnedEntries.done") : t("timeLogs.pinnedEntries.edit")}
+          >
+            {isEditing ? <Check className="h-4 w-4" /> : <Pencil className="h-4 w-4" />}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
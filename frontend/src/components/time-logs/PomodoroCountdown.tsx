@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { formatDuration } from "@/lib/time-utils";
+import { getPomodoroInterval, hasPomodoroIntervalEnded, type PomodoroIntervalKind } from "@/lib/pomodoro";
+import type { PomodoroSettings, TimeEntry } from "./types";
+
+interface PomodoroCountdownProps {
+  activeEntry: TimeEntry;
+  settings: PomodoroSettings;
+  /** Called when an interval ends while the countdown is displayed */
+  onIntervalEnd: (kind: PomodoroIntervalKind) => void;
+}
+
+/**
+ * Counts down the current Pomodoro interval of the active entry, re-rendering every second.
+ * Intervals that ended before the countdown was displayed are not reported.
+ */
+export function PomodoroCountdown({ activeEntry, settings, onIntervalEnd }: PomodoroCountdownProps) {
+  const { t } = useTranslation();
+  const [currentInterval, setCurrentInterval] = useState(() => getPomodoroInterval(activeEntry, settings, Date.now()));
+  const previousIntervalRef = useRef(currentInterval);
+  const onIntervalEndRef = useRef(onIntervalEnd);
+
+  // Keep callback ref up to date
+  useEffect(() => {
+    onIntervalEndRef.current = onIntervalEnd;
+  }, [onIntervalEnd]);
+
+  useEffect(() => {
+    const update = () => {
+      const current = getPomodoroInterval(activeEntry, settings, Date.now());
+      const previous = previousIntervalRef.current;
+      previousIntervalRef.current = current;
+      setCurrentInterval(current);
+      if (hasPomodoroIntervalEnded(previous, current)) {
+        onIntervalEndRef.current(previous.kind);
+      }
+    };
+
+    // Start over for another entry or changed settings
+    previousIntervalRef.current = getPomodoroInterval(activeEntry, settings, Date.now());
+    update();
+    const timer = window.setInterval(update, 1000);
+    return () => window.clearInterval(timer);
+  }, [activeEntry, settings]);
+
+  return (
+    <div className="text-right" data-testid="pomodoro-countdown">
+      <div className="text-xs text-muted-foreground" data-testid="pomodoro-interval-kind">
+        {t(`timeLogs.pomodoro.intervals.${currentInterval.kind}`)}
+      </div>
+      <div className="text-lg font-mono text-foreground" data-testid="pomodoro-remaining">
+        {/* Round up, so that the countdown shows zero only once the interval is over */}
+        {formatDuration(Math.ceil(currentInterval.remaining / 1000) * 1000)}
+      </div>
+    </div>
+  );
+}
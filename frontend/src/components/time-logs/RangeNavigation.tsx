@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { InlineCalendar } from "@/components/ui/inline-calendar";
+import { CalendarDays } from "lucide-react";
+import { getWeekStart } from "@/lib/time-utils";
+import { TotalDurationDisplay } from "./TotalDurationDisplay";
+import type { DayAttribution } from "@/lib/day-attribution";
+import type { TimeLogEntry } from "./types";
+
+interface RangeNavigationProps {
+  entries: TimeLogEntry[];
+  locale: string;
+  startOfWeek: number;
+  /** In split mode the total only counts the time within the displayed period */
+  dayAttribution: DayAttribution;
+  /** First day of the displayed range */
+  firstDay: Date;
+  /** Last day of the displayed range, inclusive */
+  lastDay: Date;
+  /** Called with the first and the last day of the range to display */
+  onRangeChange: (firstDay: Date, lastDay: Date) => void;
+}
+
+// Ranges may span years, so the year is always shown
+function formatRangeBound(date: Date, locale: string): string {
+  return date.toLocaleDateString(locale, { day: "numeric", month: "short", year: "numeric" });
+}
+
+/**
+ * Navigation for a custom range of days, picked with calendars or via today and this week shortcuts.
+ */
+export function RangeNavigation({
+  entries,
+  locale,
+  startOfWeek,
+  dayAttribution,
+  firstDay,
+  lastDay,
+  onRangeChange,
+}: RangeNavigationProps) {
+  const { t } = useTranslation();
+  const [fromPickerOpen, setFromPickerOpen] = useState(false);
+  const [toPickerOpen, setToPickerOpen] = useState(false);
+
+  const rangeEnd = new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1);
+  const totalsPeriod = dayAttribution === "SPLIT_AT_MIDNIGHT" ? { from: firstDay, to: rangeEnd } : undefined;
+
+  // Picking a bound beyond the other one moves the other bound along
+  function handleFromSelect(date: Date) {
+    onRangeChange(date, date > lastDay ? date : lastDay);
+    setFromPickerOpen(false);
+  }
+
+  function handleToSelect(date: Date) {
+    onRangeChange(date < firstDay ? date : firstDay, date);
+    setToPickerOpen(false);
+  }
+
+  function handleToday() {
+    onRangeChange(new Date(), new Date());
+  }
+
+  function handleThisWeek() {
+    const weekStart = getWeekStart(new Date(), startOfWeek);
+    const weekEnd = new Date(weekStart);
+    weekEnd.setDate(weekEnd.getDate() + 6);
+    onRangeChange(weekStart, weekEnd);
+  }
+
+  return (
+    <Card className="border-none shadow-md mb-6">
+      <CardContent className="flex flex-wrap items-center justify-between gap-4 p-4">
+        <div className="flex items-center gap-2 text-foreground">
+          <Popover open={fromPickerOpen} onOpenChange={setFromPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="text-foreground" data-testid="range-from-button">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                {formatRangeBound(firstDay, locale)}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="dark w-auto p-3" data-testid="range-from-picker">
+              <InlineCalendar
+                value={firstDay}
+                onChange={handleFromSelect}
+                locale={locale}
+                startOfWeek={startOfWeek}
+                testIdPrefix="range-from-picker"
+              />
+            </PopoverContent>
+          </Popover>
+          <span>-</span>
+          <Popover open={toPickerOpen} onOpenChange={setToPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="text-foreground" data-testid="range-to-button">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                {formatRangeBound(lastDay, locale)}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="dark w-auto p-3" data-testid="range-to-picker">
+              <InlineCalendar
+                value={lastDay}
+                onChange={handleToSelect}
+                locale={locale}
+                startOfWeek={startOfWeek}
+                testIdPrefix="range-to-picker"
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+        <div className="text-sm text-muted-foreground" data-testid="range-total">
+          {t("timeLogs.dateNavigation.rangeTotal")}: <TotalDurationDisplay entries={entries} period={totalsPeriod} />
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleToday}
+            data-testid="range-today-button"
+            className="text-foreground"
+          >
+            {t("timeLogs.dateNavigation.today")}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleThisWeek}
+            data-testid="range-this-week-button"
+            className="text-foreground"
+          >
+            {t("timeLogs.dateNavigation.thisWeek")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,25 @@
+import { useTranslation } from "react-i18next";
+import { ArrowUpDown } from "lucide-react";
+import { useDisplayRounding } from "@/hooks/useDisplayRounding";
+
+/**
+ * Marks a total calculated from rounded durations of the entries, explaining the rounding on hover.
+ */
+export function RoundedTotalIndicator() {
+  const { t } = useTranslation();
+  const rounding = useDisplayRounding();
+
+  return (
+    <span
+      className="inline-flex align-middle text-muted-foreground"
+      title={
+        rounding
+          ? t(`timeLogs.rounding.roundedTotal.${rounding.direction}`, { increment: rounding.incrementMinutes })
+          : t("timeLogs.rounding.roundedTotalGeneric")
+      }
+      data-testid="rounded-total-indicator"
+    >
+      <ArrowUpDown className="h-3 w-3" />
+    </span>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TimePicker } from "@/components/ui/time-picker";
+import { InlineCalendar } from "@/components/ui/inline-calendar";
+import { apiPost } from "@/lib/api";
+import { formatTime } from "@/lib/date-format";
+import { calculateDuration, isDifferentDay } from "@/lib/time-utils";
+import { useDurationFormat } from "@/hooks/useDurationFormat";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import { EntryAutocomplete } from "./EntryAutocomplete";
+import { TagSelector } from "./TagSelector";
+import type { SplitTimeLogEntryResponse, TimeEntry } from "./types";
+
+interface SplitEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry: TimeEntry;
+  locale: string;
+  startOfWeek: number;
+  onDataChange: () => Promise<void>;
+}
+
+/**
+ * Dialog for splitting a time log entry into two at a chosen moment.
+ * The second part gets its own title and tags; for an active entry, the second part keeps running.
+ */
+export function SplitEntryDialog({
+  open,
+  onOpenChange,
+  entry,
+  locale,
+  startOfWeek,
+  onDataChange,
+}: SplitEntryDialogProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="split-entry-dialog">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">{t("timeLogs.splitEntry.title")}</DialogTitle>
+          <DialogDescription className="text-foreground">{t("timeLogs.splitEntry.message")}</DialogDescription>
+        </DialogHeader>
+        {/* Form is mounted on open only, so that the picker is initialized with a fresh split point */}
+        <SplitEntryForm
+          entry={entry}
+          locale={locale}
+          startOfWeek={startOfWeek}
+          onDataChange={onDataChange}
+          onClose={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SplitEntryFormProps {
+  entry: TimeEntry;
+  locale: string;
+  startOfWeek: number;
+  onDataChange: () => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Calculates the default split point: the middle of the entry, truncated to the minute.
+ */
+function getDefaultSplitTime(entry: TimeEntry): Date {
+  const start = new Date(entry.startTime).getTime();
+  const end = entry.endTime ? new Date(entry.endTime).getTime() : Date.now();
+  const splitTime = new Date(start + (end - start) / 2);
+  splitTime.setSeconds(0, 0);
+  return splitTime;
+}
+
+function SplitEntryForm({ entry, locale, startOfWeek, onDataChange, onClose }: SplitEntryFormProps) {
+  const { t } = useTranslation();
+  const { formatDuration } = useDurationFormat();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("split-entry");
+  const [splitTime, setSplitTime] = useState(() => getDefaultSplitTime(entry));
+  const [title, setTitle] = useState("");
+  const [tags, setTags] = useState<string[]>(entry.tags || []);
+
+  // Active entries can only be split in the past
+  const entryEnd = entry.endTime ?? new Date().toISOString();
+  const spansDifferentDay = isDifferentDay(entry.startTime, entryEnd);
+
+  const getValidationMessage = () => {
+    if (splitTime <= new Date(entry.startTime)) {
+      return t("timeLogs.validation.mustBeAfter");
+    }
+    if (splitTime >= new Date(entryEnd)) {
+      return entry.endTime ? t("timeLogs.validation.mustBeBefore") : t("timeLogs.splitEntry.mustBeInPast");
+    }
+    return null;
+  };
+
+  const validationMessage = getValidationMessage();
+  const splitTimeStr = splitTime.toISOString();
+
+  const handleSplit = async () => {
+    await executeApiCall(async () => {
+      await apiPost<SplitTimeLogEntryResponse>(`/api-ui/time-log-entries/${entry.id}/split`, {
+        splitTime: splitTimeStr,
+        title: title.trim() || entry.title,
+        tags,
+      });
+      await onDataChange();
+      onClose();
+    });
+  };
+
+  return (
+    <>
+      {formMessage}
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label className="text-foreground">{t("timeLogs.splitEntry.splitAt")}</Label>
+          <TimePicker
+            value={splitTime}
+            onChange={setSplitTime}
+            disabled={apiCallInProgress}
+            locale={locale}
+            testIdPrefix="split-entry-time"
+          />
+          {spansDifferentDay && (
+            <InlineCalendar
+              value={splitTime}
+              onChange={setSplitTime}
+              locale={locale}
+              startOfWeek={startOfWeek}
+              testIdPrefix="split-entry"
+            />
+          )}
+          {validationMessage && (
+            <div className="text-sm text-destructive" data-testid="split-entry-validation-message">
+              {validationMessage}
+            </div>
+          )}
+        </div>
+
+        {!validationMessage && (
+          <div className="p-2 bg-muted rounded text-sm text-foreground space-y-1" data-testid="split-entry-preview">
+            <div className="flex justify-between gap-4" data-testid="split-entry-preview-first">
+              <span>
+                {entry.title}: {formatTime(entry.startTime, locale)} - {formatTime(splitTimeStr, locale)}
+              </span>
+              <span className="font-mono">{formatDuration(calculateDuration(entry.startTime, splitTimeStr))}</span>
+            </div>
+            <div className="flex justify-between gap-4" data-testid="split-entry-preview-second">
+              <span>
+                {title.trim() || entry.title}: {formatTime(splitTimeStr, locale)} -{" "}
+                {entry.endTime ? formatTime(entry.endTime, locale) : t("timeLogs.inProgress")}
+              </span>
+              <span className="font-mono">{formatDuration(calculateDuration(splitTimeStr, entry.endTime))}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-foreground">{t("timeLogs.splitEntry.secondPart")}</Label>
+          <div className="flex items-center gap-2">
+            <EntryAutocomplete
+              value={title}
+              onChange={setTitle}
+              onSelect={(selected) => {
+                setTitle(selected.title);
+                setTags(selected.tags);
+              }}
+              placeholder={entry.title}
+              disabled={apiCallInProgress}
+              testId="split-entry-title-input"
+              locale={locale}
+            />
+            <TagSelector
+              selectedTags={tags}
+              onTagsChange={setTags}
+              disabled={apiCallInProgress}
+              testIdPrefix="split-entry-tags"
+            />
+          </div>
+        </div>
+      </div>
+      <DialogFooter>
+        <Button
+          variant="ghost"
+          onClick={onClose}
+          disabled={apiCallInProgress}
+          data-testid="split-entry-cancel-button"
+          className="text-foreground"
+        >
+          {t("timeLogs.splitEntry.cancel")}
+        </Button>
+        <Button
+          onClick={handleSplit}
+          disabled={apiCallInProgress || validationMessage !== null}
+          data-testid="split-entry-confirm-button"
+          className="bg-teal-600 hover:bg-teal-700"
+        >
+          {apiCallInProgress ? t("timeLogs.splitEntry.splitting") : t("timeLogs.splitEntry.confirm")}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
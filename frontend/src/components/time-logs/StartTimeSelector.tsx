@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { TimePicker } from "@/components/ui/time-picker";
+import { Clock } from "lucide-react";
+import { formatTime } from "@/lib/date-format";
+import { START_TIME_OFFSETS_MINUTES, type StartTimeValidationError } from "@/lib/backdated-start";
+
+interface StartTimeSelectorProps {
+  /** Selected start time of the new entry, null to start now */
+  value: Date | null;
+  onChange: (value: Date | null) => void;
+  validationError: StartTimeValidationError | null;
+  locale: string;
+  disabled?: boolean;
+}
+
+/**
+ * Allows starting a new entry in the past, either by a quick offset from now or at an exact time.
+ */
+export function StartTimeSelector({ value, onChange, validationError, locale, disabled }: StartTimeSelectorProps) {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  // The time picker keeps its own input, so it is re-created when the value is changed by other controls
+  const [timePickerKey, setTimePickerKey] = useState(0);
+
+  const selectValue = (newValue: Date | null) => {
+    onChange(newValue);
+    setTimePickerKey((key) => key + 1);
+  };
+
+  const handleOffset = (minutes: number) => {
+    selectValue(new Date(Date.now() - minutes * 60 * 1000));
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={disabled}
+          className={validationError ? "text-destructive" : "text-foreground"}
+          data-testid="new-entry-start-time-trigger"
+          title={t("timeLogs.backdatedStart.title")}
+        >
+          <Clock className="h-4 w-4" />
+          {value ? formatTime(value.toISOString(), locale) : t("timeLogs.backdatedStart.now")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="dark w-auto p-3" align="start" data-testid="new-entry-start-time-popover">
+        <div className="space-y-3">
+          <div className="text-sm font-medium text-foreground">{t("timeLogs.backdatedStart.title")}</div>
+          <div className="flex flex-wrap gap-2">
+            {START_TIME_OFFSETS_MINUTES.map((minutes) => (
+              <Button
+                key={minutes}
+                variant="outline"
+                size="sm"
+                onClick={() => handleOffset(minutes)}
+                className="text-foreground"
+                data-testid={`new-entry-start-time-offset-${minutes}`}
+              >
+                {t("timeLogs.backdatedStart.offset", { minutes })}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <TimePicker
+              key={timePickerKey}
+              value={value ?? new Date()}
+              onChange={onChange}
+              locale={locale}
+              testIdPrefix="new-entry-start-time"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => selectValue(null)}
+              className="text-foreground"
+              data-testid="new-entry-start-time-now"
+            >
+              {t("timeLogs.backdatedStart.now")}
+            </Button>
+          </div>
+          {validationError && (
+            <p className="text-sm text-destructive" data-testid="new-entry-start-time-error">
+              {t(`timeLogs.backdatedStart.errors.${validationError}`)}
+            </p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
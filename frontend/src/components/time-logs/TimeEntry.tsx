@@ -1,17 +1,39 @@
 import { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Play, Trash2, AlertCircle } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Play,
+  Trash2,
+  AlertCircle,
+  CornerDownRight,
+  MoreVertical,
+  Scissors,
+  Pin,
+  PinOff,
+  DollarSign,
+} from "lucide-react";
 import { formatTime, formatTimeWithWeekday, formatDate } from "@/lib/date-format";
-import { isDifferentDay } from "@/lib/time-utils";
+import { formatISODate, isDifferentDay } from "@/lib/time-utils";
 import { apiDelete, apiPost, apiPatch, apiPut } from "@/lib/api";
 import { useApiExecutor } from "@/hooks/useApiExecutor";
+import { useUndo } from "@/hooks/useUndo";
+import { usePinnedEntries } from "@/hooks/usePinnedEntries";
+import { restoreDeletedEntries, restoreEntriesState } from "@/lib/entry-undo";
 import { DeleteConfirmationDialog } from "./DeleteConfirmationDialog";
 import { InlineTitleEdit } from "./InlineTitleEdit";
 import { InlineTimeEdit } from "./InlineTimeEdit";
 import { InlineTagsEdit } from "./InlineTagsEdit";
 import { DurationDisplay } from "./DurationDisplay";
+import { SplitEntryDialog } from "./SplitEntryDialog";
+import { OverlapResolutionPopover } from "./OverlapResolutionPopover";
 import type { EntryOverlap } from "@/lib/overlap-detection";
 import type { TimeLogEntry, TimeEntry } from "./types";
 
@@ -19,20 +41,28 @@ interface TimeEntryProps {
   entry: TimeLogEntry;
   locale: string;
   startOfWeek: number;
+  /** ISO date of the day the entry is displayed for, to mark entries continued from the previous day */
+  day?: string;
   onDataChange: () => Promise<void>;
   hideTitle?: boolean;
   hideContinue?: boolean;
-  overlap?: EntryOverlap;
+  overlaps?: EntryOverlap[];
+  /** Whether the entry is selected for multi-entry actions; selection is disabled if not provided */
+  isSelected?: boolean;
+  onSelectionChange?: (entryId: number, selected: boolean) => void;
 }
 
 export function TimeEntry({
   entry,
   locale,
   startOfWeek,
+  day,
   onDataChange,
   hideTitle = false,
   hideContinue = false,
-  overlap,
+  overlaps,
+  isSelected = false,
+  onSelectionChange,
 }: TimeEntryProps) {
   const { t } = useTranslation();
   const {
@@ -41,15 +71,25 @@ export function TimeEntry({
     formMessage: deleteFormMessage,
   } = useApiExecutor("delete-entry");
   const { executeApiCall: executeContinueCall, apiCallInProgress: isContinuing } = useApiExecutor("continue-entry");
+  const {
+    executeApiCall: executeBillableCall,
+    apiCallInProgress: isTogglingBillable,
+    formMessage: billableFormMessage,
+  } = useApiExecutor("entry-billable");
+  const { registerUndo } = useUndo();
+  const pinning = usePinnedEntries();
+  const pinnedEntry = pinning.findPinnedEntry(entry.title, entry.tags || []);
 
   // Deletion state
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [splitDialogOpen, setSplitDialogOpen] = useState(false);
 
   const handleDelete = async () => {
     await executeDeleteCall(async () => {
       await apiDelete(`/api-ui/time-log-entries/${entry.id}`);
       await onDataChange();
       setDeleteDialogOpen(false);
+      registerUndo(t("timeLogs.undo.entryDeleted"), () => restoreDeletedEntries([entry.id]));
     });
   };
 
@@ -58,6 +98,7 @@ export function TimeEntry({
       await apiPost<TimeEntry>("/api-ui/time-log-entries", {
         title: entry.title,
         tags: entry.tags,
+        billable: entry.billable,
         stopActiveEntry: true,
       });
       await onDataChange();
@@ -69,6 +110,7 @@ export function TimeEntry({
       title: newTitle,
     });
     await onDataChange();
+    registerUndo(t("timeLogs.undo.entryUpdated"), () => restoreEntriesState([entry]));
   };
 
   const handleAutocompleteSelect = async (title: string, tags: string[]) => {
@@ -78,6 +120,7 @@ export function TimeEntry({
       tags,
     });
     await onDataChange();
+    registerUndo(t("timeLogs.undo.entryUpdated"), () => restoreEntriesState([entry]));
   };
 
   const handleInlineStartTimeUpdate = async (newDateTime: Date) => {
@@ -85,6 +128,7 @@ export function TimeEntry({
       startTime: newDateTime.toISOString(),
     });
     await onDataChange();
+    registerUndo(t("timeLogs.undo.entryUpdated"), () => restoreEntriesState([entry]));
   };
 
   const handleInlineEndTimeUpdate = async (newDateTime: Date) => {
@@ -92,6 +136,7 @@ export function TimeEntry({
       endTime: newDateTime.toISOString(),
     });
     await onDataChange();
+    registerUndo(t("timeLogs.undo.entryUpdated"), () => restoreEntriesState([entry]));
   };
 
   const handleInlineTagsUpdate = async (newTags: string[]) => {
@@ -99,6 +144,19 @@ export function TimeEntry({
       tags: newTags,
     });
     await onDataChange();
+    registerUndo(t("timeLogs.undo.entryUpdated"), () => restoreEntriesState([entry]));
+  };
+
+  const handleBillableToggle = async () => {
+    await executeBillableCall(async () => {
+      await apiPatch<TimeEntry>(`/api-ui/time-log-entries/${entry.id}/billable`, {
+        billable: !entry.billable,
+      });
+      await onDataChange();
+      registerUndo(t("timeLogs.undo.entryUpdated"), async () => {
+        await apiPatch(`/api-ui/time-log-entries/${entry.id}/billable`, { billable: entry.billable });
+      });
+    });
   };
 
   // Check if entry spans to a different day
@@ -108,10 +166,22 @@ export function TimeEntry({
       ? formatTimeWithWeekday(entry.endTime, locale)
       : formatTime(entry.endTime, locale)
     : t("timeLogs.inProgress");
+  // Entries crossing midnight are also displayed on the following days when their time is split between days
+  const continuedFromPreviousDay = day !== undefined && formatISODate(new Date(entry.startTime)) < day;
 
   return (
     <div className="flex items-center justify-between p-3 border border-border rounded-md" data-testid="time-entry">
+      {onSelectionChange && (
+        <Checkbox
+          checked={isSelected}
+          onCheckedChange={(checked) => onSelectionChange(entry.id, checked === true)}
+          className="mr-3"
+          data-testid="entry-select-checkbox"
+          aria-label={t("timeLogs.selectEntry")}
+        />
+      )}
       <div className="flex-1">
+        {billableFormMessage}
         {!hideTitle && (
           <div data-testid="entry-title">
             <InlineTitleEdit
@@ -136,15 +206,18 @@ export function TimeEntry({
               </PopoverContent>
             </Popover>
           )}
-          {overlap && (
-            <Popover>
-              <PopoverTrigger asChild>
-                <AlertCircle className="h-4 w-4 text-yellow-500 cursor-pointer" data-testid="overlap-warning" />
-              </PopoverTrigger>
-              <PopoverContent className="dark text-sm" data-testid="overlap-tooltip">
-                {t("timeLogs.overlapWarning", { title: overlap.overlappingEntryTitle })}
-              </PopoverContent>
-            </Popover>
+          {continuedFromPreviousDay && (
+            <span
+              title={t("timeLogs.dayAttribution.continuedFromPreviousDay", {
+                date: formatDate(entry.startTime, locale),
+              })}
+              data-testid="continued-from-previous-day"
+            >
+              <CornerDownRight className="h-4 w-4" />
+            </span>
+          )}
+          {overlaps && overlaps.length > 0 && (
+            <OverlapResolutionPopover entry={entry} overlaps={overlaps} locale={locale} onDataChange={onDataChange} />
           )}
           <span>
             <InlineTimeEdit
@@ -152,6 +225,7 @@ export function TimeEntry({
               onSave={handleInlineStartTimeUpdate}
               locale={locale}
               startOfWeek={startOfWeek}
+              showWeekday={continuedFromPreviousDay}
               testIdPrefix="time-entry-inline-start-time"
               maxDateTime={entry.endTime || undefined}
             />
@@ -191,6 +265,19 @@ export function TimeEntry({
             onSave={handleInlineTagsUpdate}
             testIdPrefix="time-entry-inline-tags"
           />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleBillableToggle}
+            disabled={isTogglingBillable}
+            data-testid="entry-billable-toggle"
+            data-billable={entry.billable}
+            aria-pressed={entry.billable}
+            className={entry.billable ? "text-primary" : "text-muted-foreground"}
+            title={entry.billable ? t("timeLogs.billable.markNonBillable") : t("timeLogs.billable.markBillable")}
+          >
+            <DollarSign className="h-4 w-4" />
+          </Button>
           {!hideContinue && (
             <Button
               variant="ghost"
@@ -204,6 +291,32 @@ export function TimeEntry({
               <Play className="h-4 w-4" />
             </Button>
           )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" data-testid="entry-menu-button" className="text-foreground">
+                <MoreVertical className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="dark">
+              <DropdownMenuItem onClick={() => setSplitDialogOpen(true)} data-testid="split-entry-menu-item">
+                <Scissors className="h-4 w-4 mr-2" />
+                {t("timeLogs.splitEntry.action")}
+              </DropdownMenuItem>
+              {pinning.available && (
+                <DropdownMenuItem
+                  onClick={() =>
+                    pinnedEntry
+                      ? pinning.unpinEntry(pinnedEntry.id)
+                      : pinning.pinEntry(entry.title, entry.tags || [], entry.billable)
+                  }
+                  data-testid="pin-entry-menu-item"
+                >
+                  {pinnedEntry ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+                  {pinnedEntry ? t("timeLogs.pinnedEntries.unpin") : t("timeLogs.pinnedEntries.pin")}
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
@@ -217,6 +330,15 @@ export function TimeEntry({
         onConfirm={handleDelete}
         formMessage={deleteFormMessage}
       />
+
+      <SplitEntryDialog
+        open={splitDialogOpen}
+        onOpenChange={setSplitDialogOpen}
+        entry={entry}
+        locale={locale}
+        startOfWeek={startOfWeek}
+        onDataChange={onDataChange}
+      />
     </div>
   );
 }
@@ -1,23 +1,36 @@
 import { useState, useEffect } from "react";
-import { calculateDuration, formatDuration } from "@/lib/time-utils";
+import { calculateDuration } from "@/lib/time-utils";
+import { useDurationFormat } from "@/hooks/useDurationFormat";
+import { useDisplayRounding } from "@/hooks/useDisplayRounding";
+import { roundDuration } from "@/lib/duration-rounding";
+import { RoundedTotalIndicator } from "./RoundedTotalIndicator";
+import { calculateDurationWithinPeriod, type TimePeriod } from "@/lib/day-attribution";
 import type { TimeLogEntry } from "./types";
 
 interface TotalDurationDisplayProps {
   entries: TimeLogEntry[];
   className?: string;
   testId?: string;
+  /** When provided, only the time of the entries within the period is counted */
+  period?: TimePeriod;
 }
 
 /**
  * A component that displays the total duration for a group of entries.
  * Updates automatically every second if any entry is active.
+ * If the user rounds displayed totals, the duration of each entry is rounded and the total is marked as rounded.
  */
-export function TotalDurationDisplay({ entries, className, testId }: TotalDurationDisplayProps) {
+export function TotalDurationDisplay({ entries, className, testId, period }: TotalDurationDisplayProps) {
+  const { formatDuration } = useDurationFormat();
+  const rounding = useDisplayRounding();
   const hasActiveEntry = entries.some((e) => e.endTime == null);
 
   const calculateTotal = () => {
     return entries.reduce((sum, entry) => {
-      return sum + calculateDuration(entry.startTime, entry.endTime);
+      const duration = period
+        ? calculateDurationWithinPeriod(entry, period, new Date())
+        : calculateDuration(entry.startTime, entry.endTime);
+      return sum + (rounding ? roundDuration(duration, rounding.incrementMinutes, rounding.direction) : duration);
     }, 0);
   };
 
@@ -26,7 +39,7 @@ export function TotalDurationDisplay({ entries, className, testId }: TotalDurati
   // Update total when entries change
   useEffect(() => {
     setTotalDuration(calculateTotal());
-  }, [entries]);
+  }, [entries, period?.from.getTime(), period?.to.getTime(), rounding]);
 
   // Update total every second if there's an active entry
   useEffect(() => {
@@ -37,11 +50,17 @@ export function TotalDurationDisplay({ entries, className, testId }: TotalDurati
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [hasActiveEntry, entries]);
+  }, [hasActiveEntry, entries, period?.from.getTime(), period?.to.getTime(), rounding]);
 
   return (
     <span className={className} data-testid={testId}>
       {formatDuration(totalDuration)}
+      {rounding && (
+        <>
+          {" "}
+          <RoundedTotalIndicator />
+        </>
+      )}
     </span>
   );
 }
@@ -0,0 +1,91 @@
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+import { apiPatch } from "@/lib/api";
+import { useDurationFormat } from "@/hooks/useDurationFormat";
+import { restoreEntriesState } from "@/lib/entry-undo";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import { useUndo } from "@/hooks/useUndo";
+import type { UntrackedGap } from "@/lib/untracked-gaps";
+import type { TimeEntry } from "./types";
+
+interface UntrackedGapMarkerProps {
+  gap: UntrackedGap;
+  onDataChange: () => Promise<void>;
+  /** Called to create a new entry covering the gap */
+  onNewEntry: (gap: UntrackedGap) => void;
+}
+
+/**
+ * Marker of untracked time between two consecutive entries, with actions to fill the gap.
+ */
+export function UntrackedGapMarker({ gap, onDataChange, onNewEntry }: UntrackedGapMarkerProps) {
+  const { t } = useTranslation();
+  const { formatDuration } = useDurationFormat();
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("untracked-gap");
+  const { registerUndo } = useUndo();
+
+  const handleFillWithPrevious = async () => {
+    await executeApiCall(async () => {
+      await apiPatch<TimeEntry>(`/api-ui/time-log-entries/${gap.previousEntry.id}/end-time`, {
+        endTime: gap.endTime,
+      });
+      await onDataChange();
+      registerUndo(t("timeLogs.undo.entryUpdated"), () => restoreEntriesState([gap.previousEntry]));
+    });
+  };
+
+  const handleFillWithNext = async () => {
+    await executeApiCall(async () => {
+      await apiPatch<TimeEntry>(`/api-ui/time-log-entries/${gap.nextEntry.id}/start-time`, {
+        startTime: gap.startTime,
+      });
+      await onDataChange();
+      registerUndo(t("timeLogs.undo.entryUpdated"), () => restoreEntriesState([gap.nextEntry]));
+    });
+  };
+
+  return (
+    <div data-testid="untracked-gap">
+      {formMessage}
+      <div className="flex flex-wrap items-center gap-2 border-t border-dashed border-muted-foreground/40 pt-2 text-xs text-muted-foreground">
+        <span data-testid="untracked-gap-duration">
+          {t("timeLogs.untrackedGap.untracked", { duration: formatDuration(gap.untrackedDuration) })}
+        </span>
+        <div className="flex items-center gap-1 ml-auto">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs text-foreground"
+            onClick={handleFillWithPrevious}
+            disabled={apiCallInProgress}
+            data-testid="untracked-gap-fill-previous-button"
+          >
+            {t("timeLogs.untrackedGap.fillWithPrevious")}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs text-foreground"
+            onClick={handleFillWithNext}
+            disabled={apiCallInProgress}
+            data-testid="untracked-gap-fill-next-button"
+          >
+            {t("timeLogs.untrackedGap.fillWithNext")}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs text-foreground"
+            onClick={() => onNewEntry(gap)}
+            disabled={apiCallInProgress}
+            data-testid="untracked-gap-new-entry-button"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            {t("timeLogs.untrackedGap.newEntry")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,19 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { InlineCalendar } from "@/components/ui/inline-calendar";
+import { AlertCircle, ChevronLeft, ChevronRight, Plus } from "lucide-react";
 import { getWeekStart } from "@/lib/time-utils";
+import { countOverlaps } from "@/lib/overlap-detection";
+import type { DayAttribution } from "@/lib/day-attribution";
+import { useShortcutAction } from "@/hooks/useKeyboardShortcuts";
 import { TotalDurationDisplay } from "./TotalDurationDisplay";
+import { BillableSummaryDisplay } from "./BillableSummaryDisplay";
 import { WeeklyGoalProgressBar } from "./WeeklyGoalProgressBar";
-import type { DailyGoalSettings, TimeLogEntry, TimeEntry, WeeklyGoalSettings } from "./types";
+import { AddEntryDialog } from "./AddEntryDialog";
+import type { DailyGoalSettings, TagRate, TimeLogEntry, TimeEntry, WeeklyGoalSettings } from "./types";
 
 interface WeekNavigationProps {
   entries: TimeLogEntry[];
@@ -15,7 +22,15 @@ interface WeekNavigationProps {
   startOfWeek: number;
   dailyGoal: DailyGoalSettings | null;
   weeklyGoal: WeeklyGoalSettings | null;
-  onTimeRangeChange: (from: Date, to: Date) => void;
+  /** In split mode the total only counts the time within the displayed period */
+  dayAttribution: DayAttribution;
+  /** Hourly rates the earnings of the billable entries are calculated with */
+  tagRates: TagRate[];
+  /** First day of the displayed week */
+  weekStart: Date;
+  /** Called with a date within the week to display */
+  onWeekChange: (date: Date) => void;
+  onDataChange: () => Promise<void>;
 }
 
 export function WeekNavigation({
@@ -25,45 +40,45 @@ export function WeekNavigation({
   startOfWeek,
   dailyGoal,
   weeklyGoal,
-  onTimeRangeChange,
+  dayAttribution,
+  tagRates,
+  weekStart,
+  onWeekChange,
+  onDataChange,
 }: WeekNavigationProps) {
   const { t } = useTranslation();
-  const [weekStart, setWeekStart] = useState<Date | null>(null);
-
-  // Initialize week start when startOfWeek is available
-  useEffect(() => {
-    const initialWeekStart = getWeekStart(new Date(), startOfWeek);
-    setWeekStart(initialWeekStart);
-  }, [startOfWeek]);
-
-  // Notify parent when week changes
-  useEffect(() => {
-    if (weekStart) {
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekEnd.getDate() + 7);
-      onTimeRangeChange(weekStart, weekEnd);
-    }
-  }, [weekStart, onTimeRangeChange]);
+  const [addEntryDialogOpen, setAddEntryDialogOpen] = useState(false);
+  const [datePickerOpen, setDatePickerOpen] = useState(false);
 
   // Navigate to previous week
   function handlePreviousWeek() {
-    if (!weekStart) return;
     const newWeekStart = new Date(weekStart);
     newWeekStart.setDate(newWeekStart.getDate() - 7);
-    setWeekStart(newWeekStart);
+    onWeekChange(newWeekStart);
   }
 
   // Navigate to next week
   function handleNextWeek() {
-    if (!weekStart) return;
     const newWeekStart = new Date(weekStart);
     newWeekStart.setDate(newWeekStart.getDate() + 7);
-    setWeekStart(newWeekStart);
+    onWeekChange(newWeekStart);
+  }
+
+  useShortcutAction("previousWeek", handlePreviousWeek);
+  useShortcutAction("nextWeek", handleNextWeek);
+
+  // Jump to the week of the date picked in the calendar
+  function handleDateSelect(date: Date) {
+    onWeekChange(date);
+    setDatePickerOpen(false);
+  }
+
+  function handleThisWeek() {
+    onWeekChange(new Date());
   }
 
   // Get week range display
   function getWeekRangeDisplay(): string {
-    if (!weekStart) return "";
     const weekEnd = new Date(weekStart);
     weekEnd.setDate(weekEnd.getDate() + 6);
 
@@ -73,12 +88,21 @@ export function WeekNavigation({
     return `${startStr} - ${endStr}`;
   }
 
-  // Don't render until weekStart is initialized
-  if (!weekStart) {
-    return null;
+  // New entries are added to today when viewing the current week, otherwise to the first day of the week
+  function getAddEntryDate(): Date {
+    const weekEnd = new Date(weekStart);
+    weekEnd.setDate(weekEnd.getDate() + 7);
+    const now = new Date();
+    return now >= weekStart && now < weekEnd ? now : weekStart;
   }
 
   const weekRange = getWeekRangeDisplay();
+  const isCurrentWeek = weekStart.getTime() === getWeekStart(new Date(), startOfWeek).getTime();
+  const overlapsCount = countOverlaps(entries);
+
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekEnd.getDate() + 7);
+  const totalsPeriod = dayAttribution === "SPLIT_AT_MIDNIGHT" ? { from: weekStart, to: weekEnd } : undefined;
 
   return (
     <Card className="border-none shadow-md mb-6">
@@ -93,16 +117,40 @@ export function WeekNavigation({
           {t("timeLogs.previousWeek")}
         </Button>
         <div className="flex flex-col items-center">
-          <h2 className="text-xl font-semibold text-foreground" data-testid="week-range">
-            {weekRange}
-          </h2>
+          <Popover open={datePickerOpen} onOpenChange={setDatePickerOpen}>
+            <PopoverTrigger asChild>
+              <h2
+                className="text-xl font-semibold text-foreground cursor-pointer hover:underline"
+                title={t("timeLogs.dateNavigation.pickDate")}
+                data-testid="week-range"
+              >
+                {weekRange}
+              </h2>
+            </PopoverTrigger>
+            <PopoverContent className="dark w-auto p-3" data-testid="week-date-picker">
+              <InlineCalendar
+                value={weekStart}
+                onChange={handleDateSelect}
+                locale={locale}
+                startOfWeek={startOfWeek}
+                testIdPrefix="week-date-picker"
+              />
+            </PopoverContent>
+          </Popover>
           <div
             className="mt-1 flex flex-col items-center gap-2 text-sm text-muted-foreground"
             data-testid="weekly-total"
           >
             <div>
-              {t("timeLogs.weeklyTotal")}: <TotalDurationDisplay entries={entries} />
+              {t("timeLogs.weeklyTotal")}: <TotalDurationDisplay entries={entries} period={totalsPeriod} />
             </div>
+            <BillableSummaryDisplay
+              entries={entries}
+              tagRates={tagRates}
+              locale={locale}
+              period={totalsPeriod}
+              testId="weekly-billable-summary"
+            />
             {weeklyGoal?.enabled && (
               <WeeklyGoalProgressBar
                 entries={entries}
@@ -110,15 +158,54 @@ export function WeekNavigation({
                 dailyGoal={dailyGoal}
                 weekStart={weekStart}
                 startOfWeek={startOfWeek}
+                dayAttribution={dayAttribution}
               />
             )}
           </div>
+          {overlapsCount > 0 && (
+            <div className="mt-1 flex items-center gap-1 text-sm text-yellow-500" data-testid="weekly-overlaps-count">
+              <AlertCircle className="h-4 w-4" />
+              {t("timeLogs.overlapResolution.unresolvedCount", { count: overlapsCount })}
+            </div>
+          )}
+          <div className="mt-2 flex items-center gap-2">
+            {!isCurrentWeek && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleThisWeek}
+                data-testid="this-week-button"
+                className="text-foreground"
+              >
+                {t("timeLogs.dateNavigation.thisWeek")}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setAddEntryDialogOpen(true)}
+              data-testid="add-entry-button"
+              className="text-foreground"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {t("timeLogs.addEntry.button")}
+            </Button>
+          </div>
         </div>
         <Button variant="ghost" onClick={handleNextWeek} data-testid="next-week-button" className="text-foreground">
           {t("timeLogs.nextWeek")}
           <ChevronRight className="h-4 w-4 ml-2" />
         </Button>
       </CardContent>
+
+      <AddEntryDialog
+        open={addEntryDialogOpen}
+        onOpenChange={setAddEntryDialogOpen}
+        date={getAddEntryDate()}
+        locale={locale}
+        startOfWeek={startOfWeek}
+        onDataChange={onDataChange}
+      />
     </Card>
   );
 }
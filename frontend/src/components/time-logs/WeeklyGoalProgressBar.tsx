@@ -2,8 +2,10 @@ import { useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { calculateWeeklyGoalProgress } from "@/lib/weekly-goal-progress";
-import { getWeekStart } from "@/lib/time-utils";
+import { formatDuration, getWeekStart, type DurationFormat } from "@/lib/time-utils";
+import { useDurationFormat } from "@/hooks/useDurationFormat";
 import type { WeeklyGoalEstimate } from "@/lib/weekly-goal-progress";
+import type { DayAttribution } from "@/lib/day-attribution";
 import type { DailyGoalSettings, TimeLogEntry, WeekDay, WeeklyGoalSettings } from "./types";
 
 interface WeeklyGoalProgressBarProps {
@@ -12,6 +14,7 @@ interface WeeklyGoalProgressBarProps {
   dailyGoal: DailyGoalSettings | null;
   weekStart: Date;
   startOfWeek: number;
+  dayAttribution: DayAttribution;
 }
 
 export function WeeklyGoalProgressBar({
@@ -20,8 +23,10 @@ export function WeeklyGoalProgressBar({
   dailyGoal,
   weekStart,
   startOfWeek,
+  dayAttribution,
 }: WeeklyGoalProgressBarProps) {
   const { t } = useTranslation();
+  const { durationFormat } = useDurationFormat();
   const [now, setNow] = useState(() => new Date());
 
   useEffect(() => {
@@ -32,7 +37,14 @@ export function WeeklyGoalProgressBar({
 
   if (getWeekStart(now, startOfWeek).getTime() !== weekStart.getTime()) return null;
 
-  const progress = calculateWeeklyGoalProgress({ entries, weeklyGoal, dailyGoal, weekStart, now });
+  const progress = calculateWeeklyGoalProgress({
+    entries,
+    weeklyGoal,
+    dailyGoal,
+    weekStart,
+    now,
+    dayAttribution,
+  });
   if (!progress) return null;
 
   return (
@@ -63,7 +75,7 @@ export function WeeklyGoalProgressBar({
                 <div>{t("timeLogs.weeklyGoal.achievement", { percent: progress.progressPercent })}</div>
               </>
             )}
-            {renderEstimate(progress.estimate, t)}
+            {renderEstimate(progress.estimate, durationFormat, t)}
           </div>
         </TooltipContent>
       </Tooltip>
@@ -71,11 +83,19 @@ export function WeeklyGoalProgressBar({
   );
 }
 
-function renderEstimate(estimate: WeeklyGoalEstimate, t: ReturnType<typeof useTranslation>["t"]) {
+function renderEstimate(
+  estimate: WeeklyGoalEstimate,
+  durationFormat: DurationFormat,
+  t: ReturnType<typeof useTranslation>["t"]
+) {
   if (estimate.type === "none") return null;
   if (estimate.type === "actualOvertime") {
     return (
-      <div>{t("timeLogs.weeklyGoal.actualOvertime", { duration: formatDurationForTooltip(estimate.overtimeMs) })}</div>
+      <div>
+        {t("timeLogs.weeklyGoal.actualOvertime", {
+          duration: formatDurationForTooltip(estimate.overtimeMs, durationFormat),
+        })}
+      </div>
     );
   }
   if (estimate.type === "completion") {
@@ -85,24 +105,26 @@ function renderEstimate(estimate: WeeklyGoalEstimate, t: ReturnType<typeof useTr
     return (
       <div>
         {t("timeLogs.weeklyGoal.estimatedOvertime", {
-          duration: formatDurationForTooltip(estimate.overtimeMs),
+          duration: formatDurationForTooltip(estimate.overtimeMs, durationFormat),
           day: dayLabel(estimate.day, t),
         })}
       </div>
     );
   }
-  return <div>{t("timeLogs.weeklyGoal.insufficient", { duration: formatDurationForTooltip(estimate.missingMs) })}</div>;
+  return (
+    <div>
+      {t("timeLogs.weeklyGoal.insufficient", {
+        duration: formatDurationForTooltip(estimate.missingMs, durationFormat),
+      })}
+    </div>
+  );
 }
 
 function dayLabel(day: WeekDay, t: ReturnType<typeof useTranslation>["t"]): string {
   return t(`settings.preferences.weekDays.${day}`);
 }
 
-function formatDurationForTooltip(ms: number): string {
-  const totalMinutes = Math.floor(ms / (60 * 1000));
-  const hours = Math.floor(totalMinutes / 60);
-  const minutes = totalMinutes % 60;
-  if (minutes === 0) return `${hours}h`;
-  if (hours === 0) return `${minutes}m`;
-  return `${hours}h ${minutes}m`;
+// Estimates are minute-precise, so seconds are not shown even if the user prefers them elsewhere
+function formatDurationForTooltip(ms: number, durationFormat: DurationFormat): string {
+  return formatDuration(ms, durationFormat === "HH_MM_SS" ? "HUMANIZED" : durationFormat);
 }
@@ -9,14 +9,25 @@ export interface TimeEntry {
   title: string;
   ownerId: number;
   tags: string[];
+  /** Whether the time of the entry is billed, at the hourly rate of its tags */
+  billable: boolean;
 }
 
 export interface TimeLogEntry extends TimeEntry {}
 
+export interface SplitTimeLogEntryResponse {
+  firstEntry: TimeEntry;
+  secondEntry: TimeEntry;
+}
+
 export interface DayGroup {
   date: string;
   displayTitle: string;
   entries: TimeLogEntry[];
+  /** All entries of the day, including those hidden by the entries filter */
+  allEntries: TimeLogEntry[];
+  /** Entries the day total and daily goal progress are calculated for */
+  totalsEntries: TimeLogEntry[];
   totalDuration: number;
   isToday: boolean;
 }
@@ -38,6 +49,66 @@ export interface WeeklyGoalSettings {
   workingDays: WeekDay[];
 }
 
+export type PomodoroIntervalEndAction = "NOTIFY" | "STOP_ENTRY" | "START_BREAK";
+
+export interface PomodoroSettings {
+  enabled: boolean;
+  workMinutes: number;
+  breakMinutes: number;
+  /** What happens when a focus interval ends, in addition to the notification */
+  intervalEndAction: PomodoroIntervalEndAction;
+  /** Tag of the break entries, started automatically or manually */
+  breakTag: string;
+}
+
+export type RoundingDirection = "UP" | "DOWN" | "NEAREST";
+
+/** Whether the stored times are rounded when an entry is stopped, or only the displayed and reported totals */
+export type RoundingApplication = "ON_STOP" | "ON_DISPLAY";
+
+export interface RoundingSettings {
+  enabled: boolean;
+  incrementMinutes: number;
+  direction: RoundingDirection;
+  application: RoundingApplication;
+}
+
+export interface NotificationSettings {
+  /** Remind when no entry is active during the working hours */
+  noActiveEntryEnabled: boolean;
+  /** Start of the working hours, HH:mm */
+  workingHoursFrom: string;
+  /** End of the working hours, HH:mm */
+  workingHoursTo: string;
+  workingDays: WeekDay[];
+  /** Remind when an entry has been running for longer than the threshold */
+  longRunningEntryEnabled: boolean;
+  longRunningEntryMinutes: number;
+  /** Notify when the daily goal has just been reached */
+  dailyGoalReachedEnabled: boolean;
+}
+
+/**
+ * Hourly rate of the billable entries having the tag
+ */
+export interface TagRate {
+  id: number;
+  tag: string;
+  hourlyRate: number;
+  /** ISO 4217 currency code */
+  currency: string;
+}
+
+/**
+ * A title and tags combination pinned to quickly start new entries with
+ */
+export interface PinnedEntry {
+  id: number;
+  title: string;
+  tags: string[];
+  billable: boolean;
+}
+
 /**
  * Represents a group of time log entries with the same title and tags
  */
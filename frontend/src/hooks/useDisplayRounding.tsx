@@ -0,0 +1,24 @@
+import { createContext, useContext, type ReactNode } from "react";
+import type { RoundingSettings } from "@/components/time-logs/types";
+
+const DisplayRoundingContext = createContext<RoundingSettings | null>(null);
+
+interface DisplayRoundingProviderProps {
+  children: ReactNode;
+  /** Rounding of the displayed totals, or null if they show the tracked time as is */
+  rounding: RoundingSettings | null;
+}
+
+/**
+ * Makes the rounding of the displayed totals configured by the user available to all nested components.
+ */
+export function DisplayRoundingProvider({ children, rounding }: DisplayRoundingProviderProps) {
+  return <DisplayRoundingContext.Provider value={rounding}>{children}</DisplayRoundingContext.Provider>;
+}
+
+/**
+ * Provides the rounding of the displayed totals; outside of {@link DisplayRoundingProvider} totals are not rounded.
+ */
+export function useDisplayRounding(): RoundingSettings | null {
+  return useContext(DisplayRoundingContext);
+}
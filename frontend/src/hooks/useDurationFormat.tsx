@@ -0,0 +1,27 @@
+import { createContext, useCallback, useContext, type ReactNode } from "react";
+import { formatDuration, type DurationFormat } from "@/lib/time-utils";
+
+const DurationFormatContext = createContext<DurationFormat>("HH_MM_SS");
+
+interface DurationFormatProviderProps {
+  children: ReactNode;
+  /** Duration format from the user preferences */
+  durationFormat: DurationFormat;
+}
+
+/**
+ * Makes the duration format preferred by the user available to all nested components.
+ */
+export function DurationFormatProvider({ children, durationFormat }: DurationFormatProviderProps) {
+  return <DurationFormatContext.Provider value={durationFormat}>{children}</DurationFormatContext.Provider>;
+}
+
+/**
+ * Provides the duration format preferred by the user and a function formatting durations in it.
+ * Outside of {@link DurationFormatProvider} durations are formatted as `HH:MM:SS`.
+ */
+export function useDurationFormat() {
+  const durationFormat = useContext(DurationFormatContext);
+  const format = useCallback((ms: number) => formatDuration(ms, durationFormat), [durationFormat]);
+  return { durationFormat, formatDuration: format };
+}
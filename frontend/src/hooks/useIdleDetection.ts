@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart", "focus"] as const;
+
+/**
+ * Tracks user activity on the page, so that callers can detect the user returning after being away.
+ * Every activity, including the tab regaining focus or becoming visible again, is reported
+ * together with the time of the previous activity.
+ *
+ * @param onActivity - called with the time of the previous activity in milliseconds
+ * @param enabled - whether to track activity at all
+ */
+export function useIdleDetection(onActivity: (previousActivityAt: number) => void, enabled: boolean = true) {
+  const onActivityRef = useRef(onActivity);
+
+  // Keep callback ref up to date
+  useEffect(() => {
+    onActivityRef.current = onActivity;
+  }, [onActivity]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let lastActivityAt = Date.now();
+
+    const registerActivity = () => {
+      const previousActivityAt = lastActivityAt;
+      lastActivityAt = Date.now();
+      onActivityRef.current(previousActivityAt);
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") registerActivity();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, registerActivity, { passive: true }));
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, registerActivity));
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,122 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from "react";
+import { useNavigate } from "react-router";
+import { CommandPalette } from "@/components/shortcuts/CommandPalette";
+import { ShortcutsHelpDialog } from "@/components/shortcuts/ShortcutsHelpDialog";
+import { findShortcut, isEditableTarget, KEYBOARD_SHORTCUTS, type ShortcutAction } from "@/lib/keyboard-shortcuts";
+
+interface KeyboardShortcutsContextValue {
+  /**
+   * Registers the handler of the action for the current page.
+   * @returns function unregistering the handler
+   */
+  registerAction: (action: ShortcutAction, handler: () => void) => () => void;
+}
+
+// Outside of the provider shortcuts are just not available
+const KeyboardShortcutsContext = createContext<KeyboardShortcutsContextValue>({ registerAction: () => () => {} });
+
+// Actions available on every portal page; pages may still override them with own handlers
+const GLOBAL_ACTIONS: ShortcutAction[] = ["search", "commandPalette", "showShortcuts"];
+
+/**
+ * Listens to the portal keyboard shortcuts and hosts the command palette and the shortcuts help overlay.
+ * Page specific actions only work while the page components handling them are displayed.
+ *
+ * @example
+ * ```tsx
+ * useShortcutAction("stopEntry", activeEntry ? handleStop : null);
+ * ```
+ */
+export function KeyboardShortcutsProvider({ children }: { children: ReactNode }) {
+  const navigate = useNavigate();
+  const handlersRef = useRef(new Map<ShortcutAction, () => void>());
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
+  const [availableActions, setAvailableActions] = useState<ShortcutAction[]>([]);
+
+  const registerAction = useCallback((action: ShortcutAction, handler: () => void) => {
+    handlersRef.current.set(action, handler);
+    return () => {
+      if (handlersRef.current.get(action) === handler) {
+        handlersRef.current.delete(action);
+      }
+    };
+  }, []);
+
+  const isActionAvailable = useCallback(
+    (action: ShortcutAction) => handlersRef.current.has(action) || GLOBAL_ACTIONS.includes(action),
+    []
+  );
+
+  const performAction = useCallback(
+    (action: ShortcutAction) => {
+      const handler = handlersRef.current.get(action);
+      if (handler) {
+        handler();
+      } else if (action === "search") {
+        navigate("/portal/search");
+      } else if (action === "commandPalette") {
+        setAvailableActions(
+          KEYBOARD_SHORTCUTS.map((shortcut) => shortcut.action).filter(
+            (it) => it !== "commandPalette" && isActionAvailable(it)
+          )
+        );
+        setPaletteOpen(true);
+      } else if (action === "showShortcuts") {
+        setHelpOpen(true);
+      }
+    },
+    [navigate, isActionAvailable]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+      const shortcut = findShortcut(event);
+      if (!shortcut || !isActionAvailable(shortcut.action)) return;
+
+      // Keys typed into inputs or dialogs belong to them, only shortcuts with modifiers work there
+      const inDialog = document.querySelector("[role='dialog']") !== null;
+      if (!shortcut.withModifier && (isEditableTarget(event.target) || inDialog)) return;
+
+      event.preventDefault();
+      performAction(shortcut.action);
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isActionAvailable, performAction]);
+
+  return (
+    <KeyboardShortcutsContext.Provider value={{ registerAction }}>
+      {children}
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        actions={availableActions}
+        onAction={performAction}
+      />
+      <ShortcutsHelpDialog open={helpOpen} onOpenChange={setHelpOpen} />
+    </KeyboardShortcutsContext.Provider>
+  );
+}
+
+/**
+ * Handles the shortcut action while the calling component is displayed. See {@link KeyboardShortcutsProvider}.
+ * @param handler - Action handler, or null if the action is currently not applicable
+ */
+export function useShortcutAction(action: ShortcutAction, handler: (() => void) | null) {
+  const { registerAction } = useContext(KeyboardShortcutsContext);
+  const handlerRef = useRef(handler);
+  const enabled = handler !== null;
+
+  // Keep handler ref up to date, so that re-rendering does not re-register the action
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return registerAction(action, () => handlerRef.current?.());
+  }, [action, enabled, registerAction]);
+}
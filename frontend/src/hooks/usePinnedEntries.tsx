@@ -0,0 +1,101 @@
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from "react";
+import { apiDelete, apiGet, apiPost, apiPut } from "@/lib/api";
+import { findPinnedEntry } from "@/lib/pinned-entries";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import type { PinnedEntry } from "@/components/time-logs/types";
+
+interface PinnedEntriesContextValue {
+  /** Whether pinning is available, i.e. the component is rendered within {@link PinnedEntriesProvider} */
+  available: boolean;
+  pinnedEntries: PinnedEntry[];
+  findPinnedEntry: (title: string, tags: string[]) => PinnedEntry | undefined;
+  pinEntry: (title: string, tags: string[], billable: boolean) => Promise<void>;
+  unpinEntry: (id: number) => Promise<void>;
+  /** Saves the new order of all pinned entries */
+  reorderPinnedEntries: (ids: number[]) => Promise<void>;
+  apiCallInProgress: boolean;
+  /** Errors of the pinning actions */
+  formMessage: ReactNode;
+}
+
+const PinnedEntriesContext = createContext<PinnedEntriesContextValue>({
+  available: false,
+  pinnedEntries: [],
+  findPinnedEntry: () => undefined,
+  pinEntry: async () => {},
+  unpinEntry: async () => {},
+  reorderPinnedEntries: async () => {},
+  apiCallInProgress: false,
+  formMessage: null,
+});
+
+/**
+ * Loads the pinned entries of the user and allows pinning entries from any nested component.
+ */
+export function PinnedEntriesProvider({ children }: { children: ReactNode }) {
+  const { executeApiCall, apiCallInProgress, formMessage } = useApiExecutor("pinned-entries");
+  const [pinnedEntries, setPinnedEntries] = useState<PinnedEntry[]>([]);
+
+  const loadPinnedEntries = useCallback(async () => {
+    const response = await apiGet<{ entries: PinnedEntry[] }>("/api-ui/pinned-entries");
+    setPinnedEntries(response.entries);
+  }, []);
+
+  useEffect(() => {
+    void executeApiCall(loadPinnedEntries);
+  }, [executeApiCall, loadPinnedEntries]);
+
+  const pinEntry = useCallback(
+    async (title: string, tags: string[], billable: boolean) => {
+      await executeApiCall(async () => {
+        await apiPost<PinnedEntry>("/api-ui/pinned-entries", { title, tags, billable });
+        await loadPinnedEntries();
+      });
+    },
+    [executeApiCall, loadPinnedEntries]
+  );
+
+  const unpinEntry = useCallback(
+    async (id: number) => {
+      await executeApiCall(async () => {
+        await apiDelete(`/api-ui/pinned-entries/${id}`);
+        await loadPinnedEntries();
+      });
+    },
+    [executeApiCall, loadPinnedEntries]
+  );
+
+  const reorderPinnedEntries = useCallback(
+    async (ids: number[]) => {
+      await executeApiCall(async () => {
+        const response = await apiPut<{ entries: PinnedEntry[] }>("/api-ui/pinned-entries/order", { ids });
+        setPinnedEntries(response.entries);
+      });
+    },
+    [executeApiCall]
+  );
+
+  return (
+    <PinnedEntriesContext.Provider
+      value={{
+        available: true,
+        pinnedEntries,
+        findPinnedEntry: (title, tags) => findPinnedEntry(pinnedEntries, title, tags),
+        pinEntry,
+        unpinEntry,
+        reorderPinnedEntries,
+        apiCallInProgress,
+        formMessage,
+      }}
+    >
+      {children}
+    </PinnedEntriesContext.Provider>
+  );
+}
+
+/**
+ * Hook for accessing and managing pinned entries. See {@link PinnedEntriesProvider}.
+ */
+export function usePinnedEntries(): PinnedEntriesContextValue {
+  return useContext(PinnedEntriesContext);
+}
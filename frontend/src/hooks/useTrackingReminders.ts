@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { apiGet, apiPut } from "@/lib/api";
+import {
+  showBrowserNotification,
+  subscribeToNotificationActions,
+  type BrowserNotificationAction,
+} from "@/lib/browser-notifications";
+import { calculateDailyGoalProgress } from "@/lib/daily-goal-progress";
+import type { DayAttribution } from "@/lib/day-attribution";
+import { continueLastEntry } from "@/lib/entry-actions";
+import {
+  evaluateTrackingReminders,
+  initialTrackingRemindersState,
+  type TrackingReminderKind,
+} from "@/lib/tracking-reminders";
+import type { DailyGoalSettings, NotificationSettings, TimeEntry, TimeLogEntry } from "@/components/time-logs/types";
+
+const MINUTE_MS = 60 * 1000;
+const EVALUATION_INTERVAL_MS = MINUTE_MS;
+
+const START_ACTION = "start";
+const STOP_ACTION = "stop";
+
+interface UseTrackingRemindersArgs {
+  /** The active entry, kept up to date by the live updates of the page */
+  activeEntry: TimeEntry | null;
+  dailyGoal: DailyGoalSettings | null;
+  dayAttribution: DayAttribution;
+  onDataChange: () => Promise<void>;
+}
+
+function getTodayRange(now: Date): { from: Date; to: Date } {
+  const from = new Date(now);
+  from.setHours(0, 0, 0, 0);
+  const to = new Date(from);
+  to.setDate(to.getDate() + 1);
+  return { from, to };
+}
+
+/**
+ * Shows browser notifications reminding the user to track time, as configured in the notification settings:
+ * no entry active during working hours, an entry running for too long, and the daily goal just reached.
+ * The reminders are re-evaluated every minute and whenever the active entry changes.
+ */
+export function useTrackingReminders({
+  activeEntry,
+  dailyGoal,
+  dayAttribution,
+  onDataChange,
+}: UseTrackingRemindersArgs) {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [todayEntries, setTodayEntries] = useState<TimeLogEntry[] | null>(null);
+  const [todayKey, setTodayKey] = useState(() => getTodayRange(new Date()).from.toISOString());
+  const stateRef = useRef(initialTrackingRemindersState);
+  const activeEntryRef = useRef(activeEntry);
+  const onDataChangeRef = useRef(onDataChange);
+
+  // Keep refs up to date
+  useEffect(() => {
+    activeEntryRef.current = activeEntry;
+    onDataChangeRef.current = onDataChange;
+  }, [activeEntry, onDataChange]);
+
+  useEffect(() => {
+    apiGet<NotificationSettings>("/api-ui/users/notification-settings")
+      .then((loadedSettings) => {
+        if (
+          loadedSettings.noActiveEntryEnabled ||
+          loadedSettings.longRunningEntryEnabled ||
+          loadedSettings.dailyGoalReachedEnabled
+        ) {
+          setSettings(loadedSettings);
+        }
+      })
+      .catch((error) => console.error("[Reminders] Failed to load notification settings:", error));
+  }, []);
+
+  const trackDailyGoal = !!settings?.dailyGoalReachedEnabled && !!dailyGoal?.enabled;
+
+  // Today's entries change when an entry is started or stopped, i.e. when the active entry changes
+  const activeEntryId = activeEntry?.id;
+  useEffect(() => {
+    if (!trackDailyGoal) return;
+    const { from, to } = getTodayRange(new Date(todayKey));
+    // When splitting at midnight, an entry started yesterday may still count towards today's goal
+    if (dayAttribution === "SPLIT_AT_MIDNIGHT") from.setDate(from.getDate() - 1);
+    apiGet<{ entries: TimeLogEntry[] }>(
+      `/api-ui/time-log-entries?startTime=${encodeURIComponent(from.toISOString())}&endTime=${encodeURIComponent(to.toISOString())}`
+    )
+      .then((response) => setTodayEntries(response.entries || []))
+      .catch((error) => console.error("[Reminders] Failed to load today's entries:", error));
+  }, [trackDailyGoal, activeEntryId, todayKey, dayAttribution]);
+
+  const getReminderNotification = useCallback(
+    (kind: TrackingReminderKind): { body?: string; actions: BrowserNotificationAction[] } => {
+      const currentEntry = activeEntryRef.current;
+      if (kind === "noActiveEntry") {
+        return { actions: [{ action: START_ACTION, title: t("notifications.actions.continueLastEntry") }] };
+      }
+      return {
+        body: currentEntry?.title,
+        actions: currentEntry ? [{ action: STOP_ACTION, title: t("notifications.actions.stopEntry") }] : [],
+      };
+    },
+    [t]
+  );
+
+  useEffect(() => {
+    if (!settings) return;
+
+    const evaluate = () => {
+      const now = new Date();
+      const nowTodayKey = getTodayRange(now).from.toISOString();
+      if (nowTodayKey !== todayKey) {
+        // Today's entries are reloaded for the new day before the daily goal is evaluated again
+        setTodayKey(nowTodayKey);
+        return;
+      }
+
+      let dailyGoalReached: boolean | null = null;
+      if (trackDailyGoal && dailyGoal && todayEntries) {
+        const progress = calculateDailyGoalProgress({
+          entries: todayEntries,
+          goalMinutes: dailyGoal.goalMinutes,
+          typicalBreaks: dailyGoal.typicalBreaks,
+          now,
+          dayAttribution,
+        });
+        dailyGoalReached = progress !== null && progress.totalMs >= dailyGoal.goalMinutes * MINUTE_MS;
+      }
+
+      const { state, reminders } = evaluateTrackingReminders(stateRef.current, {
+        settings,
+        activeEntry: activeEntryRef.current,
+        dailyGoalReached,
+        now,
+      });
+      stateRef.current = state;
+      reminders.forEach((kind) => {
+        const { body, actions } = getReminderNotification(kind);
+        void showBrowserNotification(t(`notifications.reminders.${kind}`), body, actions);
+      });
+    };
+
+    evaluate();
+    const timer = window.setInterval(evaluate, EVALUATION_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [
+    settings,
+    activeEntry,
+    dailyGoal,
+    todayEntries,
+    todayKey,
+    trackDailyGoal,
+    dayAttribution,
+    getReminderNotification,
+    t,
+  ]);
+
+  useEffect(
+    () =>
+      subscribeToNotificationActions(async (action) => {
+        try {
+          if (action === START_ACTION) {
+            await continueLastEntry();
+          } else if (action === STOP_ACTION && activeEntryRef.current) {
+            await apiPut(`/api-ui/time-log-entries/${activeEntryRef.current.id}/stop`, {});
+          } else {
+            return;
+          }
+          await onDataChangeRef.current();
+        } catch (error) {
+          console.error("[Reminders] Failed to handle notification action:", error);
+        }
+      }),
+    []
+  );
+}
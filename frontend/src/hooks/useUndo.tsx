@@ -0,0 +1,144 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from "react";
+import { useTranslation } from "react-i18next";
+import { Undo2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useApiExecutor } from "@/hooks/useApiExecutor";
+import {
+  UNDO_GRACE_PERIOD_MS,
+  peekUndoAction,
+  pushUndoAction,
+  removeExpiredUndoActions,
+  removeUndoAction,
+  type UndoAction,
+} from "@/lib/undo-stack";
+
+interface UndoContextValue {
+  /**
+   * Registers a performed action, so that it can be reverted from the undo toast within the grace period.
+   * @param message - Message describing the performed action
+   * @param undo - Async function reverting the action via API
+   */
+  registerUndo: (message: string, undo: () => Promise<void>) => void;
+}
+
+// Outside of the provider actions are just not undoable
+const UndoContext = createContext<UndoContextValue>({ registerUndo: () => {} });
+
+interface UndoProviderProps {
+  children: ReactNode;
+  /** Called after an action has been reverted, to reload the affected data */
+  onUndo: () => Promise<void>;
+}
+
+/**
+ * Keeps the stack of recently performed actions and shows a toast allowing to undo the latest one.
+ *
+ * @example
+ * ```tsx
+ * const { registerUndo } = useUndo();
+ *
+ * const handleDelete = async () => {
+ *   await apiDelete(`/api-ui/time-log-entries/${entry.id}`);
+ *   registerUndo(t("timeLogs.undo.entryDeleted"), () => restoreDeletedEntries([entry.id]));
+ * };
+ * ```
+ */
+export function UndoProvider({ children, onUndo }: UndoProviderProps) {
+  const { t } = useTranslation();
+  const { executeApiCall, apiCallInProgress, formMessage, clearMessages } = useApiExecutor("undo");
+  const [stack, setStack] = useState<UndoAction[]>([]);
+  const nextActionIdRef = useRef(1);
+
+  const registerUndo = useCallback(
+    (message: string, undo: () => Promise<void>) => {
+      const action: UndoAction = {
+        id: nextActionIdRef.current++,
+        message,
+        undo,
+        expiresAt: Date.now() + UNDO_GRACE_PERIOD_MS,
+      };
+      clearMessages();
+      setStack((previous) => pushUndoAction(previous, action));
+    },
+    [clearMessages]
+  );
+
+  // Drop the actions as soon as their grace period is over
+  useEffect(() => {
+    if (stack.length === 0) return;
+
+    const nextExpiry = Math.min(...stack.map((action) => action.expiresAt));
+    const timeout = setTimeout(
+      () => setStack((previous) => removeExpiredUndoActions(previous, Date.now())),
+      Math.max(nextExpiry - Date.now(), 0)
+    );
+    return () => clearTimeout(timeout);
+  }, [stack]);
+
+  const currentAction = peekUndoAction(stack);
+
+  const handleUndo = async () => {
+    if (!currentAction) return;
+
+    await executeApiCall(async () => {
+      await currentAction.undo();
+      setStack((previous) => removeUndoAction(previous, currentAction.id));
+      await onUndo();
+    });
+  };
+
+  const handleDismiss = () => {
+    if (!currentAction) return;
+
+    clearMessages();
+    setStack((previous) => removeUndoAction(previous, currentAction.id));
+  };
+
+  return (
+    <UndoContext.Provider value={{ registerUndo }}>
+      {children}
+      {currentAction && (
+        <div
+          className="fixed bottom-4 right-4 z-50 w-[calc(100%-2rem)] max-w-md p-3 rounded-md border border-border bg-card shadow-lg"
+          data-testid="undo-toast"
+        >
+          {formMessage}
+          <div className="flex items-center gap-2">
+            <span className="flex-1 text-sm text-foreground" data-testid="undo-toast-message">
+              {currentAction.message}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleUndo}
+              disabled={apiCallInProgress}
+              className="text-foreground"
+              data-testid="undo-button"
+            >
+              <Undo2 className="h-4 w-4 mr-2" />
+              {apiCallInProgress ? t("timeLogs.undo.undoing") : t("timeLogs.undo.undo")}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleDismiss}
+              disabled={apiCallInProgress}
+              className="text-foreground"
+              data-testid="undo-toast-close-button"
+              aria-label={t("timeLogs.undo.dismiss")}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </UndoContext.Provider>
+  );
+}
+
+/**
+ * Hook for registering undoable actions. See {@link UndoProvider}.
+ */
+export function useUndo(): UndoContextValue {
+  return useContext(UndoContext);
+}
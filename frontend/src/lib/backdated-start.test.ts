@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { getDefaultStartTime, validateStartTime } from "./backdated-start";
+
+const now = new Date(2024, 2, 16, 9, 0).getTime();
+
+function minutesAgo(value: number): string {
+  return new Date(now - value * 60 * 1000).toISOString();
+}
+
+describe("getDefaultStartTime", () => {
+  test("starts now without a previous entry", () => {
+    expect(getDefaultStartTime(null, now)).toBeNull();
+  });
+
+  test("continues from the end of a recently finished entry", () => {
+    expect(getDefaultStartTime(minutesAgo(10), now)?.toISOString()).toBe(minutesAgo(10));
+    expect(getDefaultStartTime(minutesAgo(15), now)?.toISOString()).toBe(minutesAgo(15));
+  });
+
+  test("starts now if the previous entry finished long ago", () => {
+    expect(getDefaultStartTime(minutesAgo(16), now)).toBeNull();
+  });
+
+  test("starts now if the previous entry has just finished", () => {
+    expect(getDefaultStartTime(minutesAgo(0), now)).toBeNull();
+  });
+});
+
+describe("validateStartTime", () => {
+  test("accepts past start times after the previous entry", () => {
+    expect(validateStartTime(new Date(minutesAgo(5)), minutesAgo(10), now)).toBeNull();
+    expect(validateStartTime(new Date(minutesAgo(5)), null, now)).toBeNull();
+  });
+
+  test("accepts the start right at the end of the previous entry", () => {
+    expect(validateStartTime(new Date(minutesAgo(10)), minutesAgo(10), now)).toBeNull();
+  });
+
+  test("rejects start times overlapping the previous entry", () => {
+    expect(validateStartTime(new Date(minutesAgo(15)), minutesAgo(10), now)).toBe("overlapsPreviousEntry");
+  });
+
+  test("rejects start times in the future", () => {
+    expect(validateStartTime(new Date(now + 60 * 1000), null, now)).toBe("inFuture");
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Utility functions for starting a new entry in the past, e.g. when tracking was started too late.
+ */
+
+/** Quick offsets from now offered for the start time, in minutes */
+export const START_TIME_OFFSETS_MINUTES = [5, 10, 15, 30];
+
+/** The previous entry is continued seamlessly if it ended at most this long ago */
+const RECENT_PREVIOUS_ENTRY_MINUTES = 15;
+
+const MINUTE_MS = 60 * 1000;
+
+export type StartTimeValidationError = "inFuture" | "overlapsPreviousEntry";
+
+/**
+ * Suggests the start time of a new entry: the end of the previous entry if it ended recently,
+ * so that no time is lost in between.
+ * @returns the suggested start time, or null to start now
+ */
+export function getDefaultStartTime(previousEntryEndTime: string | null, now: number): Date | null {
+  if (!previousEntryEndTime) return null;
+  const endTime = new Date(previousEntryEndTime).getTime();
+  if (endTime >= now || now - endTime > RECENT_PREVIOUS_ENTRY_MINUTES * MINUTE_MS) return null;
+  return new Date(endTime);
+}
+
+/**
+ * The start time must be in the past, and must not overlap the previous entry; starting right at its end is fine.
+ */
+export function validateStartTime(
+  startTime: Date,
+  previousEntryEndTime: string | null,
+  now: number
+): StartTimeValidationError | null {
+  if (startTime.getTime() > now) return "inFuture";
+  if (previousEntryEndTime && startTime.getTime() < new Date(previousEntryEndTime).getTime()) {
+    return "overlapsPreviousEntry";
+  }
+  return null;
+}
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import { calculateBillableSummary, findEntryRate } from "./billing";
+import type { RoundingSettings, TagRate, TimeLogEntry } from "../components/time-logs/types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+function time(hours: number, minutes: number = 0): Date {
+  return new Date(2024, 2, 15, hours, minutes);
+}
+
+function entry(id: number, start: Date, end: Date | null, tags: string[] = [], billable: boolean = true): TimeLogEntry {
+  return {
+    id,
+    startTime: start.toISOString(),
+    endTime: end ? end.toISOString() : null,
+    title: `Task ${id}`,
+    ownerId: 1,
+    tags,
+    billable,
+  };
+}
+
+const tagRates: TagRate[] = [
+  { id: 1, tag: "client-a", hourlyRate: 80, currency: "EUR" },
+  { id: 2, tag: "client-b", hourlyRate: 100, currency: "USD" },
+  { id: 3, tag: "consulting", hourlyRate: 120, currency: "EUR" },
+];
+
+const now = time(18);
+
+describe("findEntryRate", () => {
+  test("should use the rate of the first rated tag of the entry", () => {
+    expect(findEntryRate(entry(1, time(9), time(10), ["internal", "consulting", "client-a"]), tagRates)?.tag).toBe(
+      "consulting"
+    );
+  });
+
+  test("should return null when no tag of the entry has a rate", () => {
+    expect(findEntryRate(entry(1, time(9), time(10), ["internal"]), tagRates)).toBeNull();
+    expect(findEntryRate(entry(1, time(9), time(10)), tagRates)).toBeNull();
+  });
+});
+
+describe("calculateBillableSummary", () => {
+  test("should sum billable time and earnings per currency", () => {
+    const summary = calculateBillableSummary(
+      [
+        entry(1, time(9), time(10, 30), ["client-a"]),
+        entry(2, time(11), time(12), ["client-b"]),
+        entry(3, time(13), time(13, 30), ["consulting"]),
+      ],
+      tagRates,
+      now
+    );
+
+    expect(summary.billableDuration).toBe(3 * HOUR_MS);
+    expect(summary.amounts).toEqual([
+      { currency: "EUR", amount: 180 },
+      { currency: "USD", amount: 100 },
+    ]);
+  });
+
+  test("should ignore non-billable entries", () => {
+    const summary = calculateBillableSummary(
+      [entry(1, time(9), time(10), ["client-a"]), entry(2, time(10), time(12), ["client-a"], false)],
+      tagRates,
+      now
+    );
+
+    expect(summary.billableDuration).toBe(HOUR_MS);
+    expect(summary.amounts).toEqual([{ currency: "EUR", amount: 80 }]);
+  });
+
+  test("should count time of billable entries without a rate but earn nothing for it", () => {
+    const summary = calculateBillableSummary([entry(1, time(9), time(11), ["internal"])], tagRates, now);
+
+    expect(summary.billableDuration).toBe(2 * HOUR_MS);
+    expect(summary.amounts).toEqual([]);
+  });
+
+  test("should count active entries until now", () => {
+    const summary = calculateBillableSummary([entry(1, time(17), null, ["client-a"])], tagRates, now);
+
+    expect(summary.billableDuration).toBe(HOUR_MS);
+    expect(summary.amounts).toEqual([{ currency: "EUR", amount: 80 }]);
+  });
+
+  test("should only count time within the period", () => {
+    const summary = calculateBillableSummary([entry(1, time(9), time(11), ["client-a"])], tagRates, now, {
+      from: time(10),
+      to: time(12),
+    });
+
+    expect(summary.billableDuration).toBe(HOUR_MS);
+    expect(summary.amounts).toEqual([{ currency: "EUR", amount: 80 }]);
+  });
+
+  test("should round the duration of each entry", () => {
+    const rounding: RoundingSettings = {
+      enabled: true,
+      incrementMinutes: 15,
+      direction: "UP",
+      application: "ON_DISPLAY",
+    };
+
+    const summary = calculateBillableSummary(
+      [entry(1, time(9), time(9, 10), ["client-a"]), entry(2, time(10), time(10, 50), ["client-a"])],
+      tagRates,
+      now,
+      undefined,
+      rounding
+    );
+
+    expect(summary.billableDuration).toBe(75 * MINUTE_MS);
+    expect(summary.amounts).toEqual([{ currency: "EUR", amount: 100 }]);
+  });
+});
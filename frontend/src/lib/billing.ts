@@ -0,0 +1,70 @@
+import { roundDuration } from "./duration-rounding";
+import { calculateDurationWithinPeriod, type TimePeriod } from "./day-attribution";
+import type { RoundingSettings, TagRate, TimeLogEntry } from "../components/time-logs/types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface BillableAmount {
+  /** ISO 4217 currency code */
+  currency: string;
+  amount: number;
+}
+
+export interface BillableSummary {
+  /** Billable time in milliseconds, including the entries without a rate */
+  billableDuration: number;
+  /** Earned amounts, one per currency, ordered by currency code */
+  amounts: BillableAmount[];
+}
+
+/**
+ * Finds the rate the entry is billed at: the rate of the first tag of the entry that has one.
+ */
+export function findEntryRate(entry: TimeLogEntry, tagRates: TagRate[]): TagRate | null {
+  for (const tag of entry.tags) {
+    const tagRate = tagRates.find((rate) => rate.tag === tag);
+    if (tagRate) return tagRate;
+  }
+  return null;
+}
+
+/**
+ * Calculates the billable time of the entries and the amounts earned for it; active entries are counted until now.
+ * The time of billable entries without a rated tag is counted, but nothing is earned for it.
+ * @param period when provided, only the time of the entries within the period is counted
+ * @param rounding rounding of the displayed totals, applied to the duration of each entry
+ */
+export function calculateBillableSummary(
+  entries: TimeLogEntry[],
+  tagRates: TagRate[],
+  now: Date,
+  period?: TimePeriod,
+  rounding?: RoundingSettings | null
+): BillableSummary {
+  let billableDuration = 0;
+  const amountsByCurrency = new Map<string, number>();
+
+  entries
+    .filter((entry) => entry.billable)
+    .forEach((entry) => {
+      const rawDuration = period
+        ? calculateDurationWithinPeriod(entry, period, now)
+        : (entry.endTime ? new Date(entry.endTime).getTime() : now.getTime()) - new Date(entry.startTime).getTime();
+      const duration = rounding
+        ? roundDuration(rawDuration, rounding.incrementMinutes, rounding.direction)
+        : rawDuration;
+      billableDuration += duration;
+
+      const rate = findEntryRate(entry, tagRates);
+      if (rate) {
+        const earned = (duration / HOUR_MS) * rate.hourlyRate;
+        amountsByCurrency.set(rate.currency, (amountsByCurrency.get(rate.currency) ?? 0) + earned);
+      }
+    });
+
+  const amounts = [...amountsByCurrency.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, amount]) => ({ currency, amount }));
+
+  return { billableDuration, amounts };
+}
@@ -0,0 +1,91 @@
+/**
+ * Thin wrappers around the Web Notifications API, which is not available in all browsers.
+ */
+
+const NOTIFICATIONS_SERVICE_WORKER_URL = "/notifications-sw.js";
+const NOTIFICATION_ACTION_MESSAGE_TYPE = "aionify-notification-action";
+
+export interface BrowserNotificationAction {
+  action: string;
+  title: string;
+}
+
+/** Notification API extensions for actions, missing from the DOM typings */
+type NotificationWithActions = typeof Notification & { maxActions?: number };
+
+type NotificationOptionsWithActions = NotificationOptions & { actions: BrowserNotificationAction[] };
+
+export function areBrowserNotificationsSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/**
+ * Asks the user to allow notifications, unless they have already decided.
+ * @returns whether notifications are allowed
+ */
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!areBrowserNotificationsSupported()) return false;
+  if (Notification.permission === "default") {
+    await Notification.requestPermission();
+  }
+  return Notification.permission === "granted";
+}
+
+/**
+ * Notification actions are only supported for notifications shown by a service worker, and not by all browsers.
+ */
+function areNotificationActionsSupported(): boolean {
+  const maxActions = (Notification as NotificationWithActions).maxActions;
+  return "serviceWorker" in navigator && maxActions !== undefined && maxActions > 0;
+}
+
+/**
+ * @returns the registration of the service worker showing notifications with actions,
+ * or null if it cannot be registered, in which case notifications are shown without actions
+ */
+async function getNotificationsServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  try {
+    await navigator.serviceWorker.register(NOTIFICATIONS_SERVICE_WORKER_URL);
+    return await navigator.serviceWorker.ready;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Shows the notification if the user allowed it; does nothing otherwise.
+ * Actions are offered where the browser supports them, see {@link subscribeToNotificationActions}.
+ */
+export async function showBrowserNotification(title: string, body?: string, actions: BrowserNotificationAction[] = []) {
+  if (!areBrowserNotificationsSupported() || Notification.permission !== "granted") return;
+
+  if (actions.length > 0 && areNotificationActionsSupported()) {
+    const registration = await getNotificationsServiceWorker();
+    if (registration) {
+      const options: NotificationOptionsWithActions = { body, tag: "aionify", actions };
+      await registration.showNotification(title, options);
+      return;
+    }
+  }
+
+  const notification = new Notification(title, { body, tag: "aionify" });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+}
+
+/**
+ * Calls the handler when the user clicks an action of a notification shown by {@link showBrowserNotification}.
+ * @returns unsubscribe function
+ */
+export function subscribeToNotificationActions(handler: (action: string) => void): () => void {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === NOTIFICATION_ACTION_MESSAGE_TYPE) handler(event.data.action);
+  };
+  navigator.serviceWorker.addEventListener("message", handleMessage);
+  navigator.serviceWorker.startMessages();
+  return () => navigator.serviceWorker.removeEventListener("message", handleMessage);
+}
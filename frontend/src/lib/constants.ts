@@ -2,3 +2,6 @@
 export const LAST_USERNAME_KEY = "aionify_last_username";
 export const TOKEN_KEY = "aionify_token";
 export const LANGUAGE_KEY = "aionify_language";
+export const ENTRY_FILTER_KEY_PREFIX = "aionify_entry_filter_";
+export const ENTRY_GROUPING_MODE_KEY_PREFIX = "aionify_entry_grouping_mode_";
+export const EXPANDED_ENTRY_GROUPS_KEY = "aionify_expanded_entry_groups";
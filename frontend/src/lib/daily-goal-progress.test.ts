@@ -10,6 +10,7 @@ function entry(start: string, end: string | null, id = 1): TimeLogEntry {
     title: "Task",
     ownerId: 1,
     tags: [],
+    billable: false,
   };
 }
 
@@ -128,4 +129,20 @@ describe("calculateDailyGoalProgress", () => {
 
     expect(result?.estimatedCompletionTime.toISOString()).toBe(time("12:00").toISOString());
   });
+
+  test("counts only the time within the day for entries crossing midnight in split mode", () => {
+    const crossingMidnight: TimeLogEntry = {
+      ...entry("22:00", null),
+      endTime: new Date(2024, 2, 17, 2, 0, 0, 0).toISOString(),
+    };
+    const args = { entries: [crossingMidnight], goalMinutes: 480, typicalBreaks: [], now: time("23:00") };
+
+    expect(calculateDailyGoalProgress({ ...args, dayAttribution: "START_DAY" })?.totalMs).toBe(4 * 60 * 60 * 1000);
+    expect(calculateDailyGoalProgress({ ...args, dayAttribution: "SPLIT_AT_MIDNIGHT" })?.totalMs).toBe(
+      2 * 60 * 60 * 1000
+    );
+    expect(
+      calculateDailyGoalProgress({ ...args, day: "2024-03-17", dayAttribution: "SPLIT_AT_MIDNIGHT" })?.totalMs
+    ).toBe(2 * 60 * 60 * 1000);
+  });
 });
@@ -1,3 +1,5 @@
+import { calculateDurationWithinPeriod, getDayPeriod, type DayAttribution } from "./day-attribution";
+import { formatISODate } from "./time-utils";
 import type { TimeLogEntry } from "../components/time-logs/types";
 
 export interface DailyGoalBreak {
@@ -16,6 +18,10 @@ export interface CalculateDailyGoalProgressArgs {
   goalMinutes: number;
   typicalBreaks: DailyGoalBreak[];
   now: Date;
+  /** ISO date of the day the progress is calculated for, today by default */
+  day?: string;
+  /** In split mode only the time of the entries within the day is counted */
+  dayAttribution?: DayAttribution;
 }
 
 const MINUTE_MS = 60 * 1000;
@@ -25,10 +31,20 @@ export function calculateDailyGoalProgress({
   goalMinutes,
   typicalBreaks,
   now,
+  day = formatISODate(now),
+  dayAttribution = "START_DAY",
 }: CalculateDailyGoalProgressArgs): DailyGoalProgress | null {
   if (goalMinutes <= 0) return null;
 
-  const totalMs = entries.reduce((sum, entry) => sum + calculateEntryDuration(entry, now), 0);
+  const dayPeriod = getDayPeriod(day);
+  const totalMs = entries.reduce(
+    (sum, entry) =>
+      sum +
+      (dayAttribution === "SPLIT_AT_MIDNIGHT"
+        ? calculateDurationWithinPeriod(entry, dayPeriod, now)
+        : calculateEntryDuration(entry, now)),
+    0
+  );
   const goalMs = goalMinutes * MINUTE_MS;
   const remainingMs = Math.max(0, goalMs - totalMs);
 
@@ -80,7 +96,7 @@ function getNextBreak(cursor: Date, typicalBreaks: DailyGoalBreak[]): { from: Da
   );
 }
 
-function toBreakPeriod(day: Date, typicalBreak: DailyGoalBreak): { from: Date; to: Date } | null {
+export function toBreakPeriod(day: Date, typicalBreak: DailyGoalBreak): { from: Date; to: Date } | null {
   const from = parseLocalTime(day, typicalBreak.from);
   const to = parseLocalTime(day, typicalBreak.to);
   if (!from || !to || to <= from) return null;
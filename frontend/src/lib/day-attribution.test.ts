@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import {
+  calculateDayDuration,
+  calculateDurationWithinPeriod,
+  getAttributedDays,
+  getDayPeriod,
+  groupEntriesByAttributedDay,
+  isAttributedToPeriod,
+} from "./day-attribution";
+import type { TimeLogEntry } from "../components/time-logs/types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function entry(id: number, start: Date, end: Date | null): TimeLogEntry {
+  return {
+    id,
+    startTime: start.toISOString(),
+    endTime: end ? end.toISOString() : null,
+    title: `Task ${id}`,
+    ownerId: 1,
+    tags: [],
+    billable: false,
+  };
+}
+
+const now = new Date(2024, 2, 18, 12, 0);
+const sameDay = entry(1, new Date(2024, 2, 15, 9, 0), new Date(2024, 2, 15, 11, 0));
+const crossingMidnight = entry(2, new Date(2024, 2, 15, 22, 0), new Date(2024, 2, 16, 1, 30));
+const endingAtMidnight = entry(3, new Date(2024, 2, 15, 23, 0), new Date(2024, 2, 16, 0, 0));
+const activeSinceYesterday = entry(4, new Date(2024, 2, 17, 23, 0), null);
+
+describe("getDayPeriod", () => {
+  test("covers the calendar day in local timezone", () => {
+    expect(getDayPeriod("2024-03-15")).toEqual({ from: new Date(2024, 2, 15), to: new Date(2024, 2, 16) });
+  });
+});
+
+describe("calculateDurationWithinPeriod", () => {
+  test("clips the entry to the period", () => {
+    expect(calculateDurationWithinPeriod(crossingMidnight, getDayPeriod("2024-03-15"), now)).toBe(2 * HOUR_MS);
+    expect(calculateDurationWithinPeriod(crossingMidnight, getDayPeriod("2024-03-16"), now)).toBe(1.5 * HOUR_MS);
+    expect(calculateDurationWithinPeriod(sameDay, getDayPeriod("2024-03-16"), now)).toBe(0);
+  });
+
+  test("counts active entries until now", () => {
+    expect(calculateDurationWithinPeriod(activeSinceYesterday, getDayPeriod("2024-03-18"), now)).toBe(12 * HOUR_MS);
+  });
+});
+
+describe("calculateDayDuration", () => {
+  test("attributes all the time to the start day by default", () => {
+    expect(calculateDayDuration(crossingMidnight, "2024-03-15", "START_DAY", now)).toBe(3.5 * HOUR_MS);
+    expect(calculateDayDuration(crossingMidnight, "2024-03-16", "START_DAY", now)).toBe(0);
+  });
+
+  test("splits the time at midnight in split mode", () => {
+    expect(calculateDayDuration(crossingMidnight, "2024-03-15", "SPLIT_AT_MIDNIGHT", now)).toBe(2 * HOUR_MS);
+    expect(calculateDayDuration(crossingMidnight, "2024-03-16", "SPLIT_AT_MIDNIGHT", now)).toBe(1.5 * HOUR_MS);
+  });
+});
+
+describe("getAttributedDays", () => {
+  test("returns the start day only by default", () => {
+    expect(getAttributedDays(crossingMidnight, "START_DAY", now)).toEqual(["2024-03-15"]);
+  });
+
+  test("returns every covered day in split mode", () => {
+    expect(getAttributedDays(sameDay, "SPLIT_AT_MIDNIGHT", now)).toEqual(["2024-03-15"]);
+    expect(getAttributedDays(crossingMidnight, "SPLIT_AT_MIDNIGHT", now)).toEqual(["2024-03-15", "2024-03-16"]);
+    expect(getAttributedDays(activeSinceYesterday, "SPLIT_AT_MIDNIGHT", now)).toEqual(["2024-03-17", "2024-03-18"]);
+  });
+
+  test("does not attribute entries ending exactly at midnight to the next day", () => {
+    expect(getAttributedDays(endingAtMidnight, "SPLIT_AT_MIDNIGHT", now)).toEqual(["2024-03-15"]);
+  });
+});
+
+describe("groupEntriesByAttributedDay", () => {
+  test("places entries crossing midnight on each covered day in split mode", () => {
+    const groups = groupEntriesByAttributedDay([sameDay, crossingMidnight], "SPLIT_AT_MIDNIGHT", now);
+
+    expect(groups.get("2024-03-15")?.map((e) => e.id)).toEqual([1, 2]);
+    expect(groups.get("2024-03-16")?.map((e) => e.id)).toEqual([2]);
+  });
+
+  test("places entries on their start day by default", () => {
+    const groups = groupEntriesByAttributedDay([sameDay, crossingMidnight], "START_DAY", now);
+
+    expect(groups.get("2024-03-15")?.map((e) => e.id)).toEqual([1, 2]);
+    expect(groups.has("2024-03-16")).toBe(false);
+  });
+});
+
+describe("isAttributedToPeriod", () => {
+  const period = getDayPeriod("2024-03-16");
+
+  test("requires the entry to start within the period by default", () => {
+    expect(isAttributedToPeriod(crossingMidnight, period, "START_DAY", now)).toBe(false);
+  });
+
+  test("accepts entries covering part of the period in split mode", () => {
+    expect(isAttributedToPeriod(crossingMidnight, period, "SPLIT_AT_MIDNIGHT", now)).toBe(true);
+    expect(isAttributedToPeriod(endingAtMidnight, period, "SPLIT_AT_MIDNIGHT", now)).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { formatISODate, parseISODate } from "./time-utils";
+import type { TimeLogEntry } from "../components/time-logs/types";
+
+/**
+ * Defines which calendar days the time of an entry is attributed to in totals and goals:
+ * either all of it to the day the entry started on, or split between the days an entry crossing midnight covers.
+ */
+export type DayAttribution = "START_DAY" | "SPLIT_AT_MIDNIGHT";
+
+export interface TimePeriod {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Period of the calendar day in local timezone.
+ * @param day ISO date (YYYY-MM-DD)
+ */
+export function getDayPeriod(day: string): TimePeriod {
+  const from = parseISODate(day);
+  const to = new Date(from);
+  to.setDate(to.getDate() + 1);
+  return { from, to };
+}
+
+function getEntryEnd(entry: TimeLogEntry, now: Date): number {
+  return entry.endTime ? new Date(entry.endTime).getTime() : now.getTime();
+}
+
+/**
+ * Calculates the time of the entry within the period in milliseconds; active entries are counted until now.
+ */
+export function calculateDurationWithinPeriod(entry: TimeLogEntry, period: TimePeriod, now: Date): number {
+  const start = Math.max(new Date(entry.startTime).getTime(), period.from.getTime());
+  const end = Math.min(getEntryEnd(entry, now), period.to.getTime());
+  return Math.max(0, end - start);
+}
+
+/**
+ * Calculates the time of the entry attributed to the day in milliseconds.
+ * @param day ISO date (YYYY-MM-DD)
+ */
+export function calculateDayDuration(
+  entry: TimeLogEntry,
+  day: string,
+  dayAttribution: DayAttribution,
+  now: Date
+): number {
+  if (dayAttribution === "SPLIT_AT_MIDNIGHT") {
+    return calculateDurationWithinPeriod(entry, getDayPeriod(day), now);
+  }
+  if (formatISODate(new Date(entry.startTime)) !== day) return 0;
+  return Math.max(0, getEntryEnd(entry, now) - new Date(entry.startTime).getTime());
+}
+
+/**
+ * Lists the days the time of the entry is attributed to, as ISO dates starting with the day the entry started on.
+ */
+export function getAttributedDays(entry: TimeLogEntry, dayAttribution: DayAttribution, now: Date): string[] {
+  const startDay = formatISODate(new Date(entry.startTime));
+  if (dayAttribution === "START_DAY") return [startDay];
+
+  const end = getEntryEnd(entry, now);
+  const days: string[] = [];
+  const day = parseISODate(startDay);
+  do {
+    days.push(formatISODate(day));
+    day.setDate(day.getDate() + 1);
+  } while (day.getTime() < end);
+  return days;
+}
+
+/**
+ * Groups entries by the days their time is attributed to; in split mode an entry belongs to every day it covers.
+ * @returns Map from ISO date (YYYY-MM-DD) to the entries attributed to that day
+ */
+export function groupEntriesByAttributedDay(
+  entries: TimeLogEntry[],
+  dayAttribution: DayAttribution,
+  now: Date
+): Map<string, TimeLogEntry[]> {
+  const entriesByDay = new Map<string, TimeLogEntry[]>();
+  entries.forEach((entry) => {
+    getAttributedDays(entry, dayAttribution, now).forEach((day) => {
+      entriesByDay.set(day, [...(entriesByDay.get(day) ?? []), entry]);
+    });
+  });
+  return entriesByDay;
+}
+
+/**
+ * Checks whether any time of the entry is attributed to the period, i.e. whether it started within the period
+ * or, in split mode, whether it covers any part of the period.
+ */
+export function isAttributedToPeriod(
+  entry: TimeLogEntry,
+  period: TimePeriod,
+  dayAttribution: DayAttribution,
+  now: Date
+): boolean {
+  const start = new Date(entry.startTime).getTime();
+  if (dayAttribution === "SPLIT_AT_MIDNIGHT") {
+    return start < period.to.getTime() && getEntryEnd(entry, now) > period.from.getTime();
+  }
+  return start >= period.from.getTime() && start < period.to.getTime();
+}
@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test";
+import {
+  calculateBreakSegments,
+  calculateDragBounds,
+  calculateTimelineBlocks,
+  getDayBounds,
+  getTagColor,
+  snapDragTime,
+  timelinePositionToTime,
+} from "./day-timeline";
+import type { TimeLogEntry } from "../components/time-logs/types";
+
+function time(value: string, dayOffset: number = 0): Date {
+  const [hours, minutes] = value.split(":").map(Number);
+  return new Date(2024, 2, 16 + dayOffset, hours, minutes, 0, 0);
+}
+
+function entry(id: number, start: string, end: string | null, tags: string[] = []): TimeLogEntry {
+  return {
+    id,
+    startTime: time(start).toISOString(),
+    endTime: end ? time(end).toISOString() : null,
+    title: `Task ${id}`,
+    ownerId: 1,
+    tags,
+    billable: false,
+  };
+}
+
+const day = getDayBounds(time("00:00"));
+const now = time("20:00");
+
+describe("calculateTimelineBlocks", () => {
+  test("positions entries proportionally to the day", () => {
+    const [block] = calculateTimelineBlocks([entry(1, "06:00", "12:00")], day, now);
+
+    expect(block.startPercent).toBe(25);
+    expect(block.widthPercent).toBe(25);
+    expect(block.startsWithinDay).toBe(true);
+    expect(block.endsWithinDay).toBe(true);
+  });
+
+  test("extends active entries until now and disallows dragging their end", () => {
+    const [block] = calculateTimelineBlocks([entry(1, "18:00", null)], day, now);
+
+    expect(block.widthPercent).toBeCloseTo((2 / 24) * 100);
+    expect(block.endsWithinDay).toBe(false);
+  });
+
+  test("clips entries spanning to the next day", () => {
+    const spanning: TimeLogEntry = {
+      ...entry(1, "18:00", null),
+      endTime: time("06:00", 1).toISOString(),
+    };
+
+    const [block] = calculateTimelineBlocks([spanning], day, time("12:00", 1));
+
+    expect(block.startPercent).toBe(75);
+    expect(block.widthPercent).toBe(25);
+    expect(block.endsWithinDay).toBe(false);
+  });
+});
+
+describe("calculateBreakSegments", () => {
+  test("converts typical breaks to segments and skips invalid ones", () => {
+    const segments = calculateBreakSegments(
+      [
+        { from: "12:00", to: "13:00" },
+        { from: "15:00", to: "14:00" },
+      ],
+      day
+    );
+
+    expect(segments).toEqual([{ startPercent: 50, widthPercent: (1 / 24) * 100 }]);
+  });
+});
+
+describe("timelinePositionToTime", () => {
+  test("maps position within the timeline to time of the day", () => {
+    expect(timelinePositionToTime(0.5, day)).toBe(time("12:00").getTime());
+    expect(timelinePositionToTime(1.5, day)).toBe(day.end);
+  });
+});
+
+describe("calculateDragBounds", () => {
+  const entries = [entry(1, "08:00", "09:00"), entry(2, "10:00", "11:00"), entry(3, "12:00", "13:00")];
+
+  test("bounds start edge by the previous entry and the entry end", () => {
+    const bounds = calculateDragBounds(entries[1], "start", entries, day, now);
+
+    expect(bounds.min).toBe(time("09:00").getTime());
+    expect(bounds.max).toBe(time("10:59").getTime());
+  });
+
+  test("bounds end edge by the entry start and the next entry", () => {
+    const bounds = calculateDragBounds(entries[1], "end", entries, day, now);
+
+    expect(bounds.min).toBe(time("10:01").getTime());
+    expect(bounds.max).toBe(time("12:00").getTime());
+  });
+
+  test("bounds end edge of the last entry by now", () => {
+    const bounds = calculateDragBounds(entries[2], "end", entries, day, now);
+
+    expect(bounds.max).toBe(now.getTime());
+  });
+});
+
+describe("snapDragTime", () => {
+  const bounds = {
+    min: time("09:00").getTime(),
+    max: time("12:00").getTime(),
+    snapTargets: [time("09:00").getTime(), time("11:00").getTime()],
+  };
+
+  test("rounds time to a minute", () => {
+    expect(snapDragTime(time("10:00").getTime() + 20 * 1000, bounds)).toBe(time("10:00").getTime());
+  });
+
+  test("snaps to close neighbouring edges", () => {
+    expect(snapDragTime(time("10:57").getTime(), bounds)).toBe(time("11:00").getTime());
+  });
+
+  test("keeps time within bounds", () => {
+    expect(snapDragTime(time("08:00").getTime(), bounds)).toBe(time("09:00").getTime());
+    expect(snapDragTime(time("13:00").getTime(), bounds)).toBe(time("12:00").getTime());
+  });
+});
+
+describe("getTagColor", () => {
+  test("uses the same color for the same tags regardless of order", () => {
+    expect(getTagColor(["backend", "api"])).toBe(getTagColor(["api", "backend"]));
+  });
+
+  test("uses neutral color for entries without tags", () => {
+    expect(getTagColor([])).toBe("hsl(0 0% 55%)");
+  });
+});
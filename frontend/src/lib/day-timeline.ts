@@ -0,0 +1,182 @@
+/**
+ * Utility functions for laying out time log entries on a 24h day timeline.
+ */
+
+import type { TimeLogEntry } from "@/components/time-logs/types";
+import { toBreakPeriod, type DailyGoalBreak } from "./daily-goal-progress";
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Dragged entry edges snap to the neighbouring entries when closer than this.
+ */
+export const TIMELINE_SNAP_DISTANCE_MS = 5 * MINUTE_MS;
+
+/**
+ * Local day boundaries; days are not always 24h long due to DST transitions.
+ */
+export interface DayBounds {
+  start: number;
+  end: number;
+}
+
+/**
+ * Position of a time range on the timeline, in percents of the day length.
+ */
+export interface TimelineSegment {
+  startPercent: number;
+  widthPercent: number;
+}
+
+export interface TimelineBlock extends TimelineSegment {
+  entry: TimeLogEntry;
+  /** Whether the entry starts within the day, so that its start can be dragged */
+  startsWithinDay: boolean;
+  /** Whether the entry is stopped and ends within the day, so that its end can be dragged */
+  endsWithinDay: boolean;
+}
+
+export type TimelineEdge = "start" | "end";
+
+/**
+ * Allowed range (ms) for a dragged entry edge.
+ */
+export interface DragBounds {
+  min: number;
+  max: number;
+  /** Edges of the neighbouring entries the dragged edge snaps to */
+  snapTargets: number[];
+}
+
+export function getDayBounds(day: Date): DayBounds {
+  const start = new Date(day);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+function getEntryRange(entry: TimeLogEntry, now: Date): { start: number; end: number } {
+  return {
+    start: new Date(entry.startTime).getTime(),
+    end: entry.endTime ? new Date(entry.endTime).getTime() : now.getTime(),
+  };
+}
+
+function toSegment(from: number, to: number, day: DayBounds): TimelineSegment | null {
+  const clippedFrom = Math.max(from, day.start);
+  const clippedTo = Math.min(to, day.end);
+  if (clippedTo <= clippedFrom) return null;
+
+  const dayLength = day.end - day.start;
+  return {
+    startPercent: ((clippedFrom - day.start) / dayLength) * 100,
+    widthPercent: ((clippedTo - clippedFrom) / dayLength) * 100,
+  };
+}
+
+/**
+ * Calculates timeline blocks for the entries, clipped to the day.
+ * Active entries span until the current time.
+ */
+export function calculateTimelineBlocks(entries: TimeLogEntry[], day: DayBounds, now: Date): TimelineBlock[] {
+  return entries.flatMap((entry) => {
+    const range = getEntryRange(entry, now);
+    const segment = toSegment(range.start, range.end, day);
+    if (!segment) return [];
+
+    return [
+      {
+        ...segment,
+        entry,
+        startsWithinDay: range.start >= day.start,
+        endsWithinDay: entry.endTime != null && range.end <= day.end,
+      },
+    ];
+  });
+}
+
+/**
+ * Calculates timeline segments for the typical breaks of the day.
+ */
+export function calculateBreakSegments(typicalBreaks: DailyGoalBreak[], day: DayBounds): TimelineSegment[] {
+  return typicalBreaks.flatMap((typicalBreak) => {
+    const period = toBreakPeriod(new Date(day.start), typicalBreak);
+    const segment = period ? toSegment(period.from.getTime(), period.to.getTime(), day) : null;
+    return segment ? [segment] : [];
+  });
+}
+
+/**
+ * Converts a position on the timeline (0..1 of its width) to a time within the day.
+ */
+export function timelinePositionToTime(position: number, day: DayBounds): number {
+  const clampedPosition = Math.min(1, Math.max(0, position));
+  return day.start + clampedPosition * (day.end - day.start);
+}
+
+/**
+ * Calculates the range a dragged edge can be moved within, so that the entry neither
+ * overlaps its neighbours nor leaves the day, ends in the future or becomes empty.
+ */
+export function calculateDragBounds(
+  entry: TimeLogEntry,
+  edge: TimelineEdge,
+  entries: TimeLogEntry[],
+  day: DayBounds,
+  now: Date
+): DragBounds {
+  const range = getEntryRange(entry, now);
+  const neighbours = entries.filter((it) => it.id !== entry.id).map((it) => getEntryRange(it, now));
+  const snapTargets = neighbours.flatMap((it) => [it.start, it.end]);
+
+  if (edge === "start") {
+    // Bounded by the end of the closest preceding entry; entries already overlapping this one are ignored
+    const previousEnds = neighbours.map((it) => it.end).filter((end) => end <= range.start);
+    return {
+      min: Math.max(day.start, ...previousEnds),
+      max: range.end - MINUTE_MS,
+      snapTargets,
+    };
+  }
+
+  const nextStarts = neighbours.map((it) => it.start).filter((start) => start >= range.end);
+  return {
+    min: range.start + MINUTE_MS,
+    max: Math.min(day.end, now.getTime(), ...nextStarts),
+    snapTargets,
+  };
+}
+
+/**
+ * Rounds the dragged time to a minute, snaps it to the closest neighbouring entry edge
+ * when close enough, so that entries can be easily joined, and keeps it within the bounds.
+ */
+export function snapDragTime(time: number, bounds: DragBounds): number {
+  const rounded = Math.round(time / MINUTE_MS) * MINUTE_MS;
+  const closestTarget = bounds.snapTargets.reduce<number | null>(
+    (closest, target) =>
+      Math.abs(target - time) <= TIMELINE_SNAP_DISTANCE_MS &&
+      (closest === null || Math.abs(target - time) < Math.abs(closest - time))
+        ? target
+        : closest,
+    null
+  );
+  const snapped = closestTarget ?? rounded;
+  return Math.min(bounds.max, Math.max(bounds.min, snapped));
+}
+
+/**
+ * Returns a stable color for an entry, based on its first tag.
+ * Entries without tags get a neutral color.
+ */
+export function getTagColor(tags: string[]): string {
+  if (tags.length === 0) return "hsl(0 0% 55%)";
+
+  const tag = [...tags].sort()[0];
+  let hash = 0;
+  for (let i = 0; i < tag.length; i++) {
+    hash = (hash * 31 + tag.charCodeAt(i)) % 360;
+  }
+  return `hsl(${hash} 65% 45%)`;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { getDisplayRounding, roundDuration } from "./duration-rounding";
+import type { RoundingSettings } from "../components/time-logs/types";
+
+const MINUTE = 60 * 1000;
+
+describe("roundDuration", () => {
+  test("should round up to the increment", () => {
+    expect(roundDuration(16 * MINUTE, 15, "UP")).toBe(30 * MINUTE);
+    expect(roundDuration(1000, 6, "UP")).toBe(6 * MINUTE);
+  });
+
+  test("should round down to the increment", () => {
+    expect(roundDuration(29 * MINUTE, 15, "DOWN")).toBe(15 * MINUTE);
+    expect(roundDuration(5 * MINUTE, 6, "DOWN")).toBe(0);
+  });
+
+  test("should round to the nearest increment with halves rounded up", () => {
+    expect(roundDuration(22 * MINUTE, 15, "NEAREST")).toBe(15 * MINUTE);
+    expect(roundDuration(22.5 * MINUTE, 15, "NEAREST")).toBe(30 * MINUTE);
+    expect(roundDuration(8 * MINUTE, 6, "NEAREST")).toBe(6 * MINUTE);
+  });
+
+  test("should keep durations that are multiples of the increment", () => {
+    expect(roundDuration(45 * MINUTE, 15, "UP")).toBe(45 * MINUTE);
+    expect(roundDuration(45 * MINUTE, 15, "DOWN")).toBe(45 * MINUTE);
+    expect(roundDuration(0, 15, "UP")).toBe(0);
+  });
+
+  test("should ignore fractions of seconds", () => {
+    expect(roundDuration(15 * MINUTE + 999, 15, "UP")).toBe(15 * MINUTE);
+  });
+});
+
+describe("getDisplayRounding", () => {
+  const settings: RoundingSettings = {
+    enabled: true,
+    incrementMinutes: 15,
+    direction: "UP",
+    application: "ON_DISPLAY",
+  };
+
+  test("should return settings rounding the displayed totals", () => {
+    expect(getDisplayRounding(settings)).toBe(settings);
+  });
+
+  test("should not round displayed totals when rounding is disabled or applied on stop", () => {
+    expect(getDisplayRounding(null)).toBeNull();
+    expect(getDisplayRounding({ ...settings, enabled: false })).toBeNull();
+    expect(getDisplayRounding({ ...settings, application: "ON_STOP" })).toBeNull();
+  });
+});
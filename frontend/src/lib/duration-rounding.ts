@@ -0,0 +1,24 @@
+import type { RoundingDirection, RoundingSettings } from "@/components/time-logs/types";
+
+/**
+ * Rounds the duration to a multiple of the increment in the direction; fractions of seconds are ignored,
+ * the same as in the totals calculated by the server.
+ */
+export function roundDuration(ms: number, incrementMinutes: number, direction: RoundingDirection): number {
+  const incrementMs = incrementMinutes * 60 * 1000;
+  const increments = (Math.floor(ms / 1000) * 1000) / incrementMs;
+  const roundedIncrements =
+    direction === "UP"
+      ? Math.ceil(increments)
+      : direction === "DOWN"
+        ? Math.floor(increments)
+        : Math.floor(increments + 0.5);
+  return roundedIncrements * incrementMs;
+}
+
+/**
+ * Returns the settings if the displayed totals must be rounded, or null if they show the tracked time as is.
+ */
+export function getDisplayRounding(settings: RoundingSettings | null): RoundingSettings | null {
+  return settings?.enabled && settings.application === "ON_DISPLAY" ? settings : null;
+}
@@ -0,0 +1,18 @@
+import { apiGet, apiPost } from "@/lib/api";
+import type { TimeEntry } from "@/components/time-logs/types";
+
+/**
+ * Starts a new entry with the title, tags and billable flag of the latest stopped entry, stopping the active one if any.
+ * @returns whether there was an entry to continue
+ */
+export async function continueLastEntry(): Promise<boolean> {
+  const { entry: lastEntry } = await apiGet<{ entry: TimeEntry | null }>("/api-ui/time-log-entries/last-stopped");
+  if (!lastEntry) return false;
+  await apiPost<TimeEntry>("/api-ui/time-log-entries", {
+    title: lastEntry.title,
+    tags: lastEntry.tags,
+    billable: lastEntry.billable,
+    stopActiveEntry: true,
+  });
+  return true;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import {
+  appendEntryFilterParams,
+  EMPTY_ENTRY_FILTER,
+  filterEntries,
+  isEntryFilterActive,
+  parseEntryFilterParams,
+} from "./entry-filter";
+import type { TimeLogEntry } from "../components/time-logs/types";
+
+function entry(id: number, title: string, tags: string[] = []): TimeLogEntry {
+  return {
+    id,
+    startTime: new Date(2024, 2, 16, 9, 0).toISOString(),
+    endTime: new Date(2024, 2, 16, 10, 0).toISOString(),
+    title,
+    ownerId: 1,
+    tags,
+    billable: false,
+  };
+}
+
+const entries = [
+  entry(1, "Client A planning", ["client-a", "meeting"]),
+  entry(2, "Client A development", ["client-a"]),
+  entry(3, "Client B review", ["client-b"]),
+  entry(4, "Lunch"),
+];
+
+function ids(filtered: TimeLogEntry[]): number[] {
+  return filtered.map((it) => it.id);
+}
+
+describe("filterEntries", () => {
+  test("keeps all entries for an empty filter", () => {
+    expect(filterEntries(entries, EMPTY_ENTRY_FILTER)).toBe(entries);
+  });
+
+  test("keeps entries having any of the included tags", () => {
+    const filter = { ...EMPTY_ENTRY_FILTER, includedTags: ["client-a", "client-b"] };
+
+    expect(ids(filterEntries(entries, filter))).toEqual([1, 2, 3]);
+  });
+
+  test("removes entries having any of the excluded tags", () => {
+    const filter = { ...EMPTY_ENTRY_FILTER, includedTags: ["client-a"], excludedTags: ["meeting"] };
+
+    expect(ids(filterEntries(entries, filter))).toEqual([2]);
+  });
+
+  test("keeps entries with titles containing the text regardless of case", () => {
+    const filter = { ...EMPTY_ENTRY_FILTER, text: " client a " };
+
+    expect(ids(filterEntries(entries, filter))).toEqual([1, 2]);
+  });
+});
+
+describe("isEntryFilterActive", () => {
+  test("ignores blank text", () => {
+    expect(isEntryFilterActive({ ...EMPTY_ENTRY_FILTER, text: "  " })).toBe(false);
+    expect(isEntryFilterActive({ ...EMPTY_ENTRY_FILTER, excludedTags: ["meeting"] })).toBe(true);
+  });
+});
+
+describe("parseEntryFilterParams", () => {
+  test("returns null when no filter is specified", () => {
+    expect(parseEntryFilterParams(new URLSearchParams("week=2024-W11"))).toBeNull();
+  });
+
+  test("round-trips the filter along with other parameters", () => {
+    const filter = { includedTags: ["client-a", "client-b"], excludedTags: ["meeting"], text: "planning" };
+    const params = appendEntryFilterParams(new URLSearchParams("week=2024-W11"), filter);
+
+    expect(params.get("week")).toBe("2024-W11");
+    expect(parseEntryFilterParams(params)).toEqual(filter);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Utility functions for filtering displayed time log entries by tags and title,
+ * and for keeping the filter in the page URL and in the local storage.
+ */
+
+import type { TimeLogEntry } from "@/components/time-logs/types";
+import { ENTRY_FILTER_KEY_PREFIX } from "./constants";
+
+export interface EntryFilter {
+  /** Entries must have at least one of these tags, if any */
+  includedTags: string[];
+  /** Entries must have none of these tags */
+  excludedTags: string[];
+  /** Entries titles must contain this text (case-insensitive), if not blank */
+  text: string;
+}
+
+/**
+ * Filter preferences kept per user.
+ */
+export interface StoredEntryFilter {
+  filter: EntryFilter;
+  /** Whether totals and goals progress are calculated for the filtered entries rather than for all entries */
+  filteredTotals: boolean;
+}
+
+export const EMPTY_ENTRY_FILTER: EntryFilter = { includedTags: [], excludedTags: [], text: "" };
+
+export function isEntryFilterActive(filter: EntryFilter): boolean {
+  return filter.includedTags.length > 0 || filter.excludedTags.length > 0 || filter.text.trim() !== "";
+}
+
+export function filterEntries(entries: TimeLogEntry[], filter: EntryFilter): TimeLogEntry[] {
+  if (!isEntryFilterActive(filter)) return entries;
+
+  const text = filter.text.trim().toLowerCase();
+  return entries.filter((entry) => {
+    const tags = entry.tags || [];
+    if (filter.includedTags.length > 0 && !filter.includedTags.some((tag) => tags.includes(tag))) return false;
+    if (filter.excludedTags.some((tag) => tags.includes(tag))) return false;
+    return entry.title.toLowerCase().includes(text);
+  });
+}
+
+/**
+ * Parses the filter from URL query parameters: `tag` (included), `excludeTag` and `q`, tags may be repeated.
+ * Returns null if the URL specifies no filter.
+ */
+export function parseEntryFilterParams(params: URLSearchParams): EntryFilter | null {
+  const filter = {
+    includedTags: params.getAll("tag"),
+    excludedTags: params.getAll("excludeTag"),
+    text: params.get("q") ?? "",
+  };
+  return isEntryFilterActive(filter) ? filter : null;
+}
+
+/**
+ * Adds the filter to URL query parameters, the reverse of {@link parseEntryFilterParams}.
+ */
+export function appendEntryFilterParams(params: URLSearchParams, filter: EntryFilter): URLSearchParams {
+  const result = new URLSearchParams(params);
+  filter.includedTags.forEach((tag) => result.append("tag", tag));
+  filter.excludedTags.forEach((tag) => result.append("excludeTag", tag));
+  if (filter.text.trim()) result.set("q", filter.text);
+  return result;
+}
+
+export function loadStoredEntryFilter(userName: string): StoredEntryFilter {
+  const defaultValue = { filter: EMPTY_ENTRY_FILTER, filteredTotals: false };
+  try {
+    const stored = localStorage.getItem(`${ENTRY_FILTER_KEY_PREFIX}${userName}`);
+    return stored ? { ...defaultValue, ...JSON.parse(stored) } : defaultValue;
+  } catch {
+    // Ignore corrupted or inaccessible storage
+    return defaultValue;
+  }
+}
+
+export function storeEntryFilter(userName: string, storedFilter: StoredEntryFilter) {
+  localStorage.setItem(`${ENTRY_FILTER_KEY_PREFIX}${userName}`, JSON.stringify(storedFilter));
+}
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { groupEntries, isGroupedEntry, updateExpandedEntryGroups, type GroupedTimeLogEntry } from "./entry-grouping";
+import type { TimeLogEntry } from "../components/time-logs/types";
+
+function entry(id: number, startHour: number, title: string, tags: string[]): TimeLogEntry {
+  return {
+    id,
+    startTime: new Date(2024, 2, 16, startHour, 0).toISOString(),
+    endTime: new Date(2024, 2, 16, startHour, 30).toISOString(),
+    title,
+    ownerId: 1,
+    tags,
+    billable: false,
+  };
+}
+
+const entries = [
+  entry(1, 9, "Standup", ["meetings"]),
+  entry(2, 10, "Code review", ["dev", "backend"]),
+  entry(3, 11, "Standup", ["meetings", "team"]),
+  entry(4, 12, "Code review", ["backend", "dev"]),
+  entry(5, 13, "Lunch", []),
+];
+
+function describeItems(items: ReturnType<typeof groupEntries>) {
+  return items.map((item) =>
+    isGroupedEntry(item) ? { title: item.title, ids: item.entries.map((e) => e.id) } : item.id
+  );
+}
+
+describe("groupEntries", () => {
+  test("does not group entries without grouping", () => {
+    expect(describeItems(groupEntries(entries, "NONE"))).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  test("groups entries with the same title and tags regardless of tags order", () => {
+    expect(describeItems(groupEntries(entries, "TITLE_AND_TAGS"))).toEqual([
+      5,
+      { title: "Code review", ids: [4, 2] },
+      3,
+      1,
+    ]);
+  });
+
+  test("groups entries with the same title keeping common tags only", () => {
+    const items = groupEntries(entries, "TITLE");
+
+    expect(describeItems(items)).toEqual([5, { title: "Code review", ids: [4, 2] }, { title: "Standup", ids: [3, 1] }]);
+    expect((items[2] as GroupedTimeLogEntry).tags).toEqual(["meetings"]);
+  });
+
+  test("groups entries by their first tag with subtotals, including single entries", () => {
+    const items = groupEntries(entries, "PRIMARY_TAG");
+
+    expect(describeItems(items)).toEqual([
+      { title: "", ids: [5] },
+      { title: "backend", ids: [4] },
+      { title: "meetings", ids: [3, 1] },
+      { title: "dev", ids: [2] },
+    ]);
+    expect((items[2] as GroupedTimeLogEntry).totalDuration).toBe(60 * 60 * 1000);
+  });
+});
+
+describe("updateExpandedEntryGroups", () => {
+  test("remembers expanded groups as the most recent ones", () => {
+    expect(updateExpandedEntryGroups(["a", "b"], "a", true)).toEqual(["b", "a"]);
+  });
+
+  test("forgets collapsed groups", () => {
+    expect(updateExpandedEntryGroups(["a", "b"], "a", false)).toEqual(["b"]);
+  });
+
+  test("forgets the oldest groups when the limit is exceeded", () => {
+    const expandedGroups = Array.from({ length: 200 }, (_, index) => `group-${index}`);
+
+    const updated = updateExpandedEntryGroups(expandedGroups, "new", true);
+
+    expect(updated).toHaveLength(200);
+    expect(updated[0]).toBe("group-1");
+    expect(updated[199]).toBe("new");
+  });
+});
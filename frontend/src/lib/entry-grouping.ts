@@ -1,12 +1,13 @@
 import type { TimeLogEntry } from "@/components/time-logs/types";
+import { ENTRY_GROUPING_MODE_KEY_PREFIX, EXPANDED_ENTRY_GROUPS_KEY } from "./constants";
 
 /**
- * Represents a group of time log entries with the same title and tags
+ * Represents a group of time log entries sharing the same grouping key
  */
 export interface GroupedTimeLogEntry {
   /** Unique identifier for this group */
   groupId: string;
-  /** Common title for all entries in this group */
+  /** Common title for all entries in this group, or the tag when grouped by primary tag */
   title: string;
   /** Common tags for all entries in this group (sorted) */
   tags: string[];
@@ -22,6 +23,24 @@ export interface GroupedTimeLogEntry {
   totalDuration: number;
 }
 
+/**
+ * Strategy of grouping entries within a day:
+ * - NONE: every entry is displayed on its own
+ * - TITLE_AND_TAGS: entries with the same title and tags are grouped
+ * - TITLE: entries with the same title are grouped, regardless of their tags
+ * - PRIMARY_TAG: entries are grouped by their first tag, each tag showing a subtotal
+ */
+export type EntryGroupingMode = "NONE" | "TITLE_AND_TAGS" | "TITLE" | "PRIMARY_TAG";
+
+export const ENTRY_GROUPING_MODES: EntryGroupingMode[] = ["NONE", "TITLE_AND_TAGS", "TITLE", "PRIMARY_TAG"];
+
+export const DEFAULT_ENTRY_GROUPING_MODE: EntryGroupingMode = "TITLE_AND_TAGS";
+
+/**
+ * Maximum number of remembered expanded groups, the oldest ones are forgotten first
+ */
+const MAX_EXPANDED_ENTRY_GROUPS = 200;
+
 /**
  * Creates a grouping key from title and tags
  * Tags are sorted to ensure order-independent matching
@@ -32,18 +51,93 @@ function createGroupKey(title: string, tags: string[]): string {
 }
 
 /**
- * Groups time log entries by title and tags within a day
- * Entries with the same title and exact tag list (order-independent) are grouped together
+ * Tags common to all the entries (sorted)
+ */
+function getCommonTags(entries: TimeLogEntry[]): string[] {
+  return [...(entries[0].tags || [])]
+    .filter((tag) => entries.every((entry) => (entry.tags || []).includes(tag)))
+    .sort();
+}
+
+function sortByStartTimeDesc<T extends { startTime: string }>(items: T[]): T[] {
+  return items.sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+}
+
+function createGroupedEntry(
+  groupId: string,
+  title: string,
+  tags: string[],
+  groupEntries: TimeLogEntry[]
+): GroupedTimeLogEntry {
+  const sortedEntries = sortByStartTimeDesc([...groupEntries]);
+
+  // Find latest start time for group positioning
+  const startTime = sortedEntries.reduce((latest, entry) => {
+    return new Date(entry.startTime) > new Date(latest) ? entry.startTime : latest;
+  }, sortedEntries[0].startTime);
+
+  // Find earliest start time for display
+  const earliestStartTime = sortedEntries.reduce((earliest, entry) => {
+    return new Date(entry.startTime) < new Date(earliest) ? entry.startTime : earliest;
+  }, sortedEntries[0].startTime);
+
+  // Find latest end time (null if any entry is active)
+  const hasActiveEntry = sortedEntries.some((e) => e.endTime == null); // Using == to match both null and undefined
+  const endTime = hasActiveEntry
+    ? null
+    : sortedEntries.reduce(
+        (latest, entry) => {
+          if (entry.endTime == null) return latest; // Using == to match both null and undefined
+          if (!latest) return entry.endTime;
+          return new Date(entry.endTime) > new Date(latest) ? entry.endTime : latest;
+        },
+        null as string | null
+      );
+
+  // Calculate total duration in milliseconds - ONLY for completed entries
+  // Active entries are excluded from the total as their duration is still growing
+  const totalDuration = sortedEntries.reduce((sum, entry) => {
+    if (entry.endTime == null) {
+      // Skip active entries
+      return sum;
+    }
+    const duration = new Date(entry.endTime).getTime() - new Date(entry.startTime).getTime();
+    return sum + duration;
+  }, 0);
+
+  return {
+    groupId,
+    title,
+    tags,
+    entries: sortedEntries,
+    startTime,
+    earliestStartTime,
+    endTime,
+    totalDuration,
+  };
+}
+
+/**
+ * Groups time log entries within a day according to the grouping mode
+ * Entries that do not share their group with any other entry are returned as is,
+ * except for the primary tag mode, where every tag is shown as a group with its subtotal
  *
  * @param entries Array of time log entries to group
- * @returns Array of grouped entries or single entries
+ * @param mode Grouping strategy
+ * @returns Array of grouped entries or single entries, most recent first
  */
-export function groupEntriesByTitleAndTags(entries: TimeLogEntry[]): (TimeLogEntry | GroupedTimeLogEntry)[] {
-  // Group entries by title and tags
-  const groups = new Map<string, TimeLogEntry[]>();
+export function groupEntries(entries: TimeLogEntry[], mode: EntryGroupingMode): (TimeLogEntry | GroupedTimeLogEntry)[] {
+  if (mode === "NONE") return sortByStartTimeDesc([...entries]);
 
+  const getKey = (entry: TimeLogEntry): string => {
+    if (mode === "TITLE") return entry.title;
+    if (mode === "PRIMARY_TAG") return entry.tags?.[0] ?? "";
+    return createGroupKey(entry.title, entry.tags || []);
+  };
+
+  const groups = new Map<string, TimeLogEntry[]>();
   for (const entry of entries) {
-    const key = createGroupKey(entry.title, entry.tags || []);
+    const key = getKey(entry);
     const existing = groups.get(key);
     if (existing) {
       existing.push(entry);
@@ -56,68 +150,76 @@ export function groupEntriesByTitleAndTags(entries: TimeLogEntry[]): (TimeLogEnt
   const result: (TimeLogEntry | GroupedTimeLogEntry)[] = [];
 
   for (const [key, groupEntries] of groups.entries()) {
-    if (groupEntries.length === 1) {
+    if (mode === "PRIMARY_TAG") {
+      // The title of a tag group is the tag itself, empty for the entries without tags
+      result.push(createGroupedEntry(`tag:${key}`, key, key ? [key] : [], groupEntries));
+    } else if (groupEntries.length === 1) {
       // Single entry - return as is
       result.push(groupEntries[0]);
+    } else if (mode === "TITLE") {
+      result.push(createGroupedEntry(`title:${key}`, key, getCommonTags(groupEntries), groupEntries));
     } else {
-      // Multiple entries - create grouped entry
-      const sortedEntries = [...groupEntries].sort(
-        (a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+      result.push(
+        createGroupedEntry(key, groupEntries[0].title, [...(groupEntries[0].tags || [])].sort(), groupEntries)
       );
-
-      // Find latest start time for group positioning
-      const startTime = sortedEntries.reduce((latest, entry) => {
-        return new Date(entry.startTime) > new Date(latest) ? entry.startTime : latest;
-      }, sortedEntries[0].startTime);
-
-      // Find earliest start time for display
-      const earliestStartTime = sortedEntries.reduce((earliest, entry) => {
-        return new Date(entry.startTime) < new Date(earliest) ? entry.startTime : earliest;
-      }, sortedEntries[0].startTime);
-
-      // Find latest end time (null if any entry is active)
-      const hasActiveEntry = sortedEntries.some((e) => e.endTime == null); // Using == to match both null and undefined
-      const endTime = hasActiveEntry
-        ? null
-        : sortedEntries.reduce(
-            (latest, entry) => {
-              if (entry.endTime == null) return latest; // Using == to match both null and undefined
-              if (!latest) return entry.endTime;
-              return new Date(entry.endTime) > new Date(latest) ? entry.endTime : latest;
-            },
-            null as string | null
-          );
-
-      // Calculate total duration in milliseconds - ONLY for completed entries
-      // Active entries are excluded from the total as their duration is still growing
-      const totalDuration = sortedEntries.reduce((sum, entry) => {
-        if (entry.endTime == null) {
-          // Skip active entries
-          return sum;
-        }
-        const duration = new Date(entry.endTime).getTime() - new Date(entry.startTime).getTime();
-        return sum + duration;
-      }, 0);
-
-      result.push({
-        groupId: key,
-        title: sortedEntries[0].title,
-        tags: [...(sortedEntries[0].tags || [])].sort(),
-        entries: sortedEntries,
-        startTime,
-        earliestStartTime,
-        endTime,
-        totalDuration,
-      });
     }
   }
 
   // Sort result by start time (most recent first)
-  return result.sort((a, b) => {
-    const timeA = "startTime" in a && typeof a.startTime === "string" ? a.startTime : a.startTime;
-    const timeB = "startTime" in b && typeof b.startTime === "string" ? b.startTime : b.startTime;
-    return new Date(timeB).getTime() - new Date(timeA).getTime();
-  });
+  return sortByStartTimeDesc(result);
+}
+
+/**
+ * Groups time log entries by title and tags within a day
+ * Entries with the same title and exact tag list (order-independent) are grouped together
+ *
+ * @param entries Array of time log entries to group
+ * @returns Array of grouped entries or single entries
+ */
+export function groupEntriesByTitleAndTags(entries: TimeLogEntry[]): (TimeLogEntry | GroupedTimeLogEntry)[] {
+  return groupEntries(entries, "TITLE_AND_TAGS");
+}
+
+/**
+ * Remembers or forgets an expanded group, keeping at most {@link MAX_EXPANDED_ENTRY_GROUPS} most recent ones.
+ *
+ * @param expandedGroups Keys of the currently expanded groups, the oldest first
+ * @returns Updated keys of the expanded groups
+ */
+export function updateExpandedEntryGroups(expandedGroups: string[], groupKey: string, expanded: boolean): string[] {
+  const otherGroups = expandedGroups.filter((key) => key !== groupKey);
+  if (!expanded) return otherGroups;
+  return [...otherGroups, groupKey].slice(-MAX_EXPANDED_ENTRY_GROUPS);
+}
+
+export function loadExpandedEntryGroups(): string[] {
+  try {
+    const stored = localStorage.getItem(EXPANDED_ENTRY_GROUPS_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((key): key is string => typeof key === "string") : [];
+  } catch {
+    // Ignore corrupted or inaccessible storage
+    return [];
+  }
+}
+
+export function storeEntryGroupExpanded(groupKey: string, expanded: boolean) {
+  const expandedGroups = updateExpandedEntryGroups(loadExpandedEntryGroups(), groupKey, expanded);
+  localStorage.setItem(EXPANDED_ENTRY_GROUPS_KEY, JSON.stringify(expandedGroups));
+}
+
+export function loadStoredEntryGroupingMode(userName: string): EntryGroupingMode {
+  try {
+    const stored = localStorage.getItem(`${ENTRY_GROUPING_MODE_KEY_PREFIX}${userName}`);
+    return ENTRY_GROUPING_MODES.find((mode) => mode === stored) ?? DEFAULT_ENTRY_GROUPING_MODE;
+  } catch {
+    // Ignore inaccessible storage
+    return DEFAULT_ENTRY_GROUPING_MODE;
+  }
+}
+
+export function storeEntryGroupingMode(userName: string, mode: EntryGroupingMode) {
+  localStorage.setItem(`${ENTRY_GROUPING_MODE_KEY_PREFIX}${userName}`, mode);
 }
 
 /**
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { calculateMergePreview } from "./entry-merge";
+import type { TimeLogEntry } from "../components/time-logs/types";
+
+function entry(id: number, start: string, end: string | null): TimeLogEntry {
+  return {
+    id,
+    startTime: time(start).toISOString(),
+    endTime: end ? time(end).toISOString() : null,
+    title: "Task",
+    ownerId: 1,
+    tags: [],
+    billable: false,
+  };
+}
+
+function time(value: string): Date {
+  const [hours, minutes] = value.split(":").map(Number);
+  return new Date(2024, 2, 16, hours, minutes, 0, 0);
+}
+
+const MINUTE = 60 * 1000;
+
+describe("calculateMergePreview", () => {
+  test("spans from earliest start to latest end and reports absorbed gaps", () => {
+    const result = calculateMergePreview([
+      entry(1, "11:00", "12:00"),
+      entry(2, "09:00", "10:00"),
+      entry(3, "10:15", "10:45"),
+    ]);
+
+    expect(result.startTime).toBe(time("09:00").toISOString());
+    expect(result.endTime).toBe(time("12:00").toISOString());
+    expect(result.trackedDuration).toBe(150 * MINUTE);
+    expect(result.absorbedGapDuration).toBe(30 * MINUTE);
+  });
+
+  test("counts overlapping time once", () => {
+    const result = calculateMergePreview([entry(1, "09:00", "10:30"), entry(2, "10:00", "11:00")]);
+
+    expect(result.trackedDuration).toBe(120 * MINUTE);
+    expect(result.absorbedGapDuration).toBe(0);
+  });
+
+  test("keeps merged entry active when any entry is active", () => {
+    const result = calculateMergePreview([entry(1, "09:00", "10:00"), entry(2, "10:30", null)], time("11:00"));
+
+    expect(result.endTime).toBeNull();
+    expect(result.trackedDuration).toBe(90 * MINUTE);
+    expect(result.absorbedGapDuration).toBe(30 * MINUTE);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Utility functions for previewing the result of merging time log entries.
+ */
+
+import type { TimeLogEntry } from "@/components/time-logs/types";
+
+/**
+ * Describes the entry that results from merging several entries.
+ */
+export interface MergePreview {
+  /** Earliest start time among the merged entries */
+  startTime: string;
+  /** Latest end time among the merged entries (null if any entry is active) */
+  endTime: string | null;
+  /** Time actually tracked by the merged entries in milliseconds, overlaps counted once */
+  trackedDuration: number;
+  /** Time between the merged entries that becomes part of the merged entry, in milliseconds */
+  absorbedGapDuration: number;
+}
+
+/**
+ * Calculates how the merged entry will look like and how much untracked time it absorbs.
+ * Active entries are considered to end at the current moment.
+ *
+ * @param entries Entries to merge (at least one)
+ * @param now Current time, used for active entries
+ */
+export function calculateMergePreview(entries: TimeLogEntry[], now: Date = new Date()): MergePreview {
+  const intervals = entries
+    .map((entry) => ({
+      start: new Date(entry.startTime).getTime(),
+      end: entry.endTime ? new Date(entry.endTime).getTime() : now.getTime(),
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  // Sum up the union of intervals, so that overlapping entries are not counted twice
+  let trackedDuration = 0;
+  let currentStart = intervals[0].start;
+  let currentEnd = intervals[0].end;
+  for (const interval of intervals.slice(1)) {
+    if (interval.start > currentEnd) {
+      trackedDuration += currentEnd - currentStart;
+      currentStart = interval.start;
+      currentEnd = interval.end;
+    } else {
+      currentEnd = Math.max(currentEnd, interval.end);
+    }
+  }
+  trackedDuration += currentEnd - currentStart;
+
+  const spanStart = intervals[0].start;
+  const spanEnd = Math.max(...intervals.map((interval) => interval.end));
+  const hasActiveEntry = entries.some((entry) => entry.endTime == null);
+
+  return {
+    startTime: new Date(spanStart).toISOString(),
+    endTime: hasActiveEntry ? null : new Date(spanEnd).toISOString(),
+    trackedDuration,
+    absorbedGapDuration: spanEnd - spanStart - trackedDuration,
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildEntrySearchApiUrl,
+  EMPTY_SEARCH_FILTERS,
+  formatEntrySearchParams,
+  parseEntrySearchParams,
+  type EntrySearchFilters,
+} from "./entry-search";
+
+const filters: EntrySearchFilters = {
+  query: "billing migration",
+  tags: ["client-a", "backend"],
+  from: "2024-03-01",
+  to: "2024-03-15",
+  minDurationMinutes: 15,
+  maxDurationMinutes: 120,
+};
+
+describe("parseEntrySearchParams", () => {
+  test("parses all filters and page", () => {
+    const result = parseEntrySearchParams(
+      new URLSearchParams(
+        "q=billing+migration&tag=client-a&tag=backend&from=2024-03-01&to=2024-03-15&minDuration=15&maxDuration=120&page=3"
+      )
+    );
+
+    expect(result).toEqual({ filters, page: 2 });
+  });
+
+  test("ignores invalid parameters", () => {
+    const result = parseEntrySearchParams(
+      new URLSearchParams("from=2024-02-30&to=tomorrow&minDuration=-5&maxDuration=1.5&page=0")
+    );
+
+    expect(result).toEqual({ filters: EMPTY_SEARCH_FILTERS, page: 0 });
+  });
+});
+
+describe("formatEntrySearchParams", () => {
+  test("round-trips filters and page", () => {
+    expect(parseEntrySearchParams(formatEntrySearchParams(filters, 4))).toEqual({ filters, page: 4 });
+  });
+
+  test("omits unset filters and the first page", () => {
+    expect(formatEntrySearchParams({ ...EMPTY_SEARCH_FILTERS, query: "  " }).toString()).toBe("");
+  });
+});
+
+describe("buildEntrySearchApiUrl", () => {
+  test("converts days to local midnight instants and durations to seconds", () => {
+    const url = new URL(buildEntrySearchApiUrl(filters, 1), "http://localhost");
+
+    expect(url.pathname).toBe("/api-ui/time-log-entries/search");
+    expect(url.searchParams.get("query")).toBe("billing migration");
+    expect(url.searchParams.getAll("tags")).toEqual(["client-a", "backend"]);
+    expect(url.searchParams.get("startTime")).toBe(new Date(2024, 2, 1).toISOString());
+    expect(url.searchParams.get("endTime")).toBe(new Date(2024, 2, 16).toISOString());
+    expect(url.searchParams.get("minDuration")).toBe("900");
+    expect(url.searchParams.get("maxDuration")).toBe("7200");
+    expect(url.searchParams.get("page")).toBe("1");
+    expect(url.searchParams.get("size")).toBe("20");
+  });
+
+  test("omits unset filters", () => {
+    const url = new URL(buildEntrySearchApiUrl(EMPTY_SEARCH_FILTERS, 0), "http://localhost");
+
+    expect([...url.searchParams.keys()]).toEqual(["page", "size"]);
+  });
+});
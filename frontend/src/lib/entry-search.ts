@@ -0,0 +1,97 @@
+/**
+ * Utility functions for the full-history search of time log entries:
+ * encoding search filters in the page URL and building search API requests.
+ */
+
+import { formatISODate, parseISODate } from "./time-utils";
+
+export const SEARCH_PAGE_SIZE = 20;
+
+export interface EntrySearchFilters {
+  /** Space-separated tokens, all of which must be contained in entry title */
+  query: string;
+  /** Tags, all of which must be assigned to entry */
+  tags: string[];
+  /** First day (YYYY-MM-DD) entries start within, inclusive */
+  from: string | null;
+  /** Last day (YYYY-MM-DD) entries start within, inclusive */
+  to: string | null;
+  minDurationMinutes: number | null;
+  maxDurationMinutes: number | null;
+}
+
+export const EMPTY_SEARCH_FILTERS: EntrySearchFilters = {
+  query: "",
+  tags: [],
+  from: null,
+  to: null,
+  minDurationMinutes: null,
+  maxDurationMinutes: null,
+};
+
+function parseDay(value: string | null): string | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  return formatISODate(parseISODate(value)) === value ? value : null;
+}
+
+function parseNonNegativeInteger(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+/**
+ * Parses search filters and zero-based page number from URL query parameters.
+ * Invalid parameters are ignored.
+ */
+export function parseEntrySearchParams(params: URLSearchParams): { filters: EntrySearchFilters; page: number } {
+  const page = parseNonNegativeInteger(params.get("page"));
+  return {
+    filters: {
+      query: params.get("q") ?? "",
+      tags: params.getAll("tag"),
+      from: parseDay(params.get("from")),
+      to: parseDay(params.get("to")),
+      minDurationMinutes: parseNonNegativeInteger(params.get("minDuration")),
+      maxDurationMinutes: parseNonNegativeInteger(params.get("maxDuration")),
+    },
+    page: page && page > 0 ? page - 1 : 0,
+  };
+}
+
+/**
+ * Formats search filters and zero-based page number as URL query parameters,
+ * the reverse of {@link parseEntrySearchParams}. Unset filters and the first page are omitted.
+ */
+export function formatEntrySearchParams(filters: EntrySearchFilters, page: number = 0): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set("q", filters.query.trim());
+  filters.tags.forEach((tag) => params.append("tag", tag));
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.minDurationMinutes !== null) params.set("minDuration", String(filters.minDurationMinutes));
+  if (filters.maxDurationMinutes !== null) params.set("maxDuration", String(filters.maxDurationMinutes));
+  if (page > 0) params.set("page", String(page + 1));
+  return params;
+}
+
+/**
+ * Builds the search API URL. Days are converted to local midnight instants; durations to seconds.
+ */
+export function buildEntrySearchApiUrl(filters: EntrySearchFilters, page: number): string {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set("query", filters.query.trim());
+  filters.tags.forEach((tag) => params.append("tags", tag));
+  if (filters.from) {
+    params.set("startTime", parseISODate(filters.from).toISOString());
+  }
+  if (filters.to) {
+    const endTime = parseISODate(filters.to);
+    endTime.setDate(endTime.getDate() + 1);
+    params.set("endTime", endTime.toISOString());
+  }
+  if (filters.minDurationMinutes !== null) params.set("minDuration", String(filters.minDurationMinutes * 60));
+  if (filters.maxDurationMinutes !== null) params.set("maxDuration", String(filters.maxDurationMinutes * 60));
+  params.set("page", String(page));
+  params.set("size", String(SEARCH_PAGE_SIZE));
+  return `/api-ui/time-log-entries/search?${params.toString()}`;
+}
@@ -0,0 +1,68 @@
+import { apiDelete, apiPatch, apiPost, apiPut } from "@/lib/api";
+import type { TimeEntry } from "@/components/time-logs/types";
+
+/**
+ * Restores recently deleted time log entries.
+ */
+export async function restoreDeletedEntries(entryIds: number[]): Promise<void> {
+  await apiPost("/api-ui/time-log-entries/restore", { entryIds });
+}
+
+/**
+ * Reverts the title, tags and start time of an entry to the snapshot of an active entry.
+ * Goes through the field endpoints, as the entry might have been stopped since the snapshot was taken
+ * and a stopped entry cannot be updated with an empty end time.
+ * The fields are updated one by one, so that the updates do not overwrite each other.
+ */
+async function restoreActiveEntryState(entryId: number, snapshot: TimeEntry): Promise<void> {
+  await apiPatch(`/api-ui/time-log-entries/${entryId}/title`, { title: snapshot.title });
+  await apiPatch(`/api-ui/time-log-entries/${entryId}/tags`, { tags: snapshot.tags });
+  await apiPatch(`/api-ui/time-log-entries/${entryId}/start-time`, { startTime: snapshot.startTime });
+}
+
+/**
+ * Reverts time log entries to the given snapshots, taken before the entries were edited.
+ * Entries active at the time of the snapshot keep their current end time, if any.
+ */
+export async function restoreEntriesState(snapshots: TimeEntry[]): Promise<void> {
+  await Promise.all(
+    snapshots.map((snapshot) =>
+      snapshot.endTime === null
+        ? restoreActiveEntryState(snapshot.id, snapshot)
+        : apiPut(`/api-ui/time-log-entries/${snapshot.id}`, {
+            title: snapshot.title,
+            startTime: snapshot.startTime,
+            endTime: snapshot.endTime,
+            tags: snapshot.tags,
+          })
+    )
+  );
+}
+
+/**
+ * Reverts a merge: restores the entry kept as the merged entry to its snapshot and brings back the other entries.
+ *
+ * @param snapshots the merged entries, taken before the merge
+ * @param mergedEntryId ID of the entry kept as the merged entry
+ */
+export async function restoreMergedEntries(snapshots: TimeEntry[], mergedEntryId: number): Promise<void> {
+  await restoreEntriesState(snapshots.filter((snapshot) => snapshot.id === mergedEntryId));
+  await restoreDeletedEntries(snapshots.filter((snapshot) => snapshot.id !== mergedEntryId).map((e) => e.id));
+}
+
+/**
+ * Reverts a split: removes the entry created as the second part and restores the split entry to its snapshot.
+ *
+ * @param snapshot the split entry, taken before the split
+ * @param secondPartId ID of the entry created as the second part
+ */
+export async function restoreSplitEntry(snapshot: TimeEntry, secondPartId: number): Promise<void> {
+  if (snapshot.endTime === null) {
+    // A stopped entry cannot be resumed, so the second part, running on from the split entry, takes its place
+    await apiDelete(`/api-ui/time-log-entries/${snapshot.id}`);
+    await restoreActiveEntryState(secondPartId, snapshot);
+    return;
+  }
+  await apiDelete(`/api-ui/time-log-entries/${secondPartId}`);
+  await restoreEntriesState([snapshot]);
+}
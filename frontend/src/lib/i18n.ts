@@ -98,6 +98,24 @@ const resources = {
           subtitle: "Manage your personal preferences",
           startOfWeek: "Start of Week",
           startOfWeekDescription: "Choose which day should be considered the first day of the week",
+          idleThreshold: "Idle detection (minutes)",
+          idleThresholdDescription:
+            "When you return after being inactive this long while a timer is running, you will be asked what to do with the idle time. Set to 0 to disable.",
+          dayAttribution: "Entries crossing midnight",
+          dayAttributionDescription:
+            "Choose which days the time of entries crossing midnight counts towards in totals and goals",
+          dayAttributionOptions: {
+            START_DAY: "Count on the start day",
+            SPLIT_AT_MIDNIGHT: "Split between days at midnight",
+          },
+          durationFormat: "Duration Format",
+          durationFormatDescription: "How durations of entries, totals and goals are displayed",
+          durationFormatOptions: {
+            HH_MM_SS: "Hours, minutes and seconds (07:15:00)",
+            H_MM: "Hours and minutes (7:15)",
+            DECIMAL_HOURS: "Decimal hours (7.25 h)",
+            HUMANIZED: "Humanized (7h 15m)",
+          },
           save: "Save Preferences",
           saving: "Saving...",
           updateSuccess: "Preferences updated successfully",
@@ -151,6 +169,93 @@ const resources = {
             },
           },
         },
+        pomodoro: {
+          title: "Pomodoro",
+          subtitle: "Work in focus intervals with breaks in between",
+          enabled: "Enable Pomodoro mode",
+          description:
+            "The current entry panel counts down focus intervals from the start of the active entry and notifies you when they end. While the entry is kept running, focus intervals alternate with breaks.",
+          workMinutes: "Focus interval (minutes)",
+          breakMinutes: "Break (minutes)",
+          intervalEndAction: "When a focus interval ends",
+          intervalEndActions: {
+            NOTIFY: "Notify and keep the entry running",
+            STOP_ENTRY: "Notify and stop the entry",
+            START_BREAK: "Notify and start a break entry",
+          },
+          breakTag: "Break tag",
+          breakTagDescription: "Entries with this tag count down the break instead of a focus interval.",
+          save: "Save",
+          saving: "Saving...",
+          updateSuccess: "Pomodoro settings updated successfully",
+        },
+        rounding: {
+          title: "Time Rounding",
+          subtitle: "Round tracked time to billing increments",
+          enabled: "Enable time rounding",
+          description: "The duration of each entry is rounded to a multiple of the increment.",
+          incrementMinutes: "Increment (minutes)",
+          direction: "Rounding",
+          directions: {
+            UP: "Up",
+            DOWN: "Down",
+            NEAREST: "To nearest",
+          },
+          application: "Apply rounding",
+          applications: {
+            ON_DISPLAY: "Only to displayed totals",
+            ON_STOP: "When an entry is stopped",
+          },
+          applicationDescriptions: {
+            ON_DISPLAY: "Tracked times are kept intact; day, week and search totals are rounded and marked as such.",
+            ON_STOP:
+              "The end time of an entry is moved back when it is stopped, so that the stored duration is rounded. It is never moved past the moment the entry is stopped.",
+          },
+          save: "Save",
+          saving: "Saving...",
+          updateSuccess: "Rounding settings updated successfully",
+        },
+        tagRates: {
+          title: "Hourly Rates",
+          subtitle: "Rates the earnings of billable entries are calculated with, per tag",
+          noRates: "No hourly rates yet",
+          table: {
+            tag: "Tag",
+            hourlyRate: "Hourly rate",
+          },
+          tag: "Tag",
+          hourlyRate: "Hourly rate",
+          currency: "Currency",
+          edit: "Edit rate",
+          delete: "Delete rate",
+          save: "Save rate",
+          saving: "Saving...",
+          saveSuccess: "Hourly rate saved successfully",
+          deleteSuccess: "Hourly rate deleted successfully",
+        },
+        notifications: {
+          title: "Reminders",
+          subtitle: "Browser notifications reminding you to track time while the time logs page is open",
+          noActiveEntry: {
+            title: "Remind when nothing is tracked during working hours",
+            description: "Notifies you once when no entry is active during your working hours.",
+            from: "Working hours from",
+            to: "Working hours to",
+            workingDaysPlaceholder: "Select working days",
+          },
+          longRunningEntry: {
+            title: "Remind about long-running entries",
+            description: "Notifies you when an entry has been running for longer than the threshold.",
+            minutes: "Threshold (minutes)",
+          },
+          dailyGoalReached: {
+            title: "Notify when the daily goal is reached",
+            description: "Notifies you as soon as today's tracked time reaches the daily goal.",
+          },
+          save: "Save",
+          saving: "Saving...",
+          updateSuccess: "Notification settings updated successfully",
+        },
         import: {
           title: "Import Data",
           subtitle: "Import data from other applications or previous export",
@@ -204,6 +309,24 @@ const resources = {
       timeLogs: {
         previousWeek: "Previous Week",
         nextWeek: "Next Week",
+        previousMonth: "Previous Month",
+        nextMonth: "Next Month",
+        monthlyTotal: "Monthly total",
+        viewMode: {
+          week: "Week",
+          month: "Month",
+          range: "Range",
+        },
+        dateNavigation: {
+          pickDate: "Jump to date",
+          today: "Today",
+          thisWeek: "This week",
+          rangeTotal: "Total",
+        },
+        monthCalendar: {
+          goalMet: "Daily goal met",
+          goalNotMet: "Daily goal not met",
+        },
         today: "Today",
         yesterday: "Yesterday",
         currentEntry: {
@@ -261,7 +384,7 @@ const resources = {
         timezoneHint: "Times shown in {{timezone}}",
         deleteDialog: {
           title: "Delete Time Log Entry",
-          message: "Are you sure you want to delete this time log entry? This action cannot be undone.",
+          message: "Are you sure you want to delete this time log entry?",
           confirm: "Delete",
           cancel: "Cancel",
         },
@@ -273,6 +396,14 @@ const resources = {
         errors: {
           titleRequired: "Please enter a log entry description",
         },
+        groupingMode: {
+          label: "Entry grouping",
+          NONE: "No grouping",
+          TITLE_AND_TAGS: "Group by title and tags",
+          TITLE: "Group by title",
+          PRIMARY_TAG: "Group by primary tag",
+          noTag: "No tag",
+        },
         groupedEntry: {
           count: "{{count}} entries",
           expand: "Expand to see all entries",
@@ -281,12 +412,201 @@ const resources = {
         validation: {
           mustBeAfter: "Time must be after start time",
           mustBeBefore: "Time must be before end time",
+          mustBeAfterPreviousEntry: "Time must not be before the end of the previous entry",
+          mustBeInPast: "Time must be in the past",
         },
         autocomplete: {
           noResults: "No matching entries found",
           lastStarted: "Last started: {{time}}",
           tags: "Tags: {{tags}}",
         },
+        addEntry: {
+          button: "Add entry",
+          title: "Add Time Log Entry",
+          save: "Save",
+          saveAnyway: "Save anyway",
+          saving: "Saving...",
+          cancel: "Cancel",
+          endInFuture: "End time cannot be in the future",
+          billable: "Billable",
+        },
+        splitEntry: {
+          action: "Split",
+          title: "Split Time Log Entry",
+          message: "Choose the moment to split this entry at, and what the second part is about.",
+          splitAt: "Split at",
+          secondPart: "Second part",
+          confirm: "Split",
+          splitting: "Splitting...",
+          cancel: "Cancel",
+          mustBeInPast: "Time must be in the past",
+        },
+        mergeEntries: {
+          action: "Merge",
+          mergeSelected: "Merge selected ({{count}})",
+          title: "Merge Time Log Entries",
+          message:
+            "{{count}} entries will be replaced with a single entry spanning from the earliest start to the latest end.",
+          tracked: "Tracked time: {{duration}}",
+          absorbedGap: "Gap time absorbed: {{duration}}",
+          confirm: "Merge",
+          merging: "Merging...",
+          cancel: "Cancel",
+        },
+        selectEntry: "Select entry",
+        bulkActions: {
+          selected: "Selected: {{count}}",
+          retitle: "Retitle",
+          addTags: "Add tags",
+          removeTags: "Remove tags",
+          delete: "Delete",
+          apply: "Apply",
+          clearSelection: "Clear selection",
+          deleteDialog: {
+            title: "Delete Selected Entries",
+            message: "Are you sure you want to delete {{count}} selected entries?",
+          },
+        },
+        undo: {
+          undo: "Undo",
+          undoing: "Undoing...",
+          dismiss: "Dismiss",
+          entryDeleted: "Entry deleted",
+          entriesDeleted: "Entries deleted: {{count}}",
+          entryUpdated: "Entry updated",
+          entriesUpdated: "Entries updated: {{count}}",
+          entriesMerged: "Entries merged: {{count}}",
+          entrySplit: "Entry split",
+        },
+        rounding: {
+          roundedTotal: {
+            UP: "Each entry is rounded up to {{increment}} min",
+            DOWN: "Each entry is rounded down to {{increment}} min",
+            NEAREST: "Each entry is rounded to the nearest {{increment}} min",
+          },
+          roundedTotalGeneric: "Durations of the entries are rounded",
+        },
+        billable: {
+          summary: "Billable",
+          markBillable: "Mark as billable",
+          markNonBillable: "Mark as non-billable",
+        },
+        untrackedGap: {
+          untracked: "untracked {{duration}}",
+          fillWithPrevious: "Fill with previous",
+          fillWithNext: "Fill with next",
+          newEntry: "New entry",
+        },
+        overlapResolution: {
+          description: "Overlaps with '{{title}}' from {{from}} to {{to}}",
+          trimThis: "Trim this entry",
+          trimOther: "Trim the other",
+          shift: "Shift",
+          split: "Split",
+          unresolvedCount: "Unresolved overlaps: {{count}}",
+        },
+        entryFilter: {
+          textPlaceholder: "Filter by title...",
+          includeTags: "Include tags",
+          excludeTags: "Exclude tags",
+          filteredTotals: "Totals of filtered entries only",
+          clear: "Clear filter",
+          noMatchingEntries: "No entries match the filter",
+        },
+        pomodoro: {
+          intervals: {
+            focus: "Focus",
+            break: "Break",
+          },
+          intervalEnded: {
+            focus: "Focus interval is over, time for a break",
+            break: "Break is over, time to focus",
+          },
+          breakEntryTitle: "Break",
+        },
+        backdatedStart: {
+          title: "Started at",
+          now: "Now",
+          offset: "−{{minutes}} min",
+          errors: {
+            inFuture: "Start time cannot be in the future",
+            overlapsPreviousEntry: "Start time overlaps the previous entry",
+          },
+        },
+        pinnedEntries: {
+          pin: "Pin",
+          unpin: "Unpin",
+          edit: "Edit pinned entries",
+          done: "Done",
+          moveLeft: "Move left",
+          moveRight: "Move right",
+        },
+        dayAttribution: {
+          continuedFromPreviousDay: "Continued from {{date}}",
+        },
+        idleTime: {
+          title: "Welcome back",
+          message:
+            'You have been away since {{time}} ({{duration}}) while "{{title}}" was running. What should happen with this time?',
+          keep: "Keep",
+          discard: "Discard",
+          discardAndContinue: "Discard and continue",
+        },
+      },
+      // Search Page
+      search: {
+        queryPlaceholder: "Search in titles...",
+        startedBetween: "Started between",
+        anyDate: "Any date",
+        clearDate: "Clear date",
+        durationMinutes: "Duration, minutes",
+        minDuration: "Min",
+        maxDuration: "Max",
+        search: "Search",
+        reset: "Reset",
+        noResults: "No entries found",
+        resultsCount: "Entries found: {{count}}",
+        grandTotal: "Total",
+        pagination: {
+          previous: "Previous",
+          next: "Next",
+          page: "Page {{page}} of {{total}}",
+        },
+      },
+      // Keyboard Shortcuts
+      shortcuts: {
+        actions: {
+          focusNewEntry: "Focus the new entry input",
+          stopEntry: "Stop the active entry",
+          continueLastEntry: "Continue the last entry",
+          previousWeek: "Previous week",
+          nextWeek: "Next week",
+          search: "Search entries",
+          commandPalette: "Open the command palette",
+          showShortcuts: "Show keyboard shortcuts",
+        },
+        palette: {
+          title: "Command Palette",
+          placeholder: "Type a command, a page or an entry title...",
+          noResults: "Nothing found",
+          goTo: "Go to {{page}}",
+          startEntry: 'Start "{{title}}"',
+        },
+        help: {
+          title: "Keyboard Shortcuts",
+          description: "Shortcuts without Ctrl do not work while typing in input fields.",
+        },
+      },
+      notifications: {
+        reminders: {
+          noActiveEntry: "Nothing is being tracked",
+          longRunningEntry: "This entry has been running for a long time",
+          dailyGoalReached: "Daily goal reached",
+        },
+        actions: {
+          continueLastEntry: "Continue last entry",
+          stopEntry: "Stop",
+        },
       },
       // Portal Pages
       portal: {
@@ -371,6 +691,7 @@ const resources = {
         profile: "Profile",
         logout: "Logout",
         timeEntry: "Time Log",
+        search: "Search",
         tags: "Tags",
         calendar: "Calendar",
         reports: "Reports",
@@ -452,6 +773,7 @@ const resources = {
         ENTRY_NOT_FOUND: "Time log entry not found",
         ENTRY_ALREADY_STOPPED: "Log entry is already stopped",
         START_TIME_IN_FUTURE: "Start time cannot be in the future",
+        START_TIME_OVERLAPS_ENTRY: "Start time overlaps an existing entry",
         END_TIME_IN_FUTURE: "End time cannot be in the future",
         END_TIME_REQUIRED: "End time is required for stopped entries",
         END_TIME_BEFORE_START_TIME: "End time must be after start time",
@@ -459,12 +781,33 @@ const resources = {
         INVALID_START_OF_WEEK: "Invalid start of week",
         INVALID_DAILY_GOAL: "Invalid daily goal",
         INVALID_TYPICAL_BREAK: "Invalid typical break",
+        INVALID_POMODORO_INTERVAL: "Interval length must be between 1 minute and 24 hours",
+        INVALID_POMODORO_BREAK_TAG: "Invalid break tag",
+        INVALID_ROUNDING_INCREMENT: "Rounding increment must be between 1 minute and 24 hours",
+        INVALID_HOURLY_RATE: "Hourly rate must be greater than zero and less than 1,000,000",
+        INVALID_CURRENCY: "Currency must be a three-letter ISO 4217 code",
+        TAG_RATE_NOT_FOUND: "Hourly rate not found",
+        INVALID_IDLE_THRESHOLD: "Invalid idle detection threshold",
+        INVALID_DAY_ATTRIBUTION: "Invalid attribution of entries crossing midnight",
+        INVALID_DURATION_FORMAT: "Invalid duration format",
+        INVALID_WORKING_HOURS: "Invalid working hours",
+        INVALID_LONG_RUNNING_ENTRY_THRESHOLD: "Invalid long-running entry threshold",
+        PINNED_ENTRY_ALREADY_EXISTS: "This entry is already pinned",
+        TOO_MANY_PINNED_ENTRIES: "Cannot pin more than 50 entries",
+        PINNED_ENTRY_NOT_FOUND: "Pinned entry not found",
+        INVALID_PINNED_ENTRIES_ORDER: "Pinned entries have changed, please reload the page",
         INVALID_CSV_FORMAT: "Invalid CSV format. Please check the instructions.",
         IMPORT_FAILED: "Import failed. Please try again.",
         API_TOKEN_NOT_FOUND: "API token not found",
         API_TOKEN_ALREADY_EXISTS: "API token already exists",
         START_TIME_AFTER_END_TIME: "Start time must be before end time",
         ENTRY_IS_ACTIVE: "Cannot update end time for active entry",
+        INVALID_SPLIT_TIME: "Split time must be within the entry",
+        INVALID_RESUME_TIME: "Resume time must be between the split time and the end of the entry",
+        NOT_ENOUGH_ENTRIES_TO_MERGE: "At least two entries are required to merge",
+        ENTRIES_NOT_FOUND: "One or more time log entries not found",
+        NO_ENTRY_IDS: "No entry IDs provided",
+        CANNOT_RESTORE_ACTIVE_ENTRY: "Cannot restore an active entry while another is active",
       },
     },
   },
@@ -563,6 +906,24 @@ const resources = {
           subtitle: "Керуйте вашими особистими налаштуваннями",
           startOfWeek: "Початок тижня",
           startOfWeekDescription: "Виберіть, який день вважається першим днем тижня",
+          idleThreshold: "Виявлення бездіяльності (хвилини)",
+          idleThresholdDescription:
+            "Якщо ви повернетеся після такого періоду бездіяльності під час роботи таймера, вас запитають, що зробити з часом простою. Встановіть 0, щоб вимкнути.",
+          dayAttribution: "Записи після опівночі",
+          dayAttributionDescription:
+            "Виберіть, до яких днів зараховується час записів, що переходять через опівніч, у підсумках та цілях",
+          dayAttributionOptions: {
+            START_DAY: "Зараховувати до дня початку",
+            SPLIT_AT_MIDNIGHT: "Розділяти між днями опівночі",
+          },
+          durationFormat: "Формат тривалості",
+          durationFormatDescription: "Як відображається тривалість записів, підсумків і цілей",
+          durationFormatOptions: {
+            HH_MM_SS: "Години, хвилини та секунди (07:15:00)",
+            H_MM: "Години та хвилини (7:15)",
+            DECIMAL_HOURS: "Десяткові години (7.25 h)",
+            HUMANIZED: "Скорочено (7h 15m)",
+          },
           save: "Зберегти налаштування",
           saving: "Збереження...",
           updateSuccess: "Налаштування успішно оновлено",
@@ -616,6 +977,94 @@ const resources = {
             },
           },
         },
+        pomodoro: {
+          title: "Помодоро",
+          subtitle: "Працюйте інтервалами зосередженості з перервами між ними",
+          enabled: "Увімкнути режим Помодоро",
+          description:
+            "Панель поточного запису відраховує інтервали зосередженості від початку активного запису та сповіщає про їх завершення. Поки запис продовжується, інтервали зосередженості чергуються з перервами.",
+          workMinutes: "Інтервал зосередженості (хвилини)",
+          breakMinutes: "Перерва (хвилини)",
+          intervalEndAction: "Після завершення інтервалу зосередженості",
+          intervalEndActions: {
+            NOTIFY: "Сповістити й продовжити запис",
+            STOP_ENTRY: "Сповістити й зупинити запис",
+            START_BREAK: "Сповістити й почати запис перерви",
+          },
+          breakTag: "Тег перерви",
+          breakTagDescription: "Для записів з цим тегом відраховується перерва замість інтервалу зосередженості.",
+          save: "Зберегти",
+          saving: "Збереження...",
+          updateSuccess: "Налаштування Помодоро успішно оновлено",
+        },
+        rounding: {
+          title: "Округлення часу",
+          subtitle: "Округлюйте відстежений час до інтервалів виставлення рахунків",
+          enabled: "Увімкнути округлення часу",
+          description: "Тривалість кожного запису округлюється до кратного інтервалу.",
+          incrementMinutes: "Інтервал (хвилини)",
+          direction: "Округлення",
+          directions: {
+            UP: "Вгору",
+            DOWN: "Вниз",
+            NEAREST: "До найближчого",
+          },
+          application: "Застосовувати округлення",
+          applications: {
+            ON_DISPLAY: "Лише до відображених підсумків",
+            ON_STOP: "Під час зупинки запису",
+          },
+          applicationDescriptions: {
+            ON_DISPLAY:
+              "Відстежений час залишається незмінним; підсумки за день, тиждень і пошук округлюються та позначаються.",
+            ON_STOP:
+              "Час завершення запису зсувається назад під час зупинки, щоб збережена тривалість була округленою. Він ніколи не зсувається за момент зупинки запису.",
+          },
+          save: "Зберегти",
+          saving: "Збереження...",
+          updateSuccess: "Налаштування округлення успішно оновлено",
+        },
+        tagRates: {
+          title: "Погодинні ставки",
+          subtitle: "Ставки за тегами, за якими розраховується заробіток оплачуваних записів",
+          noRates: "Погодинних ставок ще немає",
+          table: {
+            tag: "Тег",
+            hourlyRate: "Погодинна ставка",
+          },
+          tag: "Тег",
+          hourlyRate: "Погодинна ставка",
+          currency: "Валюта",
+          edit: "Редагувати ставку",
+          delete: "Видалити ставку",
+          save: "Зберегти ставку",
+          saving: "Збереження...",
+          saveSuccess: "Погодинну ставку успішно збережено",
+          deleteSuccess: "Погодинну ставку успішно видалено",
+        },
+        notifications: {
+          title: "Нагадування",
+          subtitle: "Сповіщення браузера, що нагадують відстежувати час, поки відкрита сторінка журналу часу",
+          noActiveEntry: {
+            title: "Нагадувати, коли в робочий час нічого не відстежується",
+            description: "Сповіщає один раз, коли в робочий час немає активного запису.",
+            from: "Робочий час з",
+            to: "Робочий час до",
+            workingDaysPlaceholder: "Виберіть робочі дні",
+          },
+          longRunningEntry: {
+            title: "Нагадувати про довгі записи",
+            description: "Сповіщає, коли запис триває довше за встановлений поріг.",
+            minutes: "Поріг (хвилини)",
+          },
+          dailyGoalReached: {
+            title: "Сповіщати про досягнення денної цілі",
+            description: "Сповіщає, щойно відстежений за сьогодні час досягне денної цілі.",
+          },
+          save: "Зберегти",
+          saving: "Збереження...",
+          updateSuccess: "Налаштування нагадувань успішно оновлено",
+        },
         import: {
           title: "Імпорт даних",
           subtitle: "Імпорт даних з інших додатків або попереднього експорту",
@@ -669,6 +1118,24 @@ const resources = {
       timeLogs: {
         previousWeek: "Попередній тиждень",
         nextWeek: "Наступний тиждень",
+        previousMonth: "Попередній місяць",
+        nextMonth: "Наступний місяць",
+        monthlyTotal: "Всього за місяць",
+        viewMode: {
+          week: "Тиждень",
+          month: "Місяць",
+          range: "Період",
+        },
+        dateNavigation: {
+          pickDate: "Перейти до дати",
+          today: "Сьогодні",
+          thisWeek: "Цей тиждень",
+          rangeTotal: "Всього",
+        },
+        monthCalendar: {
+          goalMet: "Денну ціль досягнуто",
+          goalNotMet: "Денну ціль не досягнуто",
+        },
         today: "Сьогодні",
         yesterday: "Вчора",
         currentEntry: {
@@ -726,7 +1193,7 @@ const resources = {
         timezoneHint: "Час показано у {{timezone}}",
         deleteDialog: {
           title: "Видалити запис часу",
-          message: "Ви впевнені, що хочете видалити цей запис часу? Цю дію неможливо скасувати.",
+          message: "Ви впевнені, що хочете видалити цей запис часу?",
           confirm: "Видалити",
           cancel: "Скасувати",
         },
@@ -738,6 +1205,14 @@ const resources = {
         errors: {
           titleRequired: "Будь ласка, введіть опис запису",
         },
+        groupingMode: {
+          label: "Групування записів",
+          NONE: "Без групування",
+          TITLE_AND_TAGS: "Групувати за назвою та тегами",
+          TITLE: "Групувати за назвою",
+          PRIMARY_TAG: "Групувати за основним тегом",
+          noTag: "Без тегу",
+        },
         groupedEntry: {
           count: "{{count}} записів",
           expand: "Розгорнути для перегляду всіх записів",
@@ -746,12 +1221,199 @@ const resources = {
         validation: {
           mustBeAfter: "Час має бути після часу початку",
           mustBeBefore: "Час має бути перед часом закінчення",
+          mustBeAfterPreviousEntry: "Час не може бути раніше за закінчення попереднього запису",
+          mustBeInPast: "Час має бути в минулому",
         },
         autocomplete: {
           noResults: "Відповідних записів не знайдено",
           lastStarted: "Останній старт: {{time}}",
           tags: "Теги: {{tags}}",
         },
+        addEntry: {
+          button: "Додати запис",
+          title: "Додати запис часу",
+          save: "Зберегти",
+          saveAnyway: "Все одно зберегти",
+          saving: "Збереження...",
+          cancel: "Скасувати",
+          endInFuture: "Час закінчення не може бути в майбутньому",
+          billable: "Оплачуваний",
+        },
+        splitEntry: {
+          action: "Розділити",
+          title: "Розділити запис часу",
+          message: "Оберіть момент, у який потрібно розділити запис, і чому присвячена друга частина.",
+          splitAt: "Розділити о",
+          secondPart: "Друга частина",
+          confirm: "Розділити",
+          splitting: "Розділення...",
+          cancel: "Скасувати",
+          mustBeInPast: "Час має бути в минулому",
+        },
+        mergeEntries: {
+          action: "Об'єднати",
+          mergeSelected: "Об'єднати вибрані ({{count}})",
+          title: "Об'єднати записи часу",
+          message: "Записи ({{count}}) буде замінено одним записом від найранішого початку до найпізнішого закінчення.",
+          tracked: "Відстежений час: {{duration}}",
+          absorbedGap: "Поглинутий час перерв: {{duration}}",
+          confirm: "Об'єднати",
+          merging: "Об'єднання...",
+          cancel: "Скасувати",
+        },
+        selectEntry: "Вибрати запис",
+        bulkActions: {
+          selected: "Вибрано: {{count}}",
+          retitle: "Перейменувати",
+          addTags: "Додати теги",
+          removeTags: "Видалити теги",
+          delete: "Видалити",
+          apply: "Застосувати",
+          clearSelection: "Скасувати вибір",
+          deleteDialog: {
+            title: "Видалити вибрані записи",
+            message: "Ви впевнені, що хочете видалити вибрані записи ({{count}})?",
+          },
+        },
+        undo: {
+          undo: "Скасувати",
+          undoing: "Скасування...",
+          dismiss: "Закрити",
+          entryDeleted: "Запис видалено",
+          entriesDeleted: "Видалено записів: {{count}}",
+          entryUpdated: "Запис оновлено",
+          entriesUpdated: "Оновлено записів: {{count}}",
+          entriesMerged: "Об'єднано записів: {{count}}",
+          entrySplit: "Запис розділено",
+        },
+        rounding: {
+          roundedTotal: {
+            UP: "Кожен запис округлено вгору до {{increment}} хв",
+            DOWN: "Кожен запис округлено вниз до {{increment}} хв",
+            NEAREST: "Кожен запис округлено до найближчих {{increment}} хв",
+          },
+          roundedTotalGeneric: "Тривалість записів округлено",
+        },
+        billable: {
+          summary: "Оплачувано",
+          markBillable: "Позначити як оплачуваний",
+          markNonBillable: "Позначити як неоплачуваний",
+        },
+        untrackedGap: {
+          untracked: "не відстежено {{duration}}",
+          fillWithPrevious: "Заповнити попереднім",
+          fillWithNext: "Заповнити наступним",
+          newEntry: "Новий запис",
+        },
+        overlapResolution: {
+          description: "Перетинається з '{{title}}' з {{from}} до {{to}}",
+          trimThis: "Обрізати цей запис",
+          trimOther: "Обрізати інший",
+          shift: "Зсунути",
+          split: "Розділити",
+          unresolvedCount: "Невирішені перетини: {{count}}",
+        },
+        entryFilter: {
+          textPlaceholder: "Фільтр за назвою...",
+          includeTags: "Включити теги",
+          excludeTags: "Виключити теги",
+          filteredTotals: "Підсумки лише відфільтрованих записів",
+          clear: "Очистити фільтр",
+          noMatchingEntries: "Жоден запис не відповідає фільтру",
+        },
+        pomodoro: {
+          intervals: {
+            focus: "Зосередженість",
+            break: "Перерва",
+          },
+          intervalEnded: {
+            focus: "Інтервал зосередженості завершено, час для перерви",
+            break: "Перерву завершено, час зосередитися",
+          },
+          breakEntryTitle: "Перерва",
+        },
+        backdatedStart: {
+          title: "Почато о",
+          now: "Зараз",
+          offset: "−{{minutes}} хв",
+          errors: {
+            inFuture: "Час початку не може бути в майбутньому",
+            overlapsPreviousEntry: "Час початку перетинається з попереднім записом",
+          },
+        },
+        pinnedEntries: {
+          pin: "Закріпити",
+          unpin: "Відкріпити",
+          edit: "Редагувати закріплені записи",
+          done: "Готово",
+          moveLeft: "Перемістити ліворуч",
+          moveRight: "Перемістити праворуч",
+        },
+        dayAttribution: {
+          continuedFromPreviousDay: "Продовження з {{date}}",
+        },
+        idleTime: {
+          title: "З поверненням",
+          message: 'Вас не було з {{time}} ({{duration}}), поки працював запис "{{title}}". Що зробити з цим часом?',
+          keep: "Залишити",
+          discard: "Відкинути",
+          discardAndContinue: "Відкинути і продовжити",
+        },
+      },
+      // Search Page
+      search: {
+        queryPlaceholder: "Пошук у назвах...",
+        startedBetween: "Розпочато між",
+        anyDate: "Будь-яка дата",
+        clearDate: "Очистити дату",
+        durationMinutes: "Тривалість, хвилини",
+        minDuration: "Мін",
+        maxDuration: "Макс",
+        search: "Шукати",
+        reset: "Скинути",
+        noResults: "Записів не знайдено",
+        resultsCount: "Знайдено записів: {{count}}",
+        grandTotal: "Всього",
+        pagination: {
+          previous: "Попередня",
+          next: "Наступна",
+          page: "Сторінка {{page}} з {{total}}",
+        },
+      },
+      // Keyboard Shortcuts
+      shortcuts: {
+        actions: {
+          focusNewEntry: "Перейти до поля нового запису",
+          stopEntry: "Зупинити активний запис",
+          continueLastEntry: "Продовжити останній запис",
+          previousWeek: "Попередній тиждень",
+          nextWeek: "Наступний тиждень",
+          search: "Пошук записів",
+          commandPalette: "Відкрити палітру команд",
+          showShortcuts: "Показати гарячі клавіші",
+        },
+        palette: {
+          title: "Палітра команд",
+          placeholder: "Введіть команду, сторінку або назву запису...",
+          noResults: "Нічого не знайдено",
+          goTo: "Перейти до: {{page}}",
+          startEntry: 'Почати "{{title}}"',
+        },
+        help: {
+          title: "Гарячі клавіші",
+          description: "Клавіші без Ctrl не працюють під час введення тексту в полях.",
+        },
+      },
+      notifications: {
+        reminders: {
+          noActiveEntry: "Нічого не відстежується",
+          longRunningEntry: "Цей запис триває вже довго",
+          dailyGoalReached: "Денну ціль досягнуто",
+        },
+        actions: {
+          continueLastEntry: "Продовжити останній запис",
+          stopEntry: "Зупинити",
+        },
       },
       // Portal Pages
       portal: {
@@ -836,6 +1498,7 @@ const resources = {
         profile: "Профіль",
         logout: "Вийти",
         timeEntry: "Журнал часу",
+        search: "Пошук",
         tags: "Теги",
         calendar: "Календар",
         reports: "Звіти",
@@ -917,6 +1580,7 @@ const resources = {
         ENTRY_NOT_FOUND: "Запис часу не знайдено",
         ENTRY_ALREADY_STOPPED: "Запис вже зупинено",
         START_TIME_IN_FUTURE: "Час початку не може бути в майбутньому",
+        START_TIME_OVERLAPS_ENTRY: "Час початку перетинається з наявним записом",
         END_TIME_IN_FUTURE: "Час закінчення не може бути в майбутньому",
         END_TIME_REQUIRED: "Час закінчення обов'язковий для зупинених записів",
         END_TIME_BEFORE_START_TIME: "Час закінчення має бути після часу початку",
@@ -924,12 +1588,33 @@ const resources = {
         INVALID_START_OF_WEEK: "Невірний початок тижня",
         INVALID_DAILY_GOAL: "Невірна щоденна ціль",
         INVALID_TYPICAL_BREAK: "Невірна типова перерва",
+        INVALID_POMODORO_INTERVAL: "Тривалість інтервалу має бути від 1 хвилини до 24 годин",
+        INVALID_POMODORO_BREAK_TAG: "Невірний тег перерви",
+        INVALID_ROUNDING_INCREMENT: "Інтервал округлення має бути від 1 хвилини до 24 годин",
+        INVALID_HOURLY_RATE: "Погодинна ставка має бути більшою за нуль і меншою за 1 000 000",
+        INVALID_CURRENCY: "Валюта має бути трилітерним кодом ISO 4217",
+        TAG_RATE_NOT_FOUND: "Погодинну ставку не знайдено",
+        INVALID_IDLE_THRESHOLD: "Невірний поріг виявлення бездіяльності",
+        INVALID_DAY_ATTRIBUTION: "Невірне зарахування записів, що переходять через опівніч",
+        INVALID_DURATION_FORMAT: "Невірний формат тривалості",
+        INVALID_WORKING_HOURS: "Невірний робочий час",
+        INVALID_LONG_RUNNING_ENTRY_THRESHOLD: "Невірний поріг довгого запису",
+        PINNED_ENTRY_ALREADY_EXISTS: "Цей запис вже закріплено",
+        TOO_MANY_PINNED_ENTRIES: "Не можна закріпити більше 50 записів",
+        PINNED_ENTRY_NOT_FOUND: "Закріплений запис не знайдено",
+        INVALID_PINNED_ENTRIES_ORDER: "Закріплені записи змінилися, перезавантажте сторінку",
         INVALID_CSV_FORMAT: "Невірний формат CSV. Будь ласка, перевірте інструкції.",
         IMPORT_FAILED: "Імпорт не вдався. Будь ласка, спробуйте ще раз.",
         API_TOKEN_NOT_FOUND: "API токен не знайдено",
         API_TOKEN_ALREADY_EXISTS: "API токен вже існує",
         START_TIME_AFTER_END_TIME: "Час початку має бути перед часом закінчення",
         ENTRY_IS_ACTIVE: "Неможливо оновити час закінчення для активного запису",
+        INVALID_SPLIT_TIME: "Час розділення має бути в межах запису",
+        INVALID_RESUME_TIME: "Час продовження має бути між часом розділення та кінцем запису",
+        NOT_ENOUGH_ENTRIES_TO_MERGE: "Для об'єднання потрібно щонайменше два записи",
+        ENTRIES_NOT_FOUND: "Один або кілька записів часу не знайдено",
+        NO_ENTRY_IDS: "Не вказано жодного запису",
+        CANNOT_RESTORE_ACTIVE_ENTRY: "Неможливо відновити активний запис, поки інший запис активний",
       },
     },
   },
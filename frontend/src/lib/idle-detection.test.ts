@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { getIdleSince } from "./idle-detection";
+
+const startTime = new Date(2024, 2, 16, 9, 0).toISOString();
+const start = new Date(startTime).getTime();
+
+function minutes(value: number): number {
+  return value * 60 * 1000;
+}
+
+describe("getIdleSince", () => {
+  test("ignores inactivity shorter than the threshold", () => {
+    expect(getIdleSince({ startTime }, start + minutes(10), start + minutes(24), 15)).toBeNull();
+  });
+
+  test("reports idle time since the last activity", () => {
+    expect(getIdleSince({ startTime }, start + minutes(10), start + minutes(25), 15)).toBe(start + minutes(10));
+  });
+
+  test("counts idle time from the entry start if it started while the user was away", () => {
+    expect(getIdleSince({ startTime }, start - minutes(30), start + minutes(20), 15)).toBe(start);
+  });
+
+  test("ignores entries started after the user returned", () => {
+    expect(getIdleSince({ startTime }, start - minutes(30), start, 15)).toBeNull();
+  });
+
+  test("is disabled by a zero threshold", () => {
+    expect(getIdleSince({ startTime }, start, start + minutes(600), 0)).toBeNull();
+  });
+});
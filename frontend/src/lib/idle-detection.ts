@@ -0,0 +1,25 @@
+/**
+ * Utility functions for detecting idle time of the active entry, i.e. the time the user was away
+ * while the timer kept running.
+ */
+
+import type { TimeEntry } from "@/components/time-logs/types";
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Calculates since when the active entry has been running idle, if the user returns after
+ * being inactive for at least the threshold.
+ * @returns start of the idle time in milliseconds, or null if there is nothing to ask the user about
+ */
+export function getIdleSince(
+  entry: Pick<TimeEntry, "startTime">,
+  lastActivityAt: number,
+  now: number,
+  thresholdMinutes: number
+): number | null {
+  if (thresholdMinutes <= 0 || now - lastActivityAt < thresholdMinutes * MINUTE_MS) return null;
+  // The entry might have been started while the user was away, e.g. from another device
+  const idleSince = Math.max(lastActivityAt, new Date(entry.startTime).getTime());
+  return idleSince < now ? idleSince : null;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { findShortcut, formatShortcutKeys, isEditableTarget, KEYBOARD_SHORTCUTS } from "./keyboard-shortcuts";
+
+function keyEvent(key: string, modifiers: { ctrlKey?: boolean; metaKey?: boolean; altKey?: boolean } = {}) {
+  return { key, ctrlKey: false, metaKey: false, altKey: false, ...modifiers };
+}
+
+describe("findShortcut", () => {
+  test("finds shortcuts triggered by single keys", () => {
+    expect(findShortcut(keyEvent("s"))?.action).toBe("focusNewEntry");
+    expect(findShortcut(keyEvent("]"))?.action).toBe("nextWeek");
+    expect(findShortcut(keyEvent("?"))?.action).toBe("showShortcuts");
+  });
+
+  test("finds command palette shortcut with either Ctrl or Cmd", () => {
+    expect(findShortcut(keyEvent("k", { ctrlKey: true }))?.action).toBe("commandPalette");
+    expect(findShortcut(keyEvent("K", { metaKey: true }))?.action).toBe("commandPalette");
+  });
+
+  test("ignores keys pressed with unexpected modifiers", () => {
+    expect(findShortcut(keyEvent("k"))).toBeUndefined();
+    expect(findShortcut(keyEvent("s", { ctrlKey: true }))).toBeUndefined();
+    expect(findShortcut(keyEvent("x", { altKey: true }))).toBeUndefined();
+    expect(findShortcut(keyEvent("S"))).toBeUndefined();
+  });
+});
+
+describe("formatShortcutKeys", () => {
+  test("formats keys with and without modifiers", () => {
+    const commandPalette = KEYBOARD_SHORTCUTS.find((it) => it.action === "commandPalette")!;
+    const search = KEYBOARD_SHORTCUTS.find((it) => it.action === "search")!;
+
+    expect(formatShortcutKeys(commandPalette)).toBe("Ctrl+K");
+    expect(formatShortcutKeys(search)).toBe("/");
+  });
+});
+
+describe("isEditableTarget", () => {
+  test("detects text input elements", () => {
+    expect(isEditableTarget({ tagName: "INPUT" } as unknown as EventTarget)).toBe(true);
+    expect(isEditableTarget({ tagName: "DIV", isContentEditable: true } as unknown as EventTarget)).toBe(true);
+    expect(isEditableTarget({ tagName: "BUTTON", isContentEditable: false } as unknown as EventTarget)).toBe(false);
+    expect(isEditableTarget(null)).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Definitions of the portal keyboard shortcuts and utility functions for matching them to key events.
+ */
+
+export type ShortcutAction =
+  | "focusNewEntry"
+  | "stopEntry"
+  | "continueLastEntry"
+  | "previousWeek"
+  | "nextWeek"
+  | "search"
+  | "commandPalette"
+  | "showShortcuts";
+
+export interface KeyboardShortcut {
+  action: ShortcutAction;
+  /** Key as reported by `KeyboardEvent.key` */
+  key: string;
+  /** Whether Ctrl (or Cmd on macOS) must be held along with the key */
+  withModifier: boolean;
+}
+
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { action: "focusNewEntry", key: "s", withModifier: false },
+  { action: "stopEntry", key: "x", withModifier: false },
+  { action: "continueLastEntry", key: "c", withModifier: false },
+  { action: "previousWeek", key: "[", withModifier: false },
+  { action: "nextWeek", key: "]", withModifier: false },
+  { action: "search", key: "/", withModifier: false },
+  { action: "commandPalette", key: "k", withModifier: true },
+  { action: "showShortcuts", key: "?", withModifier: false },
+];
+
+type ShortcutKeyEvent = Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey" | "altKey">;
+
+/**
+ * Finds the shortcut triggered by the key event, if any.
+ * Shift is not checked, as some keys (e.g. `?`) require it on most layouts.
+ */
+export function findShortcut(event: ShortcutKeyEvent): KeyboardShortcut | undefined {
+  if (event.altKey) return undefined;
+  const withModifier = event.ctrlKey || event.metaKey;
+  const key = withModifier ? event.key.toLowerCase() : event.key;
+  return KEYBOARD_SHORTCUTS.find((shortcut) => shortcut.key === key && shortcut.withModifier === withModifier);
+}
+
+/**
+ * Formats the keys of the shortcut for display, e.g. "Ctrl+K".
+ */
+export function formatShortcutKeys(shortcut: KeyboardShortcut): string {
+  return shortcut.withModifier ? `Ctrl+${shortcut.key.toUpperCase()}` : shortcut.key;
+}
+
+/**
+ * Whether the event target accepts text input, so that typed keys must not trigger shortcuts without modifiers.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  if (!element || !element.tagName) return false;
+  return ["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName) || element.isContentEditable === true;
+}
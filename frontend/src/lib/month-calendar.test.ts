@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { calculateIntensityLevel, generateMonthWeeks, getMonthStart } from "./month-calendar";
+import { formatISODate } from "./time-utils";
+
+describe("getMonthStart", () => {
+  test("returns the first day of the month", () => {
+    expect(getMonthStart(new Date(2024, 2, 16, 10, 30))).toEqual(new Date(2024, 2, 1));
+  });
+});
+
+describe("generateMonthWeeks", () => {
+  test("covers the month with full weeks starting on Monday", () => {
+    const weeks = generateMonthWeeks(new Date(2024, 2, 1), 1);
+
+    expect(weeks).toHaveLength(5);
+    expect(formatISODate(weeks[0][0])).toBe("2024-02-26");
+    expect(formatISODate(weeks[4][6])).toBe("2024-03-31");
+  });
+
+  test("respects the configured start of week", () => {
+    const weeks = generateMonthWeeks(new Date(2024, 2, 1), 0);
+
+    expect(weeks).toHaveLength(6);
+    expect(formatISODate(weeks[0][0])).toBe("2024-02-25");
+    expect(formatISODate(weeks[5][0])).toBe("2024-03-31");
+  });
+});
+
+describe("calculateIntensityLevel", () => {
+  test("uses level 0 for days without tracked time", () => {
+    expect(calculateIntensityLevel(0, 1000)).toBe(0);
+  });
+
+  test("scales levels relative to the busiest day", () => {
+    expect(calculateIntensityLevel(1, 1000)).toBe(1);
+    expect(calculateIntensityLevel(500, 1000)).toBe(2);
+    expect(calculateIntensityLevel(1000, 1000)).toBe(4);
+  });
+});
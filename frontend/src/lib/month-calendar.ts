@@ -0,0 +1,50 @@
+/**
+ * Utility functions for the month view of time logs.
+ */
+
+import { getWeekStart } from "./time-utils";
+
+/**
+ * Number of intensity levels days are colored with, level 0 being a day without tracked time.
+ */
+export const INTENSITY_LEVELS = 5;
+
+/**
+ * Get the start of the month for a given date.
+ */
+export function getMonthStart(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * Generates the calendar grid for the month: full weeks starting with the configured
+ * start of week, covering all days of the month.
+ *
+ * @returns Weeks of the grid, each with 7 days; days outside of the month are included
+ */
+export function generateMonthWeeks(monthStart: Date, startOfWeek: number): Date[][] {
+  const nextMonthStart = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1);
+  const weeks: Date[][] = [];
+  const current = getWeekStart(monthStart, startOfWeek);
+
+  while (current < nextMonthStart) {
+    const week: Date[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push(new Date(current));
+      current.setDate(current.getDate() + 1);
+    }
+    weeks.push(week);
+  }
+
+  return weeks;
+}
+
+/**
+ * Calculates the intensity level of a day relative to the busiest day of the month.
+ *
+ * @returns 0 for days without tracked time, otherwise a level from 1 to INTENSITY_LEVELS - 1
+ */
+export function calculateIntensityLevel(totalMs: number, maxTotalMs: number): number {
+  if (totalMs <= 0 || maxTotalMs <= 0) return 0;
+  return Math.max(1, Math.ceil((totalMs / maxTotalMs) * (INTENSITY_LEVELS - 1)));
+}
@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import { countOverlaps, detectOverlaps, findOverlappingEntries } from "./overlap-detection";
+import type { TimeLogEntry } from "../components/time-logs/types";
+
+function entry(id: number, title: string, start: string, end: string | null): TimeLogEntry {
+  return {
+    id,
+    startTime: time(start).toISOString(),
+    endTime: end ? time(end).toISOString() : null,
+    title,
+    ownerId: 1,
+    tags: [],
+    billable: false,
+  };
+}
+
+function time(value: string): Date {
+  const [hours, minutes, seconds = 0] = value.split(":").map(Number);
+  return new Date(2024, 2, 16, hours, minutes, seconds, 0);
+}
+
+describe("detectOverlaps", () => {
+  test("reports overlapping stopped entries with the overlapping interval", () => {
+    const a = entry(1, "A", "09:00", "10:00");
+    const b = entry(2, "B", "09:30", "11:00");
+
+    const overlaps = detectOverlaps([b, a]);
+
+    const interval = { overlapStart: time("09:30").toISOString(), overlapEnd: time("10:00").toISOString() };
+    expect(overlaps.get(1)).toEqual([{ otherEntry: b, ...interval }]);
+    expect(overlaps.get(2)).toEqual([{ otherEntry: a, ...interval }]);
+  });
+
+  test("reports every overlapping pair", () => {
+    const overlaps = detectOverlaps([
+      entry(1, "A", "09:00", "12:00"),
+      entry(2, "B", "09:30", "10:00"),
+      entry(3, "C", "11:00", "13:00"),
+    ]);
+
+    expect(overlaps.get(1)?.map((overlap) => overlap.otherEntry.id)).toEqual([2, 3]);
+    expect(overlaps.get(2)?.map((overlap) => overlap.otherEntry.id)).toEqual([1]);
+    expect(overlaps.get(3)?.map((overlap) => overlap.otherEntry.id)).toEqual([1]);
+  });
+
+  test("ignores boundary overlaps up to one second", () => {
+    const overlaps = detectOverlaps([entry(1, "A", "09:00", "10:00:01"), entry(2, "B", "10:00", "11:00")]);
+
+    expect(overlaps.size).toBe(0);
+  });
+});
+
+describe("countOverlaps", () => {
+  test("counts overlapping pairs within each day", () => {
+    const nextDayEntry: TimeLogEntry = {
+      ...entry(4, "D", "09:00", "10:00"),
+      startTime: new Date(2024, 2, 17, 9, 0).toISOString(),
+      endTime: new Date(2024, 2, 17, 10, 0).toISOString(),
+    };
+
+    const count = countOverlaps([
+      entry(1, "A", "09:00", "12:00"),
+      entry(2, "B", "09:30", "10:00"),
+      entry(3, "C", "11:00", "13:00"),
+      nextDayEntry,
+    ]);
+
+    expect(count).toBe(2);
+  });
+});
+
+describe("findOverlappingEntries", () => {
+  const entries = [
+    entry(1, "Morning", "09:00", "10:00"),
+    entry(2, "Lunch", "12:00", "13:00"),
+    entry(3, "Active", "14:00", null),
+  ];
+
+  test("returns entries overlapping the prospective time range", () => {
+    const result = findOverlappingEntries(time("09:30").toISOString(), time("12:30").toISOString(), entries);
+
+    expect(result.map((e) => e.id)).toEqual([1, 2]);
+  });
+
+  test("returns nothing for adjacent ranges", () => {
+    const result = findOverlappingEntries(time("10:00").toISOString(), time("12:00").toISOString(), entries);
+
+    expect(result).toEqual([]);
+  });
+
+  test("reports active entry as running until now", () => {
+    const now = time("16:00").getTime();
+
+    const result = findOverlappingEntries(time("14:30").toISOString(), time("15:00").toISOString(), entries, now);
+
+    expect(result.map((e) => e.id)).toEqual([3]);
+  });
+
+  test("does not report active entry started after the prospective time range", () => {
+    const now = time("16:00").getTime();
+
+    const result = findOverlappingEntries(time("13:00").toISOString(), time("14:00").toISOString(), entries, now);
+
+    expect(result).toEqual([]);
+  });
+});
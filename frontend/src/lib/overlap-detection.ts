@@ -3,13 +3,24 @@
  */
 
 import type { TimeLogEntry } from "@/components/time-logs/types";
+import { formatISODate } from "./time-utils";
+
+/**
+ * Entries touching each other within this tolerance are considered adjacent,
+ * neither overlapping nor leaving a gap between them.
+ */
+export const ENTRY_BOUNDARY_TOLERANCE_MS = 1000;
 
 /**
  * Represents an overlap between two time log entries.
  */
 export interface EntryOverlap {
-  /** The title of the entry that this entry overlaps with */
-  overlappingEntryTitle: string;
+  /** The entry that this entry overlaps with */
+  otherEntry: TimeLogEntry;
+  /** Start of the overlapping interval (ISO string) */
+  overlapStart: string;
+  /** End of the overlapping interval (ISO string) */
+  overlapEnd: string;
 }
 
 /**
@@ -39,25 +50,28 @@ function hasSignificantOverlap(start1: string, end1: string | null, start2: stri
   const overlapMs = overlapEnd - overlapStart;
 
   // Overlap is significant if it's more than 1 second (1000ms)
-  return overlapMs > 1000;
+  return overlapMs > ENTRY_BOUNDARY_TOLERANCE_MS;
 }
 
 /**
  * Detects overlaps for entries within a day group.
- * Returns a map of entry IDs to their overlaps.
- *
- * Note: If an entry overlaps with multiple entries, only the first overlap
- * found is stored and reported to the user. This keeps the UI simple and
- * still alerts users to potential recording mistakes.
+ * Returns a map of entry IDs to all their overlaps, so every overlapping pair
+ * is reported for both of its entries.
  *
  * @param entries All entries in the day group
- * @returns Map from entry ID to overlap information
+ * @returns Map from entry ID to overlaps information, ordered by the overlap start
  */
-export function detectOverlaps(entries: TimeLogEntry[]): Map<number, EntryOverlap> {
-  const overlaps = new Map<number, EntryOverlap>();
+export function detectOverlaps(entries: TimeLogEntry[]): Map<number, EntryOverlap[]> {
+  const overlaps = new Map<number, EntryOverlap[]>();
+
+  const addOverlap = (entry: TimeLogEntry, overlap: EntryOverlap) => {
+    overlaps.set(entry.id, [...(overlaps.get(entry.id) ?? []), overlap]);
+  };
 
   // Only check stopped entries for overlaps
-  const stoppedEntries = entries.filter((e) => e.endTime !== null);
+  const stoppedEntries = entries
+    .filter((e) => e.endTime !== null)
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
 
   for (let i = 0; i < stoppedEntries.length; i++) {
     for (let j = i + 1; j < stoppedEntries.length; j++) {
@@ -65,18 +79,60 @@ export function detectOverlaps(entries: TimeLogEntry[]): Map<number, EntryOverla
       const entry2 = stoppedEntries[j];
 
       if (hasSignificantOverlap(entry1.startTime, entry1.endTime, entry2.startTime, entry2.endTime)) {
-        // Store overlap for entry1
-        if (!overlaps.has(entry1.id)) {
-          overlaps.set(entry1.id, { overlappingEntryTitle: entry2.title });
-        }
-
-        // Store overlap for entry2
-        if (!overlaps.has(entry2.id)) {
-          overlaps.set(entry2.id, { overlappingEntryTitle: entry1.title });
-        }
+        // Entries are sorted by start time, so the overlap starts with the second entry
+        const overlapStart = entry2.startTime;
+        const overlapEnd =
+          new Date(entry1.endTime!).getTime() < new Date(entry2.endTime!).getTime() ? entry1.endTime! : entry2.endTime!;
+
+        addOverlap(entry1, { otherEntry: entry2, overlapStart, overlapEnd });
+        addOverlap(entry2, { otherEntry: entry1, overlapStart, overlapEnd });
       }
     }
   }
 
   return overlaps;
 }
+
+/**
+ * Counts overlapping pairs of entries of the week. Entries are checked within their start day,
+ * same as they are grouped and checked on the page.
+ *
+ * @param entries All entries of the week
+ * @returns Number of overlapping pairs
+ */
+export function countOverlaps(entries: TimeLogEntry[]): number {
+  const entriesByDay = new Map<string, TimeLogEntry[]>();
+  entries.forEach((entry) => {
+    const day = formatISODate(new Date(entry.startTime));
+    entriesByDay.set(day, [...(entriesByDay.get(day) ?? []), entry]);
+  });
+
+  let count = 0;
+  entriesByDay.forEach((dayEntries) => {
+    detectOverlaps(dayEntries).forEach((entryOverlaps) => (count += entryOverlaps.length));
+  });
+  // Each pair is reported for both of its entries
+  return count / 2;
+}
+
+/**
+ * Finds existing entries that a prospective entry would overlap with.
+ * Applies the same rules as {@link detectOverlaps}, except that the active entry is considered
+ * to end now, as it will keep running over the prospective entry.
+ *
+ * @param startTime Start time of the prospective entry (ISO string)
+ * @param endTime End time of the prospective entry (ISO string)
+ * @param entries Existing entries to check against
+ * @param now Current time in milliseconds, used as the end of the active entry
+ * @returns Entries overlapping with the prospective entry
+ */
+export function findOverlappingEntries(
+  startTime: string,
+  endTime: string,
+  entries: TimeLogEntry[],
+  now: number = Date.now()
+): TimeLogEntry[] {
+  return entries.filter((entry) =>
+    hasSignificantOverlap(startTime, endTime, entry.startTime, entry.endTime ?? new Date(now).toISOString())
+  );
+}
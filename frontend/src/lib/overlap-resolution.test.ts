@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { calculateShift, calculateTrim, findEntryToSplit } from "./overlap-resolution";
+import type { TimeLogEntry } from "../components/time-logs/types";
+
+function entry(id: number, start: string, end: string): TimeLogEntry {
+  return {
+    id,
+    startTime: time(start).toISOString(),
+    endTime: time(end).toISOString(),
+    title: `Task ${id}`,
+    ownerId: 1,
+    tags: [],
+    billable: false,
+  };
+}
+
+function time(value: string): Date {
+  const [hours, minutes] = value.split(":").map(Number);
+  return new Date(2024, 2, 16, hours, minutes, 0, 0);
+}
+
+const now = time("18:00");
+
+describe("calculateTrim", () => {
+  test("cuts off the start of the entry starting within the other entry", () => {
+    const change = calculateTrim(entry(1, "10:00", "12:00"), entry(2, "09:00", "11:00"));
+
+    expect(change?.startTime).toBe(time("11:00").toISOString());
+    expect(change?.endTime).toBe(time("12:00").toISOString());
+  });
+
+  test("cuts off the end of the entry ending within the other entry", () => {
+    const change = calculateTrim(entry(1, "09:00", "11:00"), entry(2, "10:00", "12:00"));
+
+    expect(change?.startTime).toBe(time("09:00").toISOString());
+    expect(change?.endTime).toBe(time("10:00").toISOString());
+  });
+
+  test("does not trim entries containing or contained in the other entry", () => {
+    expect(calculateTrim(entry(1, "09:00", "12:00"), entry(2, "10:00", "11:00"))).toBeNull();
+    expect(calculateTrim(entry(1, "10:00", "11:00"), entry(2, "09:00", "12:00"))).toBeNull();
+  });
+});
+
+describe("calculateShift", () => {
+  test("moves later entry after the other entry keeping its duration", () => {
+    const change = calculateShift(entry(1, "10:00", "12:00"), entry(2, "09:00", "11:00"), now);
+
+    expect(change?.startTime).toBe(time("11:00").toISOString());
+    expect(change?.endTime).toBe(time("13:00").toISOString());
+  });
+
+  test("moves earlier entry before the other entry keeping its duration", () => {
+    const change = calculateShift(entry(1, "09:00", "11:00"), entry(2, "10:00", "12:00"), now);
+
+    expect(change?.startTime).toBe(time("08:00").toISOString());
+    expect(change?.endTime).toBe(time("10:00").toISOString());
+  });
+
+  test("does not move entries into the future", () => {
+    expect(calculateShift(entry(1, "16:00", "17:30"), entry(2, "15:00", "17:00"), now)).toBeNull();
+  });
+});
+
+describe("findEntryToSplit", () => {
+  test("returns the entry containing the other one", () => {
+    const outer = entry(1, "09:00", "12:00");
+    const inner = entry(2, "10:00", "11:00");
+
+    expect(findEntryToSplit(outer, inner)).toBe(outer);
+    expect(findEntryToSplit(inner, outer)).toBe(outer);
+  });
+
+  test("returns nothing for partially overlapping entries", () => {
+    expect(findEntryToSplit(entry(1, "09:00", "11:00"), entry(2, "10:00", "12:00"))).toBeNull();
+  });
+});
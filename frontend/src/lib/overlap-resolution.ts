@@ -0,0 +1,88 @@
+/**
+ * Utility functions for resolving overlaps between time log entries.
+ */
+
+import type { TimeLogEntry } from "@/components/time-logs/types";
+
+/**
+ * New times of an entry, resolving its overlap with another entry.
+ */
+export interface EntryTimesChange {
+  entry: TimeLogEntry;
+  /** New start time (ISO string) */
+  startTime: string;
+  /** New end time (ISO string) */
+  endTime: string;
+}
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+function toRange(entry: TimeLogEntry): TimeRange {
+  return {
+    start: new Date(entry.startTime).getTime(),
+    end: new Date(entry.endTime!).getTime(),
+  };
+}
+
+function toChange(entry: TimeLogEntry, start: number, end: number): EntryTimesChange {
+  return {
+    entry,
+    startTime: new Date(start).toISOString(),
+    endTime: new Date(end).toISOString(),
+  };
+}
+
+/**
+ * Calculates how to trim the entry so that it no longer overlaps the other one.
+ * The overlapping side of the entry is cut off.
+ *
+ * @returns The change, or null if the entry cannot be trimmed: it either lies within
+ *   the other entry, or contains it and would need to be split instead
+ */
+export function calculateTrim(entry: TimeLogEntry, other: TimeLogEntry): EntryTimesChange | null {
+  const range = toRange(entry);
+  const otherRange = toRange(other);
+
+  if (range.start >= otherRange.start && range.end > otherRange.end) {
+    return toChange(entry, otherRange.end, range.end);
+  }
+  if (range.start < otherRange.start && range.end <= otherRange.end) {
+    return toChange(entry, range.start, otherRange.start);
+  }
+  return null;
+}
+
+/**
+ * Calculates how to move the entry, keeping its duration, so that it no longer overlaps the other one.
+ * The entry is moved after the other entry if it starts later, and before the other entry otherwise.
+ *
+ * @returns The change, or null if the moved entry would end in the future
+ */
+export function calculateShift(entry: TimeLogEntry, other: TimeLogEntry, now: Date): EntryTimesChange | null {
+  const range = toRange(entry);
+  const otherRange = toRange(other);
+  const duration = range.end - range.start;
+
+  if (range.start >= otherRange.start) {
+    const end = otherRange.end + duration;
+    return end <= now.getTime() ? toChange(entry, otherRange.end, end) : null;
+  }
+  return toChange(entry, otherRange.start - duration, otherRange.start);
+}
+
+/**
+ * Finds which of the two overlapping entries can be split around the other one,
+ * i.e. strictly contains it.
+ *
+ * @returns The containing entry, or null if neither entry contains the other
+ */
+export function findEntryToSplit(entry: TimeLogEntry, other: TimeLogEntry): TimeLogEntry | null {
+  const contains = (outer: TimeRange, inner: TimeRange) => outer.start < inner.start && outer.end > inner.end;
+
+  if (contains(toRange(entry), toRange(other))) return entry;
+  if (contains(toRange(other), toRange(entry))) return other;
+  return null;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { findPinnedEntry, movePinnedEntry } from "./pinned-entries";
+import type { PinnedEntry } from "../components/time-logs/types";
+
+const pinnedEntries: PinnedEntry[] = [
+  { id: 1, title: "Standup", tags: ["meetings"], billable: false },
+  { id: 2, title: "Code review", tags: ["dev", "backend"], billable: true },
+  { id: 3, title: "Code review", tags: [], billable: false },
+];
+
+describe("findPinnedEntry", () => {
+  test("matches title and tags regardless of the tags order", () => {
+    expect(findPinnedEntry(pinnedEntries, "Code review", ["backend", "dev"])?.id).toBe(2);
+    expect(findPinnedEntry(pinnedEntries, "Code review", [])?.id).toBe(3);
+  });
+
+  test("does not match other combinations", () => {
+    expect(findPinnedEntry(pinnedEntries, "Code review", ["dev"])).toBeUndefined();
+    expect(findPinnedEntry(pinnedEntries, "Standup", [])).toBeUndefined();
+  });
+});
+
+describe("movePinnedEntry", () => {
+  test("swaps the entry with its neighbour", () => {
+    expect(movePinnedEntry(pinnedEntries, 1, -1)).toEqual([2, 1, 3]);
+    expect(movePinnedEntry(pinnedEntries, 1, 1)).toEqual([1, 3, 2]);
+  });
+
+  test("keeps the order when moving beyond the list", () => {
+    expect(movePinnedEntry(pinnedEntries, 0, -1)).toEqual([1, 2, 3]);
+    expect(movePinnedEntry(pinnedEntries, 2, 1)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Utility functions for pinned title and tags combinations.
+ */
+
+import type { PinnedEntry } from "@/components/time-logs/types";
+
+/**
+ * Finds the pin of the title and tags combination; the order of tags does not matter.
+ */
+export function findPinnedEntry(pinnedEntries: PinnedEntry[], title: string, tags: string[]): PinnedEntry | undefined {
+  const sortedTags = [...tags].sort().join("\n");
+  return pinnedEntries.find((pinned) => pinned.title === title && [...pinned.tags].sort().join("\n") === sortedTags);
+}
+
+/**
+ * Moves the pinned entry one position towards the start (-1) or the end (1) of the list.
+ * @returns ids of all pinned entries in the new order
+ */
+export function movePinnedEntry(pinnedEntries: PinnedEntry[], index: number, direction: -1 | 1): number[] {
+  const ids = pinnedEntries.map((pinned) => pinned.id);
+  const targetIndex = index + direction;
+  if (targetIndex < 0 || targetIndex >= ids.length) return ids;
+  [ids[index], ids[targetIndex]] = [ids[targetIndex], ids[index]];
+  return ids;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import { getPomodoroInterval, hasPomodoroIntervalEnded, isBreakEntry } from "./pomodoro";
+import type { PomodoroSettings } from "../components/time-logs/types";
+
+const settings: PomodoroSettings = {
+  enabled: true,
+  workMinutes: 25,
+  breakMinutes: 5,
+  intervalEndAction: "NOTIFY",
+  breakTag: "break",
+};
+
+const startTime = new Date(2024, 2, 16, 9, 0).toISOString();
+const start = new Date(startTime).getTime();
+
+function minutes(value: number): number {
+  return value * 60 * 1000;
+}
+
+describe("isBreakEntry", () => {
+  test("detects entries tagged with the break tag", () => {
+    expect(isBreakEntry({ tags: ["break"] }, settings)).toBe(true);
+    expect(isBreakEntry({ tags: ["client-a"] }, settings)).toBe(false);
+    expect(isBreakEntry({ tags: undefined as unknown as string[] }, settings)).toBe(false);
+  });
+});
+
+describe("getPomodoroInterval", () => {
+  test("counts down the first focus interval", () => {
+    const interval = getPomodoroInterval({ startTime, tags: [] }, settings, start + minutes(10));
+
+    expect(interval).toEqual({ kind: "focus", index: 0, remaining: minutes(15) });
+  });
+
+  test("alternates focus intervals with breaks while the entry keeps running", () => {
+    const entry = { startTime, tags: [] };
+
+    expect(getPomodoroInterval(entry, settings, start + minutes(27))).toEqual({
+      kind: "break",
+      index: 1,
+      remaining: minutes(3),
+    });
+    expect(getPomodoroInterval(entry, settings, start + minutes(40))).toEqual({
+      kind: "focus",
+      index: 2,
+      remaining: minutes(15),
+    });
+  });
+
+  test("repeats focus intervals when breaks are taken outside of the entry", () => {
+    const interval = getPomodoroInterval(
+      { startTime, tags: [] },
+      { ...settings, intervalEndAction: "START_BREAK" },
+      start + minutes(60)
+    );
+
+    expect(interval).toEqual({ kind: "focus", index: 2, remaining: minutes(15) });
+  });
+
+  test("counts down the break until it is over", () => {
+    const entry = { startTime, tags: ["break"] };
+
+    expect(getPomodoroInterval(entry, settings, start + minutes(2)).remaining).toBe(minutes(3));
+    expect(getPomodoroInterval(entry, settings, start + minutes(7))).toEqual({ kind: "break", index: 0, remaining: 0 });
+  });
+});
+
+describe("hasPomodoroIntervalEnded", () => {
+  test("detects the end of focus intervals", () => {
+    const entry = { startTime, tags: [] };
+    const beforeEnd = getPomodoroInterval(entry, settings, start + minutes(24));
+    const afterEnd = getPomodoroInterval(entry, settings, start + minutes(25));
+
+    expect(hasPomodoroIntervalEnded(beforeEnd, afterEnd)).toBe(true);
+    expect(hasPomodoroIntervalEnded(afterEnd, afterEnd)).toBe(false);
+  });
+
+  test("detects the end of breaks between focus intervals", () => {
+    const entry = { startTime, tags: [] };
+    const beforeEnd = getPomodoroInterval(entry, settings, start + minutes(29));
+    const afterEnd = getPomodoroInterval(entry, settings, start + minutes(30));
+
+    expect(beforeEnd.kind).toBe("break");
+    expect(hasPomodoroIntervalEnded(beforeEnd, afterEnd)).toBe(true);
+    expect(hasPomodoroIntervalEnded(afterEnd, afterEnd)).toBe(false);
+  });
+
+  test("detects the end of the break only once", () => {
+    const entry = { startTime, tags: ["break"] };
+    const beforeEnd = getPomodoroInterval(entry, settings, start + minutes(4));
+    const afterEnd = getPomodoroInterval(entry, settings, start + minutes(5));
+    const later = getPomodoroInterval(entry, settings, start + minutes(6));
+
+    expect(hasPomodoroIntervalEnded(beforeEnd, afterEnd)).toBe(true);
+    expect(hasPomodoroIntervalEnded(afterEnd, later)).toBe(false);
+  });
+});
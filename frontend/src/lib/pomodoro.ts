@@ -0,0 +1,64 @@
+/**
+ * Utility functions for the Pomodoro mode: focus and break intervals counted from the start of the active entry.
+ */
+
+import type { PomodoroSettings, TimeEntry } from "@/components/time-logs/types";
+
+export type PomodoroIntervalKind = "focus" | "break";
+
+export interface PomodoroInterval {
+  kind: PomodoroIntervalKind;
+  /** Zero-based number of the interval since the entry start; intervals follow each other until the entry is stopped */
+  index: number;
+  /** Time left until the end of the interval in milliseconds, zero once a break is over */
+  remaining: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Entries tagged with the break tag are breaks, any other entries are focus time.
+ */
+export function isBreakEntry(entry: Pick<TimeEntry, "tags">, settings: PomodoroSettings): boolean {
+  return (entry.tags || []).includes(settings.breakTag);
+}
+
+/**
+ * Calculates the current interval of the active entry at the given time.
+ * A break entry is a single break interval. Other entries run focus intervals for as long as they run:
+ * when the entry is kept running at the end of a focus interval, focus intervals alternate with breaks,
+ * otherwise the break is taken outside of the entry and focus intervals follow each other.
+ */
+export function getPomodoroInterval(
+  entry: Pick<TimeEntry, "startTime" | "tags">,
+  settings: PomodoroSettings,
+  now: number
+): PomodoroInterval {
+  const elapsed = Math.max(0, now - new Date(entry.startTime).getTime());
+
+  if (isBreakEntry(entry, settings)) {
+    return { kind: "break", index: 0, remaining: Math.max(0, settings.breakMinutes * MINUTE_MS - elapsed) };
+  }
+
+  const focusLength = settings.workMinutes * MINUTE_MS;
+  if (settings.intervalEndAction !== "NOTIFY") {
+    const index = Math.floor(elapsed / focusLength);
+    return { kind: "focus", index, remaining: (index + 1) * focusLength - elapsed };
+  }
+
+  const cycleLength = focusLength + settings.breakMinutes * MINUTE_MS;
+  const cycle = Math.floor(elapsed / cycleLength);
+  const cycleElapsed = elapsed - cycle * cycleLength;
+  return cycleElapsed < focusLength
+    ? { kind: "focus", index: cycle * 2, remaining: focusLength - cycleElapsed }
+    : { kind: "break", index: cycle * 2 + 1, remaining: cycleLength - cycleElapsed };
+}
+
+/**
+ * Whether an interval has ended between two consecutive calculations for the same entry;
+ * the ended interval is the previous one.
+ */
+export function hasPomodoroIntervalEnded(previous: PomodoroInterval, current: PomodoroInterval): boolean {
+  if (current.index > previous.index) return true;
+  return current.kind === "break" && previous.remaining > 0 && current.remaining === 0;
+}
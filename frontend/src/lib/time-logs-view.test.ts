@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createMonthView,
+  createRangeView,
+  createWeekView,
+  formatISOWeek,
+  formatTimeLogsView,
+  parseISOWeek,
+  parseTimeLogsView,
+} from "./time-logs-view";
+import { formatISODate } from "./time-utils";
+
+function params(query: string): URLSearchParams {
+  return new URLSearchParams(query);
+}
+
+describe("formatISOWeek", () => {
+  test("formats ISO week of the date", () => {
+    expect(formatISOWeek(new Date(2024, 2, 16))).toBe("2024-W11");
+    expect(formatISOWeek(new Date(2026, 9, 5))).toBe("2026-W41");
+  });
+
+  test("assigns days at year boundaries to the week of its Thursday", () => {
+    expect(formatISOWeek(new Date(2024, 11, 30))).toBe("2025-W01");
+    expect(formatISOWeek(new Date(2021, 0, 3))).toBe("2020-W53");
+  });
+});
+
+describe("parseISOWeek", () => {
+  test("parses ISO week into its Monday", () => {
+    expect(formatISODate(parseISOWeek("2024-W11")!)).toBe("2024-03-11");
+    expect(formatISODate(parseISOWeek("2025-W01")!)).toBe("2024-12-30");
+  });
+
+  test("rejects invalid weeks", () => {
+    expect(parseISOWeek("2024-W54")).toBeNull();
+    expect(parseISOWeek("2024-W53")).toBeNull();
+    expect(parseISOWeek("2024-11")).toBeNull();
+  });
+});
+
+describe("parseTimeLogsView", () => {
+  test("parses week view respecting the start of week", () => {
+    const mondayWeek = parseTimeLogsView(params("week=2024-W11"), 1);
+    expect(mondayWeek.mode).toBe("week");
+    expect(formatISODate(mondayWeek.from)).toBe("2024-03-11");
+    expect(formatISODate(mondayWeek.to)).toBe("2024-03-18");
+
+    const sundayWeek = parseTimeLogsView(params("week=2024-W11"), 0);
+    expect(formatISODate(sundayWeek.from)).toBe("2024-03-10");
+  });
+
+  test("parses month view", () => {
+    const view = parseTimeLogsView(params("month=2024-02"), 1);
+
+    expect(view.mode).toBe("month");
+    expect(formatISODate(view.from)).toBe("2024-02-01");
+    expect(formatISODate(view.to)).toBe("2024-03-01");
+  });
+
+  test("parses range view with inclusive end", () => {
+    const view = parseTimeLogsView(params("from=2024-03-05&to=2024-03-07"), 1);
+
+    expect(view.mode).toBe("range");
+    expect(formatISODate(view.from)).toBe("2024-03-05");
+    expect(formatISODate(view.to)).toBe("2024-03-08");
+  });
+
+  test("falls back to the current week for missing or invalid parameters", () => {
+    const expected = createWeekView(new Date(), 1);
+
+    expect(parseTimeLogsView(params(""), 1)).toEqual(expected);
+    expect(parseTimeLogsView(params("month=2024-13"), 1)).toEqual(expected);
+    expect(parseTimeLogsView(params("from=2024-02-30&to=2024-03-01"), 1)).toEqual(expected);
+  });
+});
+
+describe("formatTimeLogsView", () => {
+  test("formats views back to parameters", () => {
+    expect(formatTimeLogsView(createWeekView(new Date(2024, 2, 13), 1)).toString()).toBe("week=2024-W11");
+    expect(formatTimeLogsView(createMonthView(new Date(2024, 2, 13))).toString()).toBe("month=2024-03");
+    expect(formatTimeLogsView(createRangeView(new Date(2024, 2, 7), new Date(2024, 2, 5))).toString()).toBe(
+      "from=2024-03-05&to=2024-03-07"
+    );
+  });
+
+  test("formats weeks starting on any day so that they are parsed back to the same week", () => {
+    for (let startOfWeek = 0; startOfWeek < 7; startOfWeek++) {
+      const view = createWeekView(new Date(2024, 2, 13), startOfWeek);
+
+      expect(parseTimeLogsView(formatTimeLogsView(view), startOfWeek)).toEqual(view);
+    }
+  });
+});
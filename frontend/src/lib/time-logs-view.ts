@@ -0,0 +1,116 @@
+/**
+ * Utility functions for encoding the displayed time logs view (week, month or custom range)
+ * in the page URL, so that views can be linked to and navigated with browser history.
+ */
+
+import { formatISODate, getWeekStart } from "./time-utils";
+
+export type TimeLogsViewMode = "week" | "month" | "range";
+
+/**
+ * Displayed view: its mode and range of days, from local midnight (inclusive) to local midnight (exclusive).
+ */
+export interface TimeLogsView {
+  mode: TimeLogsViewMode;
+  from: Date;
+  to: Date;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function parseDate(value: string | null): Date | null {
+  const match = value ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return formatISODate(date) === value ? date : null;
+}
+
+/**
+ * Formats the ISO week (e.g. "2024-W11") containing the date.
+ */
+export function formatISOWeek(date: Date): string {
+  // ISO week belongs to the year of its Thursday
+  const thursday = addDays(getWeekStart(date, 1), 3);
+  const year = thursday.getFullYear();
+  const firstWeekStart = getWeekStart(new Date(year, 0, 4), 1);
+  const week = 1 + Math.round((thursday.getTime() - firstWeekStart.getTime()) / (7 * 24 * 60 * 60 * 1000));
+  return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Parses an ISO week (e.g. "2024-W11") into its Monday.
+ */
+export function parseISOWeek(value: string | null): Date | null {
+  const match = value ? /^(\d{4})-W(\d{2})$/.exec(value) : null;
+  if (!match) return null;
+  const week = Number(match[2]);
+  if (week < 1 || week > 53) return null;
+  const monday = addDays(getWeekStart(new Date(Number(match[1]), 0, 4), 1), (week - 1) * 7);
+  return formatISOWeek(monday) === value ? monday : null;
+}
+
+export function createWeekView(date: Date, startOfWeek: number): TimeLogsView {
+  const from = getWeekStart(date, startOfWeek);
+  return { mode: "week", from, to: addDays(from, 7) };
+}
+
+export function createMonthView(date: Date): TimeLogsView {
+  return {
+    mode: "month",
+    from: new Date(date.getFullYear(), date.getMonth(), 1),
+    to: new Date(date.getFullYear(), date.getMonth() + 1, 1),
+  };
+}
+
+/**
+ * Creates a custom range view; both bounds are inclusive days and may be passed in any order.
+ */
+export function createRangeView(firstDay: Date, lastDay: Date): TimeLogsView {
+  const first = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate());
+  const last = new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate());
+  const [from, to] = first <= last ? [first, last] : [last, first];
+  return { mode: "range", from, to: addDays(to, 1) };
+}
+
+/**
+ * Parses the view from URL query parameters: `week=2024-W11`, `month=2024-03` or `from=2024-03-01&to=2024-03-15`.
+ * Falls back to the current week when no valid view is specified.
+ */
+export function parseTimeLogsView(params: URLSearchParams, startOfWeek: number): TimeLogsView {
+  const weekMonday = parseISOWeek(params.get("week"));
+  if (weekMonday) {
+    return createWeekView(weekMonday, startOfWeek);
+  }
+
+  const monthStart = parseDate(`${params.get("month")}-01`);
+  if (monthStart) {
+    return createMonthView(monthStart);
+  }
+
+  const rangeFrom = parseDate(params.get("from"));
+  const rangeTo = parseDate(params.get("to"));
+  if (rangeFrom && rangeTo) {
+    return createRangeView(rangeFrom, rangeTo);
+  }
+
+  return createWeekView(new Date(), startOfWeek);
+}
+
+/**
+ * Formats the view as URL query parameters, the reverse of {@link parseTimeLogsView}.
+ */
+export function formatTimeLogsView(view: TimeLogsView): URLSearchParams {
+  switch (view.mode) {
+    case "week":
+      // Every 7-day window contains exactly one Monday, identifying the ISO week regardless of the start of week
+      return new URLSearchParams({ week: formatISOWeek(addDays(view.from, (8 - view.from.getDay()) % 7)) });
+    case "month":
+      return new URLSearchParams({ month: formatISODate(view.from).substring(0, 7) });
+    case "range":
+      return new URLSearchParams({ from: formatISODate(view.from), to: formatISODate(addDays(view.to, -1)) });
+  }
+}
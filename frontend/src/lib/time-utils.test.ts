@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { formatDuration } from "./time-utils";
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+describe("formatDuration", () => {
+  test("should format as HH:MM:SS by default", () => {
+    expect(formatDuration(7 * HOUR + 15 * MINUTE + 9 * 1000)).toBe("07:15:09");
+  });
+
+  test("should format as H:MM", () => {
+    expect(formatDuration(7 * HOUR + 5 * MINUTE + 59 * 1000, "H_MM")).toBe("7:05");
+    expect(formatDuration(25 * HOUR, "H_MM")).toBe("25:00");
+  });
+
+  test("should format as decimal hours", () => {
+    expect(formatDuration(7 * HOUR + 15 * MINUTE, "DECIMAL_HOURS")).toBe("7.25 h");
+    expect(formatDuration(20 * MINUTE, "DECIMAL_HOURS")).toBe("0.33 h");
+    expect(formatDuration(0, "DECIMAL_HOURS")).toBe("0.00 h");
+  });
+
+  test("should format humanized", () => {
+    expect(formatDuration(7 * HOUR + 15 * MINUTE, "HUMANIZED")).toBe("7h 15m");
+    expect(formatDuration(7 * HOUR, "HUMANIZED")).toBe("7h");
+    expect(formatDuration(15 * MINUTE + 30 * 1000, "HUMANIZED")).toBe("15m");
+    expect(formatDuration(0, "HUMANIZED")).toBe("0h");
+  });
+});
@@ -42,6 +42,14 @@ export function formatISODate(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+/**
+ * Parse ISO date string (YYYY-MM-DD) as a date at midnight in local timezone.
+ */
+export function parseISODate(dateStr: string): Date {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
 /**
  * Check if two ISO date strings represent different calendar days.
  */
@@ -61,12 +69,31 @@ export function calculateDuration(startTime: string, endTime: string | null): nu
 }
 
 /**
- * Format duration in HH:MM:SS.
+ * Defines how durations are displayed to the user, as configured in the user preferences.
+ */
+export type DurationFormat = "HH_MM_SS" | "H_MM" | "DECIMAL_HOURS" | "HUMANIZED";
+
+export const DURATION_FORMATS: DurationFormat[] = ["HH_MM_SS", "H_MM", "DECIMAL_HOURS", "HUMANIZED"];
+
+/**
+ * Format duration in the given format:
+ * `HH_MM_SS` - 07:15:00, `H_MM` - 7:15, `DECIMAL_HOURS` - 7.25 h, `HUMANIZED` - 7h 15m.
  */
-export function formatDuration(ms: number): string {
+export function formatDuration(ms: number, format: DurationFormat = "HH_MM_SS"): string {
   const seconds = Math.floor(ms / 1000);
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
   const secs = seconds % 60;
-  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  switch (format) {
+    case "H_MM":
+      return `${hours}:${minutes.toString().padStart(2, "0")}`;
+    case "DECIMAL_HOURS":
+      return `${(seconds / 3600).toFixed(2)} h`;
+    case "HUMANIZED":
+      if (minutes === 0) return `${hours}h`;
+      if (hours === 0) return `${minutes}m`;
+      return `${hours}h ${minutes}m`;
+    default:
+      return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
 }
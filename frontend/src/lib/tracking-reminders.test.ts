@@ -0,0 +1,148 @@
+import { describe, expect, test } from "bun:test";
+import {
+  evaluateTrackingReminders,
+  initialTrackingRemindersState,
+  isWithinWorkingHours,
+  type TrackingRemindersState,
+} from "./tracking-reminders";
+import type { NotificationSettings } from "../components/time-logs/types";
+
+const settings: NotificationSettings = {
+  noActiveEntryEnabled: true,
+  workingHoursFrom: "09:00",
+  workingHoursTo: "17:00",
+  workingDays: ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"],
+  longRunningEntryEnabled: true,
+  longRunningEntryMinutes: 120,
+  dailyGoalReachedEnabled: true,
+};
+
+// Friday, March 15, 2024
+function friday(hours: number, minutes: number = 0): Date {
+  return new Date(2024, 2, 15, hours, minutes);
+}
+
+const activeEntry = { id: 1, startTime: friday(9).toISOString() };
+
+describe("isWithinWorkingHours", () => {
+  test("includes the start and excludes the end of the working hours", () => {
+    expect(isWithinWorkingHours(settings, friday(8, 59))).toBe(false);
+    expect(isWithinWorkingHours(settings, friday(9))).toBe(true);
+    expect(isWithinWorkingHours(settings, friday(16, 59))).toBe(true);
+    expect(isWithinWorkingHours(settings, friday(17))).toBe(false);
+  });
+
+  test("excludes days that are not working days", () => {
+    expect(isWithinWorkingHours(settings, new Date(2024, 2, 16, 10, 0))).toBe(false);
+  });
+});
+
+describe("evaluateTrackingReminders", () => {
+  test("reminds once that no entry is active during working hours", () => {
+    const first = evaluateTrackingReminders(initialTrackingRemindersState, {
+      settings,
+      activeEntry: null,
+      dailyGoalReached: null,
+      now: friday(10),
+    });
+    expect(first.reminders).toEqual(["noActiveEntry"]);
+
+    const second = evaluateTrackingReminders(first.state, {
+      settings,
+      activeEntry: null,
+      dailyGoalReached: null,
+      now: friday(10, 1),
+    });
+    expect(second.reminders).toEqual([]);
+  });
+
+  test("reminds again after an entry was active", () => {
+    const reminded: TrackingRemindersState = { ...initialTrackingRemindersState, noActiveEntryReminded: true };
+    const tracking = evaluateTrackingReminders(reminded, {
+      settings,
+      activeEntry,
+      dailyGoalReached: null,
+      now: friday(10),
+    });
+
+    const stopped = evaluateTrackingReminders(tracking.state, {
+      settings,
+      activeEntry: null,
+      dailyGoalReached: null,
+      now: friday(10, 30),
+    });
+    expect(stopped.reminders).toEqual(["noActiveEntry"]);
+  });
+
+  test("does not remind outside working hours or when disabled", () => {
+    const outside = evaluateTrackingReminders(initialTrackingRemindersState, {
+      settings,
+      activeEntry: null,
+      dailyGoalReached: null,
+      now: friday(18),
+    });
+    expect(outside.reminders).toEqual([]);
+
+    const disabled = evaluateTrackingReminders(initialTrackingRemindersState, {
+      settings: { ...settings, noActiveEntryEnabled: false },
+      activeEntry: null,
+      dailyGoalReached: null,
+      now: friday(10),
+    });
+    expect(disabled.reminders).toEqual([]);
+  });
+
+  test("reminds once about an entry running longer than the threshold", () => {
+    const beforeThreshold = evaluateTrackingReminders(initialTrackingRemindersState, {
+      settings,
+      activeEntry,
+      dailyGoalReached: null,
+      now: friday(10, 59),
+    });
+    expect(beforeThreshold.reminders).toEqual([]);
+
+    const afterThreshold = evaluateTrackingReminders(beforeThreshold.state, {
+      settings,
+      activeEntry,
+      dailyGoalReached: null,
+      now: friday(11),
+    });
+    expect(afterThreshold.reminders).toEqual(["longRunningEntry"]);
+
+    const later = evaluateTrackingReminders(afterThreshold.state, {
+      settings,
+      activeEntry,
+      dailyGoalReached: null,
+      now: friday(12),
+    });
+    expect(later.reminders).toEqual([]);
+  });
+
+  test("notifies when the daily goal has just been reached", () => {
+    const notReached = evaluateTrackingReminders(initialTrackingRemindersState, {
+      settings,
+      activeEntry,
+      dailyGoalReached: false,
+      now: friday(10),
+    });
+    expect(notReached.reminders).toEqual([]);
+
+    const reached = evaluateTrackingReminders(notReached.state, {
+      settings,
+      activeEntry,
+      dailyGoalReached: true,
+      now: friday(10, 1),
+    });
+    expect(reached.reminders).toEqual(["dailyGoalReached"]);
+  });
+
+  test("does not notify about the daily goal reached before the first evaluation", () => {
+    const result = evaluateTrackingReminders(initialTrackingRemindersState, {
+      settings,
+      activeEntry,
+      dailyGoalReached: true,
+      now: friday(10),
+    });
+    expect(result.reminders).toEqual([]);
+  });
+});
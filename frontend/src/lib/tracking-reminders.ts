@@ -0,0 +1,78 @@
+/**
+ * Utility functions for the browser notifications reminding the user to track time.
+ * Every reminder is shown once per occasion: the evaluation state remembers what the user has been reminded about.
+ */
+
+import type { NotificationSettings, TimeEntry } from "@/components/time-logs/types";
+import { weekDayToNumber } from "./time-utils";
+
+export type TrackingReminderKind = "noActiveEntry" | "longRunningEntry" | "dailyGoalReached";
+
+export interface TrackingRemindersState {
+  /** Whether the user has been reminded that no entry is active, reset by an active entry or after working hours */
+  noActiveEntryReminded: boolean;
+  /** The last entry the user has been reminded about running for too long */
+  longRunningEntryId: number | null;
+  /** Whether the daily goal was reached at the previous evaluation, null before the first one */
+  dailyGoalReached: boolean | null;
+}
+
+export interface TrackingRemindersInput {
+  settings: NotificationSettings;
+  activeEntry: Pick<TimeEntry, "id" | "startTime"> | null;
+  /** Whether today's daily goal is reached, null if there is no daily goal */
+  dailyGoalReached: boolean | null;
+  now: Date;
+}
+
+export const initialTrackingRemindersState: TrackingRemindersState = {
+  noActiveEntryReminded: false,
+  longRunningEntryId: null,
+  dailyGoalReached: null,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Whether the time is within the working hours on one of the working days.
+ */
+export function isWithinWorkingHours(settings: NotificationSettings, now: Date): boolean {
+  if (!settings.workingDays.some((day) => weekDayToNumber(day) === now.getDay())) return false;
+  const time = `${String(now.getHours()).padStart(2, "0")}:${String(now.getMinutes()).padStart(2, "0")}`;
+  return time >= settings.workingHoursFrom && time < settings.workingHoursTo;
+}
+
+/**
+ * Calculates the reminders to show now and the next evaluation state.
+ */
+export function evaluateTrackingReminders(
+  state: TrackingRemindersState,
+  { settings, activeEntry, dailyGoalReached, now }: TrackingRemindersInput
+): { state: TrackingRemindersState; reminders: TrackingReminderKind[] } {
+  const reminders: TrackingReminderKind[] = [];
+  const nextState = { ...state, dailyGoalReached };
+
+  if (activeEntry || !isWithinWorkingHours(settings, now)) {
+    nextState.noActiveEntryReminded = false;
+  } else if (settings.noActiveEntryEnabled && !state.noActiveEntryReminded) {
+    reminders.push("noActiveEntry");
+    nextState.noActiveEntryReminded = true;
+  }
+
+  if (
+    activeEntry &&
+    settings.longRunningEntryEnabled &&
+    state.longRunningEntryId !== activeEntry.id &&
+    now.getTime() - new Date(activeEntry.startTime).getTime() >= settings.longRunningEntryMinutes * MINUTE_MS
+  ) {
+    reminders.push("longRunningEntry");
+    nextState.longRunningEntryId = activeEntry.id;
+  }
+
+  // Only announce the goal being reached while tracking, not when it was already reached before
+  if (settings.dailyGoalReachedEnabled && state.dailyGoalReached === false && dailyGoalReached === true) {
+    reminders.push("dailyGoalReached");
+  }
+
+  return { state: nextState, reminders };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import {
+  MAX_UNDO_STACK_SIZE,
+  peekUndoAction,
+  pushUndoAction,
+  removeExpiredUndoActions,
+  removeUndoAction,
+  type UndoAction,
+} from "./undo-stack";
+
+function action(id: number, expiresAt: number = 1000): UndoAction {
+  return {
+    id,
+    message: `Action ${id}`,
+    undo: async () => {},
+    expiresAt,
+  };
+}
+
+describe("pushUndoAction", () => {
+  test("adds the action on top of the stack", () => {
+    const stack = pushUndoAction([action(1)], action(2));
+
+    expect(stack.map((it) => it.id)).toEqual([1, 2]);
+    expect(peekUndoAction(stack)?.id).toBe(2);
+  });
+
+  test("drops the oldest actions when the stack is full", () => {
+    let stack: UndoAction[] = [];
+    for (let id = 1; id <= MAX_UNDO_STACK_SIZE + 2; id++) {
+      stack = pushUndoAction(stack, action(id));
+    }
+
+    expect(stack.length).toBe(MAX_UNDO_STACK_SIZE);
+    expect(stack[0].id).toBe(3);
+    expect(peekUndoAction(stack)?.id).toBe(MAX_UNDO_STACK_SIZE + 2);
+  });
+});
+
+describe("removeUndoAction", () => {
+  test("removes only the action with the given id", () => {
+    const stack = removeUndoAction([action(1), action(2), action(3)], 2);
+
+    expect(stack.map((it) => it.id)).toEqual([1, 3]);
+  });
+});
+
+describe("removeExpiredUndoActions", () => {
+  test("keeps only actions within the grace period", () => {
+    const stack = removeExpiredUndoActions([action(1, 500), action(2, 1000), action(3, 1500)], 1000);
+
+    expect(stack.map((it) => it.id)).toEqual([3]);
+  });
+});
+
+describe("peekUndoAction", () => {
+  test("returns null for an empty stack", () => {
+    expect(peekUndoAction([])).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * How long an action can be undone after it has been performed.
+ */
+export const UNDO_GRACE_PERIOD_MS = 10_000;
+
+/**
+ * Maximum number of actions kept for undo; older actions are dropped.
+ */
+export const MAX_UNDO_STACK_SIZE = 10;
+
+export interface UndoAction {
+  id: number;
+  /** Message describing the performed action */
+  message: string;
+  /** Reverts the action */
+  undo: () => Promise<void>;
+  /** Timestamp (ms) after which the action can no longer be undone */
+  expiresAt: number;
+}
+
+/**
+ * Adds an action on top of the stack, dropping the oldest actions if the stack is full.
+ */
+export function pushUndoAction(stack: UndoAction[], action: UndoAction): UndoAction[] {
+  return [...stack, action].slice(-MAX_UNDO_STACK_SIZE);
+}
+
+/**
+ * Removes the action with the given id from the stack.
+ */
+export function removeUndoAction(stack: UndoAction[], actionId: number): UndoAction[] {
+  return stack.filter((action) => action.id !== actionId);
+}
+
+/**
+ * Removes the actions which grace period is over.
+ */
+export function removeExpiredUndoActions(stack: UndoAction[], now: number): UndoAction[] {
+  return stack.filter((action) => action.expiresAt > now);
+}
+
+/**
+ * Returns the most recent action, which is the one to undo next.
+ */
+export function peekUndoAction(stack: UndoAction[]): UndoAction | null {
+  return stack.length > 0 ? stack[stack.length - 1] : null;
+}
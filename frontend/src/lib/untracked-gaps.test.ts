@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { detectUntrackedGaps } from "./untracked-gaps";
+import type { TimeLogEntry } from "../components/time-logs/types";
+
+function entry(id: number, start: string, end: string | null): TimeLogEntry {
+  return {
+    id,
+    startTime: time(start).toISOString(),
+    endTime: end ? time(end).toISOString() : null,
+    title: `Task ${id}`,
+    ownerId: 1,
+    tags: [],
+    billable: false,
+  };
+}
+
+function time(value: string): Date {
+  const [hours, minutes, seconds = 0] = value.split(":").map(Number);
+  return new Date(2024, 2, 16, hours, minutes, seconds, 0);
+}
+
+const MINUTE_MS = 60 * 1000;
+
+describe("detectUntrackedGaps", () => {
+  test("reports gaps between consecutive entries regardless of their order", () => {
+    const gaps = detectUntrackedGaps(
+      [entry(3, "11:00", "12:00"), entry(1, "09:00", "10:00"), entry(2, "10:25", "10:50")],
+      []
+    );
+
+    expect(gaps.map((gap) => [gap.previousEntry.id, gap.nextEntry.id, gap.untrackedDuration])).toEqual([
+      [1, 2, 25 * MINUTE_MS],
+      [2, 3, 10 * MINUTE_MS],
+    ]);
+    expect(gaps[0].startTime).toBe(time("10:00").toISOString());
+    expect(gaps[0].endTime).toBe(time("10:25").toISOString());
+  });
+
+  test("ignores gaps up to one second", () => {
+    const gaps = detectUntrackedGaps([entry(1, "09:00", "10:00"), entry(2, "10:00:01", "11:00")], []);
+
+    expect(gaps).toEqual([]);
+  });
+
+  test("does not report gaps covered by overlapping entries", () => {
+    const gaps = detectUntrackedGaps(
+      [entry(1, "09:00", "12:00"), entry(2, "10:00", "11:00"), entry(3, "11:30", "13:00")],
+      []
+    );
+
+    expect(gaps).toEqual([]);
+  });
+
+  test("does not report gaps after an active entry", () => {
+    const gaps = detectUntrackedGaps([entry(1, "09:00", null), entry(2, "11:00", "12:00")], []);
+
+    expect(gaps).toEqual([]);
+  });
+
+  test("excludes typical breaks from untracked time", () => {
+    const typicalBreaks = [{ from: "12:00", to: "13:00" }];
+
+    const gaps = detectUntrackedGaps(
+      [entry(1, "09:00", "12:00"), entry(2, "13:00", "14:00"), entry(3, "14:30", "15:00"), entry(4, "15:45", "16:00")],
+      typicalBreaks
+    );
+
+    expect(gaps.map((gap) => gap.nextEntry.id)).toEqual([3, 4]);
+  });
+
+  test("reports the part of a gap outside typical breaks", () => {
+    const gaps = detectUntrackedGaps(
+      [entry(1, "09:00", "11:30"), entry(2, "13:00", "14:00")],
+      [{ from: "12:00", to: "13:00" }]
+    );
+
+    expect(gaps).toHaveLength(1);
+    expect(gaps[0].untrackedDuration).toBe(30 * MINUTE_MS);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Utility functions for detecting untracked time between time log entries.
+ */
+
+import type { TimeLogEntry } from "@/components/time-logs/types";
+import { toBreakPeriod, type DailyGoalBreak } from "./daily-goal-progress";
+import { ENTRY_BOUNDARY_TOLERANCE_MS } from "./overlap-detection";
+
+/**
+ * Represents untracked time between two consecutive entries.
+ */
+export interface UntrackedGap {
+  /** The entry ending right before the gap */
+  previousEntry: TimeLogEntry;
+  /** The entry starting right after the gap */
+  nextEntry: TimeLogEntry;
+  /** Start of the gap (ISO string) */
+  startTime: string;
+  /** End of the gap (ISO string) */
+  endTime: string;
+  /** Untracked time in milliseconds, excluding the typical breaks */
+  untrackedDuration: number;
+}
+
+/**
+ * Detects gaps between consecutive entries of a day.
+ * Gaps within the boundary tolerance are ignored, same as for the overlaps detection.
+ * Time within typical breaks is not considered untracked, so gaps falling inside breaks are ignored.
+ *
+ * @param entries All entries in the day group, in any order
+ * @param typicalBreaks Typical breaks of the day
+ * @returns Gaps ordered by their start time
+ */
+export function detectUntrackedGaps(entries: TimeLogEntry[], typicalBreaks: DailyGoalBreak[]): UntrackedGap[] {
+  const sortedEntries = [...entries].sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  const gaps: UntrackedGap[] = [];
+
+  // The entry ending last so far; overlapping entries cover each other
+  let previousEntry: TimeLogEntry | null = null;
+
+  for (const entry of sortedEntries) {
+    if (previousEntry) {
+      // Active entry runs until now, so nothing after it can be untracked
+      if (previousEntry.endTime == null) break;
+
+      const gapStart = new Date(previousEntry.endTime).getTime();
+      const gapEnd = new Date(entry.startTime).getTime();
+      const untrackedDuration = gapEnd - gapStart - calculateBreaksDuration(gapStart, gapEnd, typicalBreaks);
+
+      if (untrackedDuration > ENTRY_BOUNDARY_TOLERANCE_MS) {
+        gaps.push({
+          previousEntry,
+          nextEntry: entry,
+          startTime: previousEntry.endTime,
+          endTime: entry.startTime,
+          untrackedDuration,
+        });
+      }
+    }
+
+    if (!previousEntry || entry.endTime == null || endsAfter(entry, previousEntry)) {
+      previousEntry = entry;
+    }
+  }
+
+  return gaps;
+}
+
+function endsAfter(entry: TimeLogEntry, other: TimeLogEntry): boolean {
+  if (other.endTime == null) return false;
+  return new Date(entry.endTime!).getTime() > new Date(other.endTime).getTime();
+}
+
+function calculateBreaksDuration(from: number, to: number, typicalBreaks: DailyGoalBreak[]): number {
+  return typicalBreaks.reduce((sum, typicalBreak) => {
+    const period = toBreakPeriod(new Date(from), typicalBreak);
+    if (!period) return sum;
+    const overlapMs = Math.min(to, period.to.getTime()) - Math.max(from, period.from.getTime());
+    return sum + Math.max(0, overlapMs);
+  }, 0);
+}
@@ -1,5 +1,6 @@
 import { describe, expect, test } from "bun:test";
 import { calculateWeeklyGoalProgress } from "./weekly-goal-progress";
+import type { DayAttribution } from "./day-attribution";
 import type { DailyGoalSettings, TimeLogEntry, WeeklyGoalSettings } from "../components/time-logs/types";
 
 const HOUR_MS = 60 * 60 * 1000;
@@ -19,6 +20,7 @@ function entry(date: string, start: string, end: string | null, id = 1): TimeLog
     title: "Task",
     ownerId: 1,
     tags: [],
+    billable: false,
   };
 }
 
@@ -39,6 +41,7 @@ function calculate(
     dailyGoal?: DailyGoalSettings | null;
     weekStart?: Date;
     now?: Date;
+    dayAttribution?: DayAttribution;
   } = {}
 ) {
   return calculateWeeklyGoalProgress({
@@ -47,6 +50,7 @@ function calculate(
     dailyGoal: args.dailyGoal === undefined ? standardDailyGoal : args.dailyGoal,
     weekStart: args.weekStart ?? time("2024-03-11", "00:00"),
     now: args.now ?? time("2024-03-11", "09:00"),
+    dayAttribution: args.dayAttribution,
   });
 }
 
@@ -227,4 +231,23 @@ describe("calculateWeeklyGoalProgress", () => {
 
     expect(result?.progressPercent).toBe(100);
   });
+
+  test("splits entries crossing midnight between the days and the week in split mode", () => {
+    const crossingMidnight: TimeLogEntry[] = [
+      { ...entry("2024-03-10", "22:00", null, 1), endTime: time("2024-03-11", "02:00").toISOString() },
+      { ...entry("2024-03-11", "20:00", null, 2), endTime: time("2024-03-12", "04:00").toISOString() },
+    ];
+
+    const startDay = calculate({ entries: crossingMidnight, now: time("2024-03-12", "09:00") });
+    expect(startDay?.totalMs).toBe(12 * HOUR_MS);
+
+    const split = calculate({
+      entries: crossingMidnight,
+      now: time("2024-03-12", "09:00"),
+      dayAttribution: "SPLIT_AT_MIDNIGHT",
+    });
+    // Two hours before the week start are not counted, four hours after midnight belong to Tuesday
+    expect(split?.totalMs).toBe(10 * HOUR_MS);
+    expect(split?.estimate).toEqual({ type: "insufficient", missingMs: 2 * HOUR_MS });
+  });
 });
@@ -1,3 +1,4 @@
+import { calculateDayDuration, calculateDurationWithinPeriod, type DayAttribution } from "./day-attribution";
 import { formatISODate, weekDayToNumber } from "./time-utils";
 import type { DailyGoalSettings, TimeLogEntry, WeekDay, WeeklyGoalSettings } from "../components/time-logs/types";
 
@@ -20,6 +21,8 @@ export interface CalculateWeeklyGoalProgressArgs {
   dailyGoal: DailyGoalSettings | null;
   weekStart: Date;
   now: Date;
+  /** In split mode entries crossing midnight are counted for the days (and the week) they cover */
+  dayAttribution?: DayAttribution;
 }
 
 const MINUTE_MS = 60 * 1000;
@@ -30,30 +33,56 @@ export function calculateWeeklyGoalProgress({
   dailyGoal,
   weekStart,
   now,
+  dayAttribution = "START_DAY",
 }: CalculateWeeklyGoalProgressArgs): WeeklyGoalProgress | null {
   if (!weeklyGoal.enabled || weeklyGoal.goalMinutes <= 0) return null;
 
-  const totalMs = entries.reduce((sum, entry) => sum + calculateEntryDuration(entry, now), 0);
+  const totalMs = calculateWeekTotal(entries, weekStart, now, dayAttribution);
   const weeklyGoalMs = weeklyGoal.goalMinutes * MINUTE_MS;
   const remainingWeeklyGoalMs = Math.max(0, weeklyGoalMs - totalMs);
 
   return {
     totalMs,
     progressPercent: Math.min(100, Math.floor((totalMs / weeklyGoalMs) * 100)),
-    estimate: calculateEstimate(entries, weeklyGoal, dailyGoal, weekStart, now, remainingWeeklyGoalMs),
+    estimate: calculateEstimate(
+      entries,
+      weeklyGoal,
+      dailyGoal,
+      weekStart,
+      now,
+      dayAttribution,
+      totalMs,
+      remainingWeeklyGoalMs
+    ),
   };
 }
 
+function calculateWeekTotal(
+  entries: TimeLogEntry[],
+  weekStart: Date,
+  now: Date,
+  dayAttribution: DayAttribution
+): number {
+  if (dayAttribution === "START_DAY") {
+    return entries.reduce((sum, entry) => sum + calculateEntryDuration(entry, now), 0);
+  }
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekEnd.getDate() + 7);
+  const weekPeriod = { from: weekStart, to: weekEnd };
+  return entries.reduce((sum, entry) => sum + calculateDurationWithinPeriod(entry, weekPeriod, now), 0);
+}
+
 function calculateEstimate(
   entries: TimeLogEntry[],
   weeklyGoal: WeeklyGoalSettings,
   dailyGoal: DailyGoalSettings | null,
   weekStart: Date,
   now: Date,
+  dayAttribution: DayAttribution,
+  totalMs: number,
   remainingWeeklyGoalMs: number
 ): WeeklyGoalEstimate {
   const weeklyGoalMs = weeklyGoal.goalMinutes * MINUTE_MS;
-  const totalMs = entries.reduce((sum, entry) => sum + calculateEntryDuration(entry, now), 0);
   if (totalMs > weeklyGoalMs) return { type: "actualOvertime", overtimeMs: totalMs - weeklyGoalMs };
   if (!dailyGoal?.enabled || dailyGoal.goalMinutes <= 0 || remainingWeeklyGoalMs <= 0) return { type: "none" };
 
@@ -62,9 +91,11 @@ function calculateEstimate(
 
   const dailyGoalMs = dailyGoal.goalMinutes * MINUTE_MS;
   const remainingDailyGoalMs = remainingDays.reduce((sum, day) => {
-    const dayTotalMs = entries
-      .filter((entry) => formatISODate(new Date(entry.startTime)) === formatISODate(day.date))
-      .reduce((entrySum, entry) => entrySum + calculateEntryDuration(entry, now), 0);
+    const isoDate = formatISODate(day.date);
+    const dayTotalMs = entries.reduce(
+      (entrySum, entry) => entrySum + calculateDayDuration(entry, isoDate, dayAttribution, now),
+      0
+    );
     return sum + Math.max(0, dailyGoalMs - dayTotalMs);
   }, 0);
 
@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router";
+import { useTranslation } from "react-i18next";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { PortalLayout } from "@/components/layout/PortalLayout";
+import { FormMessage } from "@/components/ui/form-message";
+import { Loader } from "@/components/ui/loader";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { SearchFilters } from "@/components/search/SearchFilters";
+import { TimeEntry } from "@/components/time-logs/TimeEntry";
+import { apiGet } from "@/lib/api";
+import {
+  buildEntrySearchApiUrl,
+  formatEntrySearchParams,
+  parseEntrySearchParams,
+  SEARCH_PAGE_SIZE,
+  type EntrySearchFilters,
+} from "@/lib/entry-search";
+import { formatDuration, weekDayToNumber, type DurationFormat } from "@/lib/time-utils";
+import { UndoProvider } from "@/hooks/useUndo";
+import { DurationFormatProvider } from "@/hooks/useDurationFormat";
+import { DisplayRoundingProvider } from "@/hooks/useDisplayRounding";
+import { getDisplayRounding } from "@/lib/duration-rounding";
+import { RoundedTotalIndicator } from "@/components/time-logs/RoundedTotalIndicator";
+import type { RoundingSettings, TimeLogEntry } from "@/components/time-logs/types";
+
+interface SearchResponse {
+  entries: TimeLogEntry[];
+  total: number;
+  totalDurationSeconds: number;
+  /** Whether the durations of the entries were rounded when calculating the total */
+  totalDurationRounded: boolean;
+  page: number;
+  size: number;
+}
+
+function formatResultDay(isoString: string, locale: string): string {
+  return new Date(isoString).toLocaleDateString(locale, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/**
+ * Full-history search of time log entries. Filters and page are stored in the URL, so that searches can be linked to.
+ */
+export function SearchPage() {
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [results, setResults] = useState<SearchResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [userLocale, setUserLocale] = useState<string | null>(null);
+  const [durationFormat, setDurationFormat] = useState<DurationFormat>("HH_MM_SS");
+  const [roundingSettings, setRoundingSettings] = useState<RoundingSettings | null>(null);
+  const [startOfWeek, setStartOfWeek] = useState<number>(1);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const searchQuery = searchParams.toString();
+  const { filters, page } = useMemo(() => parseEntrySearchParams(new URLSearchParams(searchQuery)), [searchQuery]);
+
+  const loadResults = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      setError(null);
+      const response = await apiGet<SearchResponse>(buildEntrySearchApiUrl(filters, page), abortController.signal);
+      if (!abortController.signal.aborted) {
+        setResults(response);
+        setLoading(false);
+      }
+    } catch (err: any) {
+      if (err.name === "AbortError") {
+        return;
+      }
+      const errorCode = err.errorCode;
+      setError(errorCode ? t(`errorCodes.${errorCode}`) : err.message || t("common.error"));
+      setLoading(false);
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+    }
+  }, [filters, page, t]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadResults();
+  }, [loadResults]);
+
+  // Load user's locale and start of week preference on mount
+  useEffect(() => {
+    Promise.all([
+      apiGet<{ locale: string; startOfWeek: string; durationFormat: DurationFormat }>("/api-ui/users/profile"),
+      apiGet<RoundingSettings>("/api-ui/users/rounding-settings"),
+    ])
+      .then(([profile, rounding]) => {
+        setUserLocale(profile.locale);
+        setStartOfWeek(weekDayToNumber(profile.startOfWeek));
+        setDurationFormat(profile.durationFormat);
+        setRoundingSettings(rounding);
+      })
+      .catch((err: any) => {
+        const errorCode = err.errorCode;
+        setError(errorCode ? t(`errorCodes.${errorCode}`) : err.message || t("common.error"));
+      });
+  }, [t]);
+
+  const handleSearch = (newFilters: EntrySearchFilters) => {
+    setSearchParams(formatEntrySearchParams(newFilters));
+  };
+
+  const handlePageChange = (newPage: number) => {
+    setSearchParams(formatEntrySearchParams(filters, newPage));
+  };
+
+  if (!userLocale) {
+    return (
+      <PortalLayout testId="search-page">
+        <div className="p-8">
+          <div className="max-w-6xl mx-auto">
+            {error && <FormMessage type="error" message={error} testId="search-error" />}
+            <Loader className="py-8" />
+          </div>
+        </div>
+      </PortalLayout>
+    );
+  }
+
+  const totalPages = results ? Math.ceil(results.total / SEARCH_PAGE_SIZE) : 0;
+
+  return (
+    <PortalLayout testId="search-page">
+      <UndoProvider onUndo={loadResults}>
+        <DurationFormatProvider durationFormat={durationFormat}>
+          <DisplayRoundingProvider rounding={getDisplayRounding(roundingSettings)}>
+            <div className="p-8 pt-16">
+              <div className="max-w-6xl mx-auto">
+                {error && <FormMessage type="error" message={error} testId="search-error" />}
+
+                <SearchFilters
+                  filters={filters}
+                  locale={userLocale}
+                  startOfWeek={startOfWeek}
+                  onSearch={handleSearch}
+                />
+
+                {loading || !results ? (
+                  <Loader className="py-8" />
+                ) : results.entries.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground" data-testid="search-no-results">
+                    {t("search.noResults")}
+                  </div>
+                ) : (
+                  <>
+                    <div
+                      className="mb-4 flex justify-between text-sm text-muted-foreground"
+                      data-testid="search-summary"
+                    >
+                      <span data-testid="search-results-count">
+                        {t("search.resultsCount", { count: results.total })}
+                      </span>
+                      <span data-testid="search-grand-total">
+                        {t("search.grandTotal")}: {formatDuration(results.totalDurationSeconds * 1000, durationFormat)}
+                        {results.totalDurationRounded && (
+                          <>
+                            {" "}
+                            <RoundedTotalIndicator />
+                          </>
+                        )}
+                      </span>
+                    </div>
+
+                    <Card className="border-none shadow-md">
+                      <CardContent className="p-4 divide-y divide-border">
+                        {results.entries.map((entry) => (
+                          <div key={entry.id} className="py-2" data-testid="search-result">
+                            <div className="text-xs text-muted-foreground" data-testid="search-result-date">
+                              {formatResultDay(entry.startTime, userLocale)}
+                            </div>
+                            <TimeEntry
+                              entry={entry}
+                              locale={userLocale}
+                              startOfWeek={startOfWeek}
+                              onDataChange={loadResults}
+                            />
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+
+                    {totalPages > 1 && (
+                      <div className="flex items-center justify-end gap-2 mt-4" data-testid="search-pagination">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handlePageChange(page - 1)}
+                          disabled={page === 0}
+                          data-testid="search-pagination-previous"
+                        >
+                          <ChevronLeft className="h-4 w-4" />
+                          {t("search.pagination.previous")}
+                        </Button>
+                        <span
+                          className="flex items-center px-4 text-sm text-foreground"
+                          data-testid="search-pagination-info"
+                        >
+                          {t("search.pagination.page", { page: page + 1, total: totalPages })}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handlePageChange(page + 1)}
+                          disabled={page >= totalPages - 1}
+                          data-testid="search-pagination-next"
+                        >
+                          {t("search.pagination.next")}
+                          <ChevronRight className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          </DisplayRoundingProvider>
+        </DurationFormatProvider>
+      </UndoProvider>
+    </PortalLayout>
+  );
+}
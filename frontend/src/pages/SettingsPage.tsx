@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Loader } from "@/components/ui/loader";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
@@ -19,7 +20,13 @@ import { MoreVertical, Archive, ArchiveRestore } from "lucide-react";
 import { ImportDataPanel } from "@/components/settings/ImportDataPanel";
 import { ApiAccessTokenPanel } from "@/components/settings/ApiAccessTokenPanel";
 import { GoalsManagementPanel } from "@/components/settings/GoalsManagementPanel";
+import { PomodoroSettingsPanel } from "@/components/settings/PomodoroSettingsPanel";
+import { RoundingSettingsPanel } from "@/components/settings/RoundingSettingsPanel";
+import { TagRatesPanel } from "@/components/settings/TagRatesPanel";
+import { NotificationSettingsPanel } from "@/components/settings/NotificationSettingsPanel";
 import { useApiExecutor } from "@/hooks/useApiExecutor";
+import type { DayAttribution } from "@/lib/day-attribution";
+import { DURATION_FORMATS, type DurationFormat } from "@/lib/time-utils";
 
 interface TagStat {
   tag: string;
@@ -43,6 +50,9 @@ export function SettingsPage() {
   const [initialDataLoaded, setInitialDataLoaded] = useState(false);
   const [actionInProgress, setActionInProgress] = useState<string | null>(null);
   const [startOfWeek, setStartOfWeek] = useState<string>("MONDAY");
+  const [idleThresholdMinutes, setIdleThresholdMinutes] = useState(0);
+  const [dayAttribution, setDayAttribution] = useState<DayAttribution>("START_DAY");
+  const [durationFormat, setDurationFormat] = useState<DurationFormat>("HH_MM_SS");
 
   const loadTags = async () => {
     await executeTagsCall(async () => {
@@ -84,13 +94,21 @@ export function SettingsPage() {
   };
 
   const loadPreferences = async () => {
-    const profile = await apiGet<{ startOfWeek: string }>("/api-ui/users/profile");
+    const profile = await apiGet<{
+      startOfWeek: string;
+      idleThresholdMinutes: number;
+      dayAttribution: DayAttribution;
+      durationFormat: DurationFormat;
+    }>("/api-ui/users/profile");
     setStartOfWeek(profile.startOfWeek);
+    setIdleThresholdMinutes(profile.idleThresholdMinutes);
+    setDayAttribution(profile.dayAttribution);
+    setDurationFormat(profile.durationFormat);
   };
 
   const handleSavePreferences = async () => {
     await executePreferencesCall(async () => {
-      await apiPut("/api-ui/users/settings", { startOfWeek });
+      await apiPut("/api-ui/users/settings", { startOfWeek, idleThresholdMinutes, dayAttribution, durationFormat });
       return t("settings.preferences.updateSuccess");
     });
   };
@@ -152,6 +170,85 @@ export function SettingsPage() {
                       </SelectContent>
                     </Select>
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="idle-threshold" className="text-foreground">
+                      {t("settings.preferences.idleThreshold")}
+                    </Label>
+                    <p className="text-sm text-muted-foreground">
+                      {t("settings.preferences.idleThresholdDescription")}
+                    </p>
+                    <Input
+                      id="idle-threshold"
+                      type="number"
+                      min={0}
+                      value={idleThresholdMinutes}
+                      onChange={(e) => setIdleThresholdMinutes(Math.max(0, Number(e.target.value) || 0))}
+                      disabled={preferencesInProgress}
+                      className="w-20 text-center font-mono text-foreground [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none"
+                      data-testid="idle-threshold-input"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="day-attribution" className="text-foreground">
+                      {t("settings.preferences.dayAttribution")}
+                    </Label>
+                    <p className="text-sm text-muted-foreground">
+                      {t("settings.preferences.dayAttributionDescription")}
+                    </p>
+                    <Select
+                      value={dayAttribution}
+                      onValueChange={(value) => setDayAttribution(value as DayAttribution)}
+                      disabled={preferencesInProgress}
+                    >
+                      <SelectTrigger
+                        id="day-attribution"
+                        data-testid="day-attribution-select"
+                        className="text-foreground"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="dark">
+                        <SelectItem value="START_DAY" data-testid="day-attribution-option-start-day">
+                          {t("settings.preferences.dayAttributionOptions.START_DAY")}
+                        </SelectItem>
+                        <SelectItem value="SPLIT_AT_MIDNIGHT" data-testid="day-attribution-option-split-at-midnight">
+                          {t("settings.preferences.dayAttributionOptions.SPLIT_AT_MIDNIGHT")}
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="duration-format" className="text-foreground">
+                      {t("settings.preferences.durationFormat")}
+                    </Label>
+                    <p className="text-sm text-muted-foreground">
+                      {t("settings.preferences.durationFormatDescription")}
+                    </p>
+                    <Select
+                      value={durationFormat}
+                      onValueChange={(value) => setDurationFormat(value as DurationFormat)}
+                      disabled={preferencesInProgress}
+                    >
+                      <SelectTrigger
+                        id="duration-format"
+                        data-testid="duration-format-select"
+                        className="text-foreground"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="dark">
+                        {DURATION_FORMATS.map((format) => (
+                          <SelectItem
+                            key={format}
+                            value={format}
+                            data-testid={`duration-format-option-${format.toLowerCase().replaceAll("_", "-")}`}
+                          >
+                            {t(`settings.preferences.durationFormatOptions.${format}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <Button
                     onClick={handleSavePreferences}
                     disabled={preferencesInProgress}
@@ -166,6 +263,14 @@ export function SettingsPage() {
 
             <GoalsManagementPanel />
 
+            <PomodoroSettingsPanel />
+
+            <RoundingSettingsPanel />
+
+            <TagRatesPanel />
+
+            <NotificationSettingsPanel />
+
             {/* Tags Card */}
             <Card className="border-none shadow-md">
               <CardHeader>
@@ -1,34 +1,127 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router";
 import { useTranslation } from "react-i18next";
 import { PortalLayout } from "@/components/layout/PortalLayout";
 import { FormMessage } from "@/components/ui/form-message";
 import { Loader } from "@/components/ui/loader";
 import { CurrentEntryPanel } from "@/components/time-logs/CurrentEntryPanel";
+import { PinnedEntriesBar } from "@/components/time-logs/PinnedEntriesBar";
 import { WeekNavigation } from "@/components/time-logs/WeekNavigation";
 import { DayGroups } from "@/components/time-logs/DayGroups";
+import { MonthNavigation } from "@/components/time-logs/MonthNavigation";
+import { MonthCalendar } from "@/components/time-logs/MonthCalendar";
+import { RangeNavigation } from "@/components/time-logs/RangeNavigation";
+import { EntryFilterBar } from "@/components/time-logs/EntryFilterBar";
+import { IdleTimeDialog } from "@/components/time-logs/IdleTimeDialog";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { apiGet } from "@/lib/api";
-import { weekDayToNumber } from "@/lib/time-utils";
+import { weekDayToNumber, type DurationFormat } from "@/lib/time-utils";
+import { getIdleSince } from "@/lib/idle-detection";
+import { isAttributedToPeriod, type DayAttribution } from "@/lib/day-attribution";
+import {
+  DEFAULT_ENTRY_GROUPING_MODE,
+  ENTRY_GROUPING_MODES,
+  loadStoredEntryGroupingMode,
+  storeEntryGroupingMode,
+  type EntryGroupingMode,
+} from "@/lib/entry-grouping";
+import {
+  createMonthView,
+  createRangeView,
+  createWeekView,
+  formatTimeLogsView,
+  parseTimeLogsView,
+  type TimeLogsView,
+  type TimeLogsViewMode,
+} from "@/lib/time-logs-view";
+import {
+  appendEntryFilterParams,
+  EMPTY_ENTRY_FILTER,
+  filterEntries,
+  loadStoredEntryFilter,
+  parseEntryFilterParams,
+  storeEntryFilter,
+  type EntryFilter,
+  type StoredEntryFilter,
+} from "@/lib/entry-filter";
 import { useDocumentTitle } from "@/hooks/useDocumentTitle";
 import { useTimeLogEntryEvents } from "@/hooks/useTimeLogEntryEvents";
-import type { DailyGoalSettings, TimeEntry, TimeLogEntry, WeeklyGoalSettings } from "@/components/time-logs/types";
+import { useIdleDetection } from "@/hooks/useIdleDetection";
+import { useTrackingReminders } from "@/hooks/useTrackingReminders";
+import { UndoProvider } from "@/hooks/useUndo";
+import { PinnedEntriesProvider } from "@/hooks/usePinnedEntries";
+import { DurationFormatProvider } from "@/hooks/useDurationFormat";
+import { DisplayRoundingProvider } from "@/hooks/useDisplayRounding";
+import { getDisplayRounding } from "@/lib/duration-rounding";
+import type {
+  DailyGoalSettings,
+  PomodoroSettings,
+  RoundingSettings,
+  TagRate,
+  TimeEntry,
+  TimeLogEntry,
+  WeeklyGoalSettings,
+} from "@/components/time-logs/types";
 
 interface GoalsSettingsResponse {
   dailyGoal: DailyGoalSettings;
   weeklyGoal: WeeklyGoalSettings;
 }
 
+/**
+ * Picks the date to open another view at: today if it is within the displayed range, otherwise the range start.
+ */
+function getViewSwitchDate(view: TimeLogsView): Date {
+  const now = new Date();
+  if (now >= view.from && now < view.to) return now;
+  return view.from;
+}
+
+function getRangeKey(range: { from: Date; to: Date }): string {
+  return `${range.from.getTime()}-${range.to.getTime()}`;
+}
+
 export function TimeLogsPage() {
   const { t, i18n } = useTranslation();
   const [activeEntry, setActiveEntry] = useState<TimeEntry | null>(null);
-  const [dateRange, setDateRange] = useState<{ from: Date; to: Date } | null>(null);
   const [entries, setEntries] = useState<TimeEntry[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [userLocale, setUserLocale] = useState<string | null>(null);
   const [startOfWeek, setStartOfWeek] = useState<number>(1); // Default to Monday
   const [dailyGoal, setDailyGoal] = useState<DailyGoalSettings | null>(null);
   const [weeklyGoal, setWeeklyGoal] = useState<WeeklyGoalSettings | null>(null);
+  const [pomodoroSettings, setPomodoroSettings] = useState<PomodoroSettings | null>(null);
+  const [roundingSettings, setRoundingSettings] = useState<RoundingSettings | null>(null);
+  const [tagRates, setTagRates] = useState<TagRate[]>([]);
+  const [idleThresholdMinutes, setIdleThresholdMinutes] = useState(0);
+  const [dayAttribution, setDayAttribution] = useState<DayAttribution>("START_DAY");
+  const [durationFormat, setDurationFormat] = useState<DurationFormat>("HH_MM_SS");
+  const [idleSince, setIdleSince] = useState<number | null>(null);
+  const [userName, setUserName] = useState<string | null>(null);
+  const [storedFilter, setStoredFilter] = useState<StoredEntryFilter>({
+    filter: EMPTY_ENTRY_FILTER,
+    filteredTotals: false,
+  });
+  const [groupingMode, setGroupingMode] = useState<EntryGroupingMode>(DEFAULT_ENTRY_GROUPING_MODE);
+  // Range the displayed entries were loaded for, to show loading state until entries of a new range arrive
+  const [loadedRangeKey, setLoadedRangeKey] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
   const abortControllerRef = useRef<AbortController | null>(null);
-  const isInitialLoadRef = useRef(true);
+
+  // The displayed view is stored in the URL, so that it can be linked to and navigated with browser history.
+  // Week boundaries depend on the user's start of week, hence the view is only resolved once the profile is loaded.
+  const searchQuery = searchParams.toString();
+  const view = useMemo(
+    () => (userLocale ? parseTimeLogsView(new URLSearchParams(searchQuery), startOfWeek) : null),
+    [searchQuery, startOfWeek, userLocale]
+  );
+  const dateRange = useMemo(() => (view ? { from: view.from, to: view.to } : null), [view]);
+  // Filter specified in the URL takes precedence over the last used one
+  const filter = useMemo(
+    () => parseEntryFilterParams(new URLSearchParams(searchQuery)) ?? storedFilter.filter,
+    [searchQuery, storedFilter]
+  );
 
   // Update browser tab title based on active entry
   useDocumentTitle(activeEntry?.title || null);
@@ -53,6 +146,12 @@ export function TimeLogsPage() {
       startTime.setHours(0, 0, 0, 0);
       const endTime = new Date(dateRange.to);
       endTime.setHours(0, 0, 0, 0);
+      const period = { from: new Date(startTime), to: endTime };
+
+      // Entries are loaded by their start time, so entries crossing midnight into the range start a day earlier
+      if (dayAttribution === "SPLIT_AT_MIDNIGHT") {
+        startTime.setDate(startTime.getDate() - 1);
+      }
 
       const startTimeStr = startTime.toISOString();
       const endTimeStr = endTime.toISOString();
@@ -68,10 +167,12 @@ export function TimeLogsPage() {
 
       // Only update state if this request wasn't cancelled
       if (!abortController.signal.aborted) {
-        setEntries(entriesResponse.entries || []);
+        const now = new Date();
+        setEntries(
+          (entriesResponse.entries || []).filter((entry) => isAttributedToPeriod(entry, period, dayAttribution, now))
+        );
         setActiveEntry(activeEntryResponse.entry ?? null);
-        // Mark that initial load is complete
-        isInitialLoadRef.current = false;
+        setLoadedRangeKey(getRangeKey(dateRange));
       }
     } catch (err: any) {
       // Ignore abort errors - they're expected when a new request cancels the old one
@@ -91,7 +192,7 @@ export function TimeLogsPage() {
         abortControllerRef.current = null;
       }
     }
-  }, [dateRange, t]);
+  }, [dateRange, dayAttribution, t]);
 
   // Handle SSE events for time log entry changes
   const handleTimeLogEvent = useCallback(
@@ -107,12 +208,52 @@ export function TimeLogsPage() {
   // Subscribe to SSE events for real-time updates
   useTimeLogEntryEvents(handleTimeLogEvent, true);
 
-  // Update the displayed data time range
-  const updateDisplayedDataTimeRange = useCallback((from: Date, to: Date) => {
-    setDateRange({ from, to });
-    // Reset the initial load flag when range changes to show loading state
-    isInitialLoadRef.current = true;
-  }, []);
+  // Ask what to do with the idle time when the user returns to a running timer after being away
+  const handleUserActivity = useCallback(
+    (previousActivityAt: number) => {
+      if (!activeEntry || idleSince !== null) return;
+      const detectedIdleSince = getIdleSince(activeEntry, previousActivityAt, Date.now(), idleThresholdMinutes);
+      if (detectedIdleSince !== null) setIdleSince(detectedIdleSince);
+    },
+    [activeEntry, idleSince, idleThresholdMinutes]
+  );
+
+  useIdleDetection(handleUserActivity, idleThresholdMinutes > 0);
+
+  // Browser notifications reminding to track time, driven by the live updates of the active entry
+  useTrackingReminders({ activeEntry, dailyGoal, dayAttribution, onDataChange: loadData });
+
+  // The prompt is about the entry that was running while the user was away
+  const activeEntryId = activeEntry?.id;
+  useEffect(() => {
+    setIdleSince(null);
+  }, [activeEntryId]);
+
+  // Every view change is a new history entry, so that browser back and forward move between views
+  const showView = useCallback(
+    (newView: TimeLogsView) => {
+      setSearchParams(appendEntryFilterParams(formatTimeLogsView(newView), filter));
+    },
+    [setSearchParams, filter]
+  );
+
+  const updateStoredFilter = (newStoredFilter: StoredEntryFilter) => {
+    setStoredFilter(newStoredFilter);
+    if (userName) storeEntryFilter(userName, newStoredFilter);
+  };
+
+  const handleGroupingModeChange = (newGroupingMode: EntryGroupingMode) => {
+    setGroupingMode(newGroupingMode);
+    if (userName) storeEntryGroupingMode(userName, newGroupingMode);
+  };
+
+  // Filter changes replace the history entry, so that browser back and forward only move between views
+  const handleFilterChange = (newFilter: EntryFilter) => {
+    updateStoredFilter({ ...storedFilter, filter: newFilter });
+    if (view) {
+      setSearchParams(appendEntryFilterParams(formatTimeLogsView(view), newFilter), { replace: true });
+    }
+  };
 
   // Load data when date range changes
   useEffect(() => {
@@ -124,18 +265,37 @@ export function TimeLogsPage() {
   // Load user's locale and start of week preference on mount
   useEffect(() => {
     async function loadUserProfile() {
-      const [profile, goalsSettings] = await Promise.all([
-        apiGet<{ locale: string; startOfWeek: string }>("/api-ui/users/profile"),
+      const [profile, goalsSettings, pomodoro, rounding, tagRatesResponse] = await Promise.all([
+        apiGet<{
+          userName: string;
+          locale: string;
+          startOfWeek: string;
+          idleThresholdMinutes: number;
+          dayAttribution: DayAttribution;
+          durationFormat: DurationFormat;
+        }>("/api-ui/users/profile"),
         apiGet<GoalsSettingsResponse>("/api-ui/users/goals-settings"),
+        apiGet<PomodoroSettings>("/api-ui/users/pomodoro-settings"),
+        apiGet<RoundingSettings>("/api-ui/users/rounding-settings"),
+        apiGet<{ rates: TagRate[] }>("/api-ui/tag-rates"),
       ]);
+      setUserName(profile.userName);
+      setStoredFilter(loadStoredEntryFilter(profile.userName));
+      setGroupingMode(loadStoredEntryGroupingMode(profile.userName));
       setUserLocale(profile.locale);
       const startOfWeekNum = weekDayToNumber(profile.startOfWeek);
       setStartOfWeek(startOfWeekNum);
+      setIdleThresholdMinutes(profile.idleThresholdMinutes);
+      setDayAttribution(profile.dayAttribution);
+      setDurationFormat(profile.durationFormat);
       setDailyGoal({
         ...goalsSettings.dailyGoal,
         typicalBreaks: goalsSettings.dailyGoal.typicalBreaks ?? [],
       });
       setWeeklyGoal(goalsSettings.weeklyGoal);
+      setPomodoroSettings(pomodoro);
+      setRoundingSettings(rounding);
+      setTagRates(tagRatesResponse.rates);
     }
     loadUserProfile().catch((err: any) => {
       const errorCode = err.errorCode;
@@ -144,7 +304,7 @@ export function TimeLogsPage() {
   }, [t]);
 
   // Don't render page elements until we have the user locale
-  if (!userLocale) {
+  if (!userLocale || !view) {
     return (
       <PortalLayout testId="time-logs-page">
         <div className="p-8">
@@ -158,62 +318,199 @@ export function TimeLogsPage() {
 
   const locale = userLocale || i18n.language || "en";
   const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const viewMode = view.mode;
+  const lastDay = new Date(view.to.getFullYear(), view.to.getMonth(), view.to.getDate() - 1);
+  const filteredEntries = filterEntries(entries, filter);
+  const totalsEntries = storedFilter.filteredTotals ? filteredEntries : entries;
+
+  const switchView = (mode: TimeLogsViewMode) => {
+    if (mode === viewMode) return;
+    const date = getViewSwitchDate(view);
+    if (mode === "week") {
+      showView(createWeekView(date, startOfWeek));
+    } else if (mode === "month") {
+      showView(createMonthView(date));
+    } else {
+      const weekView = createWeekView(date, startOfWeek);
+      showView(createRangeView(weekView.from, new Date(weekView.to.getTime() - 1)));
+    }
+  };
 
   return (
     <PortalLayout testId="time-logs-page">
-      <div className="p-8 pt-16">
-        <div className="max-w-6xl mx-auto">
-          {/* Error Message */}
-          {error && <FormMessage type="error" message={error} testId="time-logs-error" />}
-
-          {/* Current Entry Panel */}
-          <CurrentEntryPanel
-            activeEntry={activeEntry}
-            locale={locale}
-            startOfWeek={startOfWeek}
-            isEditingStoppedEntry={false}
-            onDataChange={loadData}
-          />
-
-          {/* Week Navigation */}
-          <WeekNavigation
-            entries={entries}
-            activeEntry={activeEntry}
-            locale={locale}
-            startOfWeek={startOfWeek}
-            dailyGoal={dailyGoal}
-            weeklyGoal={weeklyGoal}
-            onTimeRangeChange={updateDisplayedDataTimeRange}
-          />
-
-          {/* Time Entries List */}
-          {/* 
-            Note: Using ref value in JSX is safe here because:
-            1. loadData() ALWAYS updates entries/activeEntry state after setting isInitialLoadRef.current = false (line 66)
-            2. These state updates (setEntries/setActiveEntry) trigger a re-render
-            3. When the component re-renders, it reads the updated ref value and shows DayGroups instead of loading
-            4. The ref prevents unnecessary re-renders on updates (vs state) while still showing the correct UI
-               because we piggyback on other state updates that happen at the same time
-          */}
-          {isInitialLoadRef.current ? (
-            <Loader className="py-8" />
-          ) : (
-            <DayGroups
-              entries={entries}
-              activeEntry={activeEntry}
-              locale={locale}
-              startOfWeek={startOfWeek}
-              dailyGoal={dailyGoal}
-              onDataChange={loadData}
-            />
-          )}
-
-          {/* Timezone Hint */}
-          <div className="mt-8 text-right text-xs text-muted-foreground">
-            {t("timeLogs.timezoneHint", { timezone: timeZone })}
-          </div>
-        </div>
-      </div>
+      <UndoProvider onUndo={loadData}>
+        <PinnedEntriesProvider>
+          <DurationFormatProvider durationFormat={durationFormat}>
+            <DisplayRoundingProvider rounding={getDisplayRounding(roundingSettings)}>
+              <div className="p-8 pt-16">
+                <div className="max-w-6xl mx-auto">
+                  {/* Error Message */}
+                  {error && <FormMessage type="error" message={error} testId="time-logs-error" />}
+
+                  {/* Current Entry Panel */}
+                  <CurrentEntryPanel
+                    activeEntry={activeEntry}
+                    locale={locale}
+                    startOfWeek={startOfWeek}
+                    isEditingStoppedEntry={false}
+                    pomodoroSettings={pomodoroSettings}
+                    onDataChange={loadData}
+                  />
+
+                  {/* Pinned Entries */}
+                  <PinnedEntriesBar onDataChange={loadData} />
+
+                  {/* Idle Time Prompt */}
+                  {activeEntry && (
+                    <IdleTimeDialog
+                      activeEntry={activeEntry}
+                      idleSince={idleSince}
+                      locale={locale}
+                      onDataChange={loadData}
+                      onClose={() => setIdleSince(null)}
+                    />
+                  )}
+
+                  {/* Grouping and View Mode Switch */}
+                  <div className="mb-4 flex justify-end gap-2">
+                    {viewMode !== "month" && (
+                      <Select
+                        value={groupingMode}
+                        onValueChange={(value) => handleGroupingModeChange(value as EntryGroupingMode)}
+                      >
+                        <SelectTrigger
+                          className="mr-auto h-9 w-auto gap-2 text-foreground"
+                          data-testid="entry-grouping-select"
+                          aria-label={t("timeLogs.groupingMode.label")}
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="dark">
+                          {ENTRY_GROUPING_MODES.map((mode) => (
+                            <SelectItem
+                              key={mode}
+                              value={mode}
+                              data-testid={`entry-grouping-option-${mode.toLowerCase().replaceAll("_", "-")}`}
+                            >
+                              {t(`timeLogs.groupingMode.${mode}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button
+                      variant={viewMode === "week" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => switchView("week")}
+                      data-testid="view-mode-week-button"
+                      className={viewMode === "week" ? "" : "text-foreground"}
+                    >
+                      {t("timeLogs.viewMode.week")}
+                    </Button>
+                    <Button
+                      variant={viewMode === "month" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => switchView("month")}
+                      data-testid="view-mode-month-button"
+                      className={viewMode === "month" ? "" : "text-foreground"}
+                    >
+                      {t("timeLogs.viewMode.month")}
+                    </Button>
+                    <Button
+                      variant={viewMode === "range" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => switchView("range")}
+                      data-testid="view-mode-range-button"
+                      className={viewMode === "range" ? "" : "text-foreground"}
+                    >
+                      {t("timeLogs.viewMode.range")}
+                    </Button>
+                  </div>
+
+                  {/* Week, Month or Range Navigation */}
+                  {viewMode === "week" && (
+                    <WeekNavigation
+                      entries={totalsEntries}
+                      activeEntry={activeEntry}
+                      locale={locale}
+                      startOfWeek={startOfWeek}
+                      dailyGoal={dailyGoal}
+                      weeklyGoal={weeklyGoal}
+                      dayAttribution={dayAttribution}
+                      tagRates={tagRates}
+                      weekStart={view.from}
+                      onWeekChange={(date) => showView(createWeekView(date, startOfWeek))}
+                      onDataChange={loadData}
+                    />
+                  )}
+                  {viewMode === "month" && (
+                    <MonthNavigation
+                      entries={totalsEntries}
+                      locale={locale}
+                      dayAttribution={dayAttribution}
+                      monthStart={view.from}
+                      onMonthChange={(date) => showView(createMonthView(date))}
+                    />
+                  )}
+                  {viewMode === "range" && (
+                    <RangeNavigation
+                      entries={totalsEntries}
+                      locale={locale}
+                      startOfWeek={startOfWeek}
+                      dayAttribution={dayAttribution}
+                      firstDay={view.from}
+                      lastDay={lastDay}
+                      onRangeChange={(firstDay, lastDay) => showView(createRangeView(firstDay, lastDay))}
+                    />
+                  )}
+
+                  <EntryFilterBar
+                    filter={filter}
+                    onFilterChange={handleFilterChange}
+                    filteredTotals={storedFilter.filteredTotals}
+                    onFilteredTotalsChange={(filteredTotals) => updateStoredFilter({ ...storedFilter, filteredTotals })}
+                  />
+
+                  {/* Time Entries List or Month Calendar */}
+                  {loadedRangeKey !== getRangeKey(view) ? (
+                    <Loader className="py-8" />
+                  ) : viewMode === "month" ? (
+                    <MonthCalendar
+                      entries={totalsEntries}
+                      monthStart={view.from}
+                      locale={locale}
+                      startOfWeek={startOfWeek}
+                      dailyGoal={dailyGoal}
+                      dayAttribution={dayAttribution}
+                      onDaySelect={(date) => showView(createWeekView(date, startOfWeek))}
+                    />
+                  ) : (
+                    <DayGroups
+                      entries={filteredEntries}
+                      unfilteredEntries={entries}
+                      filteredTotals={storedFilter.filteredTotals}
+                      activeEntry={activeEntry}
+                      locale={locale}
+                      startOfWeek={startOfWeek}
+                      dailyGoal={dailyGoal}
+                      dayAttribution={dayAttribution}
+                      period={dateRange ?? undefined}
+                      groupingMode={groupingMode}
+                      tagRates={tagRates}
+                      onDataChange={loadData}
+                    />
+                  )}
+
+                  {/* Timezone Hint */}
+                  <div className="mt-8 text-right text-xs text-muted-foreground">
+                    {t("timeLogs.timezoneHint", { timezone: timeZone })}
+                  </div>
+                </div>
+              </div>
+            </DisplayRoundingProvider>
+          </DurationFormatProvider>
+        </PinnedEntriesProvider>
+      </UndoProvider>
     </PortalLayout>
   );
 }
@@ -42,7 +42,7 @@ open class TimeLogEntryApiResource(
     @Operation(
         summary = "Start a new time log entry",
         description = """
-            Starts a new time log entry with the given title.
+            Starts a new time log entry with the given title, optionally marked as billable.
             If there is already an active entry, it will be automatically stopped before starting the new one.
             All operations are scoped to the current authenticated user.
         """,
@@ -78,12 +78,14 @@ open class TimeLogEntryApiResource(
                 userId = currentUser.id,
                 title = request.title,
                 metadata = metadata,
+                billable = request.billable ?: false,
             )
 
         return HttpResponse.ok(
             StartTimeLogEntryResponse(
                 title = newEntry.title,
                 metadata = newEntry.metadata.toList(),
+                billable = newEntry.billable,
             ),
         )
     }
@@ -277,6 +279,7 @@ open class TimeLogEntryApiResource(
             title = this.title,
             tags = this.tags.toList(),
             metadata = this.metadata.toList(),
+            billable = this.billable,
         )
 }
 
@@ -303,6 +306,8 @@ data class TimeLogEntryApiDto(
     val tags: List<String>,
     @field:Schema(description = "Metadata of the time log entry", example = "[\"project:aionify\", \"task:API-123\"]")
     val metadata: List<String>,
+    @field:Schema(description = "Whether the time of the entry is billable", example = "true")
+    val billable: Boolean,
 )
 
 @Serdeable
@@ -324,6 +329,12 @@ data class StartTimeLogEntryRequest(
         required = false,
     )
     val metadata: List<String>? = null,
+    @field:Schema(
+        description = "Whether the time of the entry is billable; defaults to false",
+        example = "true",
+        required = false,
+    )
+    val billable: Boolean? = null,
 )
 
 @Serdeable
@@ -334,6 +345,8 @@ data class StartTimeLogEntryResponse(
     val title: String,
     @field:Schema(description = "Metadata of the started time log entry", example = "[\"project:aionify\", \"task:API-123\"]")
     val metadata: List<String>,
+    @field:Schema(description = "Whether the started time log entry is billable", example = "true")
+    val billable: Boolean,
 )
 
 @Serdeable
@@ -0,0 +1,20 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.scheduling.annotation.Scheduled
+import jakarta.inject.Singleton
+import jakarta.transaction.Transactional
+
+/**
+ * Periodically purges soft-deleted time log entries which can no longer be restored.
+ * Runs outside of the user requests, so that deleting entries does not depend on the purge.
+ */
+@Singleton
+open class DeletedTimeLogEntriesPurgeJob(
+    private val timeLogEntryService: TimeLogEntryService,
+) {
+    @Scheduled(fixedDelay = "10m", initialDelay = "1m")
+    @Transactional
+    open fun purgeDeletedEntries() {
+        timeLogEntryService.purgeExpiredDeletedEntries()
+    }
+}
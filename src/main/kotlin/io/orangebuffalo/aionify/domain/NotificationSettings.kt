@@ -0,0 +1,47 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.data.annotation.GeneratedValue
+import io.micronaut.data.annotation.Id
+import io.micronaut.data.annotation.MappedEntity
+import io.micronaut.data.annotation.MappedProperty
+import io.micronaut.data.annotation.TypeDef
+import io.micronaut.data.model.DataType
+import java.time.LocalTime
+
+/**
+ * Browser notifications reminding the user to track time; each reminder is opt-in.
+ */
+@MappedEntity("notification_settings")
+data class NotificationSettings(
+    @field:Id
+    @field:GeneratedValue(GeneratedValue.Type.IDENTITY)
+    val id: Long? = null,
+    @field:MappedProperty("user_id")
+    val userId: Long,
+    /** Remind when no entry is active during the working hours */
+    @field:MappedProperty("no_active_entry_enabled")
+    val noActiveEntryEnabled: Boolean = false,
+    @field:MappedProperty("working_hours_from")
+    val workingHoursFrom: LocalTime = DEFAULT_WORKING_HOURS_FROM,
+    @field:MappedProperty("working_hours_to")
+    val workingHoursTo: LocalTime = DEFAULT_WORKING_HOURS_TO,
+    @field:MappedProperty("working_days")
+    @field:TypeDef(type = DataType.STRING, converter = WeeklyWorkingDaysConverter::class)
+    val workingDays: Set<WeekDay> = GoalsSettingsView.defaultWeeklyWorkingDays.toSet(),
+    /** Remind when an entry has been running for longer than the threshold */
+    @field:MappedProperty("long_running_entry_enabled")
+    val longRunningEntryEnabled: Boolean = false,
+    @field:MappedProperty("long_running_entry_minutes")
+    val longRunningEntryMinutes: Int = DEFAULT_LONG_RUNNING_ENTRY_MINUTES,
+    /** Notify when the daily goal has just been reached */
+    @field:MappedProperty("daily_goal_reached_enabled")
+    val dailyGoalReachedEnabled: Boolean = false,
+) {
+    companion object {
+        val DEFAULT_WORKING_HOURS_FROM: LocalTime = LocalTime.of(9, 0)
+        val DEFAULT_WORKING_HOURS_TO: LocalTime = LocalTime.of(17, 0)
+        const val DEFAULT_LONG_RUNNING_ENTRY_MINUTES = 120
+
+        fun create(userId: Long) = NotificationSettings(userId = userId)
+    }
+}
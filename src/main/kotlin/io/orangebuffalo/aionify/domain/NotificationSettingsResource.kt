@@ -0,0 +1,119 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.core.annotation.Introspected
+import io.micronaut.http.HttpResponse
+import io.micronaut.http.annotation.Body
+import io.micronaut.http.annotation.Controller
+import io.micronaut.http.annotation.Get
+import io.micronaut.http.annotation.Put
+import io.micronaut.security.annotation.Secured
+import io.micronaut.security.rules.SecurityRule
+import io.micronaut.serde.annotation.Serdeable
+import io.swagger.v3.oas.annotations.Hidden
+import jakarta.transaction.Transactional
+import jakarta.validation.Valid
+import jakarta.validation.constraints.NotNull
+import java.time.LocalTime
+
+private const val MAX_LONG_RUNNING_ENTRY_MINUTES = 24 * 60
+
+@Controller("/api-ui/users/notification-settings")
+@Secured(SecurityRule.IS_AUTHENTICATED)
+@Transactional
+@Hidden
+open class NotificationSettingsResource(
+    private val notificationSettingsService: NotificationSettingsService,
+) {
+    @Get
+    open fun getNotificationSettings(currentUser: UserWithId): HttpResponse<NotificationSettingsResponse> {
+        val settings = notificationSettingsService.getForUser(currentUser.id)
+        return HttpResponse.ok(
+            NotificationSettingsResponse(
+                noActiveEntryEnabled = settings.noActiveEntryEnabled,
+                workingHoursFrom = settings.workingHoursFrom.toString(),
+                workingHoursTo = settings.workingHoursTo.toString(),
+                workingDays = settings.workingDays.sortedBy { it.ordinal },
+                longRunningEntryEnabled = settings.longRunningEntryEnabled,
+                longRunningEntryMinutes = settings.longRunningEntryMinutes,
+                dailyGoalReachedEnabled = settings.dailyGoalReachedEnabled,
+            ),
+        )
+    }
+
+    @Put
+    open fun updateNotificationSettings(
+        @Valid @Body request: UpdateNotificationSettingsRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        if (!request.workingHoursFrom.isBefore(request.workingHoursTo) ||
+            (request.noActiveEntryEnabled && request.workingDays.isEmpty())
+        ) {
+            return HttpResponse.badRequest(
+                NotificationSettingsErrorResponse("Invalid working hours", "INVALID_WORKING_HOURS"),
+            )
+        }
+
+        if (request.longRunningEntryMinutes !in 1..MAX_LONG_RUNNING_ENTRY_MINUTES) {
+            return HttpResponse.badRequest(
+                NotificationSettingsErrorResponse(
+                    "Invalid long running entry threshold",
+                    "INVALID_LONG_RUNNING_ENTRY_THRESHOLD",
+                ),
+            )
+        }
+
+        notificationSettingsService.saveForUser(
+            NotificationSettings(
+                userId = currentUser.id,
+                noActiveEntryEnabled = request.noActiveEntryEnabled,
+                workingHoursFrom = request.workingHoursFrom,
+                workingHoursTo = request.workingHoursTo,
+                workingDays = request.workingDays.toSortedSet(compareBy { it.ordinal }),
+                longRunningEntryEnabled = request.longRunningEntryEnabled,
+                longRunningEntryMinutes = request.longRunningEntryMinutes,
+                dailyGoalReachedEnabled = request.dailyGoalReachedEnabled,
+            ),
+        )
+
+        return HttpResponse.ok(NotificationSettingsSuccessResponse("Notification settings updated successfully"))
+    }
+}
+
+@Serdeable
+@Introspected
+data class NotificationSettingsResponse(
+    val noActiveEntryEnabled: Boolean,
+    val workingHoursFrom: String,
+    val workingHoursTo: String,
+    val workingDays: List<WeekDay>,
+    val longRunningEntryEnabled: Boolean,
+    val longRunningEntryMinutes: Int,
+    val dailyGoalReachedEnabled: Boolean,
+)
+
+@Serdeable
+@Introspected
+data class UpdateNotificationSettingsRequest(
+    val noActiveEntryEnabled: Boolean,
+    @field:NotNull
+    val workingHoursFrom: LocalTime,
+    @field:NotNull
+    val workingHoursTo: LocalTime,
+    val workingDays: Set<WeekDay> = GoalsSettingsView.defaultWeeklyWorkingDays.toSet(),
+    val longRunningEntryEnabled: Boolean,
+    val longRunningEntryMinutes: Int,
+    val dailyGoalReachedEnabled: Boolean,
+)
+
+@Serdeable
+@Introspected
+data class NotificationSettingsSuccessResponse(
+    val message: String,
+)
+
+@Serdeable
+@Introspected
+data class NotificationSettingsErrorResponse(
+    val error: String,
+    val errorCode: String,
+)
@@ -0,0 +1,23 @@
+package io.orangebuffalo.aionify.domain
+
+import jakarta.inject.Singleton
+
+@Singleton
+class NotificationSettingsService(
+    private val notificationSettingsRepository: NotificationSettingsRepository,
+) {
+    fun getForUser(userId: Long): NotificationSettings =
+        notificationSettingsRepository.findByUserId(userId).orElse(null) ?: NotificationSettings.create(userId)
+
+    /**
+     * Saves the given settings in place of the existing ones of the same user, if any.
+     */
+    fun saveForUser(settings: NotificationSettings) {
+        val existingSettings = notificationSettingsRepository.findByUserId(settings.userId).orElse(null)
+        if (existingSettings == null) {
+            notificationSettingsRepository.save(settings.copy(id = null))
+        } else {
+            notificationSettingsRepository.update(settings.copy(id = existingSettings.id))
+        }
+    }
+}
@@ -0,0 +1,26 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.data.annotation.GeneratedValue
+import io.micronaut.data.annotation.Id
+import io.micronaut.data.annotation.MappedEntity
+import io.micronaut.data.annotation.MappedProperty
+import io.micronaut.data.model.DataType
+
+/**
+ * A title and tags combination pinned by the user to quickly start new entries with,
+ * along with whether the started entries are billable.
+ */
+@MappedEntity("pinned_entry")
+data class PinnedEntry(
+    @field:Id
+    @field:GeneratedValue(GeneratedValue.Type.IDENTITY)
+    val id: Long? = null,
+    @field:MappedProperty("user_id")
+    val userId: Long,
+    @field:MappedProperty("sort_order")
+    val sortOrder: Int,
+    val title: String,
+    @field:MappedProperty(type = DataType.STRING_ARRAY)
+    val tags: Array<String> = emptyArray(),
+    val billable: Boolean = false,
+)
@@ -0,0 +1,16 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.data.jdbc.annotation.JdbcRepository
+import io.micronaut.data.model.query.builder.sql.Dialect
+import io.micronaut.data.repository.CrudRepository
+import java.util.Optional
+
+@JdbcRepository(dialect = Dialect.POSTGRES)
+interface PinnedEntryRepository : CrudRepository<PinnedEntry, Long> {
+    fun findByUserIdOrderBySortOrderAsc(userId: Long): List<PinnedEntry>
+
+    fun findByIdAndUserId(
+        id: Long,
+        userId: Long,
+    ): Optional<PinnedEntry>
+}
@@ -0,0 +1,178 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.core.annotation.Introspected
+import io.micronaut.http.HttpResponse
+import io.micronaut.http.annotation.Body
+import io.micronaut.http.annotation.Controller
+import io.micronaut.http.annotation.Delete
+import io.micronaut.http.annotation.Get
+import io.micronaut.http.annotation.PathVariable
+import io.micronaut.http.annotation.Post
+import io.micronaut.http.annotation.Put
+import io.micronaut.security.annotation.Secured
+import io.micronaut.security.rules.SecurityRule
+import io.micronaut.serde.annotation.Serdeable
+import io.swagger.v3.oas.annotations.Hidden
+import jakarta.transaction.Transactional
+import jakarta.validation.Valid
+import jakarta.validation.constraints.NotBlank
+import jakarta.validation.constraints.Size
+
+private const val MAX_PINNED_ENTRIES = 50
+
+@Controller("/api-ui/pinned-entries")
+@Secured(SecurityRule.IS_AUTHENTICATED)
+@Transactional
+@Hidden
+open class PinnedEntryResource(
+    private val pinnedEntryRepository: PinnedEntryRepository,
+) {
+    private val log = org.slf4j.LoggerFactory.getLogger(PinnedEntryResource::class.java)
+
+    @Get
+    open fun listPinnedEntries(currentUser: UserWithId): HttpResponse<PinnedEntriesResponse> {
+        val pinnedEntries = pinnedEntryRepository.findByUserIdOrderBySortOrderAsc(currentUser.id)
+        return HttpResponse.ok(PinnedEntriesResponse(entries = pinnedEntries.map { it.toDto() }))
+    }
+
+    @Post
+    open fun pinEntry(
+        @Valid @Body request: PinEntryRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        log.debug("Pinning entry for user: {}, title: {}", currentUser.user.userName, request.title)
+
+        val pinnedEntries = pinnedEntryRepository.findByUserIdOrderBySortOrderAsc(currentUser.id)
+
+        // The same title and tags combination is pinned only once, regardless of the tags order
+        val tags = request.tags.toSet()
+        if (pinnedEntries.any { it.title == request.title && it.tags.toSet() == tags }) {
+            log.debug("Pin entry failed: already pinned for user: {}", currentUser.user.userName)
+            return HttpResponse.badRequest(
+                PinnedEntryErrorResponse("Entry is already pinned", "PINNED_ENTRY_ALREADY_EXISTS"),
+            )
+        }
+
+        if (pinnedEntries.size >= MAX_PINNED_ENTRIES) {
+            log.debug("Pin entry failed: too many pinned entries for user: {}", currentUser.user.userName)
+            return HttpResponse.badRequest(
+                PinnedEntryErrorResponse("Cannot pin more than $MAX_PINNED_ENTRIES entries", "TOO_MANY_PINNED_ENTRIES"),
+            )
+        }
+
+        val pinnedEntry =
+            pinnedEntryRepository.save(
+                PinnedEntry(
+                    userId = currentUser.id,
+                    sortOrder = (pinnedEntries.maxOfOrNull { it.sortOrder } ?: -1) + 1,
+                    title = request.title,
+                    tags = request.tags.toTypedArray(),
+                    billable = request.billable,
+                ),
+            )
+
+        log.info("Entry pinned: {} for user: {}", pinnedEntry.id, currentUser.user.userName)
+
+        return HttpResponse.created(pinnedEntry.toDto())
+    }
+
+    @Delete("/{id}")
+    open fun unpinEntry(
+        @PathVariable id: Long,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        val pinnedEntry =
+            pinnedEntryRepository.findByIdAndUserId(id, currentUser.id).orElse(null) ?: run {
+                log.debug("Unpin entry failed: pinned entry not found: {}", id)
+                return pinnedEntryNotFoundResponse()
+            }
+
+        pinnedEntryRepository.delete(pinnedEntry)
+
+        log.info("Entry unpinned: {} for user: {}", id, currentUser.user.userName)
+
+        return HttpResponse.ok(PinnedEntrySuccessResponse("Entry unpinned successfully"))
+    }
+
+    /**
+     * Reorders all pinned entries of the user; the request must list each of them exactly once.
+     */
+    @Put("/order")
+    open fun reorderPinnedEntries(
+        @Body request: ReorderPinnedEntriesRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        val pinnedEntries = pinnedEntryRepository.findByUserIdOrderBySortOrderAsc(currentUser.id).associateBy { it.id }
+
+        if (request.ids.size != pinnedEntries.size || request.ids.toSet() != pinnedEntries.keys) {
+            log.debug("Reorder pinned entries failed: ids do not match for user: {}", currentUser.user.userName)
+            return HttpResponse.badRequest(
+                PinnedEntryErrorResponse("Pinned entries do not match", "INVALID_PINNED_ENTRIES_ORDER"),
+            )
+        }
+
+        val reorderedEntries =
+            request.ids.mapIndexed { index, id ->
+                pinnedEntryRepository.update(requireNotNull(pinnedEntries[id]).copy(sortOrder = index))
+            }
+
+        return HttpResponse.ok(PinnedEntriesResponse(entries = reorderedEntries.map { it.toDto() }))
+    }
+
+    private fun pinnedEntryNotFoundResponse(): HttpResponse<PinnedEntryErrorResponse> =
+        HttpResponse
+            .notFound<PinnedEntryErrorResponse>()
+            .body(PinnedEntryErrorResponse("Pinned entry not found", "PINNED_ENTRY_NOT_FOUND"))
+
+    private fun PinnedEntry.toDto() =
+        PinnedEntryDto(
+            id = requireNotNull(id),
+            title = title,
+            tags = tags.toList(),
+            billable = billable,
+        )
+}
+
+@Serdeable
+@Introspected
+data class PinnedEntryDto(
+    val id: Long,
+    val title: String,
+    val tags: List<String>,
+    val billable: Boolean,
+)
+
+@Serdeable
+@Introspected
+data class PinnedEntriesResponse(
+    val entries: List<PinnedEntryDto>,
+)
+
+@Serdeable
+@Introspected
+data class PinEntryRequest(
+    @field:NotBlank(message = "Title cannot be blank")
+    @field:Size(max = 1000, message = "Title cannot exceed 1000 characters")
+    val title: String,
+    val tags: List<String> = emptyList(),
+    val billable: Boolean = false,
+)
+
+@Serdeable
+@Introspected
+data class ReorderPinnedEntriesRequest(
+    val ids: List<Long>,
+)
+
+@Serdeable
+@Introspected
+data class PinnedEntrySuccessResponse(
+    val message: String,
+)
+
+@Serdeable
+@Introspected
+data class PinnedEntryErrorResponse(
+    val error: String,
+    val errorCode: String,
+)
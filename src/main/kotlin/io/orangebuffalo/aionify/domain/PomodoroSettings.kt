@@ -0,0 +1,41 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.data.annotation.GeneratedValue
+import io.micronaut.data.annotation.Id
+import io.micronaut.data.annotation.MappedEntity
+import io.micronaut.data.annotation.MappedProperty
+
+@MappedEntity("pomodoro_settings")
+data class PomodoroSettings(
+    @field:Id
+    @field:GeneratedValue(GeneratedValue.Type.IDENTITY)
+    val id: Long? = null,
+    @field:MappedProperty("user_id")
+    val userId: Long,
+    val enabled: Boolean = false,
+    @field:MappedProperty("work_minutes")
+    val workMinutes: Int = DEFAULT_WORK_MINUTES,
+    @field:MappedProperty("break_minutes")
+    val breakMinutes: Int = DEFAULT_BREAK_MINUTES,
+    @field:MappedProperty("interval_end_action")
+    val intervalEndAction: PomodoroIntervalEndAction = PomodoroIntervalEndAction.NOTIFY,
+    @field:MappedProperty("break_tag")
+    val breakTag: String = DEFAULT_BREAK_TAG,
+) {
+    companion object {
+        const val DEFAULT_WORK_MINUTES = 25
+        const val DEFAULT_BREAK_MINUTES = 5
+        const val DEFAULT_BREAK_TAG = "break"
+
+        fun create(userId: Long) = PomodoroSettings(userId = userId)
+    }
+}
+
+/**
+ * What happens when a focus interval of the active entry ends; the user is notified in any case.
+ */
+enum class PomodoroIntervalEndAction {
+    NOTIFY,
+    STOP_ENTRY,
+    START_BREAK,
+}
@@ -0,0 +1,105 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.core.annotation.Introspected
+import io.micronaut.http.HttpResponse
+import io.micronaut.http.annotation.Body
+import io.micronaut.http.annotation.Controller
+import io.micronaut.http.annotation.Get
+import io.micronaut.http.annotation.Put
+import io.micronaut.security.annotation.Secured
+import io.micronaut.security.rules.SecurityRule
+import io.micronaut.serde.annotation.Serdeable
+import io.swagger.v3.oas.annotations.Hidden
+import jakarta.transaction.Transactional
+import jakarta.validation.Valid
+import jakarta.validation.constraints.NotNull
+
+private const val MAX_INTERVAL_MINUTES = 24 * 60
+private const val MAX_BREAK_TAG_LENGTH = 255
+
+@Controller("/api-ui/users/pomodoro-settings")
+@Secured(SecurityRule.IS_AUTHENTICATED)
+@Transactional
+@Hidden
+open class PomodoroSettingsResource(
+    private val pomodoroSettingsService: PomodoroSettingsService,
+) {
+    @Get
+    open fun getPomodoroSettings(currentUser: UserWithId): HttpResponse<PomodoroSettingsResponse> {
+        val settings = pomodoroSettingsService.getForUser(currentUser.id)
+        return HttpResponse.ok(
+            PomodoroSettingsResponse(
+                enabled = settings.enabled,
+                workMinutes = settings.workMinutes,
+                breakMinutes = settings.breakMinutes,
+                intervalEndAction = settings.intervalEndAction,
+                breakTag = settings.breakTag,
+            ),
+        )
+    }
+
+    @Put
+    open fun updatePomodoroSettings(
+        @Valid @Body request: UpdatePomodoroSettingsRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        if (request.workMinutes !in 1..MAX_INTERVAL_MINUTES || request.breakMinutes !in 1..MAX_INTERVAL_MINUTES) {
+            return HttpResponse.badRequest(
+                PomodoroSettingsErrorResponse("Invalid interval length", "INVALID_POMODORO_INTERVAL"),
+            )
+        }
+
+        val breakTag = request.breakTag.trim()
+        val breakTagRequired = request.intervalEndAction == PomodoroIntervalEndAction.START_BREAK
+        if ((breakTagRequired && breakTag.isEmpty()) || breakTag.length > MAX_BREAK_TAG_LENGTH) {
+            return HttpResponse.badRequest(
+                PomodoroSettingsErrorResponse("Invalid break tag", "INVALID_POMODORO_BREAK_TAG"),
+            )
+        }
+
+        pomodoroSettingsService.saveForUser(
+            userId = currentUser.id,
+            enabled = request.enabled,
+            workMinutes = request.workMinutes,
+            breakMinutes = request.breakMinutes,
+            intervalEndAction = request.intervalEndAction,
+            breakTag = breakTag.ifEmpty { PomodoroSettings.DEFAULT_BREAK_TAG },
+        )
+
+        return HttpResponse.ok(PomodoroSettingsSuccessResponse("Pomodoro settings updated successfully"))
+    }
+}
+
+@Serdeable
+@Introspected
+data class PomodoroSettingsResponse(
+    val enabled: Boolean,
+    val workMinutes: Int,
+    val breakMinutes: Int,
+    val intervalEndAction: PomodoroIntervalEndAction,
+    val breakTag: String,
+)
+
+@Serdeable
+@Introspected
+data class UpdatePomodoroSettingsRequest(
+    val enabled: Boolean,
+    val workMinutes: Int,
+    val breakMinutes: Int,
+    @field:NotNull
+    val intervalEndAction: PomodoroIntervalEndAction,
+    val breakTag: String = PomodoroSettings.DEFAULT_BREAK_TAG,
+)
+
+@Serdeable
+@Introspected
+data class PomodoroSettingsSuccessResponse(
+    val message: String,
+)
+
+@Serdeable
+@Introspected
+data class PomodoroSettingsErrorResponse(
+    val error: String,
+    val errorCode: String,
+)
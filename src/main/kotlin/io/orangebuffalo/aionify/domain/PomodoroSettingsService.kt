@@ -0,0 +1,44 @@
+package io.orangebuffalo.aionify.domain
+
+import jakarta.inject.Singleton
+
+@Singleton
+class PomodoroSettingsService(
+    private val pomodoroSettingsRepository: PomodoroSettingsRepository,
+) {
+    fun getForUser(userId: Long): PomodoroSettings =
+        pomodoroSettingsRepository.findByUserId(userId).orElse(null) ?: PomodoroSettings.create(userId)
+
+    fun saveForUser(
+        userId: Long,
+        enabled: Boolean,
+        workMinutes: Int,
+        breakMinutes: Int,
+        intervalEndAction: PomodoroIntervalEndAction,
+        breakTag: String,
+    ) {
+        val settings = pomodoroSettingsRepository.findByUserId(userId).orElse(null)
+        if (settings == null) {
+            pomodoroSettingsRepository.save(
+                PomodoroSettings(
+                    userId = userId,
+                    enabled = enabled,
+                    workMinutes = workMinutes,
+                    breakMinutes = breakMinutes,
+                    intervalEndAction = intervalEndAction,
+                    breakTag = breakTag,
+                ),
+            )
+        } else {
+            pomodoroSettingsRepository.update(
+                settings.copy(
+                    enabled = enabled,
+                    workMinutes = workMinutes,
+                    breakMinutes = breakMinutes,
+                    intervalEndAction = intervalEndAction,
+                    breakTag = breakTag,
+                ),
+            )
+        }
+    }
+}
@@ -0,0 +1,57 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.data.annotation.GeneratedValue
+import io.micronaut.data.annotation.Id
+import io.micronaut.data.annotation.MappedEntity
+import io.micronaut.data.annotation.MappedProperty
+import java.time.Duration
+
+@MappedEntity("rounding_settings")
+data class RoundingSettings(
+    @field:Id
+    @field:GeneratedValue(GeneratedValue.Type.IDENTITY)
+    val id: Long? = null,
+    @field:MappedProperty("user_id")
+    val userId: Long,
+    val enabled: Boolean = false,
+    @field:MappedProperty("increment_minutes")
+    val incrementMinutes: Int = DEFAULT_INCREMENT_MINUTES,
+    val direction: RoundingDirection = RoundingDirection.NEAREST,
+    val application: RoundingApplication = RoundingApplication.ON_DISPLAY,
+) {
+    companion object {
+        const val DEFAULT_INCREMENT_MINUTES = 15
+
+        fun create(userId: Long) = RoundingSettings(userId = userId)
+    }
+
+    /**
+     * Rounds the duration to a multiple of the increment in the configured direction.
+     */
+    fun roundDuration(duration: Duration): Duration {
+        val seconds = duration.seconds
+        val incrementSeconds = incrementMinutes * 60L
+        val increments =
+            when (direction) {
+                RoundingDirection.UP -> (seconds + incrementSeconds - 1) / incrementSeconds
+                RoundingDirection.DOWN -> seconds / incrementSeconds
+                RoundingDirection.NEAREST -> (seconds + incrementSeconds / 2) / incrementSeconds
+            }
+        return Duration.ofSeconds(increments * incrementSeconds)
+    }
+}
+
+enum class RoundingDirection {
+    UP,
+    DOWN,
+    NEAREST,
+}
+
+/**
+ * When the rounding is applied: either to the stored times when an entry is stopped,
+ * or only to the displayed and reported totals, keeping the tracked times intact.
+ */
+enum class RoundingApplication {
+    ON_STOP,
+    ON_DISPLAY,
+}
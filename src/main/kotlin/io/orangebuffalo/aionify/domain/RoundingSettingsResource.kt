@@ -0,0 +1,93 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.core.annotation.Introspected
+import io.micronaut.http.HttpResponse
+import io.micronaut.http.annotation.Body
+import io.micronaut.http.annotation.Controller
+import io.micronaut.http.annotation.Get
+import io.micronaut.http.annotation.Put
+import io.micronaut.security.annotation.Secured
+import io.micronaut.security.rules.SecurityRule
+import io.micronaut.serde.annotation.Serdeable
+import io.swagger.v3.oas.annotations.Hidden
+import jakarta.transaction.Transactional
+import jakarta.validation.Valid
+import jakarta.validation.constraints.NotNull
+
+private const val MAX_INCREMENT_MINUTES = 24 * 60
+
+@Controller("/api-ui/users/rounding-settings")
+@Secured(SecurityRule.IS_AUTHENTICATED)
+@Transactional
+@Hidden
+open class RoundingSettingsResource(
+    private val roundingSettingsService: RoundingSettingsService,
+) {
+    @Get
+    open fun getRoundingSettings(currentUser: UserWithId): HttpResponse<RoundingSettingsResponse> {
+        val settings = roundingSettingsService.getForUser(currentUser.id)
+        return HttpResponse.ok(
+            RoundingSettingsResponse(
+                enabled = settings.enabled,
+                incrementMinutes = settings.incrementMinutes,
+                direction = settings.direction,
+                application = settings.application,
+            ),
+        )
+    }
+
+    @Put
+    open fun updateRoundingSettings(
+        @Valid @Body request: UpdateRoundingSettingsRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        if (request.incrementMinutes !in 1..MAX_INCREMENT_MINUTES) {
+            return HttpResponse.badRequest(
+                RoundingSettingsErrorResponse("Invalid rounding increment", "INVALID_ROUNDING_INCREMENT"),
+            )
+        }
+
+        roundingSettingsService.saveForUser(
+            userId = currentUser.id,
+            enabled = request.enabled,
+            incrementMinutes = request.incrementMinutes,
+            direction = request.direction,
+            application = request.application,
+        )
+
+        return HttpResponse.ok(RoundingSettingsSuccessResponse("Rounding settings updated successfully"))
+    }
+}
+
+@Serdeable
+@Introspected
+data class RoundingSettingsResponse(
+    val enabled: Boolean,
+    val incrementMinutes: Int,
+    val direction: RoundingDirection,
+    val application: RoundingApplication,
+)
+
+@Serdeable
+@Introspected
+data class UpdateRoundingSettingsRequest(
+    val enabled: Boolean,
+    val incrementMinutes: Int,
+    @field:NotNull
+    val direction: RoundingDirection,
+    @field:NotNull
+    val application: RoundingApplication,
+)
+
+@Serdeable
+@Introspected
+data class RoundingSettingsSuccessResponse(
+    val message: String,
+)
+
+@Serdeable
+@Introspected
+data class RoundingSettingsErrorResponse(
+    val error: String,
+    val errorCode: String,
+)
@@ -0,0 +1,69 @@
+package io.orangebuffalo.aionify.domain
+
+import jakarta.inject.Singleton
+import java.time.Duration
+import java.time.Instant
+
+@Singleton
+class RoundingSettingsService(
+    private val roundingSettingsRepository: RoundingSettingsRepository,
+) {
+    fun getForUser(userId: Long): RoundingSettings =
+        roundingSettingsRepository.findByUserId(userId).orElse(null) ?: RoundingSettings.create(userId)
+
+    fun saveForUser(
+        userId: Long,
+        enabled: Boolean,
+        incrementMinutes: Int,
+        direction: RoundingDirection,
+        application: RoundingApplication,
+    ) {
+        val settings = roundingSettingsRepository.findByUserId(userId).orElse(null)
+        if (settings == null) {
+            roundingSettingsRepository.save(
+                RoundingSettings(
+                    userId = userId,
+                    enabled = enabled,
+                    incrementMinutes = incrementMinutes,
+                    direction = direction,
+                    application = application,
+                ),
+            )
+        } else {
+            roundingSettingsRepository.update(
+                settings.copy(
+                    enabled = enabled,
+                    incrementMinutes = incrementMinutes,
+                    direction = direction,
+                    application = application,
+                ),
+            )
+        }
+    }
+
+    /**
+     * Calculates the end time of an entry being stopped: if the user rounds entries on stop,
+     * the end time is moved so that the duration of the entry is rounded.
+     * The end time is never moved past the actual end time, so that the entry neither ends in the future
+     * nor overlaps the entry started after it; entries that would be rounded to zero or past the actual end
+     * keep the actual end time.
+     */
+    fun getStopTime(
+        userId: Long,
+        startTime: Instant,
+        endTime: Instant,
+    ): Instant {
+        val settings = getForUser(userId)
+        if (!settings.enabled || settings.application != RoundingApplication.ON_STOP) return endTime
+
+        val roundedDuration = settings.roundDuration(Duration.between(startTime, endTime))
+        val roundedEndTime = startTime.plus(roundedDuration)
+        return if (roundedDuration.isZero || roundedEndTime.isAfter(endTime)) endTime else roundedEndTime
+    }
+
+    /**
+     * Rounding settings to apply to the displayed and reported totals, or null if the user does not round them.
+     */
+    fun getDisplayRounding(userId: Long): RoundingSettings? =
+        getForUser(userId).takeIf { it.enabled && it.application == RoundingApplication.ON_DISPLAY }
+}
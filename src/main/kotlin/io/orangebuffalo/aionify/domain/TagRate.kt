@@ -0,0 +1,24 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.data.annotation.GeneratedValue
+import io.micronaut.data.annotation.Id
+import io.micronaut.data.annotation.MappedEntity
+import io.micronaut.data.annotation.MappedProperty
+import java.math.BigDecimal
+
+/**
+ * Hourly rate of the billable entries having the tag.
+ */
+@MappedEntity("tag_rate")
+data class TagRate(
+    @field:Id
+    @field:GeneratedValue(GeneratedValue.Type.IDENTITY)
+    val id: Long? = null,
+    @field:MappedProperty("user_id")
+    val userId: Long,
+    val tag: String,
+    @field:MappedProperty("hourly_rate")
+    val hourlyRate: BigDecimal,
+    /** ISO 4217 currency code */
+    val currency: String,
+)
@@ -0,0 +1,21 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.data.jdbc.annotation.JdbcRepository
+import io.micronaut.data.model.query.builder.sql.Dialect
+import io.micronaut.data.repository.CrudRepository
+import java.util.Optional
+
+@JdbcRepository(dialect = Dialect.POSTGRES)
+interface TagRateRepository : CrudRepository<TagRate, Long> {
+    fun findByUserIdOrderByTagAsc(userId: Long): List<TagRate>
+
+    fun findByUserIdAndTag(
+        userId: Long,
+        tag: String,
+    ): Optional<TagRate>
+
+    fun findByIdAndUserId(
+        id: Long,
+        userId: Long,
+    ): Optional<TagRate>
+}
@@ -0,0 +1,147 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.core.annotation.Introspected
+import io.micronaut.http.HttpResponse
+import io.micronaut.http.annotation.Body
+import io.micronaut.http.annotation.Controller
+import io.micronaut.http.annotation.Delete
+import io.micronaut.http.annotation.Get
+import io.micronaut.http.annotation.PathVariable
+import io.micronaut.http.annotation.Put
+import io.micronaut.security.annotation.Secured
+import io.micronaut.security.rules.SecurityRule
+import io.micronaut.serde.annotation.Serdeable
+import io.swagger.v3.oas.annotations.Hidden
+import jakarta.transaction.Transactional
+import jakarta.validation.Valid
+import jakarta.validation.constraints.NotBlank
+import jakarta.validation.constraints.Size
+import java.math.BigDecimal
+import java.math.RoundingMode
+
+private val MAX_HOURLY_RATE = BigDecimal("1000000")
+private val CURRENCY_PATTERN = Regex("^[A-Z]{3}$")
+
+@Controller("/api-ui/tag-rates")
+@Secured(SecurityRule.IS_AUTHENTICATED)
+@Transactional
+@Hidden
+open class TagRateResource(
+    private val tagRateRepository: TagRateRepository,
+) {
+    private val log = org.slf4j.LoggerFactory.getLogger(TagRateResource::class.java)
+
+    @Get
+    open fun listTagRates(currentUser: UserWithId): HttpResponse<TagRatesResponse> {
+        val tagRates = tagRateRepository.findByUserIdOrderByTagAsc(currentUser.id)
+        return HttpResponse.ok(TagRatesResponse(rates = tagRates.map { it.toDto() }))
+    }
+
+    /**
+     * Sets the hourly rate of the tag, replacing the existing rate of the tag if any.
+     */
+    @Put
+    open fun saveTagRate(
+        @Valid @Body request: SaveTagRateRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        log.debug("Saving tag rate for user: {}, tag: {}", currentUser.user.userName, request.tag)
+
+        if (request.hourlyRate <= BigDecimal.ZERO || request.hourlyRate >= MAX_HOURLY_RATE) {
+            log.debug("Save tag rate failed: invalid hourly rate: {}", request.hourlyRate)
+            return HttpResponse.badRequest(TagRateErrorResponse("Invalid hourly rate", "INVALID_HOURLY_RATE"))
+        }
+
+        val currency = request.currency.trim().uppercase()
+        if (!CURRENCY_PATTERN.matches(currency)) {
+            log.debug("Save tag rate failed: invalid currency: {}", request.currency)
+            return HttpResponse.badRequest(TagRateErrorResponse("Invalid currency", "INVALID_CURRENCY"))
+        }
+
+        val hourlyRate = request.hourlyRate.setScale(2, RoundingMode.HALF_UP)
+        val existingRate = tagRateRepository.findByUserIdAndTag(currentUser.id, request.tag).orElse(null)
+        val tagRate =
+            if (existingRate == null) {
+                tagRateRepository.save(
+                    TagRate(
+                        userId = currentUser.id,
+                        tag = request.tag,
+                        hourlyRate = hourlyRate,
+                        currency = currency,
+                    ),
+                )
+            } else {
+                tagRateRepository.update(existingRate.copy(hourlyRate = hourlyRate, currency = currency))
+            }
+
+        log.info("Tag rate saved: {} for user: {}", tagRate.id, currentUser.user.userName)
+
+        return HttpResponse.ok(tagRate.toDto())
+    }
+
+    @Delete("/{id}")
+    open fun deleteTagRate(
+        @PathVariable id: Long,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        val tagRate =
+            tagRateRepository.findByIdAndUserId(id, currentUser.id).orElse(null) ?: run {
+                log.debug("Delete tag rate failed: tag rate not found: {}", id)
+                return HttpResponse
+                    .notFound<TagRateErrorResponse>()
+                    .body(TagRateErrorResponse("Tag rate not found", "TAG_RATE_NOT_FOUND"))
+            }
+
+        tagRateRepository.delete(tagRate)
+
+        log.info("Tag rate deleted: {} for user: {}", id, currentUser.user.userName)
+
+        return HttpResponse.ok(TagRateSuccessResponse("Tag rate deleted successfully"))
+    }
+
+    private fun TagRate.toDto() =
+        TagRateDto(
+            id = requireNotNull(id),
+            tag = tag,
+            hourlyRate = hourlyRate,
+            currency = currency,
+        )
+}
+
+@Serdeable
+@Introspected
+data class TagRateDto(
+    val id: Long,
+    val tag: String,
+    val hourlyRate: BigDecimal,
+    val currency: String,
+)
+
+@Serdeable
+@Introspected
+data class TagRatesResponse(
+    val rates: List<TagRateDto>,
+)
+
+@Serdeable
+@Introspected
+data class SaveTagRateRequest(
+    @field:NotBlank(message = "Tag cannot be blank")
+    @field:Size(max = 255, message = "Tag cannot exceed 255 characters")
+    val tag: String,
+    val hourlyRate: BigDecimal,
+    val currency: String,
+)
+
+@Serdeable
+@Introspected
+data class TagRateSuccessResponse(
+    val message: String,
+)
+
+@Serdeable
+@Introspected
+data class TagRateErrorResponse(
+    val error: String,
+    val errorCode: String,
+)
@@ -16,7 +16,8 @@ interface TagStatsRepository : GenericRepository<TimeLogEntry, Long> {
      */
     @Query(
         """SELECT t.tag, COUNT(*) AS count, (lt.id IS NOT NULL) AS is_legacy
-           FROM (SELECT unnest(tags) AS tag FROM time_log_entry WHERE owner_id = :ownerId AND array_length(tags, 1) > 0) t
+           FROM (SELECT unnest(tags) AS tag FROM time_log_entry
+                 WHERE owner_id = :ownerId AND deleted_at IS NULL AND array_length(tags, 1) > 0) t
            LEFT JOIN legacy_tag lt ON lt.user_id = :ownerId AND lt.name = t.tag
            GROUP BY t.tag, lt.id
            ORDER BY t.tag ASC""",
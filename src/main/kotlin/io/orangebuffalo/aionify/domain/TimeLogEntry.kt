@@ -4,10 +4,16 @@ import io.micronaut.data.annotation.GeneratedValue
 import io.micronaut.data.annotation.Id
 import io.micronaut.data.annotation.MappedEntity
 import io.micronaut.data.annotation.MappedProperty
+import io.micronaut.data.annotation.Where
 import io.micronaut.data.model.DataType
 import java.time.Instant
 
+/**
+ * Soft-deleted entries (with non-null [deletedAt]) are excluded from all generated queries,
+ * and are kept only to allow undoing the deletion.
+ */
 @MappedEntity("time_log_entry")
+@Where("@.deleted_at IS NULL")
 data class TimeLogEntry(
     @field:Id
     @field:GeneratedValue(GeneratedValue.Type.IDENTITY)
@@ -23,4 +29,8 @@ data class TimeLogEntry(
     val tags: Array<String> = emptyArray(),
     @field:MappedProperty(type = DataType.STRING_ARRAY)
     val metadata: Array<String> = emptyArray(),
+    @field:MappedProperty("deleted_at")
+    val deletedAt: Instant? = null,
+    /** Whether the time of the entry is billed to the client, at the hourly rate of its tags */
+    val billable: Boolean = false,
 )
@@ -7,6 +7,23 @@ import io.micronaut.data.repository.CrudRepository
 import java.time.Instant
 import java.util.Optional
 
+/**
+ * Conditions of the full-history entries search; see [TimeLogEntryRepository.search] for the parameters.
+ */
+private const val SEARCH_CONDITIONS =
+    """owner_id = :ownerId
+       AND deleted_at IS NULL
+       AND start_time >= :startTimeFrom
+       AND start_time < :startTimeTo
+       AND (:searchTokens = '' OR (
+           SELECT bool_and(LOWER(title) LIKE LOWER('%' || token || '%'))
+           FROM unnest(string_to_array(:searchTokens, ' ')) AS token
+           WHERE token != ''
+       ))
+       AND tags @> string_to_array(:tags, chr(10))
+       AND EXTRACT(EPOCH FROM (COALESCE(end_time, :now) - start_time)) >= :minDurationSeconds
+       AND EXTRACT(EPOCH FROM (COALESCE(end_time, :now) - start_time)) <= :maxDurationSeconds"""
+
 @JdbcRepository(dialect = Dialect.POSTGRES)
 interface TimeLogEntryRepository : CrudRepository<TimeLogEntry, Long> {
     fun findAllOrderById(): List<TimeLogEntry>
@@ -26,6 +43,7 @@ interface TimeLogEntryRepository : CrudRepository<TimeLogEntry, Long> {
     @Query(
         """SELECT * FROM time_log_entry
            WHERE owner_id = :ownerId
+           AND deleted_at IS NULL
            AND start_time >= :startTimeFrom
            AND start_time < :startTimeTo
            ORDER BY start_time DESC
@@ -45,6 +63,7 @@ interface TimeLogEntryRepository : CrudRepository<TimeLogEntry, Long> {
     @Query(
         """SELECT COUNT(*) FROM time_log_entry
            WHERE owner_id = :ownerId
+           AND deleted_at IS NULL
            AND start_time >= :startTimeFrom
            AND start_time < :startTimeTo""",
     )
@@ -54,11 +73,57 @@ interface TimeLogEntryRepository : CrudRepository<TimeLogEntry, Long> {
         startTimeTo: Instant,
     ): Long
 
+    /**
+     * Find log entries of the owner overlapping the time range, including the active entry started before its end.
+     */
+    @Query(
+        """SELECT * FROM time_log_entry
+           WHERE owner_id = :ownerId
+           AND deleted_at IS NULL
+           AND start_time < :endTime
+           AND (end_time IS NULL OR end_time > :startTime)
+           ORDER BY start_time DESC""",
+    )
+    fun findOverlappingTimeRange(
+        ownerId: Long,
+        startTime: Instant,
+        endTime: Instant,
+    ): List<TimeLogEntry>
+
     /**
      * Find the active log entry (with null endTime) for a specific owner.
      */
     fun findByOwnerIdAndEndTimeIsNull(ownerId: Long): Optional<TimeLogEntry>
 
+    /**
+     * Find the latest stopped log entry (with non-null endTime) for a specific owner.
+     */
+    fun findFirstByOwnerIdAndEndTimeIsNotNullOrderByStartTimeDesc(ownerId: Long): Optional<TimeLogEntry>
+
+    /**
+     * Find the latest stopped log entry of the owner started before the given time.
+     */
+    fun findFirstByOwnerIdAndEndTimeIsNotNullAndStartTimeLessThanOrderByStartTimeDesc(
+        ownerId: Long,
+        startTime: Instant,
+    ): Optional<TimeLogEntry>
+
+    /**
+     * Check whether any stopped log entry of the owner ends after the given time, i.e. overlaps the time since then.
+     */
+    @Query(
+        """SELECT EXISTS(
+               SELECT 1 FROM time_log_entry
+               WHERE owner_id = :ownerId
+               AND deleted_at IS NULL
+               AND end_time > :time
+           )""",
+    )
+    fun existsStoppedEntryEndingAfter(
+        ownerId: Long,
+        time: Instant,
+    ): Boolean
+
     /**
      * Find log entry by id and owner (for security checks).
      */
@@ -87,6 +152,7 @@ interface TimeLogEntryRepository : CrudRepository<TimeLogEntry, Long> {
                SELECT DISTINCT ON (title) *
                FROM time_log_entry
                WHERE owner_id = :ownerId
+               AND deleted_at IS NULL
                AND (:searchTokens = '' OR (
                    SELECT bool_and(LOWER(title) LIKE LOWER('%' || token || '%'))
                    FROM unnest(string_to_array(:searchTokens, ' ')) AS token
@@ -100,4 +166,115 @@ interface TimeLogEntryRepository : CrudRepository<TimeLogEntry, Long> {
         ownerId: Long,
         searchTokens: String,
     ): List<TimeLogEntry>
+
+    /**
+     * Full-history search of entries with pagination, ordered by start time descending.
+     * Entries must contain all the title tokens (case-insensitive) and all the tags (separated by new lines);
+     * empty tokens and tags match any entry. Durations of active entries are calculated until [now].
+     */
+    @Query(
+        """SELECT * FROM time_log_entry
+           WHERE $SEARCH_CONDITIONS
+           ORDER BY start_time DESC
+           LIMIT :limit OFFSET :offset""",
+    )
+    fun search(
+        ownerId: Long,
+        searchTokens: String,
+        tags: String,
+        startTimeFrom: Instant,
+        startTimeTo: Instant,
+        minDurationSeconds: Long,
+        maxDurationSeconds: Long,
+        now: Instant,
+        limit: Int,
+        offset: Int,
+    ): List<TimeLogEntry>
+
+    /**
+     * Count all entries matching the full-history search, see [search].
+     */
+    @Query("SELECT COUNT(*) FROM time_log_entry WHERE $SEARCH_CONDITIONS")
+    fun countSearchResults(
+        ownerId: Long,
+        searchTokens: String,
+        tags: String,
+        startTimeFrom: Instant,
+        startTimeTo: Instant,
+        minDurationSeconds: Long,
+        maxDurationSeconds: Long,
+        now: Instant,
+    ): Long
+
+    /**
+     * Total duration (in seconds) of all entries matching the full-history search, see [search].
+     */
+    @Query(
+        """SELECT CAST(COALESCE(SUM(EXTRACT(EPOCH FROM (COALESCE(end_time, :now) - start_time))), 0) AS BIGINT)
+           FROM time_log_entry
+           WHERE $SEARCH_CONDITIONS""",
+    )
+    fun sumSearchResultsDurationSeconds(
+        ownerId: Long,
+        searchTokens: String,
+        tags: String,
+        startTimeFrom: Instant,
+        startTimeTo: Instant,
+        minDurationSeconds: Long,
+        maxDurationSeconds: Long,
+        now: Instant,
+    ): Long
+
+    /**
+     * Total duration (in seconds) of all entries matching the full-history search, see [search],
+     * with the duration of each entry rounded to a multiple of the increment in the direction (UP, DOWN or NEAREST).
+     */
+    @Query(
+        """SELECT CAST(COALESCE(SUM(
+               CASE :roundingDirection
+                   WHEN 'UP' THEN CEIL(duration / :roundingIncrementSeconds)
+                   WHEN 'DOWN' THEN FLOOR(duration / :roundingIncrementSeconds)
+                   ELSE FLOOR(duration / :roundingIncrementSeconds + 0.5)
+               END * :roundingIncrementSeconds
+           ), 0) AS BIGINT)
+           FROM (
+               SELECT FLOOR(EXTRACT(EPOCH FROM (COALESCE(end_time, :now) - start_time))) AS duration
+               FROM time_log_entry
+               WHERE $SEARCH_CONDITIONS
+           ) AS durations""",
+    )
+    fun sumSearchResultsRoundedDurationSeconds(
+        ownerId: Long,
+        searchTokens: String,
+        tags: String,
+        startTimeFrom: Instant,
+        startTimeTo: Instant,
+        minDurationSeconds: Long,
+        maxDurationSeconds: Long,
+        now: Instant,
+        roundingIncrementSeconds: Long,
+        roundingDirection: String,
+    ): Long
+
+    /**
+     * Find soft-deleted log entries by ids and owner (for restoring deleted entries).
+     */
+    @Query("SELECT * FROM time_log_entry WHERE owner_id = :ownerId AND id IN (:ids) AND deleted_at IS NOT NULL")
+    fun findDeletedByOwnerIdAndIdIn(
+        ownerId: Long,
+        ids: List<Long>,
+    ): List<TimeLogEntry>
+
+    /**
+     * Clear the deletion mark of a soft-deleted log entry.
+     * Generated queries ignore soft-deleted entries, hence the custom query.
+     */
+    @Query("UPDATE time_log_entry SET deleted_at = NULL WHERE id = :id")
+    fun clearDeletedAt(id: Long)
+
+    /**
+     * Permanently delete log entries soft-deleted before the given time.
+     */
+    @Query("DELETE FROM time_log_entry WHERE deleted_at < :deletedBefore")
+    fun purgeDeletedBefore(deletedBefore: Instant): Long
 }
@@ -31,6 +31,7 @@ open class TimeLogEntryResource(
     private val userRepository: UserRepository,
     private val timeLogEntryService: TimeLogEntryService,
     private val timeService: TimeService,
+    private val roundingSettingsService: RoundingSettingsService,
 ) {
     private val log = org.slf4j.LoggerFactory.getLogger(TimeLogEntryResource::class.java)
 
@@ -75,6 +76,33 @@ open class TimeLogEntryResource(
         )
     }
 
+    /**
+     * Lists the entries overlapping the time range regardless of the day they started on,
+     * to warn about overlaps before an entry is added for the range.
+     */
+    @Get("/overlapping")
+    open fun listOverlappingEntries(
+        @QueryValue startTime: Instant,
+        @QueryValue endTime: Instant,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        val entries = timeLogEntryRepository.findOverlappingTimeRange(currentUser.id, startTime, endTime)
+
+        log.trace(
+            "Found {} entries overlapping {} - {} for user: {}",
+            entries.size,
+            startTime,
+            endTime,
+            currentUser.user.userName,
+        )
+
+        return HttpResponse.ok(
+            TimeLogEntriesResponse(
+                entries = entries.map { it.toDto() },
+            ),
+        )
+    }
+
     @Get("/active")
     open fun getActiveEntry(currentUser: UserWithId): HttpResponse<*> {
         val activeEntry = timeLogEntryRepository.findByOwnerIdAndEndTimeIsNull(currentUser.id).orElse(null)
@@ -92,6 +120,29 @@ open class TimeLogEntryResource(
         }
     }
 
+    /**
+     * Returns the latest stopped entry, optionally only among the entries started before the given time.
+     */
+    @Get("/last-stopped")
+    open fun getLastStoppedEntry(
+        @QueryValue startedBefore: Instant?,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        val lastStoppedEntry =
+            if (startedBefore != null) {
+                timeLogEntryRepository.findFirstByOwnerIdAndEndTimeIsNotNullAndStartTimeLessThanOrderByStartTimeDesc(
+                    currentUser.id,
+                    startedBefore,
+                )
+            } else {
+                timeLogEntryRepository.findFirstByOwnerIdAndEndTimeIsNotNullOrderByStartTimeDesc(currentUser.id)
+            }.orElse(null)
+
+        log.trace("Found last stopped time log entry for user: {}, id: {}", currentUser.user.userName, lastStoppedEntry?.id)
+
+        return HttpResponse.ok(LastStoppedLogEntryResponse(entry = lastStoppedEntry?.toDto()))
+    }
+
     @Post
     open fun createEntry(
         @Valid @Body request: CreateTimeLogEntryRequest,
@@ -100,24 +151,91 @@ open class TimeLogEntryResource(
         log.debug("Creating time log entry for user: {}, title: {}", currentUser.user.userName, request.title)
 
         // Check if there's already an active log entry
-        if (!request.stopActiveEntry) {
-            val activeEntry = timeLogEntryRepository.findByOwnerIdAndEndTimeIsNull(currentUser.id).orElse(null)
-            if (activeEntry != null) {
-                log.debug("Create entry failed: active entry exists for user: {}", currentUser.user.userName)
+        val activeEntry = timeLogEntryRepository.findByOwnerIdAndEndTimeIsNull(currentUser.id).orElse(null)
+        if (activeEntry != null && !request.stopActiveEntry) {
+            log.debug("Create entry failed: active entry exists for user: {}", currentUser.user.userName)
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("Cannot start a new log entry while another is active", "ACTIVE_ENTRY_EXISTS"),
+            )
+        }
+
+        // Backdated entries must not overlap existing ones
+        if (request.startTime != null) {
+            if (request.startTime.isAfter(timeService.now())) {
+                log.debug("Create entry failed: start time in the future")
                 return HttpResponse.badRequest(
-                    TimeLogEntryErrorResponse("Cannot start a new log entry while another is active", "ACTIVE_ENTRY_EXISTS"),
+                    TimeLogEntryErrorResponse("Start time cannot be in the future", "START_TIME_IN_FUTURE"),
                 )
             }
+            val overlapsActiveEntry = activeEntry != null && !request.startTime.isAfter(activeEntry.startTime)
+            if (overlapsActiveEntry || timeLogEntryRepository.existsStoppedEntryEndingAfter(currentUser.id, request.startTime)) {
+                log.debug("Create entry failed: start time overlaps an existing entry")
+                return HttpResponse.badRequest(
+                    TimeLogEntryErrorResponse("Start time overlaps an existing entry", "START_TIME_OVERLAPS_ENTRY"),
+                )
+            }
+        }
+
+        val newEntry =
+            timeLogEntryService.startEntry(
+                currentUser.id,
+                request.title,
+                request.tags.toTypedArray(),
+                startTime = request.startTime,
+                billable = request.billable,
+            )
+
+        return HttpResponse.created(newEntry.toDto())
+    }
+
+    @Post("/with-times")
+    open fun createEntryWithTimes(
+        @Valid @Body request: CreateTimeLogEntryWithTimesRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        log.debug("Creating time log entry with times for user: {}, title: {}", currentUser.user.userName, request.title)
+
+        // Validate end time is after start time
+        if (request.endTime.isBefore(request.startTime) || request.endTime == request.startTime) {
+            log.debug("Create entry with times failed: end time before or equal to start time")
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("End time must be after start time", "END_TIME_BEFORE_START_TIME"),
+            )
+        }
+
+        // Manually added entries describe past work only
+        if (request.endTime.isAfter(timeService.now())) {
+            log.debug("Create entry with times failed: end time in the future")
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("End time cannot be in the future", "END_TIME_IN_FUTURE"),
+            )
         }
 
-        val newEntry = timeLogEntryService.startEntry(currentUser.id, request.title, request.tags.toTypedArray())
+        val newEntry =
+            timeLogEntryRepository.save(
+                TimeLogEntry(
+                    startTime = request.startTime,
+                    endTime = request.endTime,
+                    title = request.title,
+                    ownerId = currentUser.id,
+                    tags = request.tags.toTypedArray(),
+                    billable = request.billable,
+                ),
+            )
+
+        log.info("Time log entry created with times: {} for user: {}", newEntry.id, currentUser.user.userName)
 
         return HttpResponse.created(newEntry.toDto())
     }
 
+    /**
+     * Stops the active entry now, or at the given past time (e.g. to discard idle time).
+     * If the user rounds entries on stop, the end time is adjusted to round the duration of the entry.
+     */
     @Put("/{id}/stop")
     open fun stopEntry(
         @PathVariable id: Long,
+        @Valid @Body request: StopTimeLogEntryRequest,
         currentUser: UserWithId,
     ): HttpResponse<*> {
         log.debug("Stopping time log entry: {} for user: {}", id, currentUser.user.userName)
@@ -136,9 +254,24 @@ open class TimeLogEntryResource(
             )
         }
 
+        val now = timeService.now()
+        val endTime = request.endTime ?: now
+        if (request.endTime != null && !endTime.isAfter(entry.startTime)) {
+            log.debug("Stop entry failed: end time before or equal to start time for entry: {}", id)
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("End time must be after start time", "END_TIME_BEFORE_START_TIME"),
+            )
+        }
+        if (endTime.isAfter(now)) {
+            log.debug("Stop entry failed: end time in the future for entry: {}", id)
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("End time cannot be in the future", "END_TIME_IN_FUTURE"),
+            )
+        }
+
         val stoppedEntry =
             timeLogEntryRepository.update(
-                entry.copy(endTime = timeService.now()),
+                entry.copy(endTime = roundingSettingsService.getStopTime(currentUser.id, entry.startTime, endTime)),
             )
 
         log.info("Time log entry stopped: {} for user: {}", id, currentUser.user.userName)
@@ -146,6 +279,60 @@ open class TimeLogEntryResource(
         return HttpResponse.ok(stoppedEntry.toDto())
     }
 
+    @Post("/{id}/split")
+    open fun splitEntry(
+        @PathVariable id: Long,
+        @Valid @Body request: SplitTimeLogEntryRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        log.debug("Splitting time log entry: {} for user: {}", id, currentUser.user.userName)
+
+        val entry =
+            findEntryAndVerifyOwnership(id, currentUser) ?: run {
+                log.debug("Split entry failed: entry not found: {}", id)
+                return entryNotFoundResponse()
+            }
+
+        // Split time must be strictly inside the entry; active entries are bounded by the current time
+        val entryEnd = entry.endTime ?: timeService.now()
+        if (!request.splitTime.isAfter(entry.startTime) || !request.splitTime.isBefore(entryEnd)) {
+            log.debug("Split entry failed: split time outside of entry: {}", id)
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("Split time must be within the entry", "INVALID_SPLIT_TIME"),
+            )
+        }
+
+        // The second part may resume later, leaving a gap for the time spent on something else
+        val resumeTime = request.resumeTime ?: request.splitTime
+        if (resumeTime.isBefore(request.splitTime) || !resumeTime.isBefore(entryEnd)) {
+            log.debug("Split entry failed: resume time outside of entry: {}", id)
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse(
+                    "Resume time must be between the split time and the end of the entry",
+                    "INVALID_RESUME_TIME",
+                ),
+            )
+        }
+
+        val (firstPart, secondPart) =
+            timeLogEntryService.splitEntry(
+                entry,
+                request.splitTime,
+                request.title,
+                request.tags.toTypedArray(),
+                resumeTime,
+            )
+
+        log.info("Time log entry split: {} for user: {}", id, currentUser.user.userName)
+
+        return HttpResponse.ok(
+            SplitTimeLogEntryResponse(
+                firstEntry = firstPart.toDto(),
+                secondEntry = secondPart.toDto(),
+            ),
+        )
+    }
+
     @Put("/{id}")
     open fun updateEntry(
         @PathVariable id: Long,
@@ -250,6 +437,49 @@ open class TimeLogEntryResource(
         )
     }
 
+    @Post("/merge")
+    open fun mergeEntries(
+        @Valid @Body request: MergeTimeLogEntriesRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        log.debug("Merging {} time log entries for user: {}", request.entryIds.size, currentUser.user.userName)
+
+        if (request.entryIds.isEmpty()) {
+            log.debug("Merge failed: no entry IDs provided")
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("No entry IDs provided", "NO_ENTRY_IDS"),
+            )
+        }
+
+        val entryIds = request.entryIds.distinct()
+        if (entryIds.size < 2) {
+            log.debug("Merge failed: less than two entries provided")
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("At least two entries are required to merge", "NOT_ENOUGH_ENTRIES_TO_MERGE"),
+            )
+        }
+
+        // Fetch all entries and verify ownership
+        val entries =
+            entryIds.mapNotNull { id ->
+                timeLogEntryRepository.findByIdAndOwnerId(id, currentUser.id).orElse(null)
+            }
+
+        // Verify all entries were found
+        if (entries.size != entryIds.size) {
+            log.debug("Merge failed: some entries not found or not owned by user")
+            return HttpResponse
+                .notFound<TimeLogEntryErrorResponse>()
+                .body(TimeLogEntryErrorResponse("One or more time log entries not found", "ENTRIES_NOT_FOUND"))
+        }
+
+        val mergedEntry = timeLogEntryService.mergeEntries(entries, request.title, request.tags.toTypedArray())
+
+        log.info("Merged {} time log entries for user: {}", entries.size, currentUser.user.userName)
+
+        return HttpResponse.ok(mergedEntry.toDto())
+    }
+
     @Patch("/{id}/title")
     open fun updateEntryTitle(
         @PathVariable id: Long,
@@ -370,6 +600,30 @@ open class TimeLogEntryResource(
         return HttpResponse.ok(updatedEntry.toDto())
     }
 
+    @Patch("/{id}/billable")
+    open fun updateEntryBillable(
+        @PathVariable id: Long,
+        @Body request: UpdateTimeLogEntryBillableRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        log.debug("Updating time log entry billable flag: {} for user: {}", id, currentUser.user.userName)
+
+        val entry =
+            findEntryAndVerifyOwnership(id, currentUser) ?: run {
+                log.debug("Update billable flag failed: entry not found: {}", id)
+                return entryNotFoundResponse()
+            }
+
+        val updatedEntry =
+            timeLogEntryRepository.update(
+                entry.copy(billable = request.billable),
+            )
+
+        log.info("Time log entry billable flag updated: {} for user: {}", id, currentUser.user.userName)
+
+        return HttpResponse.ok(updatedEntry.toDto())
+    }
+
     @Patch("/bulk-update-tags")
     open fun bulkUpdateEntriesTags(
         @Valid @Body request: BulkUpdateTimeLogEntriesTagsRequest,
@@ -416,6 +670,131 @@ open class TimeLogEntryResource(
         )
     }
 
+    @Patch("/bulk-modify-tags")
+    open fun bulkModifyEntriesTags(
+        @Valid @Body request: BulkModifyTimeLogEntriesTagsRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        log.debug("Bulk modifying tags for {} time log entries for user: {}", request.entryIds.size, currentUser.user.userName)
+
+        if (request.entryIds.isEmpty()) {
+            log.debug("Bulk modify tags failed: no entry IDs provided")
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("No entry IDs provided", "NO_ENTRY_IDS"),
+            )
+        }
+
+        // Fetch all entries and verify ownership
+        val entries =
+            request.entryIds.mapNotNull { id ->
+                timeLogEntryRepository.findByIdAndOwnerId(id, currentUser.id).orElse(null)
+            }
+
+        // Verify all entries were found
+        if (entries.size != request.entryIds.size) {
+            log.debug("Bulk modify tags failed: some entries not found or not owned by user")
+            return HttpResponse
+                .notFound<TimeLogEntryErrorResponse>()
+                .body(TimeLogEntryErrorResponse("One or more time log entries not found", "ENTRIES_NOT_FOUND"))
+        }
+
+        // Update each entry - keep its own tags, adding and removing the requested ones
+        val updatedEntries =
+            entries.map { entry ->
+                val newTags = (entry.tags.toList() + request.tagsToAdd).distinct() - request.tagsToRemove.toSet()
+                timeLogEntryRepository.update(
+                    entry.copy(tags = newTags.toTypedArray()),
+                )
+            }
+
+        log.info("Bulk modified tags for {} time log entries for user: {}", updatedEntries.size, currentUser.user.userName)
+
+        return HttpResponse.ok(
+            BulkUpdateTimeLogEntriesResponse(
+                updatedCount = updatedEntries.size,
+                entries = updatedEntries.map { it.toDto() },
+            ),
+        )
+    }
+
+    @Delete("/bulk-delete")
+    open fun bulkDeleteEntries(
+        @Valid @Body request: BulkDeleteTimeLogEntriesRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        log.debug("Bulk deleting {} time log entries for user: {}", request.entryIds.size, currentUser.user.userName)
+
+        if (request.entryIds.isEmpty()) {
+            log.debug("Bulk delete failed: no entry IDs provided")
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("No entry IDs provided", "NO_ENTRY_IDS"),
+            )
+        }
+
+        // Fetch all entries and verify ownership
+        val entries =
+            request.entryIds.mapNotNull { id ->
+                timeLogEntryRepository.findByIdAndOwnerId(id, currentUser.id).orElse(null)
+            }
+
+        // Verify all entries were found
+        if (entries.size != request.entryIds.size) {
+            log.debug("Bulk delete failed: some entries not found or not owned by user")
+            return HttpResponse
+                .notFound<TimeLogEntryErrorResponse>()
+                .body(TimeLogEntryErrorResponse("One or more time log entries not found", "ENTRIES_NOT_FOUND"))
+        }
+
+        timeLogEntryService.deleteEntries(entries)
+
+        log.info("Bulk deleted {} time log entries for user: {}", entries.size, currentUser.user.userName)
+
+        return HttpResponse.ok(BulkDeleteTimeLogEntriesResponse(deletedCount = entries.size))
+    }
+
+    @Post("/restore")
+    open fun restoreEntries(
+        @Valid @Body request: RestoreTimeLogEntriesRequest,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        log.debug("Restoring {} deleted time log entries for user: {}", request.entryIds.size, currentUser.user.userName)
+
+        if (request.entryIds.isEmpty()) {
+            log.debug("Restore failed: no entry IDs provided")
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("No entry IDs provided", "NO_ENTRY_IDS"),
+            )
+        }
+
+        // Only recently deleted entries of the current user can be restored
+        val entries = timeLogEntryService.findRestorableEntries(currentUser.id, request.entryIds)
+        if (entries.size != request.entryIds.distinct().size) {
+            log.debug("Restore failed: some entries not found among recently deleted entries of the user")
+            return HttpResponse
+                .notFound<TimeLogEntryErrorResponse>()
+                .body(TimeLogEntryErrorResponse("One or more time log entries not found", "ENTRIES_NOT_FOUND"))
+        }
+
+        // An active entry can only be restored if no other entry has been started meanwhile
+        if (entries.any { it.endTime == null } && timeLogEntryService.getActiveEntry(currentUser.id) != null) {
+            log.debug("Restore failed: active entry already exists for user: {}", currentUser.user.userName)
+            return HttpResponse.badRequest(
+                TimeLogEntryErrorResponse("Cannot restore an active entry while another is active", "CANNOT_RESTORE_ACTIVE_ENTRY"),
+            )
+        }
+
+        val restoredEntries = timeLogEntryService.restoreEntries(entries)
+
+        log.info("Restored {} time log entries for user: {}", restoredEntries.size, currentUser.user.userName)
+
+        return HttpResponse.ok(
+            RestoreTimeLogEntriesResponse(
+                restoredCount = restoredEntries.size,
+                entries = restoredEntries.map { it.toDto() },
+            ),
+        )
+    }
+
     @Delete("/{id}")
     open fun deleteEntry(
         @PathVariable id: Long,
@@ -429,7 +808,7 @@ open class TimeLogEntryResource(
                 return entryNotFoundResponse()
             }
 
-        timeLogEntryRepository.delete(entry)
+        timeLogEntryService.deleteEntries(listOf(entry))
 
         log.info("Time log entry deleted: {} for user: {}", id, currentUser.user.userName)
 
@@ -461,6 +840,62 @@ open class TimeLogEntryResource(
         )
     }
 
+    /**
+     * Full-history search over the user's entries; all filters are optional.
+     * Duration bounds are in seconds; start time bounds limit when matching entries start.
+     */
+    @Get("/search")
+    open fun searchEntries(
+        @QueryValue(defaultValue = "") query: String,
+        @QueryValue tags: List<String>?,
+        @QueryValue startTime: Instant?,
+        @QueryValue endTime: Instant?,
+        @QueryValue minDuration: Long?,
+        @QueryValue maxDuration: Long?,
+        @QueryValue(defaultValue = "0") page: Int,
+        @QueryValue(defaultValue = "20") size: Int,
+        currentUser: UserWithId,
+    ): HttpResponse<*> {
+        log.debug("Searching time log entries for user: {}, query: {}, tags: {}", currentUser.user.userName, query, tags)
+
+        if (page < 0) {
+            log.debug("Invalid page parameter: {}", page)
+            return HttpResponse.badRequest(TimeLogEntryErrorResponse("Page must be non-negative", "INVALID_PAGE"))
+        }
+
+        if (size <= 0 || size > 100) {
+            log.debug("Invalid size parameter: {}", size)
+            return HttpResponse.badRequest(TimeLogEntryErrorResponse("Size must be between 1 and 100", "INVALID_SIZE"))
+        }
+
+        val result =
+            timeLogEntryService.searchEntries(
+                userId = currentUser.id,
+                criteria =
+                    TimeLogEntrySearchCriteria(
+                        query = query,
+                        tags = tags ?: emptyList(),
+                        startTimeFrom = startTime,
+                        startTimeTo = endTime,
+                        minDurationSeconds = minDuration,
+                        maxDurationSeconds = maxDuration,
+                    ),
+                page = page,
+                size = size,
+            )
+
+        return HttpResponse.ok(
+            SearchTimeLogEntriesResponse(
+                entries = result.entries.map { it.toDto() },
+                total = result.totalCount,
+                totalDurationSeconds = result.totalDurationSeconds,
+                totalDurationRounded = result.totalDurationRounded,
+                page = page,
+                size = size,
+            ),
+        )
+    }
+
     @Patch("/bulk-update-title")
     open fun bulkUpdateEntriesTitle(
         @Valid @Body request: BulkUpdateTimeLogEntriesTitleRequest,
@@ -516,6 +951,7 @@ open class TimeLogEntryResource(
             ownerId = this.ownerId,
             tags = this.tags.toList(),
             metadata = this.metadata.toList(),
+            billable = this.billable,
         )
 
     private fun TimeLogEntry.toAutocompleteDto() =
@@ -523,6 +959,7 @@ open class TimeLogEntryResource(
             title = this.title,
             tags = this.tags.toList(),
             lastStartTime = this.startTime,
+            billable = this.billable,
         )
 }
 
@@ -536,6 +973,7 @@ data class TimeLogEntryDto(
     val ownerId: Long,
     val tags: List<String> = emptyList(),
     val metadata: List<String> = emptyList(),
+    val billable: Boolean = false,
 )
 
 @Serdeable
@@ -550,6 +988,12 @@ data class ActiveLogEntryResponse(
     val entry: TimeLogEntryDto?,
 )
 
+@Serdeable
+@Introspected
+data class LastStoppedLogEntryResponse(
+    val entry: TimeLogEntryDto?,
+)
+
 @Serdeable
 @Introspected
 data class CreateTimeLogEntryRequest(
@@ -558,6 +1002,21 @@ data class CreateTimeLogEntryRequest(
     val title: String,
     val stopActiveEntry: Boolean = false,
     val tags: List<String> = emptyList(),
+    /** Past start time of a backdated entry; the entry starts now if not provided */
+    val startTime: Instant? = null,
+    val billable: Boolean = false,
+)
+
+@Serdeable
+@Introspected
+data class CreateTimeLogEntryWithTimesRequest(
+    @field:NotBlank(message = "Title cannot be blank")
+    @field:Size(max = 1000, message = "Title cannot exceed 1000 characters")
+    val title: String,
+    val startTime: Instant,
+    val endTime: Instant,
+    val tags: List<String> = emptyList(),
+    val billable: Boolean = false,
 )
 
 @Serdeable
@@ -571,6 +1030,24 @@ data class UpdateTimeLogEntryRequest(
     val tags: List<String> = emptyList(),
 )
 
+@Serdeable
+@Introspected
+data class SplitTimeLogEntryRequest(
+    val splitTime: Instant,
+    @field:NotBlank(message = "Title cannot be blank")
+    @field:Size(max = 1000, message = "Title cannot exceed 1000 characters")
+    val title: String,
+    val tags: List<String> = emptyList(),
+    val resumeTime: Instant? = null,
+)
+
+@Serdeable
+@Introspected
+data class SplitTimeLogEntryResponse(
+    val firstEntry: TimeLogEntryDto,
+    val secondEntry: TimeLogEntryDto,
+)
+
 @Serdeable
 @Introspected
 data class DeleteLogEntryResponse(
@@ -596,6 +1073,19 @@ data class AutocompleteEntryDto(
     val title: String,
     val tags: List<String> = emptyList(),
     val lastStartTime: Instant,
+    val billable: Boolean = false,
+)
+
+@Serdeable
+@Introspected
+data class SearchTimeLogEntriesResponse(
+    val entries: List<TimeLogEntryDto>,
+    val total: Long,
+    val totalDurationSeconds: Long,
+    /** Whether the durations of the entries were rounded when calculating the total, as configured by the user */
+    val totalDurationRounded: Boolean,
+    val page: Int,
+    val size: Int,
 )
 
 @Serdeable
@@ -615,6 +1105,16 @@ data class BulkUpdateTimeLogEntriesResponse(
     val entries: List<TimeLogEntryDto>,
 )
 
+@Serdeable
+@Introspected
+data class MergeTimeLogEntriesRequest(
+    @field:NotBlank(message = "Title cannot be blank")
+    @field:Size(max = 1000, message = "Title cannot exceed 1000 characters")
+    val title: String,
+    val tags: List<String> = emptyList(),
+    val entryIds: List<Long>,
+)
+
 @Serdeable
 @Introspected
 data class UpdateTimeLogEntryTitleRequest(
@@ -638,6 +1138,12 @@ data class UpdateTimeLogEntryStartTimeRequest(
     val startTime: Instant,
 )
 
+@Serdeable
+@Introspected
+data class StopTimeLogEntryRequest(
+    val endTime: Instant? = null,
+)
+
 @Serdeable
 @Introspected
 data class UpdateTimeLogEntryEndTimeRequest(
@@ -650,9 +1156,48 @@ data class UpdateTimeLogEntryTagsRequest(
     val tags: List<String> = emptyList(),
 )
 
+@Serdeable
+@Introspected
+data class UpdateTimeLogEntryBillableRequest(
+    val billable: Boolean,
+)
+
 @Serdeable
 @Introspected
 data class BulkUpdateTimeLogEntriesTagsRequest(
     val tags: List<String> = emptyList(),
     val entryIds: List<Long>,
 )
+
+@Serdeable
+@Introspected
+data class BulkModifyTimeLogEntriesTagsRequest(
+    val tagsToAdd: List<String> = emptyList(),
+    val tagsToRemove: List<String> = emptyList(),
+    val entryIds: List<Long>,
+)
+
+@Serdeable
+@Introspected
+data class BulkDeleteTimeLogEntriesRequest(
+    val entryIds: List<Long>,
+)
+
+@Serdeable
+@Introspected
+data class BulkDeleteTimeLogEntriesResponse(
+    val deletedCount: Int,
+)
+
+@Serdeable
+@Introspected
+data class RestoreTimeLogEntriesRequest(
+    val entryIds: List<Long>,
+)
+
+@Serdeable
+@Introspected
+data class RestoreTimeLogEntriesResponse(
+    val restoredCount: Int,
+    val entries: List<TimeLogEntryDto>,
+)
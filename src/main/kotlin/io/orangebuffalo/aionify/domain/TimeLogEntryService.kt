@@ -3,6 +3,7 @@ package io.orangebuffalo.aionify.domain
 import jakarta.inject.Singleton
 import org.slf4j.LoggerFactory
 import java.time.Instant
+import java.time.temporal.ChronoUnit
 
 /**
  * Service for managing time log entries.
@@ -13,17 +14,33 @@ class TimeLogEntryService(
     private val timeLogEntryRepository: TimeLogEntryRepository,
     private val timeService: TimeService,
     private val eventService: TimeLogEntryEventService,
+    private val roundingSettingsService: RoundingSettingsService,
 ) {
     private val log = LoggerFactory.getLogger(TimeLogEntryService::class.java)
 
+    companion object {
+        /**
+         * How long soft-deleted entries are kept to allow undoing the deletion.
+         */
+        private const val DELETED_ENTRIES_RETENTION_MINUTES = 60L
+
+        /**
+         * Search end time used when the range is not limited; later than any entry can start.
+         */
+        private val SEARCH_UNBOUNDED_END_TIME = Instant.parse("9999-01-01T00:00:00Z")
+    }
+
     /**
      * Starts a new time log entry for the user.
-     * If there is an active entry, it will be stopped first.
+     * If there is an active entry, it will be stopped first, at the start of the new entry;
+     * its duration is rounded the same way as when stopping it directly, so it may end before that, but never after.
      *
      * @param userId The ID of the user
      * @param title The title of the new entry
      * @param tags Optional tags for the entry
      * @param metadata Optional metadata for the entry
+     * @param startTime Optional past start time of the entry; must be validated by the caller. Defaults to now.
+     * @param billable Whether the entry is billable
      * @return The created time log entry
      */
     fun startEntry(
@@ -31,14 +48,20 @@ class TimeLogEntryService(
         title: String,
         tags: Array<String> = emptyArray(),
         metadata: Array<String> = emptyArray(),
+        startTime: Instant? = null,
+        billable: Boolean = false,
     ): TimeLogEntry {
+        val entryStartTime = startTime ?: timeService.now()
+
         // Stop any active entry first
         val activeEntry = timeLogEntryRepository.findByOwnerIdAndEndTimeIsNull(userId).orElse(null)
         if (activeEntry != null) {
             log.debug("Stopping active entry before starting new one for user ID: {}", userId)
             val stoppedEntry =
                 timeLogEntryRepository.update(
-                    activeEntry.copy(endTime = timeService.now()),
+                    activeEntry.copy(
+                        endTime = roundingSettingsService.getStopTime(userId, activeEntry.startTime, entryStartTime),
+                    ),
                 )
             // Emit event for stopped entry
             eventService.emitEvent(userId, TimeLogEntryEventType.ENTRY_STOPPED, stoppedEntry)
@@ -48,12 +71,13 @@ class TimeLogEntryService(
         val newEntry =
             timeLogEntryRepository.save(
                 TimeLogEntry(
-                    startTime = timeService.now(),
+                    startTime = entryStartTime,
                     endTime = null,
                     title = title,
                     ownerId = userId,
                     tags = tags,
                     metadata = metadata,
+                    billable = billable,
                 ),
             )
 
@@ -66,7 +90,7 @@ class TimeLogEntryService(
     }
 
     /**
-     * Stops the active time log entry for the user.
+     * Stops the active time log entry for the user, rounding its duration if the user rounds entries on stop.
      *
      * @param userId The ID of the user
      * @return The stopped entry if one was active, null otherwise
@@ -77,7 +101,9 @@ class TimeLogEntryService(
         return if (activeEntry != null) {
             val stoppedEntry =
                 timeLogEntryRepository.update(
-                    activeEntry.copy(endTime = timeService.now()),
+                    activeEntry.copy(
+                        endTime = roundingSettingsService.getStopTime(userId, activeEntry.startTime, timeService.now()),
+                    ),
                 )
             log.info("Time log entry stopped for user ID: {}, entry ID: {}", userId, activeEntry.id)
 
@@ -91,6 +117,151 @@ class TimeLogEntryService(
         }
     }
 
+    /**
+     * Splits a time log entry into two at the given moment.
+     * The original entry ends at the split time, and a new entry with the provided title and tags
+     * starts at the split time and inherits the original end time and billable flag.
+     * If the original entry is active, it gets stopped and the new entry keeps running.
+     *
+     * @param entry The entry to split; the split and resume times must be validated by the caller
+     * @param splitTime The moment to split the entry at
+     * @param title The title of the second part
+     * @param tags The tags of the second part
+     * @param resumeTime The moment the second part starts at; a moment after the split time leaves a gap between the parts
+     * @return Pair of (first part, second part)
+     */
+    fun splitEntry(
+        entry: TimeLogEntry,
+        splitTime: Instant,
+        title: String,
+        tags: Array<String>,
+        resumeTime: Instant = splitTime,
+    ): Pair<TimeLogEntry, TimeLogEntry> {
+        val firstPart = timeLogEntryRepository.update(entry.copy(endTime = splitTime))
+        val secondPart =
+            timeLogEntryRepository.save(
+                TimeLogEntry(
+                    startTime = resumeTime,
+                    endTime = entry.endTime,
+                    title = title,
+                    ownerId = entry.ownerId,
+                    tags = tags,
+                    billable = entry.billable,
+                ),
+            )
+
+        log.info("Time log entry split for user ID: {}, entry ID: {}, new entry ID: {}", entry.ownerId, entry.id, secondPart.id)
+
+        if (entry.endTime == null) {
+            // The active entry has been replaced by the second part
+            eventService.emitEvent(entry.ownerId, TimeLogEntryEventType.ENTRY_STOPPED, firstPart)
+            eventService.emitEvent(entry.ownerId, TimeLogEntryEventType.ENTRY_STARTED, secondPart)
+        }
+
+        return Pair(firstPart, secondPart)
+    }
+
+    /**
+     * Merges multiple time log entries into a single entry spanning from the earliest start
+     * to the latest end, absorbing any gaps between them.
+     * If one of the entries is active, it is kept as the merged entry and stays active,
+     * otherwise the earliest entry is kept. All other entries are soft-deleted, so that the merge can be undone.
+     *
+     * @param entries The entries to merge; at least two entries owned by the same user
+     * @param title The title of the merged entry
+     * @param tags The tags of the merged entry
+     * @return The merged entry
+     */
+    fun mergeEntries(
+        entries: List<TimeLogEntry>,
+        title: String,
+        tags: Array<String>,
+    ): TimeLogEntry {
+        val activeEntry = entries.find { it.endTime == null }
+        val entryToKeep = activeEntry ?: entries.minBy { it.startTime }
+        val endTime = if (activeEntry != null) null else entries.maxOf { requireNotNull(it.endTime) }
+
+        deleteEntries(entries.filter { it.id != entryToKeep.id })
+
+        val mergedEntry =
+            timeLogEntryRepository.update(
+                entryToKeep.copy(
+                    startTime = entries.minOf { it.startTime },
+                    endTime = endTime,
+                    title = title,
+                    tags = tags,
+                ),
+            )
+
+        log.info("Merged {} time log entries for user ID: {} into entry ID: {}", entries.size, entryToKeep.ownerId, mergedEntry.id)
+
+        return mergedEntry
+    }
+
+    /**
+     * Soft-deletes time log entries, so that the deletion can be undone within the retention period.
+     *
+     * @param entries The entries to delete
+     */
+    fun deleteEntries(entries: List<TimeLogEntry>) {
+        val now = timeService.now()
+        entries.forEach { timeLogEntryRepository.update(it.copy(deletedAt = now)) }
+    }
+
+    /**
+     * Permanently deletes the entries of all users soft-deleted earlier than the retention period.
+     *
+     * @return The number of purged entries
+     */
+    fun purgeExpiredDeletedEntries(): Long {
+        val retentionStart = timeService.now().minus(DELETED_ENTRIES_RETENTION_MINUTES, ChronoUnit.MINUTES)
+        val purgedCount = timeLogEntryRepository.purgeDeletedBefore(retentionStart)
+        if (purgedCount > 0) {
+            log.info("Purged {} soft-deleted time log entries", purgedCount)
+        }
+        return purgedCount
+    }
+
+    /**
+     * Finds soft-deleted time log entries of the user which are still within the retention period.
+     *
+     * @param userId The ID of the user
+     * @param entryIds The IDs of the entries to find
+     * @return The found entries; entries not deleted, deleted too long ago or owned by other users are skipped
+     */
+    fun findRestorableEntries(
+        userId: Long,
+        entryIds: List<Long>,
+    ): List<TimeLogEntry> {
+        val retentionStart = timeService.now().minus(DELETED_ENTRIES_RETENTION_MINUTES, ChronoUnit.MINUTES)
+        return timeLogEntryRepository
+            .findDeletedByOwnerIdAndIdIn(userId, entryIds)
+            .filter { requireNotNull(it.deletedAt).isAfter(retentionStart) }
+    }
+
+    /**
+     * Restores soft-deleted time log entries.
+     * If one of the entries is active, the caller must ensure there is no other active entry of the user.
+     *
+     * @param deletedEntries The soft-deleted entries to restore, owned by the same user
+     * @return The restored entries
+     */
+    fun restoreEntries(deletedEntries: List<TimeLogEntry>): List<TimeLogEntry> {
+        val restoredEntries =
+            deletedEntries.map {
+                timeLogEntryRepository.clearDeletedAt(requireNotNull(it.id))
+                it.copy(deletedAt = null)
+            }
+
+        log.info("Restored {} time log entries for user ID: {}", restoredEntries.size, restoredEntries.firstOrNull()?.ownerId)
+
+        restoredEntries
+            .find { it.endTime == null }
+            ?.let { eventService.emitEvent(it.ownerId, TimeLogEntryEventType.ENTRY_STARTED, it) }
+
+        return restoredEntries
+    }
+
     /**
      * Gets the active time log entry for the user.
      *
@@ -151,4 +322,119 @@ class TimeLogEntryService(
 
         return Pair(entries, totalCount)
     }
+
+    /**
+     * Searches the whole history of the user's time log entries.
+     *
+     * @param userId The ID of the user
+     * @param criteria Search criteria; unset criteria match any entry
+     * @param page Page number (zero-based)
+     * @param size Number of entries per page
+     * @return Entries of the page, along with the count and total duration of all matching entries
+     */
+    fun searchEntries(
+        userId: Long,
+        criteria: TimeLogEntrySearchCriteria,
+        page: Int,
+        size: Int,
+    ): TimeLogEntrySearchResult {
+        val searchTokens = criteria.query.trim()
+        // Tags are entered via single-line inputs, hence a line break is safe to be used as separator
+        val tags = criteria.tags.joinToString("\n")
+        val startTimeFrom = criteria.startTimeFrom ?: Instant.EPOCH
+        val startTimeTo = criteria.startTimeTo ?: SEARCH_UNBOUNDED_END_TIME
+        val minDurationSeconds = criteria.minDurationSeconds ?: 0
+        val maxDurationSeconds = criteria.maxDurationSeconds ?: Long.MAX_VALUE
+        val now = timeService.now()
+
+        val offset = page.toLong() * size
+        val entries =
+            timeLogEntryRepository.search(
+                userId,
+                searchTokens,
+                tags,
+                startTimeFrom,
+                startTimeTo,
+                minDurationSeconds,
+                maxDurationSeconds,
+                now,
+                size,
+                offset.toInt(),
+            )
+        val totalCount =
+            timeLogEntryRepository.countSearchResults(
+                userId,
+                searchTokens,
+                tags,
+                startTimeFrom,
+                startTimeTo,
+                minDurationSeconds,
+                maxDurationSeconds,
+                now,
+            )
+        val rounding = roundingSettingsService.getDisplayRounding(userId)
+        val totalDurationSeconds =
+            if (rounding == null) {
+                timeLogEntryRepository.sumSearchResultsDurationSeconds(
+                    userId,
+                    searchTokens,
+                    tags,
+                    startTimeFrom,
+                    startTimeTo,
+                    minDurationSeconds,
+                    maxDurationSeconds,
+                    now,
+                )
+            } else {
+                timeLogEntryRepository.sumSearchResultsRoundedDurationSeconds(
+                    userId,
+                    searchTokens,
+                    tags,
+                    startTimeFrom,
+                    startTimeTo,
+                    minDurationSeconds,
+                    maxDurationSeconds,
+                    now,
+                    rounding.incrementMinutes * 60L,
+                    rounding.direction.name,
+                )
+            }
+
+        log.trace(
+            "Found {} time log entries (page {}, size {}) for user ID: {} matching {}, total: {}",
+            entries.size,
+            page,
+            size,
+            userId,
+            criteria,
+            totalCount,
+        )
+
+        return TimeLogEntrySearchResult(entries, totalCount, totalDurationSeconds, totalDurationRounded = rounding != null)
+    }
 }
+
+/**
+ * Criteria of the full-history search of time log entries.
+ */
+data class TimeLogEntrySearchCriteria(
+    /** Space-separated tokens, all of which must be contained in the title (case-insensitive) */
+    val query: String = "",
+    /** Tags, all of which must be assigned to the entry */
+    val tags: List<String> = emptyList(),
+    /** Start of the range the entry must start within (inclusive) */
+    val startTimeFrom: Instant? = null,
+    /** End of the range the entry must start within (exclusive) */
+    val startTimeTo: Instant? = null,
+    val minDurationSeconds: Long? = null,
+    val maxDurationSeconds: Long? = null,
+)
+
+data class TimeLogEntrySearchResult(
+    val entries: List<TimeLogEntry>,
+    val totalCount: Long,
+    /** Total duration of all matching entries, including active entry duration until now */
+    val totalDurationSeconds: Long,
+    /** Whether the duration of each entry was rounded as configured by the user when calculating the total */
+    val totalDurationRounded: Boolean = false,
+)
@@ -19,6 +19,8 @@ import jakarta.validation.constraints.Size
 import java.security.Principal
 import java.util.Locale
 
+private const val MAX_IDLE_THRESHOLD_MINUTES = 24 * 60
+
 @Controller("/api-ui/users")
 @Secured(SecurityRule.IS_AUTHENTICATED)
 @Transactional
@@ -37,6 +39,9 @@ open class UserResource(
 
         val settings = userSettingsRepository.findByUserId(currentUser.id).orElse(null)
         val startOfWeek = settings?.startOfWeek?.name ?: "MONDAY"
+        val idleThresholdMinutes = settings?.idleThresholdMinutes ?: 0
+        val dayAttribution = settings?.dayAttribution ?: DayAttribution.START_DAY
+        val durationFormat = settings?.durationFormat ?: DurationFormat.HH_MM_SS
 
         return HttpResponse.ok(
             ProfileResponse(
@@ -44,6 +49,9 @@ open class UserResource(
                 greeting = currentUser.user.greeting,
                 locale = currentUser.user.localeTag,
                 startOfWeek = startOfWeek,
+                idleThresholdMinutes = idleThresholdMinutes,
+                dayAttribution = dayAttribution.name,
+                durationFormat = durationFormat.name,
             ),
         )
     }
@@ -85,13 +93,56 @@ open class UserResource(
                 )
             }
 
+        val idleThresholdMinutes = request.idleThresholdMinutes
+        if (idleThresholdMinutes != null && idleThresholdMinutes !in 0..MAX_IDLE_THRESHOLD_MINUTES) {
+            log.debug("Update settings failed: invalid idle threshold: {}", idleThresholdMinutes)
+            return HttpResponse.badRequest(
+                SettingsErrorResponse("Invalid idle threshold", "INVALID_IDLE_THRESHOLD"),
+            )
+        }
+
+        val dayAttribution =
+            try {
+                request.dayAttribution?.let { DayAttribution.valueOf(it) }
+            } catch (e: IllegalArgumentException) {
+                log.debug("Update settings failed: invalid day attribution: {}", request.dayAttribution)
+                return HttpResponse.badRequest(
+                    SettingsErrorResponse("Invalid day attribution", "INVALID_DAY_ATTRIBUTION"),
+                )
+            }
+
+        val durationFormat =
+            try {
+                request.durationFormat?.let { DurationFormat.valueOf(it) }
+            } catch (e: IllegalArgumentException) {
+                log.debug("Update settings failed: invalid duration format: {}", request.durationFormat)
+                return HttpResponse.badRequest(
+                    SettingsErrorResponse("Invalid duration format", "INVALID_DURATION_FORMAT"),
+                )
+            }
+
         val settings = userSettingsRepository.findByUserId(currentUser.id).orElse(null)
         if (settings == null) {
             // Create new settings if they don't exist
-            userSettingsRepository.save(UserSettings.create(userId = currentUser.id, startOfWeek = weekDay))
+            userSettingsRepository.save(
+                UserSettings.create(
+                    userId = currentUser.id,
+                    startOfWeek = weekDay,
+                    idleThresholdMinutes = idleThresholdMinutes ?: 0,
+                    dayAttribution = dayAttribution ?: DayAttribution.START_DAY,
+                    durationFormat = durationFormat ?: DurationFormat.HH_MM_SS,
+                ),
+            )
         } else {
-            // Update existing settings
-            userSettingsRepository.update(settings.copy(startOfWeek = weekDay))
+            // Update existing settings, optional preferences are kept if not provided
+            userSettingsRepository.update(
+                settings.copy(
+                    startOfWeek = weekDay,
+                    idleThresholdMinutes = idleThresholdMinutes ?: settings.idleThresholdMinutes,
+                    dayAttribution = dayAttribution ?: settings.dayAttribution,
+                    durationFormat = durationFormat ?: settings.durationFormat,
+                ),
+            )
         }
 
         return HttpResponse.ok(SettingsSuccessResponse("Settings updated successfully"))
@@ -181,6 +232,9 @@ data class ProfileResponse(
     val greeting: String,
     val locale: String,
     val startOfWeek: String,
+    val idleThresholdMinutes: Int,
+    val dayAttribution: String,
+    val durationFormat: String,
 )
 
 @Serdeable
@@ -211,6 +265,9 @@ data class ProfileErrorResponse(
 data class UpdateSettingsRequest(
     @field:NotBlank(message = "Start of week is required")
     val startOfWeek: String,
+    val idleThresholdMinutes: Int? = null,
+    val dayAttribution: String? = null,
+    val durationFormat: String? = null,
 )
 
 @Serdeable
@@ -14,14 +14,30 @@ data class UserSettings(
     val userId: Long,
     @field:MappedProperty("start_of_week")
     val startOfWeek: WeekDay,
+    /**
+     * Inactivity period after which the user is asked what to do with the idle time of the active entry;
+     * zero disables idle detection.
+     */
+    @field:MappedProperty("idle_threshold_minutes")
+    val idleThresholdMinutes: Int = 0,
+    @field:MappedProperty("day_attribution")
+    val dayAttribution: DayAttribution = DayAttribution.START_DAY,
+    @field:MappedProperty("duration_format")
+    val durationFormat: DurationFormat = DurationFormat.HH_MM_SS,
 ) {
     companion object {
         fun create(
             userId: Long,
             startOfWeek: WeekDay = WeekDay.MONDAY,
+            idleThresholdMinutes: Int = 0,
+            dayAttribution: DayAttribution = DayAttribution.START_DAY,
+            durationFormat: DurationFormat = DurationFormat.HH_MM_SS,
         ) = UserSettings(
             userId = userId,
             startOfWeek = startOfWeek,
+            idleThresholdMinutes = idleThresholdMinutes,
+            dayAttribution = dayAttribution,
+            durationFormat = durationFormat,
         )
     }
 }
@@ -35,3 +51,31 @@ enum class WeekDay {
     SATURDAY,
     SUNDAY,
 }
+
+/**
+ * Defines which calendar days the time of an entry is attributed to in totals and goals.
+ */
+enum class DayAttribution {
+    /** All the time of an entry belongs to the day it started on */
+    START_DAY,
+
+    /** Entries crossing midnight are split between the days they cover */
+    SPLIT_AT_MIDNIGHT,
+}
+
+/**
+ * Defines how durations are displayed to the user.
+ */
+enum class DurationFormat {
+    /** 07:15:00 */
+    HH_MM_SS,
+
+    /** 7:15 */
+    H_MM,
+
+    /** 7.25 h */
+    DECIMAL_HOURS,
+
+    /** 7h 15m */
+    HUMANIZED,
+}
@@ -0,0 +1,9 @@
+-- Add soft-delete support to time_log_entry table, so that deleted entries can be restored
+ALTER TABLE time_log_entry ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Soft-deleted entries must not block starting a new active entry
+DROP INDEX idx_time_log_entry_active_per_user;
+
+CREATE UNIQUE INDEX idx_time_log_entry_active_per_user
+    ON time_log_entry (owner_id)
+    WHERE end_time IS NULL AND deleted_at IS NULL;
@@ -0,0 +1,11 @@
+CREATE TABLE pomodoro_settings (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id BIGINT NOT NULL UNIQUE REFERENCES app_user(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    work_minutes INTEGER NOT NULL DEFAULT 25,
+    break_minutes INTEGER NOT NULL DEFAULT 5,
+    interval_end_action VARCHAR(20) NOT NULL DEFAULT 'NOTIFY',
+    break_tag VARCHAR(255) NOT NULL DEFAULT 'break'
+);
+
+CREATE INDEX idx_pomodoro_settings_user_id ON pomodoro_settings(user_id);
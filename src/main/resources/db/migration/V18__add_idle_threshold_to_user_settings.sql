@@ -0,0 +1,2 @@
+ALTER TABLE user_settings
+    ADD COLUMN idle_threshold_minutes INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,13 @@
+CREATE TABLE notification_settings (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id BIGINT NOT NULL UNIQUE REFERENCES app_user(id) ON DELETE CASCADE,
+    no_active_entry_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    working_hours_from TIME NOT NULL DEFAULT '09:00',
+    working_hours_to TIME NOT NULL DEFAULT '17:00',
+    working_days VARCHAR(128) NOT NULL DEFAULT 'MONDAY,TUESDAY,WEDNESDAY,THURSDAY,FRIDAY',
+    long_running_entry_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    long_running_entry_minutes INTEGER NOT NULL DEFAULT 120,
+    daily_goal_reached_enabled BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE INDEX idx_notification_settings_user_id ON notification_settings(user_id);
@@ -0,0 +1,9 @@
+CREATE TABLE pinned_entry (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id BIGINT NOT NULL REFERENCES app_user(id) ON DELETE CASCADE,
+    sort_order INTEGER NOT NULL,
+    title VARCHAR(1000) NOT NULL,
+    tags TEXT[] NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX idx_pinned_entry_user_id ON pinned_entry(user_id);
@@ -0,0 +1,2 @@
+ALTER TABLE user_settings
+    ADD COLUMN day_attribution VARCHAR(32) NOT NULL DEFAULT 'START_DAY';
@@ -0,0 +1,2 @@
+ALTER TABLE user_settings
+    ADD COLUMN duration_format VARCHAR(32) NOT NULL DEFAULT 'HH_MM_SS';
@@ -0,0 +1,10 @@
+CREATE TABLE rounding_settings (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id BIGINT NOT NULL UNIQUE REFERENCES app_user(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    increment_minutes INTEGER NOT NULL DEFAULT 15,
+    direction VARCHAR(20) NOT NULL DEFAULT 'NEAREST',
+    application VARCHAR(20) NOT NULL DEFAULT 'ON_DISPLAY'
+);
+
+CREATE INDEX idx_rounding_settings_user_id ON rounding_settings(user_id);
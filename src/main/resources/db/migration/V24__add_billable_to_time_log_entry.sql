@@ -0,0 +1,2 @@
+ALTER TABLE time_log_entry
+    ADD COLUMN billable BOOLEAN NOT NULL DEFAULT FALSE;
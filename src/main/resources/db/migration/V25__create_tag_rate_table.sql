@@ -0,0 +1,10 @@
+CREATE TABLE tag_rate (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id BIGINT NOT NULL REFERENCES app_user(id) ON DELETE CASCADE,
+    tag VARCHAR(255) NOT NULL,
+    hourly_rate NUMERIC(12, 2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    UNIQUE (user_id, tag)
+);
+
+CREATE INDEX idx_tag_rate_user_id ON tag_rate(user_id);
@@ -0,0 +1,2 @@
+ALTER TABLE pinned_entry
+    ADD COLUMN billable BOOLEAN NOT NULL DEFAULT FALSE;
@@ -7,6 +7,11 @@ import io.orangebuffalo.aionify.domain.ActivationToken
 import io.orangebuffalo.aionify.domain.DailyGoalBreak
 import io.orangebuffalo.aionify.domain.GoalsSettings
 import io.orangebuffalo.aionify.domain.LegacyTag
+import io.orangebuffalo.aionify.domain.NotificationSettings
+import io.orangebuffalo.aionify.domain.PinnedEntry
+import io.orangebuffalo.aionify.domain.PomodoroSettings
+import io.orangebuffalo.aionify.domain.RoundingSettings
+import io.orangebuffalo.aionify.domain.TagRate
 import io.orangebuffalo.aionify.domain.TimeLogEntry
 import io.orangebuffalo.aionify.domain.User
 import io.orangebuffalo.aionify.domain.UserApiAccessToken
@@ -41,6 +46,16 @@ interface GenericEntityRepository {
 
     fun save(entity: DailyGoalBreak): DailyGoalBreak
 
+    fun save(entity: PomodoroSettings): PomodoroSettings
+
+    fun save(entity: RoundingSettings): RoundingSettings
+
+    fun save(entity: TagRate): TagRate
+
+    fun save(entity: NotificationSettings): NotificationSettings
+
+    fun save(entity: PinnedEntry): PinnedEntry
+
     /**
      * Inserts/updates a LegacyTag entity.
      */
@@ -75,6 +90,16 @@ interface GenericEntityRepository {
 
     fun update(entity: DailyGoalBreak): DailyGoalBreak
 
+    fun update(entity: PomodoroSettings): PomodoroSettings
+
+    fun update(entity: RoundingSettings): RoundingSettings
+
+    fun update(entity: TagRate): TagRate
+
+    fun update(entity: NotificationSettings): NotificationSettings
+
+    fun update(entity: PinnedEntry): PinnedEntry
+
     /**
      * Updates a LegacyTag entity.
      */
@@ -0,0 +1,82 @@
+package io.orangebuffalo.aionify
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.domain.PomodoroIntervalEndAction
+import io.orangebuffalo.aionify.domain.PomodoroSettingsRepository
+import io.orangebuffalo.aionify.domain.User
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertTrue
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+
+@MicronautTest(transactional = false)
+class PomodoroSettingsPlaywrightTest : PlaywrightTestBase() {
+    @Inject
+    lateinit var testAuthSupport: TestAuthSupport
+
+    @Inject
+    lateinit var pomodoroSettingsRepository: PomodoroSettingsRepository
+
+    private lateinit var regularUser: User
+
+    @BeforeEach
+    fun setupTestData() {
+        regularUser = testUsers.createRegularUser("pomodoroSettingsUser", "Pomodoro Settings User")
+    }
+
+    @Test
+    fun `should hide pomodoro settings while the mode is disabled`() {
+        loginViaToken("/portal/settings", regularUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='pomodoro-title']")).isVisible()
+        assertThat(page.locator("[data-testid='pomodoro-toggle']")).hasAttribute("data-state", "unchecked")
+        assertThat(page.locator("[data-testid='pomodoro-section']")).not().isVisible()
+    }
+
+    @Test
+    fun `should configure and persist pomodoro settings`() {
+        loginViaToken("/portal/settings", regularUser, testAuthSupport)
+
+        page.locator("[data-testid='pomodoro-toggle']").click()
+        assertThat(page.locator("[data-testid='pomodoro-work-minutes-input']")).hasValue("25")
+        assertThat(page.locator("[data-testid='pomodoro-break-minutes-input']")).hasValue("5")
+
+        page.locator("[data-testid='pomodoro-work-minutes-input']").fill("50")
+        page.locator("[data-testid='pomodoro-break-minutes-input']").fill("10")
+        page.locator("[data-testid='pomodoro-interval-end-action-select']").click()
+        page.locator("[data-testid='pomodoro-interval-end-action-option-START_BREAK']").click()
+        page.locator("[data-testid='pomodoro-break-tag-input']").fill("rest")
+        page.locator("[data-testid='save-pomodoro-button']").click()
+
+        assertThat(page.locator("[data-testid='pomodoro-settings-success']"))
+            .containsText("Pomodoro settings updated successfully")
+        testDatabaseSupport.inTransaction {
+            val settings = pomodoroSettingsRepository.findByUserId(requireNotNull(regularUser.id)).orElseThrow()
+            assertTrue(settings.enabled)
+            assertEquals(50, settings.workMinutes)
+            assertEquals(10, settings.breakMinutes)
+            assertEquals(PomodoroIntervalEndAction.START_BREAK, settings.intervalEndAction)
+            assertEquals("rest", settings.breakTag)
+        }
+
+        page.reload()
+
+        assertThat(page.locator("[data-testid='pomodoro-work-minutes-input']")).hasValue("50")
+        assertThat(page.locator("[data-testid='pomodoro-interval-end-action-select']"))
+            .containsText("Notify and start a break entry")
+    }
+
+    @Test
+    fun `should show error for invalid interval length`() {
+        loginViaToken("/portal/settings", regularUser, testAuthSupport)
+
+        page.locator("[data-testid='pomodoro-toggle']").click()
+        page.locator("[data-testid='pomodoro-work-minutes-input']").fill("0")
+        page.locator("[data-testid='save-pomodoro-button']").click()
+
+        assertThat(page.locator("[data-testid='pomodoro-settings-error']"))
+            .containsText("Interval length must be between 1 minute and 24 hours")
+    }
+}
@@ -0,0 +1,83 @@
+package io.orangebuffalo.aionify
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.domain.RoundingApplication
+import io.orangebuffalo.aionify.domain.RoundingDirection
+import io.orangebuffalo.aionify.domain.RoundingSettingsRepository
+import io.orangebuffalo.aionify.domain.User
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertTrue
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+
+@MicronautTest(transactional = false)
+class RoundingSettingsPlaywrightTest : PlaywrightTestBase() {
+    @Inject
+    lateinit var testAuthSupport: TestAuthSupport
+
+    @Inject
+    lateinit var roundingSettingsRepository: RoundingSettingsRepository
+
+    private lateinit var regularUser: User
+
+    @BeforeEach
+    fun setupTestData() {
+        regularUser = testUsers.createRegularUser("roundingSettingsUser", "Rounding Settings User")
+    }
+
+    @Test
+    fun `should hide rounding settings while rounding is disabled`() {
+        loginViaToken("/portal/settings", regularUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='rounding-title']")).isVisible()
+        assertThat(page.locator("[data-testid='rounding-toggle']")).hasAttribute("data-state", "unchecked")
+        assertThat(page.locator("[data-testid='rounding-section']")).not().isVisible()
+    }
+
+    @Test
+    fun `should configure and persist rounding settings`() {
+        loginViaToken("/portal/settings", regularUser, testAuthSupport)
+
+        page.locator("[data-testid='rounding-toggle']").click()
+        assertThat(page.locator("[data-testid='rounding-increment-minutes-input']")).hasValue("15")
+        assertThat(page.locator("[data-testid='rounding-direction-select']")).containsText("To nearest")
+        assertThat(page.locator("[data-testid='rounding-application-select']")).containsText("Only to displayed totals")
+
+        page.locator("[data-testid='rounding-increment-minutes-input']").fill("6")
+        page.locator("[data-testid='rounding-direction-select']").click()
+        page.locator("[data-testid='rounding-direction-option-UP']").click()
+        page.locator("[data-testid='rounding-application-select']").click()
+        page.locator("[data-testid='rounding-application-option-ON_STOP']").click()
+        page.locator("[data-testid='save-rounding-button']").click()
+
+        assertThat(page.locator("[data-testid='rounding-settings-success']"))
+            .containsText("Rounding settings updated successfully")
+        testDatabaseSupport.inTransaction {
+            val settings = roundingSettingsRepository.findByUserId(requireNotNull(regularUser.id)).orElseThrow()
+            assertTrue(settings.enabled)
+            assertEquals(6, settings.incrementMinutes)
+            assertEquals(RoundingDirection.UP, settings.direction)
+            assertEquals(RoundingApplication.ON_STOP, settings.application)
+        }
+
+        page.reload()
+
+        assertThat(page.locator("[data-testid='rounding-increment-minutes-input']")).hasValue("6")
+        assertThat(page.locator("[data-testid='rounding-direction-select']")).containsText("Up")
+        assertThat(page.locator("[data-testid='rounding-application-select']")).containsText("When an entry is stopped")
+    }
+
+    @Test
+    fun `should show error for invalid rounding increment`() {
+        loginViaToken("/portal/settings", regularUser, testAuthSupport)
+
+        page.locator("[data-testid='rounding-toggle']").click()
+        page.locator("[data-testid='rounding-increment-minutes-input']").fill("0")
+        page.locator("[data-testid='save-rounding-button']").click()
+
+        assertThat(page.locator("[data-testid='rounding-settings-error']"))
+            .containsText("Rounding increment must be between 1 minute and 24 hours")
+    }
+}
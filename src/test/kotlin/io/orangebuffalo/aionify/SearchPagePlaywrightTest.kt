@@ -0,0 +1,196 @@
+package io.orangebuffalo.aionify
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.domain.RoundingDirection
+import io.orangebuffalo.aionify.domain.RoundingSettings
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import io.orangebuffalo.aionify.domain.TimeLogEntryRepository
+import io.orangebuffalo.aionify.domain.User
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertTrue
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import java.util.regex.Pattern
+
+/**
+ * Tests for the full-history search of time log entries.
+ */
+@MicronautTest(transactional = false)
+class SearchPagePlaywrightTest : PlaywrightTestBase() {
+    @Inject
+    lateinit var testAuthSupport: TestAuthSupport
+
+    @Inject
+    lateinit var timeLogEntryRepository: TimeLogEntryRepository
+
+    private lateinit var testUser: User
+
+    @BeforeEach
+    fun setupSearchTest() {
+        testUser = testUsers.createRegularUser()
+    }
+
+    private fun insertEntry(
+        date: String,
+        from: String,
+        to: String,
+        title: String,
+        tags: Array<String> = emptyArray(),
+    ) {
+        val baseTime = timeInTestTz(date, from)
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime,
+                endTime = baseTime.withLocalTime(to),
+                title = title,
+                ownerId = requireNotNull(testUser.id),
+                tags = tags,
+            ),
+        )
+    }
+
+    @Test
+    fun `should find entries by title across the whole history`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        insertEntry("2023-11-02", "09:00", "10:00", "Billing migration planning", arrayOf("client-a"))
+        insertEntry("2024-02-10", "09:00", "09:20", "Billing migration", arrayOf("client-a"))
+        insertEntry("2024-03-01", "13:00", "15:00", "Code review", arrayOf("client-b"))
+
+        loginViaToken("/portal/search", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='search-result']")).hasCount(3)
+
+        page.locator("[data-testid='search-query-input']").fill("billing")
+        page.locator("[data-testid='search-submit-button']").click()
+
+        val results = page.locator("[data-testid='search-result']")
+        assertThat(results).hasCount(2)
+        assertThat(results.nth(0)).containsText("Billing migration")
+        assertThat(results.nth(0).locator("[data-testid='search-result-date']")).containsText("10 Feb 2024")
+        assertThat(results.nth(1)).containsText("Billing migration planning")
+        assertThat(results.nth(1).locator("[data-testid='search-result-date']")).containsText("2 Nov 2023")
+        assertThat(page.locator("[data-testid='search-results-count']")).hasText("Entries found: 2")
+        assertThat(page.locator("[data-testid='search-grand-total']")).hasText("Total: 01:20:00")
+        assertThat(page).hasURL(Pattern.compile(".*/portal/search\\?q=billing$"))
+    }
+
+    @Test
+    fun `should filter entries by tags and duration`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        insertEntry("2023-11-02", "09:00", "10:00", "Billing migration planning", arrayOf("client-a"))
+        insertEntry("2024-02-10", "09:00", "09:20", "Billing migration", arrayOf("client-a"))
+        insertEntry("2024-03-01", "13:00", "15:00", "Code review", arrayOf("client-b"))
+
+        loginViaToken("/portal/search", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='search-result']")).hasCount(3)
+
+        page.locator("[data-testid='search-tags-button']").click()
+        page.locator("[data-testid='search-tags-checkbox-client-a']").click()
+        page.keyboard().press("Escape")
+        page.locator("[data-testid='search-min-duration-input']").fill("30")
+        page.locator("[data-testid='search-submit-button']").click()
+
+        val results = page.locator("[data-testid='search-result']")
+        assertThat(results).hasCount(1)
+        assertThat(results.first()).containsText("Billing migration planning")
+        assertThat(page.locator("[data-testid='search-grand-total']")).hasText("Total: 01:00:00")
+
+        page.locator("[data-testid='search-reset-button']").click()
+
+        assertThat(results).hasCount(3)
+        assertThat(page.locator("[data-testid='search-min-duration-input']")).hasValue("")
+    }
+
+    @Test
+    fun `should open search specified in the URL`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        insertEntry("2024-02-10", "09:00", "09:20", "Billing migration", arrayOf("client-a"))
+        insertEntry("2024-03-01", "13:00", "15:00", "Billing review", arrayOf("client-b"))
+
+        loginViaToken("/portal/search?q=billing&from=2024-03-01&to=2024-03-10", testUser, testAuthSupport)
+
+        val results = page.locator("[data-testid='search-result']")
+        assertThat(results).hasCount(1)
+        assertThat(results.first()).containsText("Billing review")
+        assertThat(page.locator("[data-testid='search-query-input']")).hasValue("billing")
+        assertThat(page.locator("[data-testid='search-from-button']")).hasText("1 Mar 2024")
+        assertThat(page.locator("[data-testid='search-to-button']")).hasText("10 Mar 2024")
+    }
+
+    @Test
+    fun `should paginate results`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        (1..25).forEach { day ->
+            insertEntry("2024-01-${day.toString().padStart(2, '0')}", "09:00", "10:00", "Task $day")
+        }
+
+        loginViaToken("/portal/search", testUser, testAuthSupport)
+
+        val results = page.locator("[data-testid='search-result']")
+        assertThat(results).hasCount(20)
+        assertThat(results.first()).containsText("Task 25")
+        assertThat(page.locator("[data-testid='search-pagination-info']")).hasText("Page 1 of 2")
+        assertThat(page.locator("[data-testid='search-grand-total']")).hasText("Total: 25:00:00")
+
+        page.locator("[data-testid='search-pagination-next']").click()
+
+        assertThat(results).hasCount(5)
+        assertThat(results.first()).containsText("Task 5")
+        assertThat(page.locator("[data-testid='search-pagination-info']")).hasText("Page 2 of 2")
+        assertThat(page.locator("[data-testid='search-pagination-next']")).isDisabled()
+    }
+
+    @Test
+    fun `should delete entry from search results`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        insertEntry("2024-02-10", "09:00", "09:20", "Billing migration")
+        insertEntry("2024-03-01", "13:00", "15:00", "Code review")
+
+        loginViaToken("/portal/search", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='search-result']")).hasCount(2)
+
+        TimeLogsPageObject(page).deleteEntry("Billing migration")
+
+        assertThat(page.locator("[data-testid='search-result']")).hasCount(1)
+        assertThat(page.locator("[data-testid='search-grand-total']")).hasText("Total: 02:00:00")
+        testDatabaseSupport.inTransaction {
+            assertTrue(timeLogEntryRepository.findAll().none { it.title == "Billing migration" })
+        }
+    }
+
+    @Test
+    fun `should round grand total when rounding displayed totals`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+        testDatabaseSupport.insert(
+            RoundingSettings(
+                userId = requireNotNull(testUser.id),
+                enabled = true,
+                incrementMinutes = 15,
+                direction = RoundingDirection.UP,
+            ),
+        )
+
+        insertEntry("2023-11-02", "09:00", "10:00", "Billing migration planning")
+        insertEntry("2024-02-10", "09:00", "09:20", "Billing migration")
+
+        loginViaToken("/portal/search", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='search-result']")).hasCount(2)
+        // The 20 minutes entry is rounded up to 30 minutes
+        assertThat(page.locator("[data-testid='search-grand-total']")).hasText("Total: 01:30:00")
+        assertThat(page.locator("[data-testid='rounded-total-indicator']"))
+            .hasAttribute("title", "Each entry is rounded up to 15 min")
+    }
+}
@@ -2,6 +2,8 @@ package io.orangebuffalo.aionify
 
 import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
 import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.domain.DayAttribution
+import io.orangebuffalo.aionify.domain.DurationFormat
 import io.orangebuffalo.aionify.domain.User
 import io.orangebuffalo.aionify.domain.UserSettings
 import io.orangebuffalo.aionify.domain.UserSettingsRepository
@@ -96,4 +98,69 @@ class SettingsPagePreferencesPlaywrightTest : PlaywrightTestBase() {
             assertEquals(WeekDay.SUNDAY, persistedSettings.startOfWeek)
         }
     }
+
+    @Test
+    fun `should allow changing and persisting idle detection threshold`() {
+        navigateToSettingsViaToken()
+
+        val idleThresholdInput = page.locator("[data-testid='idle-threshold-input']")
+        assertThat(idleThresholdInput).hasValue("0")
+
+        idleThresholdInput.fill("20")
+        page.locator("[data-testid='save-preferences-button']").click()
+
+        assertThat(page.locator("[data-testid='preferences-success']")).containsText("Preferences updated successfully")
+        testDatabaseSupport.inTransaction {
+            val updatedSettings = userSettingsRepository.findByUserId(requireNotNull(regularUser.id)).orElseThrow()
+            assertEquals(20, updatedSettings.idleThresholdMinutes)
+            assertEquals(WeekDay.MONDAY, updatedSettings.startOfWeek)
+        }
+
+        page.navigate("$baseUrl/portal/settings")
+        assertThat(page.locator("[data-testid='idle-threshold-input']")).hasValue("20")
+    }
+
+    @Test
+    fun `should allow changing and persisting attribution of entries crossing midnight`() {
+        navigateToSettingsViaToken()
+
+        val dayAttributionSelect = page.locator("[data-testid='day-attribution-select']")
+        assertThat(dayAttributionSelect).containsText("Count on the start day")
+
+        dayAttributionSelect.click()
+        page.locator("[data-testid='day-attribution-option-split-at-midnight']").click()
+        page.locator("[data-testid='save-preferences-button']").click()
+
+        assertThat(page.locator("[data-testid='preferences-success']")).containsText("Preferences updated successfully")
+        testDatabaseSupport.inTransaction {
+            val updatedSettings = userSettingsRepository.findByUserId(requireNotNull(regularUser.id)).orElseThrow()
+            assertEquals(DayAttribution.SPLIT_AT_MIDNIGHT, updatedSettings.dayAttribution)
+            assertEquals(WeekDay.MONDAY, updatedSettings.startOfWeek)
+        }
+
+        page.navigate("$baseUrl/portal/settings")
+        assertThat(page.locator("[data-testid='day-attribution-select']")).containsText("Split between days at midnight")
+    }
+
+    @Test
+    fun `should allow changing and persisting duration format`() {
+        navigateToSettingsViaToken()
+
+        val durationFormatSelect = page.locator("[data-testid='duration-format-select']")
+        assertThat(durationFormatSelect).containsText("Hours, minutes and seconds (07:15:00)")
+
+        durationFormatSelect.click()
+        page.locator("[data-testid='duration-format-option-decimal-hours']").click()
+        page.locator("[data-testid='save-preferences-button']").click()
+
+        assertThat(page.locator("[data-testid='preferences-success']")).containsText("Preferences updated successfully")
+        testDatabaseSupport.inTransaction {
+            val updatedSettings = userSettingsRepository.findByUserId(requireNotNull(regularUser.id)).orElseThrow()
+            assertEquals(DurationFormat.DECIMAL_HOURS, updatedSettings.durationFormat)
+            assertEquals(DayAttribution.START_DAY, updatedSettings.dayAttribution)
+        }
+
+        page.navigate("$baseUrl/portal/settings")
+        assertThat(page.locator("[data-testid='duration-format-select']")).containsText("Decimal hours (7.25 h)")
+    }
 }
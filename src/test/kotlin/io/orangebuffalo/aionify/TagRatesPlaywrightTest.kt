@@ -0,0 +1,119 @@
+package io.orangebuffalo.aionify
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.domain.TagRate
+import io.orangebuffalo.aionify.domain.TagRateRepository
+import io.orangebuffalo.aionify.domain.User
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertTrue
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import java.math.BigDecimal
+
+@MicronautTest(transactional = false)
+class TagRatesPlaywrightTest : PlaywrightTestBase() {
+    @Inject
+    lateinit var testAuthSupport: TestAuthSupport
+
+    @Inject
+    lateinit var tagRateRepository: TagRateRepository
+
+    private lateinit var regularUser: User
+
+    @BeforeEach
+    fun setupTestData() {
+        regularUser = testUsers.createRegularUser("tagRatesUser", "Tag Rates User")
+    }
+
+    @Test
+    fun `should show empty state when no hourly rates are configured`() {
+        loginViaToken("/portal/settings", regularUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='tag-rates-title']")).isVisible()
+        assertThat(page.locator("[data-testid='tag-rates-empty']")).isVisible()
+    }
+
+    @Test
+    fun `should add hourly rate for a tag`() {
+        loginViaToken("/portal/settings", regularUser, testAuthSupport)
+
+        page.locator("[data-testid='tag-rate-tag-input']").fill("client-a")
+        page.locator("[data-testid='tag-rate-hourly-rate-input']").fill("80")
+        page.locator("[data-testid='tag-rate-currency-input']").fill("eur")
+        page.locator("[data-testid='save-tag-rate-button']").click()
+
+        assertThat(page.locator("[data-testid='tag-rates-success']")).containsText("Hourly rate saved successfully")
+        val rows = page.locator("[data-testid='tag-rate-row']")
+        assertThat(rows).hasCount(1)
+        assertThat(rows.locator("[data-testid='tag-rate-tag']")).hasText("client-a")
+        assertThat(rows.locator("[data-testid='tag-rate-hourly-rate']")).hasText("€80.00")
+
+        testDatabaseSupport.inTransaction {
+            val rates = tagRateRepository.findByUserIdOrderByTagAsc(requireNotNull(regularUser.id))
+            assertEquals(1, rates.size)
+            assertEquals(0, BigDecimal("80").compareTo(rates[0].hourlyRate))
+            assertEquals("EUR", rates[0].currency)
+        }
+    }
+
+    @Test
+    fun `should update existing hourly rate`() {
+        testDatabaseSupport.insert(
+            TagRate(
+                userId = requireNotNull(regularUser.id),
+                tag = "client-a",
+                hourlyRate = BigDecimal("80.00"),
+                currency = "EUR",
+            ),
+        )
+
+        loginViaToken("/portal/settings", regularUser, testAuthSupport)
+
+        page.locator("[data-testid='tag-rate-tag']").click()
+        assertThat(page.locator("[data-testid='tag-rate-tag-input']")).hasValue("client-a")
+        page.locator("[data-testid='tag-rate-hourly-rate-input']").fill("95.5")
+        page.locator("[data-testid='save-tag-rate-button']").click()
+
+        val rows = page.locator("[data-testid='tag-rate-row']")
+        assertThat(rows).hasCount(1)
+        assertThat(rows.locator("[data-testid='tag-rate-hourly-rate']")).hasText("€95.50")
+    }
+
+    @Test
+    fun `should delete hourly rate`() {
+        testDatabaseSupport.insert(
+            TagRate(
+                userId = requireNotNull(regularUser.id),
+                tag = "client-a",
+                hourlyRate = BigDecimal("80.00"),
+                currency = "EUR",
+            ),
+        )
+
+        loginViaToken("/portal/settings", regularUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='tag-rate-row']")).hasCount(1)
+        page.locator("[data-testid='delete-tag-rate-button']").click()
+
+        assertThat(page.locator("[data-testid='tag-rates-success']")).containsText("Hourly rate deleted successfully")
+        assertThat(page.locator("[data-testid='tag-rates-empty']")).isVisible()
+        testDatabaseSupport.inTransaction {
+            assertTrue(tagRateRepository.findByUserIdOrderByTagAsc(requireNotNull(regularUser.id)).isEmpty())
+        }
+    }
+
+    @Test
+    fun `should show error for invalid currency`() {
+        loginViaToken("/portal/settings", regularUser, testAuthSupport)
+
+        page.locator("[data-testid='tag-rate-tag-input']").fill("client-a")
+        page.locator("[data-testid='tag-rate-hourly-rate-input']").fill("80")
+        page.locator("[data-testid='tag-rate-currency-input']").fill("EU")
+        page.locator("[data-testid='save-tag-rate-button']").click()
+
+        assertThat(page.locator("[data-testid='tag-rates-error']"))
+            .containsText("Currency must be a three-letter ISO 4217 code")
+    }
+}
@@ -7,6 +7,11 @@ import io.orangebuffalo.aionify.domain.ActivationToken
 import io.orangebuffalo.aionify.domain.DailyGoalBreak
 import io.orangebuffalo.aionify.domain.GoalsSettings
 import io.orangebuffalo.aionify.domain.LegacyTag
+import io.orangebuffalo.aionify.domain.NotificationSettings
+import io.orangebuffalo.aionify.domain.PinnedEntry
+import io.orangebuffalo.aionify.domain.PomodoroSettings
+import io.orangebuffalo.aionify.domain.RoundingSettings
+import io.orangebuffalo.aionify.domain.TagRate
 import io.orangebuffalo.aionify.domain.TimeLogEntry
 import io.orangebuffalo.aionify.domain.User
 import io.orangebuffalo.aionify.domain.UserApiAccessToken
@@ -97,6 +102,11 @@ open class TestDatabaseSupport(
             is ActivationToken -> genericRepository.save(entity) as T
             is GoalsSettings -> genericRepository.save(entity) as T
             is DailyGoalBreak -> genericRepository.save(entity) as T
+            is PomodoroSettings -> genericRepository.save(entity) as T
+            is RoundingSettings -> genericRepository.save(entity) as T
+            is TagRate -> genericRepository.save(entity) as T
+            is NotificationSettings -> genericRepository.save(entity) as T
+            is PinnedEntry -> genericRepository.save(entity) as T
             is LegacyTag -> genericRepository.save(entity) as T
             is UserSettings -> genericRepository.save(entity) as T
             is UserApiAccessToken -> genericRepository.save(entity) as T
@@ -122,6 +132,11 @@ open class TestDatabaseSupport(
             is ActivationToken -> genericRepository.update(entity) as T
             is GoalsSettings -> genericRepository.update(entity) as T
             is DailyGoalBreak -> genericRepository.update(entity) as T
+            is PomodoroSettings -> genericRepository.update(entity) as T
+            is RoundingSettings -> genericRepository.update(entity) as T
+            is TagRate -> genericRepository.update(entity) as T
+            is NotificationSettings -> genericRepository.update(entity) as T
+            is PinnedEntry -> genericRepository.update(entity) as T
             is LegacyTag -> genericRepository.update(entity) as T
             is UserSettings -> genericRepository.update(entity) as T
             is UserApiAccessToken -> genericRepository.update(entity) as T
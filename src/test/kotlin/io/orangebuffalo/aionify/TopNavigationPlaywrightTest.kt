@@ -72,7 +72,7 @@ class TopNavigationPlaywrightTest : PlaywrightTestBase() {
 
         // Verify exactly the expected user-specific menu items are present (desktop view)
         val navItems = page.locator("[data-testid^='nav-item-']")
-        assertThat(navItems).containsText(arrayOf("Time Log", "Settings"))
+        assertThat(navItems).containsText(arrayOf("Time Log", "Search", "Settings"))
     }
 
     @Test
@@ -116,7 +116,7 @@ class TopNavigationPlaywrightTest : PlaywrightTestBase() {
 
         // Verify only user-specific items are present (no admin-specific items)
         val navItems = page.locator("[data-testid^='nav-item-']")
-        assertThat(navItems).containsText(arrayOf("Time Log", "Settings"))
+        assertThat(navItems).containsText(arrayOf("Time Log", "Search", "Settings"))
     }
 
     @Test
@@ -207,9 +207,11 @@ class TopNavigationPlaywrightTest : PlaywrightTestBase() {
 
         // Verify all user menu items are in mobile menu
         val timeEntry = page.locator("[data-testid='mobile-nav-item-time-log']")
+        val search = page.locator("[data-testid='mobile-nav-item-search']")
         val settings = page.locator("[data-testid='mobile-nav-item-settings']")
 
         assertThat(timeEntry).isVisible()
+        assertThat(search).isVisible()
         assertThat(settings).isVisible()
 
         // Profile is not in mobile menu (it's in the profile dropdown)
@@ -370,6 +370,54 @@ class TimeLogEntryApiResourceTest {
             assertNotNull(activeEntry)
             assertArrayEquals(emptyArray<String>(), activeEntry?.metadata)
         }
+
+        @Test
+        fun `should start a billable time log entry`() {
+            // When: Starting a new entry marked as billable
+            val request =
+                HttpRequest
+                    .POST(
+                        "/api/time-log-entries/start",
+                        StartTimeLogEntryRequest(title = "Client work", billable = true),
+                    ).bearerAuth(validToken1)
+
+            val response = client.toBlocking().exchange(request, StartTimeLogEntryResponse::class.java)
+
+            // Then: Request succeeds and reports the flag
+            assertEquals(HttpStatus.OK, response.status)
+            assertEquals(true, response.body()?.billable)
+
+            // And: Entry is saved in database as billable
+            val activeEntry =
+                testDatabaseSupport.inTransaction {
+                    timeLogEntryRepository.findByOwnerIdAndEndTimeIsNull(testUser1.id!!).orElse(null)
+                }
+            assertNotNull(activeEntry)
+            assertEquals(true, activeEntry?.billable)
+        }
+
+        @Test
+        fun `should start a non-billable time log entry when billable is not provided`() {
+            // When: Starting a new entry without the billable flag
+            val request =
+                HttpRequest
+                    .POST(
+                        "/api/time-log-entries/start",
+                        StartTimeLogEntryRequest(title = "Internal work"),
+                    ).bearerAuth(validToken1)
+
+            val response = client.toBlocking().exchange(request, StartTimeLogEntryResponse::class.java)
+
+            // Then: Request succeeds with a non-billable entry
+            assertEquals(HttpStatus.OK, response.status)
+            assertEquals(false, response.body()?.billable)
+
+            val activeEntry =
+                testDatabaseSupport.inTransaction {
+                    timeLogEntryRepository.findByOwnerIdAndEndTimeIsNull(testUser1.id!!).orElse(null)
+                }
+            assertEquals(false, activeEntry?.billable)
+        }
     }
 
     @Nested
@@ -714,6 +762,34 @@ class TimeLogEntryApiResourceTest {
             assertEquals("Active Entry", response.body()?.title)
             assertEquals(emptyList<String>(), response.body()?.metadata)
         }
+
+        @Test
+        fun `should return active entry with billable flag`() {
+            // Given: User has an active billable entry
+            testDatabaseSupport.inTransaction {
+                timeLogEntryRepository.save(
+                    TimeLogEntry(
+                        startTime = timeService.now(),
+                        endTime = null,
+                        title = "Active Entry",
+                        ownerId = testUser1.id!!,
+                        billable = true,
+                    ),
+                )
+            }
+
+            // When: Getting active entry
+            val request =
+                HttpRequest
+                    .GET<Any>("/api/time-log-entries/active")
+                    .bearerAuth(validToken1)
+
+            val response = client.toBlocking().exchange(request, TimeLogEntryApiDto::class.java)
+
+            // Then: Request succeeds with the billable flag
+            assertEquals(HttpStatus.OK, response.status)
+            assertEquals(true, response.body()?.billable)
+        }
     }
 
     @Nested
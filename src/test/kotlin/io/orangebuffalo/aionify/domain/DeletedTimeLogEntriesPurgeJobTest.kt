@@ -0,0 +1,81 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.TestDatabaseSupport
+import io.orangebuffalo.aionify.TestTimeService
+import io.orangebuffalo.aionify.TestUsers
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import java.time.Instant
+
+@MicronautTest(transactional = false)
+class DeletedTimeLogEntriesPurgeJobTest {
+    @Inject
+    lateinit var purgeJob: DeletedTimeLogEntriesPurgeJob
+
+    @Inject
+    lateinit var timeLogEntryRepository: TimeLogEntryRepository
+
+    @Inject
+    lateinit var testDatabaseSupport: TestDatabaseSupport
+
+    @Inject
+    lateinit var testTimeService: TestTimeService
+
+    @Inject
+    lateinit var testUsers: TestUsers
+
+    private lateinit var user1: User
+    private lateinit var user2: User
+
+    private val now = Instant.parse("2024-03-16T12:00:00Z")
+
+    @BeforeEach
+    fun setupTestData() {
+        testDatabaseSupport.truncateAllTables()
+        testTimeService.setTime(now)
+        user1 = testUsers.createRegularUser("purge-user-1", "Purge User One")
+        user2 = testUsers.createRegularUser("purge-user-2", "Purge User Two")
+    }
+
+    private fun insertEntry(
+        owner: User,
+        title: String,
+        deletedAt: Instant?,
+    ): TimeLogEntry =
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = Instant.parse("2024-03-16T08:00:00Z"),
+                endTime = Instant.parse("2024-03-16T09:00:00Z"),
+                title = title,
+                ownerId = requireNotNull(owner.id),
+                deletedAt = deletedAt,
+            ),
+        )
+
+    @Test
+    fun `should purge only entries deleted earlier than the retention period`() {
+        val expired1 = insertEntry(user1, "Expired 1", now.minusSeconds(2 * 3600))
+        val expired2 = insertEntry(user2, "Expired 2", now.minusSeconds(2 * 3600))
+        val recent = insertEntry(user1, "Recent", now.minusSeconds(10 * 60))
+        insertEntry(user2, "Kept", null)
+
+        purgeJob.purgeDeletedEntries()
+
+        testDatabaseSupport.inTransaction {
+            assertEquals(
+                listOf(recent.id),
+                timeLogEntryRepository
+                    .findDeletedByOwnerIdAndIdIn(requireNotNull(user1.id), listOf(requireNotNull(expired1.id), requireNotNull(recent.id)))
+                    .map { it.id },
+            )
+            assertEquals(
+                emptyList<TimeLogEntry>(),
+                timeLogEntryRepository.findDeletedByOwnerIdAndIdIn(requireNotNull(user2.id), listOf(requireNotNull(expired2.id))),
+            )
+            assertEquals(listOf("Kept"), timeLogEntryRepository.findAll().map { it.title })
+        }
+    }
+}
@@ -0,0 +1,190 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.http.HttpRequest
+import io.micronaut.http.HttpStatus
+import io.micronaut.http.client.HttpClient
+import io.micronaut.http.client.annotation.Client
+import io.micronaut.http.client.exceptions.HttpClientResponseException
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.TestAuthSupport
+import io.orangebuffalo.aionify.TestDatabaseSupport
+import io.orangebuffalo.aionify.TestUsers
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertFalse
+import org.junit.jupiter.api.Assertions.assertThrows
+import org.junit.jupiter.api.Assertions.assertTrue
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import java.time.LocalTime
+
+@MicronautTest(transactional = false)
+class NotificationSettingsResourceTest {
+    @Inject
+    @field:Client("/")
+    lateinit var client: HttpClient
+
+    @Inject
+    lateinit var notificationSettingsRepository: NotificationSettingsRepository
+
+    @Inject
+    lateinit var testAuthSupport: TestAuthSupport
+
+    @Inject
+    lateinit var testDatabaseSupport: TestDatabaseSupport
+
+    @Inject
+    lateinit var testUsers: TestUsers
+
+    private lateinit var user1: User
+    private lateinit var user2: User
+
+    @BeforeEach
+    fun setupTestData() {
+        testDatabaseSupport.truncateAllTables()
+        user1 = testUsers.createRegularUser("notifications-user-1", "Notifications User One")
+        user2 = testUsers.createRegularUser("notifications-user-2", "Notifications User Two")
+    }
+
+    private fun updateRequest(
+        workingHoursFrom: LocalTime = LocalTime.of(8, 30),
+        workingHoursTo: LocalTime = LocalTime.of(16, 30),
+        longRunningEntryMinutes: Int = 90,
+    ) = UpdateNotificationSettingsRequest(
+        noActiveEntryEnabled = true,
+        workingHoursFrom = workingHoursFrom,
+        workingHoursTo = workingHoursTo,
+        workingDays = setOf(WeekDay.TUESDAY, WeekDay.MONDAY),
+        longRunningEntryEnabled = true,
+        longRunningEntryMinutes = longRunningEntryMinutes,
+        dailyGoalReachedEnabled = true,
+    )
+
+    @Test
+    fun `should require authentication to access notification settings`() {
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.GET<Any>("/api-ui/users/notification-settings"),
+                    String::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
+    }
+
+    @Test
+    fun `should return default settings when user has no saved notification settings`() {
+        testDatabaseSupport.insert(
+            NotificationSettings(
+                userId = requireNotNull(user2.id),
+                noActiveEntryEnabled = true,
+                longRunningEntryEnabled = true,
+                longRunningEntryMinutes = 30,
+            ),
+        )
+        val token = testAuthSupport.generateToken(user1)
+
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .GET<Any>("/api-ui/users/notification-settings")
+                    .bearerAuth(token),
+                NotificationSettingsResponse::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, response.status)
+        val body = response.body()!!
+        assertFalse(body.noActiveEntryEnabled)
+        assertEquals("09:00", body.workingHoursFrom)
+        assertEquals("17:00", body.workingHoursTo)
+        assertEquals(
+            listOf(WeekDay.MONDAY, WeekDay.TUESDAY, WeekDay.WEDNESDAY, WeekDay.THURSDAY, WeekDay.FRIDAY),
+            body.workingDays,
+        )
+        assertFalse(body.longRunningEntryEnabled)
+        assertEquals(120, body.longRunningEntryMinutes)
+        assertFalse(body.dailyGoalReachedEnabled)
+    }
+
+    @Test
+    fun `should persist notification settings`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        val updateResponse =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .PUT("/api-ui/users/notification-settings", updateRequest())
+                    .bearerAuth(token),
+                NotificationSettingsSuccessResponse::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, updateResponse.status)
+
+        testDatabaseSupport.inTransaction {
+            val settings = notificationSettingsRepository.findByUserId(requireNotNull(user1.id)).orElseThrow()
+            assertTrue(settings.noActiveEntryEnabled)
+            assertEquals(LocalTime.of(8, 30), settings.workingHoursFrom)
+            assertEquals(LocalTime.of(16, 30), settings.workingHoursTo)
+            assertEquals(setOf(WeekDay.MONDAY, WeekDay.TUESDAY), settings.workingDays)
+            assertTrue(settings.longRunningEntryEnabled)
+            assertEquals(90, settings.longRunningEntryMinutes)
+            assertTrue(settings.dailyGoalReachedEnabled)
+        }
+
+        val getResponse =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .GET<Any>("/api-ui/users/notification-settings")
+                    .bearerAuth(token),
+                NotificationSettingsResponse::class.java,
+            )
+
+        val body = getResponse.body()!!
+        assertTrue(body.noActiveEntryEnabled)
+        assertEquals("08:30", body.workingHoursFrom)
+        assertEquals("16:30", body.workingHoursTo)
+        assertEquals(listOf(WeekDay.MONDAY, WeekDay.TUESDAY), body.workingDays)
+        assertEquals(90, body.longRunningEntryMinutes)
+    }
+
+    @Test
+    fun `should reject working hours ending before they start`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .PUT(
+                            "/api-ui/users/notification-settings",
+                            updateRequest(workingHoursFrom = LocalTime.of(17, 0), workingHoursTo = LocalTime.of(9, 0)),
+                        ).bearerAuth(token),
+                    NotificationSettingsErrorResponse::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.BAD_REQUEST, exception.status)
+        val body = exception.response.getBody(NotificationSettingsErrorResponse::class.java).orElseThrow()
+        assertEquals("INVALID_WORKING_HOURS", body.errorCode)
+    }
+
+    @Test
+    fun `should reject invalid long running entry threshold`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .PUT("/api-ui/users/notification-settings", updateRequest(longRunningEntryMinutes = 0))
+                        .bearerAuth(token),
+                    NotificationSettingsErrorResponse::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.BAD_REQUEST, exception.status)
+        val body = exception.response.getBody(NotificationSettingsErrorResponse::class.java).orElseThrow()
+        assertEquals("INVALID_LONG_RUNNING_ENTRY_THRESHOLD", body.errorCode)
+    }
+}
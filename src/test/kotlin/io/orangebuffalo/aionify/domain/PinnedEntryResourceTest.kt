@@ -0,0 +1,215 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.http.HttpRequest
+import io.micronaut.http.HttpStatus
+import io.micronaut.http.client.HttpClient
+import io.micronaut.http.client.annotation.Client
+import io.micronaut.http.client.exceptions.HttpClientResponseException
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.TestAuthSupport
+import io.orangebuffalo.aionify.TestDatabaseSupport
+import io.orangebuffalo.aionify.TestUsers
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertThrows
+import org.junit.jupiter.api.Assertions.assertTrue
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+
+@MicronautTest(transactional = false)
+class PinnedEntryResourceTest {
+    @Inject
+    @field:Client("/")
+    lateinit var client: HttpClient
+
+    @Inject
+    lateinit var pinnedEntryRepository: PinnedEntryRepository
+
+    @Inject
+    lateinit var testAuthSupport: TestAuthSupport
+
+    @Inject
+    lateinit var testDatabaseSupport: TestDatabaseSupport
+
+    @Inject
+    lateinit var testUsers: TestUsers
+
+    private lateinit var user1: User
+    private lateinit var user2: User
+
+    @BeforeEach
+    fun setupTestData() {
+        testDatabaseSupport.truncateAllTables()
+        user1 = testUsers.createRegularUser("pins-user-1", "Pins User One")
+        user2 = testUsers.createRegularUser("pins-user-2", "Pins User Two")
+    }
+
+    private fun insertPinnedEntry(
+        user: User,
+        sortOrder: Int,
+        title: String,
+        tags: Array<String> = emptyArray(),
+    ) = testDatabaseSupport.insert(
+        PinnedEntry(userId = requireNotNull(user.id), sortOrder = sortOrder, title = title, tags = tags),
+    )
+
+    @Test
+    fun `should require authentication to access pinned entries`() {
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.GET<Any>("/api-ui/pinned-entries"),
+                    String::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
+    }
+
+    @Test
+    fun `should list pinned entries of the current user in order`() {
+        insertPinnedEntry(user1, 1, "Code review", arrayOf("dev"))
+        insertPinnedEntry(user1, 0, "Standup", arrayOf("meetings"))
+        insertPinnedEntry(user2, 0, "Other user pin")
+        val token = testAuthSupport.generateToken(user1)
+
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest.GET<Any>("/api-ui/pinned-entries").bearerAuth(token),
+                PinnedEntriesResponse::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, response.status)
+        val entries = response.body()!!.entries
+        assertEquals(listOf("Standup", "Code review"), entries.map { it.title })
+        assertEquals(listOf("meetings"), entries[0].tags)
+    }
+
+    @Test
+    fun `should pin entry after existing ones`() {
+        insertPinnedEntry(user1, 0, "Standup")
+        val token = testAuthSupport.generateToken(user1)
+
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .POST("/api-ui/pinned-entries", PinEntryRequest(title = "Code review", tags = listOf("dev")))
+                    .bearerAuth(token),
+                PinnedEntryDto::class.java,
+            )
+
+        assertEquals(HttpStatus.CREATED, response.status)
+        assertEquals("Code review", response.body()!!.title)
+
+        testDatabaseSupport.inTransaction {
+            val pinnedEntries = pinnedEntryRepository.findByUserIdOrderBySortOrderAsc(requireNotNull(user1.id))
+            assertEquals(listOf("Standup", "Code review"), pinnedEntries.map { it.title })
+            assertEquals(listOf("dev"), pinnedEntries[1].tags.toList())
+        }
+    }
+
+    @Test
+    fun `should reject pinning the same title and tags twice`() {
+        insertPinnedEntry(user1, 0, "Code review", arrayOf("dev", "backend"))
+        val token = testAuthSupport.generateToken(user1)
+
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .POST("/api-ui/pinned-entries", PinEntryRequest(title = "Code review", tags = listOf("backend", "dev")))
+                        .bearerAuth(token),
+                    PinnedEntryErrorResponse::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.BAD_REQUEST, exception.status)
+        val body = exception.response.getBody(PinnedEntryErrorResponse::class.java).orElseThrow()
+        assertEquals("PINNED_ENTRY_ALREADY_EXISTS", body.errorCode)
+    }
+
+    @Test
+    fun `should unpin entry`() {
+        val pinnedEntry = insertPinnedEntry(user1, 0, "Standup")
+        val token = testAuthSupport.generateToken(user1)
+
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest.DELETE<Any>("/api-ui/pinned-entries/${pinnedEntry.id}").bearerAuth(token),
+                PinnedEntrySuccessResponse::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, response.status)
+        testDatabaseSupport.inTransaction {
+            assertTrue(pinnedEntryRepository.findByUserIdOrderBySortOrderAsc(requireNotNull(user1.id)).isEmpty())
+        }
+    }
+
+    @Test
+    fun `should not unpin entry of another user`() {
+        val pinnedEntry = insertPinnedEntry(user2, 0, "Other user pin")
+        val token = testAuthSupport.generateToken(user1)
+
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.DELETE<Any>("/api-ui/pinned-entries/${pinnedEntry.id}").bearerAuth(token),
+                    PinnedEntryErrorResponse::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.NOT_FOUND, exception.status)
+        testDatabaseSupport.inTransaction {
+            assertEquals(1, pinnedEntryRepository.findByUserIdOrderBySortOrderAsc(requireNotNull(user2.id)).size)
+        }
+    }
+
+    @Test
+    fun `should reorder pinned entries`() {
+        val standup = insertPinnedEntry(user1, 0, "Standup")
+        val review = insertPinnedEntry(user1, 1, "Code review")
+        val planning = insertPinnedEntry(user1, 2, "Planning")
+        val token = testAuthSupport.generateToken(user1)
+
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .PUT(
+                        "/api-ui/pinned-entries/order",
+                        ReorderPinnedEntriesRequest(ids = listOf(planning.id!!, standup.id!!, review.id!!)),
+                    ).bearerAuth(token),
+                PinnedEntriesResponse::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, response.status)
+        assertEquals(listOf("Planning", "Standup", "Code review"), response.body()!!.entries.map { it.title })
+
+        testDatabaseSupport.inTransaction {
+            val pinnedEntries = pinnedEntryRepository.findByUserIdOrderBySortOrderAsc(requireNotNull(user1.id))
+            assertEquals(listOf("Planning", "Standup", "Code review"), pinnedEntries.map { it.title })
+        }
+    }
+
+    @Test
+    fun `should reject reordering with entries of another user`() {
+        val standup = insertPinnedEntry(user1, 0, "Standup")
+        val otherUserPin = insertPinnedEntry(user2, 0, "Other user pin")
+        val token = testAuthSupport.generateToken(user1)
+
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .PUT(
+                            "/api-ui/pinned-entries/order",
+                            ReorderPinnedEntriesRequest(ids = listOf(otherUserPin.id!!, standup.id!!)),
+                        ).bearerAuth(token),
+                    PinnedEntryErrorResponse::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.BAD_REQUEST, exception.status)
+        val body = exception.response.getBody(PinnedEntryErrorResponse::class.java).orElseThrow()
+        assertEquals("INVALID_PINNED_ENTRIES_ORDER", body.errorCode)
+    }
+}
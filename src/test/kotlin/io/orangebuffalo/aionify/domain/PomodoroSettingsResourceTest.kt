@@ -0,0 +1,189 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.http.HttpRequest
+import io.micronaut.http.HttpStatus
+import io.micronaut.http.client.HttpClient
+import io.micronaut.http.client.annotation.Client
+import io.micronaut.http.client.exceptions.HttpClientResponseException
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.TestAuthSupport
+import io.orangebuffalo.aionify.TestDatabaseSupport
+import io.orangebuffalo.aionify.TestUsers
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertFalse
+import org.junit.jupiter.api.Assertions.assertThrows
+import org.junit.jupiter.api.Assertions.assertTrue
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+
+@MicronautTest(transactional = false)
+class PomodoroSettingsResourceTest {
+    @Inject
+    @field:Client("/")
+    lateinit var client: HttpClient
+
+    @Inject
+    lateinit var pomodoroSettingsRepository: PomodoroSettingsRepository
+
+    @Inject
+    lateinit var testAuthSupport: TestAuthSupport
+
+    @Inject
+    lateinit var testDatabaseSupport: TestDatabaseSupport
+
+    @Inject
+    lateinit var testUsers: TestUsers
+
+    private lateinit var user1: User
+    private lateinit var user2: User
+
+    @BeforeEach
+    fun setupTestData() {
+        testDatabaseSupport.truncateAllTables()
+        user1 = testUsers.createRegularUser("pomodoro-user-1", "Pomodoro User One")
+        user2 = testUsers.createRegularUser("pomodoro-user-2", "Pomodoro User Two")
+    }
+
+    @Test
+    fun `should require authentication to access pomodoro settings`() {
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.GET<Any>("/api-ui/users/pomodoro-settings"),
+                    String::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
+    }
+
+    @Test
+    fun `should return default settings when user has no saved pomodoro settings`() {
+        testDatabaseSupport.insert(
+            PomodoroSettings(
+                userId = requireNotNull(user2.id),
+                enabled = true,
+                workMinutes = 50,
+                breakMinutes = 10,
+                intervalEndAction = PomodoroIntervalEndAction.STOP_ENTRY,
+            ),
+        )
+        val token = testAuthSupport.generateToken(user1)
+
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .GET<Any>("/api-ui/users/pomodoro-settings")
+                    .bearerAuth(token),
+                PomodoroSettingsResponse::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, response.status)
+        val body = response.body()!!
+        assertFalse(body.enabled)
+        assertEquals(25, body.workMinutes)
+        assertEquals(5, body.breakMinutes)
+        assertEquals(PomodoroIntervalEndAction.NOTIFY, body.intervalEndAction)
+        assertEquals("break", body.breakTag)
+    }
+
+    @Test
+    fun `should persist pomodoro settings`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        val updateResponse =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .PUT(
+                        "/api-ui/users/pomodoro-settings",
+                        UpdatePomodoroSettingsRequest(
+                            enabled = true,
+                            workMinutes = 50,
+                            breakMinutes = 10,
+                            intervalEndAction = PomodoroIntervalEndAction.START_BREAK,
+                            breakTag = " rest ",
+                        ),
+                    ).bearerAuth(token),
+                PomodoroSettingsSuccessResponse::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, updateResponse.status)
+
+        testDatabaseSupport.inTransaction {
+            val settings = pomodoroSettingsRepository.findByUserId(requireNotNull(user1.id)).orElseThrow()
+            assertTrue(settings.enabled)
+            assertEquals(50, settings.workMinutes)
+            assertEquals(10, settings.breakMinutes)
+            assertEquals(PomodoroIntervalEndAction.START_BREAK, settings.intervalEndAction)
+            assertEquals("rest", settings.breakTag)
+        }
+
+        val getResponse =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .GET<Any>("/api-ui/users/pomodoro-settings")
+                    .bearerAuth(token),
+                PomodoroSettingsResponse::class.java,
+            )
+
+        val body = getResponse.body()!!
+        assertTrue(body.enabled)
+        assertEquals(50, body.workMinutes)
+        assertEquals(PomodoroIntervalEndAction.START_BREAK, body.intervalEndAction)
+        assertEquals("rest", body.breakTag)
+    }
+
+    @Test
+    fun `should reject invalid interval length`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .PUT(
+                            "/api-ui/users/pomodoro-settings",
+                            UpdatePomodoroSettingsRequest(
+                                enabled = true,
+                                workMinutes = 0,
+                                breakMinutes = 5,
+                                intervalEndAction = PomodoroIntervalEndAction.NOTIFY,
+                            ),
+                        ).bearerAuth(token),
+                    PomodoroSettingsErrorResponse::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.BAD_REQUEST, exception.status)
+        val body = exception.response.getBody(PomodoroSettingsErrorResponse::class.java).orElseThrow()
+        assertEquals("INVALID_POMODORO_INTERVAL", body.errorCode)
+    }
+
+    @Test
+    fun `should require break tag when starting breaks`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .PUT(
+                            "/api-ui/users/pomodoro-settings",
+                            UpdatePomodoroSettingsRequest(
+                                enabled = true,
+                                workMinutes = 25,
+                                breakMinutes = 5,
+                                intervalEndAction = PomodoroIntervalEndAction.START_BREAK,
+                                breakTag = "  ",
+                            ),
+                        ).bearerAuth(token),
+                    PomodoroSettingsErrorResponse::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.BAD_REQUEST, exception.status)
+        val body = exception.response.getBody(PomodoroSettingsErrorResponse::class.java).orElseThrow()
+        assertEquals("INVALID_POMODORO_BREAK_TAG", body.errorCode)
+    }
+}
@@ -0,0 +1,159 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.http.HttpRequest
+import io.micronaut.http.HttpStatus
+import io.micronaut.http.client.HttpClient
+import io.micronaut.http.client.annotation.Client
+import io.micronaut.http.client.exceptions.HttpClientResponseException
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.TestAuthSupport
+import io.orangebuffalo.aionify.TestDatabaseSupport
+import io.orangebuffalo.aionify.TestUsers
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertFalse
+import org.junit.jupiter.api.Assertions.assertThrows
+import org.junit.jupiter.api.Assertions.assertTrue
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+
+@MicronautTest(transactional = false)
+class RoundingSettingsResourceTest {
+    @Inject
+    @field:Client("/")
+    lateinit var client: HttpClient
+
+    @Inject
+    lateinit var roundingSettingsRepository: RoundingSettingsRepository
+
+    @Inject
+    lateinit var testAuthSupport: TestAuthSupport
+
+    @Inject
+    lateinit var testDatabaseSupport: TestDatabaseSupport
+
+    @Inject
+    lateinit var testUsers: TestUsers
+
+    private lateinit var user1: User
+    private lateinit var user2: User
+
+    @BeforeEach
+    fun setupTestData() {
+        testDatabaseSupport.truncateAllTables()
+        user1 = testUsers.createRegularUser("rounding-user-1", "Rounding User One")
+        user2 = testUsers.createRegularUser("rounding-user-2", "Rounding User Two")
+    }
+
+    @Test
+    fun `should require authentication to access rounding settings`() {
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.GET<Any>("/api-ui/users/rounding-settings"),
+                    String::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
+    }
+
+    @Test
+    fun `should return default settings when user has no saved rounding settings`() {
+        testDatabaseSupport.insert(
+            RoundingSettings(
+                userId = requireNotNull(user2.id),
+                enabled = true,
+                incrementMinutes = 6,
+                direction = RoundingDirection.UP,
+                application = RoundingApplication.ON_STOP,
+            ),
+        )
+        val token = testAuthSupport.generateToken(user1)
+
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .GET<Any>("/api-ui/users/rounding-settings")
+                    .bearerAuth(token),
+                RoundingSettingsResponse::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, response.status)
+        val body = response.body()!!
+        assertFalse(body.enabled)
+        assertEquals(15, body.incrementMinutes)
+        assertEquals(RoundingDirection.NEAREST, body.direction)
+        assertEquals(RoundingApplication.ON_DISPLAY, body.application)
+    }
+
+    @Test
+    fun `should persist rounding settings`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        val updateResponse =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .PUT(
+                        "/api-ui/users/rounding-settings",
+                        UpdateRoundingSettingsRequest(
+                            enabled = true,
+                            incrementMinutes = 6,
+                            direction = RoundingDirection.UP,
+                            application = RoundingApplication.ON_STOP,
+                        ),
+                    ).bearerAuth(token),
+                RoundingSettingsSuccessResponse::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, updateResponse.status)
+
+        testDatabaseSupport.inTransaction {
+            val settings = roundingSettingsRepository.findByUserId(requireNotNull(user1.id)).orElseThrow()
+            assertTrue(settings.enabled)
+            assertEquals(6, settings.incrementMinutes)
+            assertEquals(RoundingDirection.UP, settings.direction)
+            assertEquals(RoundingApplication.ON_STOP, settings.application)
+        }
+
+        val getResponse =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .GET<Any>("/api-ui/users/rounding-settings")
+                    .bearerAuth(token),
+                RoundingSettingsResponse::class.java,
+            )
+
+        val body = getResponse.body()!!
+        assertTrue(body.enabled)
+        assertEquals(6, body.incrementMinutes)
+        assertEquals(RoundingDirection.UP, body.direction)
+        assertEquals(RoundingApplication.ON_STOP, body.application)
+    }
+
+    @Test
+    fun `should reject invalid rounding increment`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .PUT(
+                            "/api-ui/users/rounding-settings",
+                            UpdateRoundingSettingsRequest(
+                                enabled = true,
+                                incrementMinutes = 0,
+                                direction = RoundingDirection.NEAREST,
+                                application = RoundingApplication.ON_DISPLAY,
+                            ),
+                        ).bearerAuth(token),
+                    RoundingSettingsErrorResponse::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.BAD_REQUEST, exception.status)
+        val body = exception.response.getBody(RoundingSettingsErrorResponse::class.java).orElseThrow()
+        assertEquals("INVALID_ROUNDING_INCREMENT", body.errorCode)
+    }
+}
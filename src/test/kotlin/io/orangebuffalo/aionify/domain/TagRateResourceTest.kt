@@ -0,0 +1,225 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.http.HttpRequest
+import io.micronaut.http.HttpStatus
+import io.micronaut.http.client.HttpClient
+import io.micronaut.http.client.annotation.Client
+import io.micronaut.http.client.exceptions.HttpClientResponseException
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.TestAuthSupport
+import io.orangebuffalo.aionify.TestDatabaseSupport
+import io.orangebuffalo.aionify.TestUsers
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertThrows
+import org.junit.jupiter.api.Assertions.assertTrue
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import java.math.BigDecimal
+
+@MicronautTest(transactional = false)
+class TagRateResourceTest {
+    @Inject
+    @field:Client("/")
+    lateinit var client: HttpClient
+
+    @Inject
+    lateinit var tagRateRepository: TagRateRepository
+
+    @Inject
+    lateinit var testAuthSupport: TestAuthSupport
+
+    @Inject
+    lateinit var testDatabaseSupport: TestDatabaseSupport
+
+    @Inject
+    lateinit var testUsers: TestUsers
+
+    private lateinit var user1: User
+    private lateinit var user2: User
+
+    @BeforeEach
+    fun setupTestData() {
+        testDatabaseSupport.truncateAllTables()
+        user1 = testUsers.createRegularUser("tag-rate-user-1", "Tag Rate User One")
+        user2 = testUsers.createRegularUser("tag-rate-user-2", "Tag Rate User Two")
+    }
+
+    @Test
+    fun `should require authentication to access tag rates`() {
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.GET<Any>("/api-ui/tag-rates"),
+                    String::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
+    }
+
+    @Test
+    fun `should return only tag rates of the current user`() {
+        testDatabaseSupport.insert(
+            TagRate(userId = requireNotNull(user1.id), tag = "client-b", hourlyRate = BigDecimal("90.00"), currency = "USD"),
+        )
+        testDatabaseSupport.insert(
+            TagRate(userId = requireNotNull(user1.id), tag = "client-a", hourlyRate = BigDecimal("80.00"), currency = "EUR"),
+        )
+        testDatabaseSupport.insert(
+            TagRate(userId = requireNotNull(user2.id), tag = "client-c", hourlyRate = BigDecimal("70.00"), currency = "NZD"),
+        )
+        val token = testAuthSupport.generateToken(user1)
+
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .GET<Any>("/api-ui/tag-rates")
+                    .bearerAuth(token),
+                TagRatesResponse::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, response.status)
+        val rates = response.body()!!.rates
+        assertEquals(listOf("client-a", "client-b"), rates.map { it.tag })
+        assertEquals(0, BigDecimal("80").compareTo(rates[0].hourlyRate))
+        assertEquals("EUR", rates[0].currency)
+    }
+
+    @Test
+    fun `should create and update tag rate`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        client.toBlocking().exchange(
+            HttpRequest
+                .PUT(
+                    "/api-ui/tag-rates",
+                    SaveTagRateRequest(tag = "client-a", hourlyRate = BigDecimal("80"), currency = "eur"),
+                ).bearerAuth(token),
+            TagRateDto::class.java,
+        )
+
+        val updateResponse =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .PUT(
+                        "/api-ui/tag-rates",
+                        SaveTagRateRequest(tag = "client-a", hourlyRate = BigDecimal("95.555"), currency = "USD"),
+                    ).bearerAuth(token),
+                TagRateDto::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, updateResponse.status)
+
+        testDatabaseSupport.inTransaction {
+            val rates = tagRateRepository.findByUserIdOrderByTagAsc(requireNotNull(user1.id))
+            assertEquals(1, rates.size)
+            assertEquals(0, BigDecimal("95.56").compareTo(rates[0].hourlyRate))
+            assertEquals("USD", rates[0].currency)
+        }
+    }
+
+    @Test
+    fun `should normalize currency to upper case`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .PUT(
+                        "/api-ui/tag-rates",
+                        SaveTagRateRequest(tag = "client-a", hourlyRate = BigDecimal("80"), currency = " eur "),
+                    ).bearerAuth(token),
+                TagRateDto::class.java,
+            )
+
+        assertEquals("EUR", response.body()!!.currency)
+    }
+
+    @Test
+    fun `should reject non-positive hourly rate`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .PUT(
+                            "/api-ui/tag-rates",
+                            SaveTagRateRequest(tag = "client-a", hourlyRate = BigDecimal.ZERO, currency = "EUR"),
+                        ).bearerAuth(token),
+                    TagRateErrorResponse::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.BAD_REQUEST, exception.status)
+        val body = exception.response.getBody(TagRateErrorResponse::class.java).orElseThrow()
+        assertEquals("INVALID_HOURLY_RATE", body.errorCode)
+    }
+
+    @Test
+    fun `should reject invalid currency`() {
+        val token = testAuthSupport.generateToken(user1)
+
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .PUT(
+                            "/api-ui/tag-rates",
+                            SaveTagRateRequest(tag = "client-a", hourlyRate = BigDecimal("80"), currency = "EURO"),
+                        ).bearerAuth(token),
+                    TagRateErrorResponse::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.BAD_REQUEST, exception.status)
+        val body = exception.response.getBody(TagRateErrorResponse::class.java).orElseThrow()
+        assertEquals("INVALID_CURRENCY", body.errorCode)
+    }
+
+    @Test
+    fun `should delete tag rate`() {
+        val tagRate =
+            testDatabaseSupport.insert(
+                TagRate(userId = requireNotNull(user1.id), tag = "client-a", hourlyRate = BigDecimal("80.00"), currency = "EUR"),
+            )
+        val token = testAuthSupport.generateToken(user1)
+
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .DELETE<Any>("/api-ui/tag-rates/${tagRate.id}")
+                    .bearerAuth(token),
+                TagRateSuccessResponse::class.java,
+            )
+
+        assertEquals(HttpStatus.OK, response.status)
+        testDatabaseSupport.inTransaction {
+            assertTrue(tagRateRepository.findByUserIdOrderByTagAsc(requireNotNull(user1.id)).isEmpty())
+        }
+    }
+
+    @Test
+    fun `should not delete tag rate of another user`() {
+        val tagRate =
+            testDatabaseSupport.insert(
+                TagRate(userId = requireNotNull(user2.id), tag = "client-a", hourlyRate = BigDecimal("80.00"), currency = "EUR"),
+            )
+        val token = testAuthSupport.generateToken(user1)
+
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .DELETE<Any>("/api-ui/tag-rates/${tagRate.id}")
+                        .bearerAuth(token),
+                    TagRateErrorResponse::class.java,
+                )
+            }
+
+        assertEquals(HttpStatus.NOT_FOUND, exception.status)
+        val body = exception.response.getBody(TagRateErrorResponse::class.java).orElseThrow()
+        assertEquals("TAG_RATE_NOT_FOUND", body.errorCode)
+    }
+}
@@ -0,0 +1,222 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.TestDatabaseSupport
+import io.orangebuffalo.aionify.TestUsers
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import java.time.Instant
+
+/**
+ * Tests for TimeLogEntryRepository full-history search functionality.
+ */
+@MicronautTest(transactional = false)
+class TimeLogEntryRepositorySearchTest {
+    @Inject
+    lateinit var timeLogEntryRepository: TimeLogEntryRepository
+
+    @Inject
+    lateinit var testUsers: TestUsers
+
+    @Inject
+    lateinit var testDatabaseSupport: TestDatabaseSupport
+
+    private val now = Instant.parse("2024-03-16T12:00:00Z")
+
+    @BeforeEach
+    fun setupTest() {
+        testDatabaseSupport.truncateAllTables()
+    }
+
+    private fun search(
+        ownerId: Long,
+        searchTokens: String = "",
+        tags: String = "",
+        startTimeFrom: Instant = Instant.EPOCH,
+        startTimeTo: Instant = Instant.parse("9999-01-01T00:00:00Z"),
+        minDurationSeconds: Long = 0,
+        maxDurationSeconds: Long = Long.MAX_VALUE,
+        limit: Int = 20,
+        offset: Int = 0,
+    ): List<String> =
+        testDatabaseSupport.inTransaction {
+            timeLogEntryRepository
+                .search(
+                    ownerId,
+                    searchTokens,
+                    tags,
+                    startTimeFrom,
+                    startTimeTo,
+                    minDurationSeconds,
+                    maxDurationSeconds,
+                    now,
+                    limit,
+                    offset,
+                ).map { it.title }
+        }
+
+    private fun saveEntries(ownerId: Long) {
+        testDatabaseSupport.inTransaction {
+            timeLogEntryRepository.save(
+                TimeLogEntry(
+                    title = "Billing migration planning",
+                    startTime = Instant.parse("2023-11-02T09:00:00Z"),
+                    endTime = Instant.parse("2023-11-02T10:00:00Z"),
+                    ownerId = ownerId,
+                    tags = arrayOf("client-a", "planning"),
+                ),
+            )
+            timeLogEntryRepository.save(
+                TimeLogEntry(
+                    title = "Billing migration",
+                    startTime = Instant.parse("2024-02-10T09:00:00Z"),
+                    endTime = Instant.parse("2024-02-10T09:20:00Z"),
+                    ownerId = ownerId,
+                    tags = arrayOf("client-a"),
+                ),
+            )
+            timeLogEntryRepository.save(
+                TimeLogEntry(
+                    title = "Code review",
+                    startTime = Instant.parse("2024-03-01T13:00:00Z"),
+                    endTime = Instant.parse("2024-03-01T15:00:00Z"),
+                    ownerId = ownerId,
+                    tags = arrayOf("client-b"),
+                ),
+            )
+            timeLogEntryRepository.save(
+                TimeLogEntry(
+                    title = "Migration of billing data",
+                    startTime = Instant.parse("2024-03-16T09:00:00Z"),
+                    endTime = null,
+                    ownerId = ownerId,
+                    tags = arrayOf("client-a"),
+                ),
+            )
+        }
+    }
+
+    @Test
+    fun `search should find entries by title tokens across the whole history`() {
+        val user = testUsers.createRegularUser()
+        saveEntries(user.id!!)
+
+        assertEquals(
+            listOf("Migration of billing data", "Billing migration", "Billing migration planning"),
+            search(user.id!!, searchTokens = "migration BILLING"),
+        )
+    }
+
+    @Test
+    fun `search should find entries having all the tags`() {
+        val user = testUsers.createRegularUser()
+        saveEntries(user.id!!)
+
+        assertEquals(
+            listOf("Migration of billing data", "Billing migration", "Billing migration planning"),
+            search(user.id!!, tags = "client-a"),
+        )
+        assertEquals(listOf("Billing migration planning"), search(user.id!!, tags = "planning\nclient-a"))
+    }
+
+    @Test
+    fun `search should filter entries by start time and duration`() {
+        val user = testUsers.createRegularUser()
+        saveEntries(user.id!!)
+
+        assertEquals(
+            listOf("Code review", "Billing migration"),
+            search(
+                user.id!!,
+                startTimeFrom = Instant.parse("2024-01-01T00:00:00Z"),
+                startTimeTo = Instant.parse("2024-03-16T00:00:00Z"),
+            ),
+        )
+        // Active entry lasts 3 hours until now
+        assertEquals(
+            listOf("Migration of billing data", "Code review"),
+            search(user.id!!, minDurationSeconds = 7200),
+        )
+        assertEquals(listOf("Billing migration"), search(user.id!!, maxDurationSeconds = 1200))
+    }
+
+    @Test
+    fun `search should paginate results`() {
+        val user = testUsers.createRegularUser()
+        saveEntries(user.id!!)
+
+        assertEquals(listOf("Code review", "Billing migration"), search(user.id!!, limit = 2, offset = 1))
+    }
+
+    @Test
+    fun `search should count and sum durations of all matching entries`() {
+        val user = testUsers.createRegularUser()
+        val otherUser = testUsers.createRegularUser("otherUser")
+        saveEntries(user.id!!)
+        saveEntries(otherUser.id!!)
+
+        val (count, totalDuration) =
+            testDatabaseSupport.inTransaction {
+                Pair(
+                    timeLogEntryRepository.countSearchResults(
+                        user.id!!,
+                        "billing",
+                        "client-a",
+                        Instant.EPOCH,
+                        Instant.parse("9999-01-01T00:00:00Z"),
+                        0,
+                        Long.MAX_VALUE,
+                        now,
+                    ),
+                    timeLogEntryRepository.sumSearchResultsDurationSeconds(
+                        user.id!!,
+                        "billing",
+                        "client-a",
+                        Instant.EPOCH,
+                        Instant.parse("9999-01-01T00:00:00Z"),
+                        0,
+                        Long.MAX_VALUE,
+                        now,
+                    ),
+                )
+            }
+
+        assertEquals(3, count)
+        // 1 hour + 20 minutes + 3 hours of the active entry
+        assertEquals(4 * 3600L + 20 * 60L, totalDuration)
+    }
+
+    @Test
+    fun `search should sum rounded durations of all matching entries`() {
+        val user = testUsers.createRegularUser()
+        saveEntries(user.id!!)
+
+        fun sumRounded(
+            incrementMinutes: Long,
+            direction: String,
+        ): Long =
+            testDatabaseSupport.inTransaction {
+                timeLogEntryRepository.sumSearchResultsRoundedDurationSeconds(
+                    user.id!!,
+                    "billing",
+                    "client-a",
+                    Instant.EPOCH,
+                    Instant.parse("9999-01-01T00:00:00Z"),
+                    0,
+                    Long.MAX_VALUE,
+                    now,
+                    incrementMinutes * 60,
+                    direction,
+                )
+            }
+
+        // Entries of 1 hour, 20 minutes and 3 hours; only the 20 minutes entry is not a multiple of the increment
+        assertEquals(4 * 3600L + 30 * 60L, sumRounded(15, "UP"))
+        assertEquals(4 * 3600L + 15 * 60L, sumRounded(15, "DOWN"))
+        assertEquals(4 * 3600L + 15 * 60L, sumRounded(15, "NEAREST"))
+        assertEquals(4 * 3600L + 18 * 60L, sumRounded(6, "NEAREST"))
+        assertEquals(4 * 3600L + 24 * 60L, sumRounded(6, "UP"))
+    }
+}
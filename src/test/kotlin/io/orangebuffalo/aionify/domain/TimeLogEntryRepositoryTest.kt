@@ -144,6 +144,49 @@ class TimeLogEntryRepositoryTest {
         assertNull(found.get().endTime)
     }
 
+    @Test
+    fun `should find latest stopped entry by owner`() {
+        val userId = requireNotNull(testUser.id)
+
+        repository.save(
+            TimeLogEntry(
+                startTime = Instant.parse("2024-01-15T09:00:00Z"),
+                endTime = Instant.parse("2024-01-15T10:00:00Z"),
+                title = "Earlier Task",
+                ownerId = userId,
+            ),
+        )
+        val latestStoppedEntry =
+            repository.save(
+                TimeLogEntry(
+                    startTime = Instant.parse("2024-01-15T10:00:00Z"),
+                    endTime = Instant.parse("2024-01-15T11:00:00Z"),
+                    title = "Latest Stopped Task",
+                    ownerId = userId,
+                ),
+            )
+        repository.save(
+            TimeLogEntry(
+                startTime = Instant.parse("2024-01-15T14:30:00Z"),
+                endTime = null,
+                title = "Active Task",
+                ownerId = userId,
+            ),
+        )
+
+        val found = repository.findFirstByOwnerIdAndEndTimeIsNotNullOrderByStartTimeDesc(userId)
+        assertTrue(found.isPresent)
+        assertEquals(latestStoppedEntry.id, found.get().id)
+
+        val foundBefore =
+            repository.findFirstByOwnerIdAndEndTimeIsNotNullAndStartTimeLessThanOrderByStartTimeDesc(
+                userId,
+                Instant.parse("2024-01-15T10:00:00Z"),
+            )
+        assertTrue(foundBefore.isPresent)
+        assertEquals("Earlier Task", foundBefore.get().title)
+    }
+
     @Test
     fun `should find entry by id and owner`() {
         val userId = requireNotNull(testUser.id)
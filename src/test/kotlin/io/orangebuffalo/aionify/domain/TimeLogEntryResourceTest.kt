@@ -145,6 +145,28 @@ class TimeLogEntryResourceTest {
         assertEquals(user1.id, entries[0].ownerId)
     }
 
+    @Test
+    fun `should only return own overlapping entries`() {
+        // Given: User 1 token
+        val user1Token = testAuthSupport.generateToken(user1)
+
+        // When: User 1 lists entries overlapping the range of both users' entries
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .GET<Any>(
+                        "/api-ui/time-log-entries/overlapping?startTime=2024-01-15T10:30:00Z&endTime=2024-01-15T15:00:00Z",
+                    ).bearerAuth(user1Token),
+                TimeLogEntriesResponse::class.java,
+            )
+
+        // Then: Should only see own entries
+        assertEquals(HttpStatus.OK, response.status)
+        val entries = response.body()?.entries ?: emptyList()
+        assertEquals(1, entries.size)
+        assertEquals("User 1 Task", entries[0].title)
+    }
+
     @Test
     fun `should not allow stopping other users entries`() {
         // Given: User 1 token and User 2's entry
@@ -254,6 +276,25 @@ class TimeLogEntryResourceTest {
         assertEquals(user2.id, activeEntry?.ownerId)
     }
 
+    @Test
+    fun `should return own last stopped entry only`() {
+        // Given: User 2 token (who has no stopped entries, while User 1 has one)
+        val user2Token = testAuthSupport.generateToken(user2)
+
+        // When: User 2 gets last stopped entry
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .GET<Any>("/api-ui/time-log-entries/last-stopped")
+                    .bearerAuth(user2Token),
+                LastStoppedLogEntryResponse::class.java,
+            )
+
+        // Then: Should not see User 1's entry
+        assertEquals(HttpStatus.OK, response.status)
+        assertNull(response.body()?.entry)
+    }
+
     @Test
     fun `should return null active entry when user has none`() {
         // Given: User 1 token (who has no active entry)
@@ -846,4 +887,496 @@ class TimeLogEntryResourceTest {
         // Then: Access should be unauthorized
         assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
     }
+
+    @Test
+    fun `should require authentication to create time entry with times`() {
+        // When: Trying to create an entry with times without authentication
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.POST(
+                        "/api-ui/time-log-entries/with-times",
+                        mapOf(
+                            "title" to "Test Task",
+                            "startTime" to "2024-01-15T08:00:00Z",
+                            "endTime" to "2024-01-15T09:00:00Z",
+                        ),
+                    ),
+                    String::class.java,
+                )
+            }
+
+        // Then: Access should be unauthorized
+        assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
+    }
+
+    @Test
+    fun `should create time entry with times owned by current user`() {
+        // Given: User 1 token
+        val user1Token = testAuthSupport.generateToken(user1)
+
+        // When: User 1 creates an entry with explicit times
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .POST(
+                        "/api-ui/time-log-entries/with-times",
+                        mapOf(
+                            "title" to "Forgotten Task",
+                            "startTime" to "2024-01-15T08:00:00Z",
+                            "endTime" to "2024-01-15T09:00:00Z",
+                        ),
+                    ).bearerAuth(user1Token),
+                TimeLogEntryDto::class.java,
+            )
+
+        // Then: Entry should be created and owned by User 1
+        assertEquals(HttpStatus.CREATED, response.status)
+        val createdEntry = response.body()
+        assertNotNull(createdEntry)
+        assertEquals(user1.id, createdEntry?.ownerId)
+
+        val fromDb = timeEntryRepository.findById(requireNotNull(createdEntry?.id))
+        assertTrue(fromDb.isPresent)
+        assertEquals(user1.id, fromDb.get().ownerId)
+    }
+
+    @Test
+    fun `should not allow splitting other users entries`() {
+        // Given: User 1 token and User 2's entry
+        val user1Token = testAuthSupport.generateToken(user1)
+
+        // When: User 1 tries to split User 2's entry
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .POST(
+                            "/api-ui/time-log-entries/${user2Entry.id}/split",
+                            mapOf("splitTime" to "2024-01-15T14:30:00Z", "title" to "Second Part"),
+                        ).bearerAuth(user1Token),
+                    String::class.java,
+                )
+            }
+
+        // Then: Should return 404
+        assertEquals(HttpStatus.NOT_FOUND, exception.status)
+
+        // And: User 2's entry should remain unchanged
+        val entry = timeEntryRepository.findById(requireNotNull(user2Entry.id))
+        assertTrue(entry.isPresent)
+        assertNull(entry.get().endTime)
+    }
+
+    @Test
+    fun `should allow user to split own entry`() {
+        // Given: User 1 token and User 1's entry
+        val user1Token = testAuthSupport.generateToken(user1)
+
+        // When: User 1 splits their own entry
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .POST(
+                        "/api-ui/time-log-entries/${user1Entry.id}/split",
+                        mapOf("splitTime" to "2024-01-15T10:30:00Z", "title" to "Second Part"),
+                    ).bearerAuth(user1Token),
+                SplitTimeLogEntryResponse::class.java,
+            )
+
+        // Then: Both parts should be owned by User 1
+        assertEquals(HttpStatus.OK, response.status)
+        val body = requireNotNull(response.body())
+        assertEquals(user1.id, body.firstEntry.ownerId)
+        assertEquals(user1.id, body.secondEntry.ownerId)
+    }
+
+    @Test
+    fun `should require authentication to split entry`() {
+        // When: Trying to split without authentication
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.POST(
+                        "/api-ui/time-log-entries/${user1Entry.id}/split",
+                        mapOf("splitTime" to "2024-01-15T10:30:00Z", "title" to "Second Part"),
+                    ),
+                    String::class.java,
+                )
+            }
+
+        // Then: Access should be unauthorized
+        assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
+    }
+
+    @Test
+    fun `should not allow merging mix of own and other users entries`() {
+        // Given: User 1 token, User 1's entry and User 2's entry
+        val user1Token = testAuthSupport.generateToken(user1)
+
+        // When: User 1 tries to merge their entry with User 2's entry
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .POST(
+                            "/api-ui/time-log-entries/merge",
+                            mapOf(
+                                "entryIds" to listOf(user1Entry.id, user2Entry.id),
+                                "title" to "Merged",
+                            ),
+                        ).bearerAuth(user1Token),
+                    String::class.java,
+                )
+            }
+
+        // Then: Should return 404
+        assertEquals(HttpStatus.NOT_FOUND, exception.status)
+
+        // And: Both entries should remain unchanged
+        assertTrue(timeEntryRepository.findById(requireNotNull(user1Entry.id)).isPresent)
+        val user2EntryFromDb = timeEntryRepository.findById(requireNotNull(user2Entry.id))
+        assertTrue(user2EntryFromDb.isPresent)
+        assertEquals("User 2 Task", user2EntryFromDb.get().title)
+    }
+
+    @Test
+    fun `should allow user to merge own entries`() {
+        // Given: User 1 token and two User 1's entries
+        val user1Token = testAuthSupport.generateToken(user1)
+        val anotherUser1Entry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = Instant.parse("2024-01-15T11:30:00Z"),
+                    endTime = Instant.parse("2024-01-15T12:00:00Z"),
+                    title = "User 1 Task",
+                    ownerId = requireNotNull(user1.id),
+                ),
+            )
+
+        // When: User 1 merges their own entries
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .POST(
+                        "/api-ui/time-log-entries/merge",
+                        mapOf(
+                            "entryIds" to listOf(user1Entry.id, anotherUser1Entry.id),
+                            "title" to "Merged",
+                        ),
+                    ).bearerAuth(user1Token),
+                TimeLogEntryDto::class.java,
+            )
+
+        // Then: Merged entry should be owned by User 1
+        assertEquals(HttpStatus.OK, response.status)
+        assertEquals(user1.id, response.body()?.ownerId)
+    }
+
+    @Test
+    fun `should require authentication to merge entries`() {
+        // When: Trying to merge without authentication
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.POST(
+                        "/api-ui/time-log-entries/merge",
+                        mapOf("entryIds" to listOf(user1Entry.id), "title" to "Merged"),
+                    ),
+                    String::class.java,
+                )
+            }
+
+        // Then: Access should be unauthorized
+        assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
+    }
+
+    @Test
+    fun `should not allow bulk deleting mix of own and other users entries`() {
+        // Given: User 1 token, and both User 1's and User 2's entries
+        val user1Token = testAuthSupport.generateToken(user1)
+
+        // When: User 1 tries to bulk delete both their own and User 2's entries
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .DELETE(
+                            "/api-ui/time-log-entries/bulk-delete",
+                            mapOf("entryIds" to listOf(user1Entry.id, user2Entry.id)),
+                        ).bearerAuth(user1Token),
+                    String::class.java,
+                )
+            }
+
+        // Then: Should be not found (some entries belong to different user)
+        assertEquals(HttpStatus.NOT_FOUND, exception.status)
+
+        // And: Neither entry should be deleted
+        assertTrue(timeEntryRepository.findById(requireNotNull(user1Entry.id)).isPresent)
+        assertTrue(timeEntryRepository.findById(requireNotNull(user2Entry.id)).isPresent)
+    }
+
+    @Test
+    fun `should allow user to bulk delete own entries`() {
+        // Given: User 1 token and multiple User 1 entries
+        val user1Token = testAuthSupport.generateToken(user1)
+
+        val user1Entry2 =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = Instant.parse("2024-01-15T12:00:00Z"),
+                    endTime = Instant.parse("2024-01-15T13:00:00Z"),
+                    title = "User 1 Task 2",
+                    ownerId = requireNotNull(user1.id),
+                ),
+            )
+
+        // When: User 1 bulk deletes their own entries
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .DELETE(
+                        "/api-ui/time-log-entries/bulk-delete",
+                        mapOf("entryIds" to listOf(user1Entry.id, user1Entry2.id)),
+                    ).bearerAuth(user1Token),
+                BulkDeleteTimeLogEntriesResponse::class.java,
+            )
+
+        // Then: Should succeed
+        assertEquals(HttpStatus.OK, response.status)
+        assertEquals(2, response.body()?.deletedCount)
+
+        // And: Both entries should be deleted, while User 2's entry stays
+        assertFalse(timeEntryRepository.findById(requireNotNull(user1Entry.id)).isPresent)
+        assertFalse(timeEntryRepository.findById(requireNotNull(user1Entry2.id)).isPresent)
+        assertTrue(timeEntryRepository.findById(requireNotNull(user2Entry.id)).isPresent)
+    }
+
+    @Test
+    fun `should require authentication to bulk delete entries`() {
+        // When: Trying to bulk delete without authentication
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.DELETE(
+                        "/api-ui/time-log-entries/bulk-delete",
+                        mapOf("entryIds" to listOf(user1Entry.id)),
+                    ),
+                    String::class.java,
+                )
+            }
+
+        // Then: Access should be unauthorized
+        assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
+    }
+
+    @Test
+    fun `should not allow bulk modifying mix of own and other users entries tags`() {
+        // Given: User 1 token, and both User 1's and User 2's entries
+        val user1Token = testAuthSupport.generateToken(user1)
+
+        // When: User 1 tries to add tags to both their own and User 2's entries
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .PATCH(
+                            "/api-ui/time-log-entries/bulk-modify-tags",
+                            mapOf(
+                                "tagsToAdd" to listOf("test"),
+                                "entryIds" to listOf(user1Entry.id, user2Entry.id),
+                            ),
+                        ).bearerAuth(user1Token),
+                    String::class.java,
+                )
+            }
+
+        // Then: Should be not found (some entries belong to different user)
+        assertEquals(HttpStatus.NOT_FOUND, exception.status)
+
+        // And: User 2's entry should not be updated
+        assertEquals(0, timeEntryRepository.findById(requireNotNull(user2Entry.id)).get().tags.size)
+    }
+
+    @Test
+    fun `should allow user to bulk modify own entries tags`() {
+        // Given: User 1 token and User 1 entry with existing tags
+        val user1Token = testAuthSupport.generateToken(user1)
+
+        val user1Entry2 =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = Instant.parse("2024-01-15T12:00:00Z"),
+                    endTime = Instant.parse("2024-01-15T13:00:00Z"),
+                    title = "User 1 Task 2",
+                    ownerId = requireNotNull(user1.id),
+                    tags = arrayOf("backend", "obsolete"),
+                ),
+            )
+
+        // When: User 1 adds and removes tags on their own entries
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .PATCH(
+                        "/api-ui/time-log-entries/bulk-modify-tags",
+                        mapOf(
+                            "tagsToAdd" to listOf("feature"),
+                            "tagsToRemove" to listOf("obsolete"),
+                            "entryIds" to listOf(user1Entry.id, user1Entry2.id),
+                        ),
+                    ).bearerAuth(user1Token),
+                BulkUpdateTimeLogEntriesResponse::class.java,
+            )
+
+        // Then: Should succeed
+        assertEquals(HttpStatus.OK, response.status)
+        assertEquals(2, response.body()?.updatedCount)
+
+        // And: Each entry keeps its own tags, with the requested changes applied
+        assertArrayEquals(arrayOf("feature"), timeEntryRepository.findById(requireNotNull(user1Entry.id)).get().tags)
+        assertArrayEquals(
+            arrayOf("backend", "feature"),
+            timeEntryRepository.findById(requireNotNull(user1Entry2.id)).get().tags,
+        )
+    }
+
+    @Test
+    fun `should require authentication to bulk modify entries tags`() {
+        // When: Trying to bulk modify tags without authentication
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.PATCH(
+                        "/api-ui/time-log-entries/bulk-modify-tags",
+                        mapOf(
+                            "tagsToAdd" to listOf("test"),
+                            "entryIds" to listOf(user1Entry.id),
+                        ),
+                    ),
+                    String::class.java,
+                )
+            }
+
+        // Then: Access should be unauthorized
+        assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
+    }
+
+    @Test
+    fun `should not allow restoring other users deleted entries`() {
+        // Given: User 1 token and a deleted User 2's entry
+        val user1Token = testAuthSupport.generateToken(user1)
+        val deletedUser2Entry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = Instant.parse("2024-01-15T12:00:00Z"),
+                    endTime = Instant.parse("2024-01-15T13:00:00Z"),
+                    title = "Deleted User 2 Task",
+                    ownerId = requireNotNull(user2.id),
+                    deletedAt = Instant.now(),
+                ),
+            )
+
+        // When: User 1 tries to restore User 2's entry
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .POST(
+                            "/api-ui/time-log-entries/restore",
+                            mapOf("entryIds" to listOf(deletedUser2Entry.id)),
+                        ).bearerAuth(user1Token),
+                    String::class.java,
+                )
+            }
+
+        // Then: Should be not found
+        assertEquals(HttpStatus.NOT_FOUND, exception.status)
+
+        // And: Entry should remain deleted
+        assertFalse(timeEntryRepository.findById(requireNotNull(deletedUser2Entry.id)).isPresent)
+    }
+
+    @Test
+    fun `should allow user to restore own deleted entry`() {
+        // Given: User 1 token and User 1's entry deleted via API
+        val user1Token = testAuthSupport.generateToken(user1)
+        client.toBlocking().exchange(
+            HttpRequest
+                .DELETE<Any>("/api-ui/time-log-entries/${user1Entry.id}")
+                .bearerAuth(user1Token),
+            String::class.java,
+        )
+
+        // When: User 1 restores their own entry
+        val response =
+            client.toBlocking().exchange(
+                HttpRequest
+                    .POST(
+                        "/api-ui/time-log-entries/restore",
+                        mapOf("entryIds" to listOf(user1Entry.id)),
+                    ).bearerAuth(user1Token),
+                RestoreTimeLogEntriesResponse::class.java,
+            )
+
+        // Then: Should succeed
+        assertEquals(HttpStatus.OK, response.status)
+        assertEquals(1, response.body()?.restoredCount)
+
+        // And: Entry should be visible again
+        val restored = timeEntryRepository.findById(requireNotNull(user1Entry.id))
+        assertTrue(restored.isPresent)
+        assertEquals("User 1 Task", restored.get().title)
+    }
+
+    @Test
+    fun `should not allow restoring entries deleted before retention period`() {
+        // Given: User 1 token and User 1's entry deleted long ago
+        val user1Token = testAuthSupport.generateToken(user1)
+        val oldDeletedEntry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = Instant.parse("2024-01-15T12:00:00Z"),
+                    endTime = Instant.parse("2024-01-15T13:00:00Z"),
+                    title = "Long Deleted Task",
+                    ownerId = requireNotNull(user1.id),
+                    deletedAt = Instant.now().minusSeconds(2 * 60 * 60),
+                ),
+            )
+
+        // When: User 1 tries to restore the entry
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest
+                        .POST(
+                            "/api-ui/time-log-entries/restore",
+                            mapOf("entryIds" to listOf(oldDeletedEntry.id)),
+                        ).bearerAuth(user1Token),
+                    String::class.java,
+                )
+            }
+
+        // Then: Should be not found
+        assertEquals(HttpStatus.NOT_FOUND, exception.status)
+    }
+
+    @Test
+    fun `should require authentication to restore entries`() {
+        // When: Trying to restore without authentication
+        val exception =
+            assertThrows(HttpClientResponseException::class.java) {
+                client.toBlocking().exchange(
+                    HttpRequest.POST(
+                        "/api-ui/time-log-entries/restore",
+                        mapOf("entryIds" to listOf(user1Entry.id)),
+                    ),
+                    String::class.java,
+                )
+            }
+
+        // Then: Access should be unauthorized
+        assertEquals(HttpStatus.UNAUTHORIZED, exception.status)
+    }
 }
@@ -0,0 +1,135 @@
+package io.orangebuffalo.aionify.domain
+
+import io.micronaut.test.extensions.junit5.annotation.MicronautTest
+import io.orangebuffalo.aionify.TestDatabaseSupport
+import io.orangebuffalo.aionify.TestTimeService
+import io.orangebuffalo.aionify.TestUsers
+import jakarta.inject.Inject
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import java.time.Instant
+
+/**
+ * Tests for rounding the duration of the active entry when it is stopped, either directly or by starting another entry.
+ */
+@MicronautTest(transactional = false)
+class TimeLogEntryServiceRoundingTest {
+    @Inject
+    lateinit var timeLogEntryService: TimeLogEntryService
+
+    @Inject
+    lateinit var timeLogEntryRepository: TimeLogEntryRepository
+
+    @Inject
+    lateinit var testDatabaseSupport: TestDatabaseSupport
+
+    @Inject
+    lateinit var testTimeService: TestTimeService
+
+    @Inject
+    lateinit var testUsers: TestUsers
+
+    private lateinit var user: User
+
+    private val now = Instant.parse("2024-03-16T12:00:00Z")
+
+    @BeforeEach
+    fun setupTestData() {
+        testDatabaseSupport.truncateAllTables()
+        testTimeService.setTime(now)
+        user = testUsers.createRegularUser("rounding-user", "Rounding User")
+    }
+
+    private fun enableRounding(direction: RoundingDirection) {
+        testDatabaseSupport.insert(
+            RoundingSettings(
+                userId = requireNotNull(user.id),
+                enabled = true,
+                incrementMinutes = 15,
+                direction = direction,
+                application = RoundingApplication.ON_STOP,
+            ),
+        )
+    }
+
+    private fun insertActiveEntry(startTime: String): TimeLogEntry =
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = Instant.parse(startTime),
+                endTime = null,
+                title = "Active Task",
+                ownerId = requireNotNull(user.id),
+            ),
+        )
+
+    private fun findEndTime(entry: TimeLogEntry): Instant? =
+        timeLogEntryRepository.findById(requireNotNull(entry.id)).orElseThrow().endTime
+
+    @Test
+    fun `should not end entry in the future when rounding up on stop`() {
+        enableRounding(RoundingDirection.UP)
+        val activeEntry = insertActiveEntry("2024-03-16T11:20:00Z")
+
+        timeLogEntryService.stopActiveEntry(requireNotNull(user.id))
+
+        // 40 minutes would be rounded up to 45 minutes, ending at 12:05
+        assertEquals(now, findEndTime(activeEntry))
+    }
+
+    @Test
+    fun `should round entry to the nearest increment on stop`() {
+        enableRounding(RoundingDirection.NEAREST)
+        val activeEntry = insertActiveEntry("2024-03-16T11:10:00Z")
+
+        timeLogEntryService.stopActiveEntry(requireNotNull(user.id))
+
+        // 50 minutes are rounded to the nearest 45 minutes
+        assertEquals(Instant.parse("2024-03-16T11:55:00Z"), findEndTime(activeEntry))
+    }
+
+    @Test
+    fun `should not end entry in the future when rounding to the nearest increment up on stop`() {
+        enableRounding(RoundingDirection.NEAREST)
+        val activeEntry = insertActiveEntry("2024-03-16T11:20:00Z")
+
+        timeLogEntryService.stopActiveEntry(requireNotNull(user.id))
+
+        // 40 minutes would be rounded to the nearest 45 minutes, ending at 12:05
+        assertEquals(now, findEndTime(activeEntry))
+    }
+
+    @Test
+    fun `should not overlap the new entry when rounding up the active entry stopped by it`() {
+        enableRounding(RoundingDirection.UP)
+        val activeEntry = insertActiveEntry("2024-03-16T11:20:00Z")
+
+        val newEntry = timeLogEntryService.startEntry(requireNotNull(user.id), "New Task")
+
+        assertEquals(now, findEndTime(activeEntry))
+        assertEquals(now, newEntry.startTime)
+    }
+
+    @Test
+    fun `should round the active entry stopped by the new entry to the nearest increment`() {
+        enableRounding(RoundingDirection.NEAREST)
+        val activeEntry = insertActiveEntry("2024-03-16T11:10:00Z")
+
+        val newEntry = timeLogEntryService.startEntry(requireNotNull(user.id), "New Task")
+
+        assertEquals(Instant.parse("2024-03-16T11:55:00Z"), findEndTime(activeEntry))
+        assertEquals(now, newEntry.startTime)
+    }
+
+    @Test
+    fun `should not overlap the backdated new entry when rounding the active entry stopped by it`() {
+        enableRounding(RoundingDirection.NEAREST)
+        val activeEntry = insertActiveEntry("2024-03-16T11:20:00Z")
+        val newEntryStartTime = Instant.parse("2024-03-16T11:58:00Z")
+
+        timeLogEntryService.startEntry(requireNotNull(user.id), "New Task", startTime = newEntryStartTime)
+
+        // 38 minutes would be rounded to the nearest 45 minutes, ending after the new entry starts
+        assertEquals(newEntryStartTime, findEndTime(activeEntry))
+    }
+}
@@ -0,0 +1,235 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import io.orangebuffalo.aionify.timeInTestTz
+import io.orangebuffalo.aionify.withLocalTime
+import org.awaitility.kotlin.await
+import org.awaitility.kotlin.untilAsserted
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for editing the active entry directly in the current entry panel.
+ */
+class TimeLogsActiveEntryEditTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should allow editing title of active entry in current entry panel`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        val entry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("03:00"),
+                    endTime = null,
+                    title = "Active Task",
+                    ownerId = requireNotNull(testUser.id),
+                    tags = emptyArray(),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val panel = page.locator("[data-testid='current-entry-panel']")
+        panel.locator("[data-testid='active-entry-inline-title-trigger']").click()
+        assertThat(page.locator("[data-testid='active-entry-inline-title-popover']")).isVisible()
+
+        val input = page.locator("[data-testid='active-entry-inline-title-input']")
+        input.fill("Renamed Task")
+        page.locator("[data-testid='active-entry-inline-title-save-button']").click()
+
+        assertThat(page.locator("[data-testid='active-entry-inline-title-popover']")).not().isVisible()
+        assertThat(panel.locator("[data-testid='active-entry-inline-title-trigger']")).containsText("Renamed Task")
+
+        // Entry keeps running
+        assertThat(page.locator("[data-testid='stop-button']")).isVisible()
+
+        testDatabaseSupport.inTransaction {
+            val updatedEntry = timeLogEntryRepository.findById(requireNotNull(entry.id)).orElseThrow()
+            assertEquals("Renamed Task", updatedEntry.title)
+            assertEquals(entry.startTime, updatedEntry.startTime)
+            assertEquals(null, updatedEntry.endTime)
+        }
+    }
+
+    @Test
+    fun `should allow editing tags of active entry in current entry panel`() {
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        val entry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("03:00"),
+                    endTime = null,
+                    title = "Active Task",
+                    ownerId = requireNotNull(testUser.id),
+                    tags = arrayOf("backend"),
+                ),
+            )
+
+        // Provides another tag to select
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("01:30"),
+                title = "Earlier Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("frontend"),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='current-entry-panel'] [data-testid='active-entry-inline-tags-button']").click()
+        assertThat(page.locator("[data-testid='active-entry-inline-tags-popover']")).isVisible()
+        assertThat(page.locator("[data-testid='active-entry-inline-tags-checkbox-backend']")).isChecked()
+
+        page.locator("[data-testid='active-entry-inline-tags-checkbox-frontend']").click()
+
+        await untilAsserted {
+            testDatabaseSupport.inTransaction {
+                val updatedEntry = timeLogEntryRepository.findById(requireNotNull(entry.id)).orElseThrow()
+                assertEquals(setOf("backend", "frontend"), updatedEntry.tags.toSet())
+            }
+        }
+    }
+
+    @Test
+    fun `should allow editing start time of active entry in current entry panel`() {
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        val entry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("03:00"),
+                    endTime = null,
+                    title = "Active Task",
+                    ownerId = requireNotNull(testUser.id),
+                    tags = emptyArray(),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='active-entry-started-at']")).containsText("16 Mar, 03:00")
+
+        page.locator("[data-testid='active-entry-inline-start-time-trigger']").click()
+        assertThat(page.locator("[data-testid='active-entry-inline-start-time-popover']")).isVisible()
+        page.locator("[data-testid='active-entry-inline-start-time-time-input']").fill("02:40")
+        page.locator("[data-testid='active-entry-inline-start-time-save-button']").click()
+
+        assertThat(page.locator("[data-testid='active-entry-inline-start-time-popover']")).not().isVisible()
+        assertThat(page.locator("[data-testid='active-entry-started-at']")).containsText("16 Mar, 02:40")
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:50:00")
+
+        testDatabaseSupport.inTransaction {
+            val updatedEntry = timeLogEntryRepository.findById(requireNotNull(entry.id)).orElseThrow()
+            assertEquals(timeInTestTz("2024-03-16", "02:40"), updatedEntry.startTime)
+            assertEquals(null, updatedEntry.endTime)
+        }
+    }
+
+    @Test
+    fun `should allow start time of active entry to match end of previous entry`() {
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:00"),
+                endTime = baseTime.withLocalTime("02:45"),
+                title = "Previous Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = emptyArray(),
+            ),
+        )
+        val entry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("03:00"),
+                    endTime = null,
+                    title = "Active Task",
+                    ownerId = requireNotNull(testUser.id),
+                    tags = emptyArray(),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='active-entry-inline-start-time-trigger']").click()
+        page.locator("[data-testid='active-entry-inline-start-time-time-input']").fill("02:45")
+        page.locator("[data-testid='active-entry-inline-start-time-save-button']").click()
+
+        assertThat(page.locator("[data-testid='active-entry-inline-start-time-popover']")).not().isVisible()
+        testDatabaseSupport.inTransaction {
+            val updatedEntry = timeLogEntryRepository.findById(requireNotNull(entry.id)).orElseThrow()
+            assertEquals(timeInTestTz("2024-03-16", "02:45"), updatedEntry.startTime)
+        }
+    }
+
+    @Test
+    fun `should not allow start time of active entry before end of previous entry`() {
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:00"),
+                endTime = baseTime.withLocalTime("02:45"),
+                title = "Previous Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = emptyArray(),
+            ),
+        )
+        val entry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("03:00"),
+                    endTime = null,
+                    title = "Active Task",
+                    ownerId = requireNotNull(testUser.id),
+                    tags = emptyArray(),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='active-entry-inline-start-time-trigger']").click()
+        page.locator("[data-testid='active-entry-inline-start-time-time-input']").fill("02:30")
+
+        assertThat(page.locator("[data-testid='active-entry-inline-start-time-save-button']")).isDisabled()
+        page.locator("[data-testid='active-entry-inline-start-time-save-button-wrapper']").hover()
+        val tooltip = page.locator("[data-testid='active-entry-inline-start-time-validation-tooltip']")
+        assertThat(tooltip).isVisible()
+        assertThat(tooltip).containsText("Time must not be before the end of the previous entry")
+
+        testDatabaseSupport.inTransaction {
+            val unchangedEntry = timeLogEntryRepository.findById(requireNotNull(entry.id)).orElseThrow()
+            assertEquals(entry.startTime, unchangedEntry.startTime)
+        }
+    }
+
+    @Test
+    fun `should not allow start time of active entry in the future`() {
+        setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = timeInTestTz("2024-03-16", "03:00"),
+                endTime = null,
+                title = "Active Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = emptyArray(),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='active-entry-inline-start-time-trigger']").click()
+        page.locator("[data-testid='active-entry-inline-start-time-time-input']").fill("04:00")
+
+        assertThat(page.locator("[data-testid='active-entry-inline-start-time-save-button']")).isDisabled()
+        page.locator("[data-testid='active-entry-inline-start-time-save-button-wrapper']").hover()
+        assertThat(page.locator("[data-testid='active-entry-inline-start-time-validation-tooltip']"))
+            .containsText("Time must be in the past")
+    }
+}
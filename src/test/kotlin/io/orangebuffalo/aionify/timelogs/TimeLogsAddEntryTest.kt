@@ -0,0 +1,213 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Assertions.assertArrayEquals
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for manually adding past time entries with explicit start and end times.
+ */
+class TimeLogsAddEntryTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should add entry with start and end times from week navigation`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='add-entry-button']").click()
+        assertThat(page.locator("[data-testid='add-entry-dialog']")).isVisible()
+
+        page.locator("[data-testid='add-entry-title-input']").fill("Forgotten Task")
+        page.locator("[data-testid='add-entry-tags-button']").click()
+        page.locator("[data-testid='add-entry-tags-new-tag-input']").fill("backend")
+        page.locator("[data-testid='add-entry-tags-add-tag-button']").click()
+        page.keyboard().press("Escape")
+
+        page.locator("[data-testid='add-entry-start-time-input']").fill("01:00")
+        page.locator("[data-testid='add-entry-end-time-input']").fill("02:15")
+        page.locator("[data-testid='add-entry-save-button']").click()
+
+        assertThat(page.locator("[data-testid='add-entry-dialog']")).not().isVisible()
+
+        timeLogsPage.assertPageState(
+            TimeLogsPageState(
+                currentEntry = CurrentEntryState.NoActiveEntry(),
+                weekNavigation = WeekNavigationState(weekRange = "11 Mar - 17 Mar", weeklyTotal = "01:15:00"),
+                dayGroups =
+                    listOf(
+                        DayGroupState(
+                            displayTitle = "Today",
+                            totalDuration = "01:15:00",
+                            entries =
+                                listOf(
+                                    EntryState(
+                                        title = "Forgotten Task",
+                                        timeRange = "01:00 - 02:15",
+                                        duration = "01:15:00",
+                                        tags = listOf("backend"),
+                                    ),
+                                ),
+                        ),
+                    ),
+            ),
+        )
+
+        testDatabaseSupport.inTransaction {
+            val entries = timeLogEntryRepository.findAll().toList()
+            assertEquals(1, entries.size)
+            val entry = entries.first()
+            assertEquals("Forgotten Task", entry.title)
+            assertEquals(timeInTestTz("2024-03-16", "01:00"), entry.startTime)
+            assertEquals(timeInTestTz("2024-03-16", "02:15"), entry.endTime)
+            assertArrayEquals(arrayOf("backend"), entry.tags)
+        }
+    }
+
+    @Test
+    fun `should add entry to a past day from day group`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-14").withLocalTime("14:00"),
+                endTime = baseTime.withLocalDate("2024-03-14").withLocalTime("15:00"),
+                title = "Existing Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='day-group-add-entry-button']").click()
+
+        // Defaults to the working morning of the selected day
+        assertThat(page.locator("[data-testid='add-entry-start-time-input']")).hasValue("09:00")
+        assertThat(page.locator("[data-testid='add-entry-end-time-input']")).hasValue("10:00")
+
+        page.locator("[data-testid='add-entry-title-input']").fill("Morning Task")
+        page.locator("[data-testid='add-entry-save-button']").click()
+
+        assertThat(page.locator("[data-testid='add-entry-dialog']")).not().isVisible()
+
+        testDatabaseSupport.inTransaction {
+            val entry = timeLogEntryRepository.findAll().first { it.title == "Morning Task" }
+            assertEquals(timeInTestTz("2024-03-14", "09:00"), entry.startTime)
+            assertEquals(timeInTestTz("2024-03-14", "10:00"), entry.endTime)
+        }
+    }
+
+    @Test
+    fun `should warn about overlaps before saving`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "Existing Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='add-entry-button']").click()
+        page.locator("[data-testid='add-entry-title-input']").fill("Overlapping Task")
+        page.locator("[data-testid='add-entry-start-time-input']").fill("01:30")
+        page.locator("[data-testid='add-entry-end-time-input']").fill("02:30")
+
+        val overlapWarning = page.locator("[data-testid='add-entry-overlap-warning']")
+        assertThat(overlapWarning).isVisible()
+        assertThat(overlapWarning).containsText("This entry overlaps with 'Existing Task'")
+        assertThat(page.locator("[data-testid='add-entry-save-button']")).hasText("Save anyway")
+
+        // Moving the entry after the existing one resolves the overlap
+        page.locator("[data-testid='add-entry-start-time-input']").fill("02:00")
+        assertThat(overlapWarning).not().isVisible()
+        assertThat(page.locator("[data-testid='add-entry-save-button']")).hasText("Save")
+    }
+
+    @Test
+    fun `should warn about overlaps with the active entry`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("03:00"),
+                endTime = null,
+                title = "Active Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='add-entry-button']").click()
+        page.locator("[data-testid='add-entry-start-time-input']").fill("02:45")
+        page.locator("[data-testid='add-entry-end-time-input']").fill("03:15")
+
+        val overlapWarning = page.locator("[data-testid='add-entry-overlap-warning']")
+        assertThat(overlapWarning).isVisible()
+        assertThat(overlapWarning).containsText("This entry overlaps with 'Active Task'")
+        assertThat(page.locator("[data-testid='add-entry-save-button']")).hasText("Save anyway")
+
+        // Ending the entry when the active one starts resolves the overlap
+        page.locator("[data-testid='add-entry-end-time-input']").fill("03:00")
+        assertThat(overlapWarning).not().isVisible()
+    }
+
+    @Test
+    fun `should warn about overlaps with entries of another selected day`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        // Entry of the previous week, not loaded on the page
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-05").withLocalTime("01:00"),
+                endTime = baseTime.withLocalDate("2024-03-05").withLocalTime("02:00"),
+                title = "Last Week Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='add-entry-button']").click()
+        page.locator("[data-testid='add-entry-start-time-input']").fill("01:30")
+        page.locator("[data-testid='add-entry-end-time-input']").fill("02:30")
+
+        val overlapWarning = page.locator("[data-testid='add-entry-overlap-warning']")
+        assertThat(overlapWarning).not().isVisible()
+
+        page.locator("[data-testid='add-entry-start-grid'] button:text-is('5')").first().click()
+        page.locator("[data-testid='add-entry-end-grid'] button:text-is('5')").first().click()
+
+        assertThat(overlapWarning).isVisible()
+        assertThat(overlapWarning).containsText("This entry overlaps with 'Last Week Task'")
+        assertThat(page.locator("[data-testid='add-entry-save-button']")).hasText("Save anyway")
+    }
+
+    @Test
+    fun `should not allow end time before start time`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='add-entry-button']").click()
+        page.locator("[data-testid='add-entry-start-time-input']").fill("02:00")
+        page.locator("[data-testid='add-entry-end-time-input']").fill("01:00")
+
+        assertThat(page.locator("[data-testid='add-entry-validation-message']"))
+            .hasText("Time must be after start time")
+        assertThat(page.locator("[data-testid='add-entry-save-button']")).isDisabled()
+    }
+}
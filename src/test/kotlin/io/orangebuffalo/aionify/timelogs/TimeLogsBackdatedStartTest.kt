@@ -0,0 +1,179 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import io.orangebuffalo.aionify.timeInTestTz
+import io.orangebuffalo.aionify.withLocalTime
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for starting a new entry with a start time in the past.
+ */
+class TimeLogsBackdatedStartTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should start entry with a quick offset`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='new-entry-start-time-trigger']")).hasText("Now")
+
+        timeLogsPage.fillNewEntryTitle("Forgotten Task")
+        page.locator("[data-testid='new-entry-start-time-trigger']").click()
+        page.locator("[data-testid='new-entry-start-time-offset-15']").click()
+        page.keyboard().press("Escape")
+
+        assertThat(page.locator("[data-testid='new-entry-start-time-trigger']")).hasText("03:15")
+        timeLogsPage.clickStart()
+
+        assertThat(page.locator("[data-testid='active-entry-started-at']")).containsText("16 Mar, 03:15")
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:15:00")
+
+        testDatabaseSupport.inTransaction {
+            val entry = timeLogEntryRepository.findAll().single()
+            assertEquals("Forgotten Task", entry.title)
+            assertEquals(timeInTestTz("2024-03-16", "03:15"), entry.startTime)
+            assertEquals(null, entry.endTime)
+        }
+    }
+
+    @Test
+    fun `should start entry at an exact time`() {
+        setBaseTime("2024-03-16", "03:30")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        timeLogsPage.fillNewEntryTitle("Exact Task")
+        page.locator("[data-testid='new-entry-start-time-trigger']").click()
+        page.locator("[data-testid='new-entry-start-time-time-input']").fill("03:05")
+        page.keyboard().press("Escape")
+
+        timeLogsPage.clickStart()
+
+        assertThat(page.locator("[data-testid='active-entry-started-at']")).containsText("16 Mar, 03:05")
+        testDatabaseSupport.inTransaction {
+            val entry = timeLogEntryRepository.findAll().single()
+            assertEquals(timeInTestTz("2024-03-16", "03:05"), entry.startTime)
+        }
+    }
+
+    @Test
+    fun `should default start time to the end of a recent previous entry`() {
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:30"),
+                endTime = baseTime.withLocalTime("03:20"),
+                title = "Previous Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = emptyArray(),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='new-entry-start-time-trigger']")).hasText("03:20")
+
+        timeLogsPage.fillNewEntryTitle("Next Task")
+        timeLogsPage.clickStart()
+
+        assertThat(page.locator("[data-testid='active-entry-started-at']")).containsText("16 Mar, 03:20")
+    }
+
+    @Test
+    fun `should start now if the previous entry is no longer recent when starting`() {
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:30"),
+                endTime = baseTime.withLocalTime("03:20"),
+                title = "Previous Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = emptyArray(),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='new-entry-start-time-trigger']")).hasText("03:20")
+
+        // The form sits idle until the previous entry is no longer recent
+        testTimeService.setTime(baseTime.withLocalTime("03:40"))
+        page.clock().runFor(10 * 60 * 1000)
+
+        assertThat(page.locator("[data-testid='new-entry-start-time-trigger']")).hasText("Now")
+        timeLogsPage.fillNewEntryTitle("Next Task")
+        timeLogsPage.clickStart()
+
+        assertThat(page.locator("[data-testid='active-entry-started-at']")).containsText("16 Mar, 03:40")
+        testDatabaseSupport.inTransaction {
+            val entry = timeLogEntryRepository.findAll().single { it.endTime == null }
+            assertEquals(timeInTestTz("2024-03-16", "03:40"), entry.startTime)
+        }
+    }
+
+    @Test
+    fun `should start now if the previous entry ended long ago`() {
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "Previous Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = emptyArray(),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='new-entry-start-time-trigger']")).hasText("Now")
+
+        timeLogsPage.fillNewEntryTitle("Next Task")
+        timeLogsPage.clickStart()
+
+        assertThat(page.locator("[data-testid='active-entry-started-at']")).containsText("16 Mar, 03:30")
+    }
+
+    @Test
+    fun `should not allow start time overlapping the previous entry`() {
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:30"),
+                endTime = baseTime.withLocalTime("03:20"),
+                title = "Previous Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = emptyArray(),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        timeLogsPage.fillNewEntryTitle("Overlapping Task")
+        page.locator("[data-testid='new-entry-start-time-trigger']").click()
+        page.locator("[data-testid='new-entry-start-time-offset-30']").click()
+
+        assertThat(page.locator("[data-testid='new-entry-start-time-error']"))
+            .hasText("Start time overlaps the previous entry")
+        page.keyboard().press("Escape")
+        assertThat(page.locator("[data-testid='start-button']")).isDisabled()
+
+        // Going back to the current time allows starting again
+        page.locator("[data-testid='new-entry-start-time-trigger']").click()
+        page.locator("[data-testid='new-entry-start-time-now']").click()
+        assertThat(page.locator("[data-testid='new-entry-start-time-error']")).not().isVisible()
+        page.keyboard().press("Escape")
+        assertThat(page.locator("[data-testid='start-button']")).isEnabled()
+
+        testDatabaseSupport.inTransaction {
+            assertEquals(1, timeLogEntryRepository.findAll().count())
+        }
+    }
+}
@@ -0,0 +1,224 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.domain.TagRate
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import io.orangebuffalo.aionify.withLocalTime
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+import java.math.BigDecimal
+import java.time.Instant
+
+/**
+ * Tests for billable entries and the billable time and earnings displayed next to the totals.
+ */
+class TimeLogsBillableTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should toggle billable flag of the entry`() {
+        // Set base time: Saturday, March 16, 2024 at 12:00:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("09:00"),
+                endTime = baseTime.withLocalTime("10:00"),
+                title = "Client Meeting",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val billableToggle = page.locator("[data-testid='entry-billable-toggle']")
+        assertThat(billableToggle).hasAttribute("data-billable", "false")
+        assertThat(page.locator("[data-testid='day-billable-summary']")).not().isVisible()
+
+        billableToggle.click()
+
+        assertThat(billableToggle).hasAttribute("data-billable", "true")
+        assertThat(page.locator("[data-testid='day-billable-summary']")).containsText("Billable: 01:00:00")
+        assertEquals(true, timeLogEntryRepository.findAll().single().billable)
+
+        billableToggle.click()
+
+        assertThat(billableToggle).hasAttribute("data-billable", "false")
+        assertThat(page.locator("[data-testid='day-billable-summary']")).not().isVisible()
+        assertEquals(false, timeLogEntryRepository.findAll().single().billable)
+    }
+
+    @Test
+    fun `should add billable entry with start and end times`() {
+        setBaseTime("2024-03-16", "12:00")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='add-entry-button']").click()
+        page.locator("[data-testid='add-entry-title-input']").fill("Client Call")
+        page.locator("[data-testid='add-entry-start-time-input']").fill("09:00")
+        page.locator("[data-testid='add-entry-end-time-input']").fill("10:00")
+        page.locator("[data-testid='add-entry-billable-checkbox']").click()
+        page.locator("[data-testid='add-entry-save-button']").click()
+
+        assertThat(page.locator("[data-testid='add-entry-dialog']")).not().isVisible()
+        assertThat(page.locator("[data-testid='entry-billable-toggle']")).hasAttribute("data-billable", "true")
+        assertEquals(true, timeLogEntryRepository.findAll().single().billable)
+    }
+
+    @Test
+    fun `should show billable time and earnings next to day and week totals`() {
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+        testDatabaseSupport.insert(
+            TagRate(
+                userId = requireNotNull(testUser.id),
+                tag = "client-a",
+                hourlyRate = BigDecimal("80.00"),
+                currency = "EUR",
+            ),
+        )
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("09:00"),
+                endTime = baseTime.withLocalTime("10:30"),
+                title = "Client Implementation",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("client-a"),
+                billable = true,
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("10:30"),
+                endTime = baseTime.withLocalTime("11:00"),
+                title = "Client Emails",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("client-a"),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        // Only the billable entry is counted, at the rate of its tag
+        val daySummary = page.locator("[data-testid='day-billable-summary']")
+        assertThat(daySummary.locator("[data-testid='billable-duration']")).hasText("01:30:00")
+        assertThat(daySummary.locator("[data-testid='billable-amount']")).hasText("€120.00")
+        assertThat(page.locator("[data-testid='day-total-duration']")).containsText("02:00:00")
+
+        val weeklySummary = page.locator("[data-testid='weekly-billable-summary']")
+        assertThat(weeklySummary.locator("[data-testid='billable-duration']")).hasText("01:30:00")
+        assertThat(weeklySummary.locator("[data-testid='billable-amount']")).hasText("€120.00")
+    }
+
+    @Test
+    fun `should show billable time without earnings when no tag of the entry has a rate`() {
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("09:00"),
+                endTime = baseTime.withLocalTime("10:00"),
+                title = "Unrated Work",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("internal"),
+                billable = true,
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val daySummary = page.locator("[data-testid='day-billable-summary']")
+        assertThat(daySummary.locator("[data-testid='billable-duration']")).hasText("01:00:00")
+        assertThat(daySummary.locator("[data-testid='billable-amount']")).not().isVisible()
+    }
+
+    @Test
+    fun `should keep billable flag when continuing the entry`() {
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("09:00"),
+                endTime = baseTime.withLocalTime("10:00"),
+                title = "Client Work",
+                ownerId = requireNotNull(testUser.id),
+                billable = true,
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        timeLogsPage.clickContinueForEntry("Client Work")
+
+        assertThat(page.locator("[data-testid='stop-button']")).isVisible()
+        val activeEntry = timeLogEntryRepository.findAll().single { it.endTime == null }
+        assertEquals(true, activeEntry.billable)
+    }
+
+    @Test
+    fun `should keep billable flag when continuing the last entry with shortcut`() {
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+
+        insertBillableEntry(baseTime)
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='new-entry-input']")).isVisible()
+
+        page.keyboard().press("c")
+
+        assertThat(page.locator("[data-testid='stop-button']")).isVisible()
+        assertActiveEntryBillable()
+    }
+
+    @Test
+    fun `should keep billable flag when starting the entry from command palette`() {
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+
+        insertBillableEntry(baseTime)
+
+        // Palette search is debounced
+        page.clock().resume()
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.keyboard().press("Control+k")
+        page.locator("[data-testid='command-palette-input']").fill("client")
+        page.locator("[data-testid='command-palette-item']:has-text('Start \"Client Work\"')").click()
+
+        assertThat(page.locator("[data-testid='stop-button']")).isVisible()
+        assertActiveEntryBillable()
+    }
+
+    @Test
+    fun `should keep billable flag when starting the pinned entry`() {
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+
+        insertBillableEntry(baseTime)
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='entry-menu-button']").click()
+        page.locator("[data-testid='pin-entry-menu-item']").click()
+        page.locator("[data-testid='pinned-entry-start-0']").click()
+
+        assertThat(page.locator("[data-testid='stop-button']")).isVisible()
+        assertActiveEntryBillable()
+    }
+
+    private fun insertBillableEntry(baseTime: Instant) =
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("09:00"),
+                endTime = baseTime.withLocalTime("10:00"),
+                title = "Client Work",
+                ownerId = requireNotNull(testUser.id),
+                billable = true,
+            ),
+        )
+
+    private fun assertActiveEntryBillable() {
+        testDatabaseSupport.inTransaction {
+            val activeEntry = timeLogEntryRepository.findByOwnerIdAndEndTimeIsNull(requireNotNull(testUser.id)).orElseThrow()
+            assertEquals("Client Work", activeEntry.title)
+            assertEquals(true, activeEntry.billable)
+        }
+    }
+}
@@ -0,0 +1,170 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Assertions.assertArrayEquals
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for bulk actions on the entries selected in the week view.
+ */
+class TimeLogsBulkActionsTest : TimeLogsPageTestBase() {
+    private fun insertEntriesAcrossDays() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "Imported Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("imported", "backend"),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-15").withLocalTime("10:00"),
+                endTime = baseTime.withLocalDate("2024-03-15").withLocalTime("11:00"),
+                title = "Another Import",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("imported"),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-15").withLocalTime("12:00"),
+                endTime = baseTime.withLocalDate("2024-03-15").withLocalTime("13:00"),
+                title = "Keep Me",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+    }
+
+    private fun selectEntry(title: String) {
+        page.locator("[data-testid='time-entry']:has-text('$title') [data-testid='entry-select-checkbox']").click()
+    }
+
+    @Test
+    fun `should show action bar only when entries are selected`() {
+        insertEntriesAcrossDays()
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='bulk-action-bar']")).not().isVisible()
+
+        selectEntry("Imported Task")
+        selectEntry("Another Import")
+        assertThat(page.locator("[data-testid='bulk-selected-count']")).hasText("Selected: 2")
+
+        page.locator("[data-testid='bulk-clear-selection-button']").click()
+        assertThat(page.locator("[data-testid='bulk-action-bar']")).not().isVisible()
+    }
+
+    @Test
+    fun `should retitle selected entries across days`() {
+        insertEntriesAcrossDays()
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        selectEntry("Imported Task")
+        selectEntry("Another Import")
+
+        page.locator("[data-testid='bulk-retitle-button']").click()
+        page.locator("[data-testid='bulk-retitle-input']").fill("Client Work")
+        page.locator("[data-testid='bulk-retitle-save-button']").click()
+        assertThat(page.locator("[data-testid='bulk-retitle-popover']")).not().isVisible()
+
+        timeLogsPage.assertPageState(
+            TimeLogsPageState(
+                currentEntry = CurrentEntryState.NoActiveEntry(),
+                weekNavigation = WeekNavigationState(weekRange = "11 Mar - 17 Mar", weeklyTotal = "03:00:00"),
+                dayGroups =
+                    listOf(
+                        DayGroupState(
+                            displayTitle = "Today",
+                            totalDuration = "01:00:00",
+                            entries =
+                                listOf(
+                                    EntryState(
+                                        title = "Client Work",
+                                        timeRange = "01:00 - 02:00",
+                                        duration = "01:00:00",
+                                        tags = listOf("backend", "imported"),
+                                    ),
+                                ),
+                        ),
+                        DayGroupState(
+                            displayTitle = "Yesterday",
+                            totalDuration = "02:00:00",
+                            entries =
+                                listOf(
+                                    EntryState(
+                                        title = "Keep Me",
+                                        timeRange = "12:00 - 13:00",
+                                        duration = "01:00:00",
+                                    ),
+                                    EntryState(
+                                        title = "Client Work",
+                                        timeRange = "10:00 - 11:00",
+                                        duration = "01:00:00",
+                                        tags = listOf("imported"),
+                                    ),
+                                ),
+                        ),
+                    ),
+            ),
+        )
+    }
+
+    @Test
+    fun `should add and remove tags on selected entries`() {
+        insertEntriesAcrossDays()
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        selectEntry("Imported Task")
+        selectEntry("Another Import")
+
+        // Only the tags present in the selection are offered for removal
+        page.locator("[data-testid='bulk-remove-tags-button']").click()
+        assertThat(page.locator("[data-testid^='bulk-remove-tags-item-']")).hasCount(2)
+        page.locator("[data-testid='bulk-remove-tags-checkbox-imported']").click()
+        page.locator("[data-testid='bulk-remove-tags-apply-button']").click()
+        assertThat(page.locator("[data-testid='bulk-remove-tags-popover']")).not().isVisible()
+
+        page.locator("[data-testid='bulk-add-tags-button']").click()
+        page.locator("[data-testid='bulk-add-tags-new-tag-input']").fill("client")
+        page.locator("[data-testid='bulk-add-tags-add-tag-button']").click()
+        page.locator("[data-testid='bulk-add-tags-apply-button']").click()
+        assertThat(page.locator("[data-testid='bulk-add-tags-popover']")).not().isVisible()
+
+        testDatabaseSupport.inTransaction {
+            val entries = timeLogEntryRepository.findAll().associateBy { it.title }
+            assertArrayEquals(arrayOf("backend", "client"), entries.getValue("Imported Task").tags)
+            assertArrayEquals(arrayOf("client"), entries.getValue("Another Import").tags)
+            assertArrayEquals(emptyArray<String>(), entries.getValue("Keep Me").tags)
+        }
+    }
+
+    @Test
+    fun `should delete selected entries after confirmation`() {
+        insertEntriesAcrossDays()
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        selectEntry("Imported Task")
+        selectEntry("Another Import")
+
+        page.locator("[data-testid='bulk-delete-button']").click()
+        assertThat(page.locator("[data-testid='bulk-delete-dialog']")).isVisible()
+        page.locator("[data-testid='bulk-delete-confirm-button']").click()
+
+        assertThat(page.locator("[data-testid='bulk-delete-dialog']")).not().isVisible()
+        assertThat(page.locator("[data-testid='bulk-action-bar']")).not().isVisible()
+
+        testDatabaseSupport.inTransaction {
+            val entries = timeLogEntryRepository.findAll().toList()
+            assertEquals(1, entries.size)
+            assertEquals("Keep Me", entries.first().title)
+        }
+    }
+}
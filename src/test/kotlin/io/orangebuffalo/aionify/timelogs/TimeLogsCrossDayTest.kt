@@ -6,7 +6,7 @@ import org.junit.jupiter.api.Test
 
 /**
  * Tests for entries that span across days.
- * Entries should always be shown on their start day, with visual indicators for cross-day entries.
+ * By default entries are shown on their start day, with visual indicators for cross-day entries.
  */
 class TimeLogsCrossDayTest : TimeLogsPageTestBase() {
     @Test
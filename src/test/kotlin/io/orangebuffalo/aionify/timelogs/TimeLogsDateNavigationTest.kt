@@ -0,0 +1,107 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for jumping to arbitrary dates and displaying custom date ranges.
+ */
+class TimeLogsDateNavigationTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should jump to the week of a date picked in the calendar and back to this week`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2023-12-13").withLocalTime("09:00"),
+                endTime = baseTime.withLocalDate("2023-12-13").withLocalTime("10:00"),
+                title = "Old Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='this-week-button']")).not().isVisible()
+
+        page.locator("[data-testid='week-range']").click()
+        val datePicker = page.locator("[data-testid='week-date-picker']")
+        assertThat(datePicker).isVisible()
+        repeat(3) { datePicker.locator("button:has-text('‹')").click() }
+        page.locator("[data-testid='week-date-picker-grid'] button:text-is('12')").click()
+
+        assertThat(datePicker).not().isVisible()
+        assertThat(page.locator("[data-testid='week-range']")).hasText("11 Dec - 17 Dec")
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(1)
+        assertThat(page.locator("[data-testid='time-entry']")).containsText("Old Task")
+
+        page.locator("[data-testid='this-week-button']").click()
+
+        assertThat(page.locator("[data-testid='week-range']")).hasText("11 Mar - 17 Mar")
+        assertThat(page.locator("[data-testid='no-entries']")).isVisible()
+        assertThat(page.locator("[data-testid='this-week-button']")).not().isVisible()
+    }
+
+    @Test
+    fun `should display entries of a custom range`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-12").withLocalTime("09:00"),
+                endTime = baseTime.withLocalDate("2024-03-12").withLocalTime("10:00"),
+                title = "Tuesday Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-14").withLocalTime("09:00"),
+                endTime = baseTime.withLocalDate("2024-03-14").withLocalTime("11:00"),
+                title = "Thursday Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("01:30"),
+                title = "Today Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='view-mode-range-button']").click()
+
+        // Range starts with the current week
+        assertThat(page.locator("[data-testid='range-from-button']")).hasText("11 Mar 2024")
+        assertThat(page.locator("[data-testid='range-to-button']")).hasText("17 Mar 2024")
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(3)
+        assertThat(page.locator("[data-testid='range-total']")).containsText("03:30:00")
+
+        page.locator("[data-testid='range-from-button']").click()
+        page.locator("[data-testid='range-from-picker-grid'] button:text-is('14')").click()
+
+        assertThat(page.locator("[data-testid='range-from-button']")).hasText("14 Mar 2024")
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(2)
+        assertThat(page.locator("[data-testid='range-total']")).containsText("02:30:00")
+
+        page.locator("[data-testid='range-today-button']").click()
+
+        assertThat(page.locator("[data-testid='range-from-button']")).hasText("16 Mar 2024")
+        assertThat(page.locator("[data-testid='range-to-button']")).hasText("16 Mar 2024")
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(1)
+        assertThat(page.locator("[data-testid='time-entry']")).containsText("Today Task")
+
+        page.locator("[data-testid='range-this-week-button']").click()
+
+        assertThat(page.locator("[data-testid='range-from-button']")).hasText("11 Mar 2024")
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(3)
+    }
+}
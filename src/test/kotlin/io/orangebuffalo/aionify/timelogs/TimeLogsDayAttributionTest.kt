@@ -0,0 +1,105 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.domain.DayAttribution
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import io.orangebuffalo.aionify.domain.UserSettings
+import io.orangebuffalo.aionify.withLocalDate
+import io.orangebuffalo.aionify.withLocalTime
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for splitting entries crossing midnight between the days they cover in totals and goals.
+ */
+class TimeLogsDayAttributionTest : TimeLogsPageTestBase() {
+    private fun enableSplitAtMidnight() {
+        testDatabaseSupport.insert(
+            UserSettings.create(userId = requireNotNull(testUser.id), dayAttribution = DayAttribution.SPLIT_AT_MIDNIGHT),
+        )
+    }
+
+    @Test
+    fun `should split entry crossing midnight between days`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+        enableSplitAtMidnight()
+
+        // Friday 20:00 to Saturday 02:30: 4 hours on Friday and 2.5 hours on Saturday
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-15").withLocalTime("20:00"),
+                endTime = baseTime.withLocalTime("02:30"),
+                title = "Cross-Day Entry",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val dayGroups = page.locator("[data-testid='day-group']")
+        assertThat(dayGroups).hasCount(2)
+
+        val today = dayGroups.nth(0)
+        assertThat(today.locator("[data-testid='day-title']")).hasText("Today")
+        assertThat(today.locator("[data-testid='day-total-duration']")).containsText("02:30:00")
+        assertThat(today.locator("[data-testid='continued-from-previous-day']")).isVisible()
+        // The entry itself keeps its full duration
+        assertThat(today.locator("[data-testid='entry-duration']")).hasText("06:30:00")
+
+        val yesterday = dayGroups.nth(1)
+        assertThat(yesterday.locator("[data-testid='day-title']")).hasText("Yesterday")
+        assertThat(yesterday.locator("[data-testid='day-total-duration']")).containsText("04:00:00")
+        assertThat(yesterday.locator("[data-testid='continued-from-previous-day']")).not().isVisible()
+
+        assertThat(page.locator("[data-testid='weekly-total']")).containsText("06:30:00")
+    }
+
+    @Test
+    fun `should count time after midnight of entry started in the previous week`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+        enableSplitAtMidnight()
+
+        // Sunday 22:00 of the previous week to Monday 01:00 of the displayed week
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-10").withLocalTime("22:00"),
+                endTime = baseTime.withLocalDate("2024-03-11").withLocalTime("01:00"),
+                title = "Late Night Release",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val dayGroups = page.locator("[data-testid='day-group']")
+        assertThat(dayGroups).hasCount(1)
+        assertThat(dayGroups.nth(0).locator("[data-testid='day-title']")).hasText("Monday, 11 Mar")
+        assertThat(dayGroups.nth(0).locator("[data-testid='day-total-duration']")).containsText("01:00:00")
+        assertThat(dayGroups.nth(0).locator("[data-testid='continued-from-previous-day']")).isVisible()
+
+        assertThat(page.locator("[data-testid='weekly-total']")).containsText("01:00:00")
+    }
+
+    @Test
+    fun `should keep entry crossing midnight on its start day by default`() {
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-15").withLocalTime("20:00"),
+                endTime = baseTime.withLocalTime("02:30"),
+                title = "Cross-Day Entry",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val dayGroups = page.locator("[data-testid='day-group']")
+        assertThat(dayGroups).hasCount(1)
+        assertThat(dayGroups.nth(0).locator("[data-testid='day-title']")).hasText("Yesterday")
+        assertThat(dayGroups.nth(0).locator("[data-testid='day-total-duration']")).containsText("06:30:00")
+        assertThat(page.locator("[data-testid='continued-from-previous-day']")).not().isVisible()
+    }
+}
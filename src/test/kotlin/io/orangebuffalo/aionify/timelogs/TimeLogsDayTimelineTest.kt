@@ -0,0 +1,157 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.Locator
+import com.microsoft.playwright.Mouse
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.DailyGoalBreak
+import io.orangebuffalo.aionify.domain.GoalsSettings
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+import java.time.LocalTime
+
+/**
+ * Tests for the day timeline, showing entries and typical breaks and allowing to drag entry edges.
+ */
+class TimeLogsDayTimelineTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should display entries and typical breaks on the day timeline`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+        val userId = requireNotNull(testUser.id)
+
+        val goalsSettings =
+            testDatabaseSupport.insert(
+                GoalsSettings(
+                    userId = userId,
+                    dailyEnabled = true,
+                    dailyGoalMinutes = 240,
+                ),
+            )
+        testDatabaseSupport.insert(
+            DailyGoalBreak(
+                goalsSettingsId = requireNotNull(goalsSettings.id),
+                sortOrder = 0,
+                fromTime = LocalTime.of(12, 0),
+                toTime = LocalTime.of(13, 0),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "First Task",
+                ownerId = userId,
+                tags = arrayOf("backend"),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:30"),
+                endTime = null,
+                title = "Active Task",
+                ownerId = userId,
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val timeline = page.locator("[data-testid='day-timeline']")
+        assertThat(timeline).hasCount(1)
+        assertThat(timeline.locator("[data-testid='day-timeline-block']")).hasCount(2)
+        assertThat(timeline.locator("[data-testid='day-timeline-break']")).hasCount(1)
+        // the active entry end cannot be dragged
+        assertThat(timeline.locator("[data-testid='day-timeline-block-end-handle']")).hasCount(1)
+    }
+
+    @Test
+    fun `should not extend entry end beyond the next entry start`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        val entry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("01:00"),
+                    endTime = baseTime.withLocalTime("02:00"),
+                    title = "First Task",
+                    ownerId = requireNotNull(testUser.id),
+                ),
+            )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:30"),
+                endTime = baseTime.withLocalTime("03:00"),
+                title = "Second Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val endHandle = timelineBlock(requireNotNull(entry.id)).locator("[data-testid='day-timeline-block-end-handle']")
+        dragEdge(endHandle, toHour = 2.9)
+
+        assertThat(entryTimeRange("First Task")).containsText("01:00 - 02:30")
+        testDatabaseSupport.inTransaction {
+            val updatedEntry = timeLogEntryRepository.findById(requireNotNull(entry.id)).orElseThrow()
+            assertEquals(timeInTestTz("2024-03-16", "02:30"), updatedEntry.endTime)
+        }
+    }
+
+    @Test
+    fun `should snap entry start to the previous entry end`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("00:30"),
+                endTime = baseTime.withLocalTime("01:00"),
+                title = "First Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        val entry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("02:00"),
+                    endTime = baseTime.withLocalTime("03:00"),
+                    title = "Second Task",
+                    ownerId = requireNotNull(testUser.id),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        // 01:03 is close enough to the end of the previous entry to snap to it
+        val startHandle = timelineBlock(requireNotNull(entry.id)).locator("[data-testid='day-timeline-block-start-handle']")
+        dragEdge(startHandle, toHour = 1.05)
+
+        assertThat(entryTimeRange("Second Task")).containsText("01:00 - 03:00")
+        testDatabaseSupport.inTransaction {
+            val updatedEntry = timeLogEntryRepository.findById(requireNotNull(entry.id)).orElseThrow()
+            assertEquals(timeInTestTz("2024-03-16", "01:00"), updatedEntry.startTime)
+        }
+    }
+
+    private fun timelineBlock(entryId: Long) = page.locator("[data-testid='day-timeline-block'][data-entry-id='$entryId']")
+
+    private fun entryTimeRange(title: String) =
+        page.locator("[data-testid='time-entry']:has-text('$title') [data-testid='entry-time-range']")
+
+    private fun dragEdge(
+        handle: Locator,
+        toHour: Double,
+    ) {
+        val bar = requireNotNull(page.locator("[data-testid='day-timeline-bar']").boundingBox())
+        val handleBox = requireNotNull(handle.boundingBox())
+        val y = handleBox.y + handleBox.height / 2
+
+        page.mouse().move(handleBox.x + handleBox.width / 2, y)
+        page.mouse().down()
+        page.mouse().move(bar.x + bar.width * toHour / 24, y, Mouse.MoveOptions().setSteps(5))
+        page.mouse().up()
+    }
+}
@@ -0,0 +1,74 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Test
+import java.util.regex.Pattern
+
+/**
+ * Tests for storing the displayed view in the URL, so that it can be linked to and navigated with browser history.
+ */
+class TimeLogsDeepLinkTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should open the week specified in the URL`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2023-12-13").withLocalTime("09:00"),
+                endTime = baseTime.withLocalDate("2023-12-13").withLocalTime("10:00"),
+                title = "Old Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs?week=2023-W50", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='week-range']")).hasText("11 Dec - 17 Dec")
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(1)
+        assertThat(page.locator("[data-testid='time-entry']")).containsText("Old Task")
+    }
+
+    @Test
+    fun `should open the month and range specified in the URL`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        loginViaToken("/portal/time-logs?month=2024-02", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='month-title']")).hasText("February 2024")
+
+        page.navigate("/portal/time-logs?from=2024-03-12&to=2024-03-14")
+
+        assertThat(page.locator("[data-testid='range-from-button']")).hasText("12 Mar 2024")
+        assertThat(page.locator("[data-testid='range-to-button']")).hasText("14 Mar 2024")
+    }
+
+    @Test
+    fun `should move between weeks with browser history`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='week-range']")).hasText("11 Mar - 17 Mar")
+
+        page.locator("[data-testid='previous-week-button']").click()
+        assertThat(page.locator("[data-testid='week-range']")).hasText("4 Mar - 10 Mar")
+        assertThat(page).hasURL(Pattern.compile(".*week=2024-W10$"))
+
+        page.locator("[data-testid='view-mode-month-button']").click()
+        assertThat(page.locator("[data-testid='month-title']")).hasText("March 2024")
+        assertThat(page).hasURL(Pattern.compile(".*month=2024-03$"))
+
+        page.goBack()
+        assertThat(page.locator("[data-testid='week-range']")).hasText("4 Mar - 10 Mar")
+
+        page.goBack()
+        assertThat(page.locator("[data-testid='week-range']")).hasText("11 Mar - 17 Mar")
+
+        page.goForward()
+        assertThat(page.locator("[data-testid='week-range']")).hasText("4 Mar - 10 Mar")
+    }
+}
@@ -0,0 +1,87 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.domain.DurationFormat
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import io.orangebuffalo.aionify.domain.UserSettings
+import io.orangebuffalo.aionify.withLocalTime
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for rendering durations in the format preferred by the user.
+ */
+class TimeLogsDurationFormatTest : TimeLogsPageTestBase() {
+    private fun setDurationFormat(durationFormat: DurationFormat) {
+        testDatabaseSupport.insert(
+            UserSettings.create(userId = requireNotNull(testUser.id), durationFormat = durationFormat),
+        )
+    }
+
+    private fun insertEntries() {
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("08:00"),
+                endTime = baseTime.withLocalTime("09:30"),
+                title = "Morning Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("10:00"),
+                endTime = baseTime.withLocalTime("10:45"),
+                title = "Review",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+    }
+
+    @Test
+    fun `should render durations in decimal hours`() {
+        insertEntries()
+        setDurationFormat(DurationFormat.DECIMAL_HOURS)
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val durations = page.locator("[data-testid='entry-duration']")
+        assertThat(durations).containsText(arrayOf("0.75 h", "1.50 h"))
+        assertThat(page.locator("[data-testid='day-total-duration']")).containsText("2.25 h")
+        assertThat(page.locator("[data-testid='weekly-total']")).containsText("2.25 h")
+    }
+
+    @Test
+    fun `should render durations as hours and minutes`() {
+        insertEntries()
+        setDurationFormat(DurationFormat.H_MM)
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val durations = page.locator("[data-testid='entry-duration']")
+        assertThat(durations).containsText(arrayOf("0:45", "1:30"))
+        assertThat(page.locator("[data-testid='day-total-duration']")).containsText("2:15")
+    }
+
+    @Test
+    fun `should render humanized durations`() {
+        insertEntries()
+        setDurationFormat(DurationFormat.HUMANIZED)
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val durations = page.locator("[data-testid='entry-duration']")
+        assertThat(durations).containsText(arrayOf("45m", "1h 30m"))
+        assertThat(page.locator("[data-testid='day-total-duration']")).containsText("2h 15m")
+    }
+
+    @Test
+    fun `should render durations as HH-MM-SS by default`() {
+        insertEntries()
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val durations = page.locator("[data-testid='entry-duration']")
+        assertThat(durations).containsText(arrayOf("00:45:00", "01:30:00"))
+        assertThat(page.locator("[data-testid='day-total-duration']")).containsText("02:15:00")
+    }
+}
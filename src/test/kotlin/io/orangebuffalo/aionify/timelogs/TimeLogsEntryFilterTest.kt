@@ -0,0 +1,111 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Test
+import java.util.regex.Pattern
+
+/**
+ * Tests for filtering displayed entries by tags and title.
+ */
+class TimeLogsEntryFilterTest : TimeLogsPageTestBase() {
+    private fun insertEntries() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("00:30"),
+                endTime = baseTime.withLocalTime("01:30"),
+                title = "Client A planning",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("client-a", "meeting"),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:30"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "Client A development",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("client-a"),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-15").withLocalTime("10:00"),
+                endTime = baseTime.withLocalDate("2024-03-15").withLocalTime("12:00"),
+                title = "Client B review",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("client-b"),
+            ),
+        )
+    }
+
+    @Test
+    fun `should filter entries by included tags and use filtered totals on demand`() {
+        insertEntries()
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(3)
+
+        page.locator("[data-testid='entry-filter-include-tags-button']").click()
+        page.locator("[data-testid='entry-filter-include-tags-checkbox-client-a']").click()
+        page.keyboard().press("Escape")
+
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(2)
+        assertThat(page.locator("[data-testid='day-group']")).hasCount(1)
+        assertThat(page.locator("[data-testid='entry-filter-included-tag']")).hasText("+client-a")
+        assertThat(page).hasURL(Pattern.compile(".*week=2024-W11&tag=client-a$"))
+        // Totals are calculated for all entries by default
+        assertThat(page.locator("[data-testid='weekly-total']")).containsText("03:30:00")
+        assertThat(page.locator("[data-testid='day-total-duration']")).containsText("01:30:00")
+
+        page.locator("[data-testid='entry-filter-text-input']").fill("development")
+
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(1)
+        assertThat(page.locator("[data-testid='time-entry']")).containsText("Client A development")
+
+        page.locator("[data-testid='entry-filter-totals-checkbox']").click()
+
+        assertThat(page.locator("[data-testid='weekly-total']")).containsText("00:30:00")
+        assertThat(page.locator("[data-testid='day-total-duration']")).containsText("00:30:00")
+
+        page.locator("[data-testid='entry-filter-clear-button']").click()
+
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(3)
+        assertThat(page.locator("[data-testid='weekly-total']")).containsText("03:30:00")
+    }
+
+    @Test
+    fun `should exclude entries by tags and keep the filter for the next visit`() {
+        insertEntries()
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(3)
+
+        page.locator("[data-testid='entry-filter-exclude-tags-button']").click()
+        page.locator("[data-testid='entry-filter-exclude-tags-checkbox-meeting']").click()
+        page.keyboard().press("Escape")
+
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(2)
+
+        page.navigate("/portal/time-logs")
+
+        assertThat(page.locator("[data-testid='entry-filter-excluded-tag']")).hasText("−meeting")
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(2)
+        assertThat(page.locator("[data-testid='time-entry']:has-text('Client A planning')")).hasCount(0)
+    }
+
+    @Test
+    fun `should open filter specified in the URL`() {
+        insertEntries()
+
+        loginViaToken("/portal/time-logs?week=2024-W11&q=nothing", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='entry-filter-text-input']")).hasValue("nothing")
+        assertThat(page.locator("[data-testid='no-matching-entries']")).isVisible()
+        assertThat(page.locator("[data-testid='no-matching-entries']")).hasText("No entries match the filter")
+    }
+}
@@ -658,4 +658,93 @@ class TimeLogsGroupingTest : TimeLogsPageTestBase() {
             )
         timeLogsPage.assertPageState(expectedState)
     }
+
+    private fun insertEntry(
+        startTime: String,
+        endTime: String,
+        title: String,
+        vararg tags: String,
+    ) {
+        val baseTime = timeInTestTz("2024-03-16", "00:00")
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime(startTime),
+                endTime = baseTime.withLocalTime(endTime),
+                title = title,
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf(*tags),
+            ),
+        )
+    }
+
+    private fun selectGroupingMode(option: String) {
+        page.locator("[data-testid='entry-grouping-select']").click()
+        page.locator("[data-testid='entry-grouping-option-$option']").click()
+    }
+
+    @Test
+    fun `should group entries by primary tag with subtotals`() {
+        setBaseTime("2024-03-16", "03:30")
+        insertEntry("00:30", "01:00", "Code review", "backend", "urgent")
+        insertEntry("01:30", "02:30", "Bug fixing", "backend")
+        insertEntry("02:30", "03:00", "Standup", "meetings")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        selectGroupingMode("primary-tag")
+
+        val groups = page.locator("[data-testid='grouped-time-entry']")
+        assertThat(groups).hasCount(2)
+        assertThat(groups.nth(0).locator("[data-testid='grouped-entry-tag']")).hasText("meetings")
+        assertThat(groups.nth(0).locator("[data-testid='entry-count-badge']")).hasText("1")
+        assertThat(groups.nth(1).locator("[data-testid='grouped-entry-tag']")).hasText("backend")
+        assertThat(groups.nth(1).locator("[data-testid='entry-duration']").first()).hasText("01:30:00")
+        assertThat(groups.nth(1).locator("[data-testid='continue-button']")).not().isVisible()
+    }
+
+    @Test
+    fun `should group entries by title regardless of tags`() {
+        setBaseTime("2024-03-16", "03:30")
+        insertEntry("00:30", "01:00", "Development Task", "backend")
+        insertEntry("01:30", "02:00", "Development Task", "frontend")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='grouped-time-entry']")).hasCount(0)
+
+        selectGroupingMode("title")
+
+        assertThat(page.locator("[data-testid='grouped-time-entry']")).hasCount(1)
+        assertThat(page.locator("[data-testid='entry-count-badge']")).hasText("2")
+        assertThat(page.locator("[data-testid='grouped-entry-inline-tags-button']")).not().isVisible()
+    }
+
+    @Test
+    fun `should remember grouping mode and expanded groups across reloads`() {
+        setBaseTime("2024-03-16", "03:30")
+        insertEntry("00:30", "01:00", "Development Task", "backend")
+        insertEntry("01:30", "02:00", "Development Task", "backend")
+        insertEntry("02:30", "03:00", "Standup", "meetings")
+        insertEntry("03:00", "03:15", "Standup", "meetings")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val developmentGroup = page.locator("[data-testid='grouped-time-entry']").nth(1)
+        developmentGroup.locator("[data-testid='entry-count-badge']").click()
+        assertThat(developmentGroup.locator("[data-testid='grouped-entries-expanded']")).isVisible()
+
+        page.reload()
+
+        assertThat(developmentGroup.locator("[data-testid='grouped-entries-expanded']")).isVisible()
+        assertThat(
+            page.locator("[data-testid='grouped-time-entry']").nth(0).locator("[data-testid='grouped-entries-expanded']"),
+        ).not().isVisible()
+
+        selectGroupingMode("none")
+        assertThat(page.locator("[data-testid='grouped-time-entry']")).hasCount(0)
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(4)
+
+        page.reload()
+
+        assertThat(page.locator("[data-testid='entry-grouping-select']")).containsText("No grouping")
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(4)
+    }
 }
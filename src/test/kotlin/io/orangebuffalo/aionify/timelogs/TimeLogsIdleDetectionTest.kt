@@ -0,0 +1,127 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import io.orangebuffalo.aionify.domain.UserSettings
+import org.junit.jupiter.api.Assertions.assertArrayEquals
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertNull
+import org.junit.jupiter.api.Test
+import java.time.Instant
+
+/**
+ * Tests for the idle time prompt shown when the user returns to a running timer after being away.
+ */
+class TimeLogsIdleDetectionTest : TimeLogsPageTestBase() {
+    private lateinit var baseTime: Instant
+
+    private fun setupActiveEntry(idleThresholdMinutes: Int) {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            UserSettings.create(userId = requireNotNull(testUser.id), idleThresholdMinutes = idleThresholdMinutes),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("03:10"),
+                endTime = null,
+                title = "Focused Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("client-a"),
+            ),
+        )
+    }
+
+    private fun returnAfterBeingAway(minutes: Long) {
+        timeLogsPage.advanceClock(minutes * 60 * 1000)
+        testTimeService.setTime(baseTime.plusSeconds(minutes * 60))
+        page.mouse().move(100.0, 100.0)
+    }
+
+    @Test
+    fun `should not prompt when idle detection is disabled`() {
+        setupActiveEntry(idleThresholdMinutes = 0)
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:20:00")
+
+        returnAfterBeingAway(60)
+
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("01:20:00")
+        assertThat(page.locator("[data-testid='idle-time-dialog']")).not().isVisible()
+    }
+
+    @Test
+    fun `should not prompt after inactivity shorter than the threshold`() {
+        setupActiveEntry(idleThresholdMinutes = 15)
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:20:00")
+
+        returnAfterBeingAway(10)
+
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:30:00")
+        assertThat(page.locator("[data-testid='idle-time-dialog']")).not().isVisible()
+    }
+
+    @Test
+    fun `should keep idle time`() {
+        setupActiveEntry(idleThresholdMinutes = 15)
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:20:00")
+
+        returnAfterBeingAway(30)
+
+        assertThat(page.locator("[data-testid='idle-time-dialog']")).isVisible()
+        assertThat(page.locator("[data-testid='idle-time-message']"))
+            .containsText("You have been away since 03:30 (00:30:00) while \"Focused Task\" was running")
+
+        page.locator("[data-testid='idle-time-keep-button']").click()
+
+        assertThat(page.locator("[data-testid='idle-time-dialog']")).not().isVisible()
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:50:00")
+        testDatabaseSupport.inTransaction {
+            assertNull(timeLogEntryRepository.findAll().single().endTime)
+        }
+    }
+
+    @Test
+    fun `should discard idle time by stopping the entry when the user went idle`() {
+        setupActiveEntry(idleThresholdMinutes = 15)
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:20:00")
+
+        returnAfterBeingAway(30)
+        page.locator("[data-testid='idle-time-discard-button']").click()
+
+        assertThat(page.locator("[data-testid='idle-time-dialog']")).not().isVisible()
+        assertThat(page.locator("[data-testid='new-entry-input']")).isVisible()
+        testDatabaseSupport.inTransaction {
+            val entry = timeLogEntryRepository.findAll().single()
+            assertEquals(baseTime, entry.endTime)
+        }
+    }
+
+    @Test
+    fun `should discard idle time and continue the entry`() {
+        setupActiveEntry(idleThresholdMinutes = 15)
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:20:00")
+
+        returnAfterBeingAway(30)
+        page.locator("[data-testid='idle-time-discard-continue-button']").click()
+
+        assertThat(page.locator("[data-testid='idle-time-dialog']")).not().isVisible()
+        assertThat(page.locator("[data-testid='current-entry-panel']")).containsText("Focused Task")
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:00:00")
+        testDatabaseSupport.inTransaction {
+            val entries = timeLogEntryRepository.findAll().sortedBy { it.startTime }
+            assertEquals(2, entries.size)
+            assertEquals(baseTime, entries[0].endTime)
+            assertEquals(baseTime.plusSeconds(30 * 60), entries[1].startTime)
+            assertNull(entries[1].endTime)
+            assertEquals("Focused Task", entries[1].title)
+            assertArrayEquals(arrayOf("client-a"), entries[1].tags)
+        }
+    }
+}
@@ -0,0 +1,157 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Test
+import java.util.regex.Pattern
+
+/**
+ * Tests for the keyboard shortcuts, the command palette and the shortcuts help overlay.
+ */
+class TimeLogsKeyboardShortcutsTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should stop, continue and start entries with shortcuts`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:30"),
+                endTime = baseTime.withLocalTime("03:00"),
+                title = "Previous Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("03:00"),
+                endTime = null,
+                title = "Active Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='stop-button']")).isVisible()
+
+        page.keyboard().press("x")
+
+        assertThat(page.locator("[data-testid='stop-button']")).not().isVisible()
+        assertThat(page.locator("[data-testid='new-entry-input']")).isVisible()
+
+        page.keyboard().press("c")
+
+        assertThat(page.locator("[data-testid='current-entry-panel']")).containsText("Active Task")
+        assertThat(page.locator("[data-testid='stop-button']")).isVisible()
+
+        page.keyboard().press("x")
+        page.keyboard().press("s")
+
+        val newEntryInput = page.locator("[data-testid='new-entry-input']")
+        assertThat(newEntryInput).isFocused()
+
+        // Keys typed into the input must not trigger shortcuts
+        page.keyboard().type("xcs")
+        assertThat(newEntryInput).hasValue("xcs")
+    }
+
+    @Test
+    fun `should move between weeks with shortcuts`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='week-range']")).hasText("11 Mar - 17 Mar")
+
+        page.keyboard().press("[")
+        assertThat(page.locator("[data-testid='week-range']")).hasText("4 Mar - 10 Mar")
+
+        page.keyboard().press("]")
+        page.keyboard().press("]")
+        assertThat(page.locator("[data-testid='week-range']")).hasText("18 Mar - 24 Mar")
+    }
+
+    @Test
+    fun `should open search with shortcut`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        setBaseTime("2024-03-16", "03:30")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='current-entry-panel']")).isVisible()
+
+        page.keyboard().press("/")
+
+        assertThat(page).hasURL(Pattern.compile(".*/portal/search$"))
+        assertThat(page.locator("[data-testid='search-form']")).isVisible()
+
+        page.keyboard().press("/")
+
+        assertThat(page.locator("[data-testid='search-query-input']")).isFocused()
+    }
+
+    @Test
+    fun `should run actions and start recent entries from command palette`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-01").withLocalTime("09:00"),
+                endTime = baseTime.withLocalDate("2024-03-01").withLocalTime("10:00"),
+                title = "Billing migration",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("client-a"),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='week-range']")).hasText("11 Mar - 17 Mar")
+
+        page.keyboard().press("Control+k")
+
+        val palette = page.locator("[data-testid='command-palette']")
+        assertThat(palette).isVisible()
+        page.locator("[data-testid='command-palette-input']").fill("previous")
+        assertThat(page.locator("[data-testid='command-palette-item']")).hasText(arrayOf("Previous week"))
+        page.keyboard().press("Enter")
+
+        assertThat(palette).not().isVisible()
+        assertThat(page.locator("[data-testid='week-range']")).hasText("4 Mar - 10 Mar")
+
+        page.keyboard().press("Control+k")
+        page.locator("[data-testid='command-palette-input']").fill("billing")
+        page.locator("[data-testid='command-palette-item']:has-text('Start \"Billing migration\"')").click()
+
+        assertThat(palette).not().isVisible()
+        assertThat(page.locator("[data-testid='current-entry-panel']")).containsText("Billing migration")
+        assertThat(page.locator("[data-testid='stop-button']")).isVisible()
+    }
+
+    @Test
+    fun `should navigate to settings from command palette`() {
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='current-entry-panel']")).isVisible()
+
+        page.keyboard().press("Control+k")
+        page.locator("[data-testid='command-palette-input']").fill("settings")
+        page.keyboard().press("Enter")
+
+        assertThat(page).hasURL(Pattern.compile(".*/portal/settings$"))
+    }
+
+    @Test
+    fun `should document shortcuts in help overlay`() {
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='current-entry-panel']")).isVisible()
+
+        page.keyboard().press("?")
+
+        assertThat(page.locator("[data-testid='shortcuts-help']")).isVisible()
+        val items = page.locator("[data-testid='shortcuts-help-item']")
+        assertThat(items).hasCount(8)
+        assertThat(items.first()).containsText("Focus the new entry input")
+        assertThat(items.first()).containsText("s")
+        assertThat(items.nth(6)).containsText("Ctrl+K")
+    }
+}
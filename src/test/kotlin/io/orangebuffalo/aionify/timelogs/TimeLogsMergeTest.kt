@@ -0,0 +1,119 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for merging multiple time log entries into a single entry.
+ */
+class TimeLogsMergeTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should merge grouped entries absorbing gaps`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("01:30"),
+                title = "Same Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("backend"),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:00"),
+                endTime = baseTime.withLocalTime("03:00"),
+                title = "Same Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("backend"),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='grouped-entry-menu-button']").click()
+        page.locator("[data-testid='merge-group-menu-item']").click()
+
+        assertThat(page.locator("[data-testid='merge-entries-preview-range']")).hasText("01:00 - 03:00")
+        assertThat(page.locator("[data-testid='merge-entries-preview-tracked']")).hasText("Tracked time: 01:30:00")
+        assertThat(page.locator("[data-testid='merge-entries-preview-gap']")).hasText("Gap time absorbed: 00:30:00")
+
+        page.locator("[data-testid='merge-entries-confirm-button']").click()
+        assertThat(page.locator("[data-testid='merge-entries-dialog']")).not().isVisible()
+
+        timeLogsPage.assertPageState(
+            TimeLogsPageState(
+                currentEntry = CurrentEntryState.NoActiveEntry(),
+                weekNavigation = WeekNavigationState(weekRange = "11 Mar - 17 Mar", weeklyTotal = "02:00:00"),
+                dayGroups =
+                    listOf(
+                        DayGroupState(
+                            displayTitle = "Today",
+                            totalDuration = "02:00:00",
+                            entries =
+                                listOf(
+                                    EntryState(
+                                        title = "Same Task",
+                                        timeRange = "01:00 - 03:00",
+                                        duration = "02:00:00",
+                                        tags = listOf("backend"),
+                                    ),
+                                ),
+                        ),
+                    ),
+            ),
+        )
+    }
+
+    @Test
+    fun `should merge selected entries with chosen title`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "First Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:10"),
+                endTime = baseTime.withLocalTime("03:00"),
+                title = "Second Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        // Merge action is only offered when at least two entries are selected
+        assertThat(page.locator("[data-testid='merge-selected-button']")).not().isVisible()
+        page.locator("[data-testid='time-entry']:has-text('First Task') [data-testid='entry-select-checkbox']").click()
+        assertThat(page.locator("[data-testid='merge-selected-button']")).not().isVisible()
+        page.locator("[data-testid='time-entry']:has-text('Second Task') [data-testid='entry-select-checkbox']").click()
+
+        page.locator("[data-testid='merge-selected-button']").click()
+        assertThat(page.locator("[data-testid='merge-entries-title-input']")).hasValue("First Task")
+        assertThat(page.locator("[data-testid='merge-entries-preview-gap']")).hasText("Gap time absorbed: 00:10:00")
+
+        page.locator("[data-testid='merge-entries-title-input']").fill("Combined Task")
+        page.locator("[data-testid='merge-entries-confirm-button']").click()
+        assertThat(page.locator("[data-testid='merge-entries-dialog']")).not().isVisible()
+
+        testDatabaseSupport.inTransaction {
+            val entries = timeLogEntryRepository.findAll().toList()
+            assertEquals(1, entries.size)
+            assertEquals("Combined Task", entries.first().title)
+            assertEquals(timeInTestTz("2024-03-16", "01:00"), entries.first().startTime)
+            assertEquals(timeInTestTz("2024-03-16", "03:00"), entries.first().endTime)
+        }
+    }
+}
@@ -0,0 +1,102 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.GoalsSettings
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for the month view of time logs with the calendar heatmap.
+ */
+class TimeLogsMonthViewTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should show day totals, intensity and daily goal markers in month view`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+        val userId = requireNotNull(testUser.id)
+
+        testDatabaseSupport.insert(
+            GoalsSettings(
+                userId = userId,
+                dailyEnabled = true,
+                dailyGoalMinutes = 120,
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-05").withLocalTime("09:00"),
+                endTime = baseTime.withLocalDate("2024-03-05").withLocalTime("11:00"),
+                title = "Busy Day Task",
+                ownerId = userId,
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "Today Task",
+                ownerId = userId,
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-02-20").withLocalTime("09:00"),
+                endTime = baseTime.withLocalDate("2024-02-20").withLocalTime("10:00"),
+                title = "Previous Month Task",
+                ownerId = userId,
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='view-mode-month-button']").click()
+
+        assertThat(page.locator("[data-testid='month-title']")).hasText("March 2024")
+        assertThat(page.locator("[data-testid='monthly-total']")).containsText("03:00:00")
+        assertThat(page.locator("[data-testid='month-calendar-day']")).hasCount(31)
+
+        val busyDay = page.locator("[data-testid='month-calendar-day'][data-date='2024-03-05']")
+        assertThat(busyDay.locator("[data-testid='month-calendar-day-total']")).hasText("02:00:00")
+        assertThat(busyDay).hasAttribute("data-intensity", "4")
+        assertThat(busyDay.locator("[data-testid='month-calendar-day-goal-met']")).isVisible()
+
+        val today = page.locator("[data-testid='month-calendar-day'][data-date='2024-03-16']")
+        assertThat(today.locator("[data-testid='month-calendar-day-total']")).hasText("01:00:00")
+        assertThat(today).hasAttribute("data-intensity", "2")
+        assertThat(today.locator("[data-testid='month-calendar-day-goal-not-met']")).isVisible()
+
+        val emptyDay = page.locator("[data-testid='month-calendar-day'][data-date='2024-03-10']")
+        assertThat(emptyDay).hasAttribute("data-intensity", "0")
+        assertThat(emptyDay.locator("[data-testid='month-calendar-day-total']")).not().isVisible()
+
+        page.locator("[data-testid='previous-month-button']").click()
+        assertThat(page.locator("[data-testid='month-title']")).hasText("February 2024")
+        assertThat(page.locator("[data-testid='monthly-total']")).containsText("01:00:00")
+    }
+
+    @Test
+    fun `should open week of the clicked day`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-05").withLocalTime("09:00"),
+                endTime = baseTime.withLocalDate("2024-03-05").withLocalTime("11:00"),
+                title = "Earlier Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='view-mode-month-button']").click()
+        page.locator("[data-testid='month-calendar-day'][data-date='2024-03-05']").click()
+
+        assertThat(page.locator("[data-testid='month-calendar']")).not().isVisible()
+        assertThat(page.locator("[data-testid='week-range']")).hasText("4 Mar - 10 Mar")
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(1)
+        assertThat(page.locator("[data-testid='time-entry']")).containsText("Earlier Task")
+    }
+}
@@ -3,6 +3,7 @@ package io.orangebuffalo.aionify.timelogs
 import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
 import io.orangebuffalo.aionify.*
 import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Assertions.assertEquals
 import org.junit.jupiter.api.Test
 
 /**
@@ -233,7 +234,7 @@ class TimeLogsOverlapTest : TimeLogsPageTestBase() {
 
         loginViaToken("/portal/time-logs", testUser, testAuthSupport)
 
-        // Each overlapping entry shows warning with the first overlapping entry it finds
+        // Each overlapping entry shows warning; Task B overlaps both other entries
         val expectedState =
             TimeLogsPageState(
                 currentEntry = CurrentEntryState.NoActiveEntry(),
@@ -391,4 +392,165 @@ class TimeLogsOverlapTest : TimeLogsPageTestBase() {
             )
         timeLogsPage.assertPageState(expectedState)
     }
+
+    @Test
+    fun `should list every overlap with its interval and show unresolved overlaps count`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("00:30"),
+                endTime = baseTime.withLocalTime("03:00"),
+                title = "Long Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("01:30"),
+                title = "Task A",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:30"),
+                endTime = baseTime.withLocalTime("03:15"),
+                title = "Task B",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='weekly-overlaps-count']")).hasText("Unresolved overlaps: 2")
+
+        page.locator("[data-testid='time-entry']:has-text('Long Task') [data-testid='overlap-warning']").click()
+        val descriptions = page.locator("[data-testid='overlap-tooltip'] [data-testid='overlap-description']")
+        assertThat(descriptions).containsText(
+            arrayOf(
+                "Overlaps with 'Task A' from 01:00 to 01:30",
+                "Overlaps with 'Task B' from 02:30 to 03:00",
+            ),
+        )
+    }
+
+    @Test
+    fun `should resolve overlap by trimming the entry`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:30"),
+                title = "Task A",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        val entryB =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("02:00"),
+                    endTime = baseTime.withLocalTime("03:00"),
+                    title = "Task B",
+                    ownerId = requireNotNull(testUser.id),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='time-entry']:has-text('Task B') [data-testid='overlap-warning']").click()
+        page.locator("[data-testid='overlap-trim-this-button']").click()
+
+        assertThat(page.locator("[data-testid='overlap-warning']")).hasCount(0)
+        assertThat(page.locator("[data-testid='weekly-overlaps-count']")).not().isVisible()
+        testDatabaseSupport.inTransaction {
+            val updatedEntry = timeLogEntryRepository.findById(requireNotNull(entryB.id)).orElseThrow()
+            assertEquals(timeInTestTz("2024-03-16", "02:30"), updatedEntry.startTime)
+            assertEquals(timeInTestTz("2024-03-16", "03:00"), updatedEntry.endTime)
+        }
+    }
+
+    @Test
+    fun `should resolve overlap by shifting the entry`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "Task A",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        val entryB =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("01:30"),
+                    endTime = baseTime.withLocalTime("02:30"),
+                    title = "Task B",
+                    ownerId = requireNotNull(testUser.id),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='time-entry']:has-text('Task B') [data-testid='overlap-warning']").click()
+        page.locator("[data-testid='overlap-shift-button']").click()
+
+        assertThat(page.locator("[data-testid='overlap-warning']")).hasCount(0)
+        testDatabaseSupport.inTransaction {
+            val updatedEntry = timeLogEntryRepository.findById(requireNotNull(entryB.id)).orElseThrow()
+            assertEquals(timeInTestTz("2024-03-16", "02:00"), updatedEntry.startTime)
+            assertEquals(timeInTestTz("2024-03-16", "03:00"), updatedEntry.endTime)
+        }
+    }
+
+    @Test
+    fun `should resolve overlap by splitting the containing entry`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("03:00"),
+                title = "Long Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("backend"),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:30"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "Short Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='time-entry']:has-text('Short Task') [data-testid='overlap-warning']").click()
+        assertThat(page.locator("[data-testid='overlap-trim-this-button']")).not().isVisible()
+        page.locator("[data-testid='overlap-split-button']").click()
+
+        assertThat(page.locator("[data-testid='overlap-warning']")).hasCount(0)
+        testDatabaseSupport.inTransaction {
+            val longTaskParts =
+                timeLogEntryRepository
+                    .findAll()
+                    .filter { it.title == "Long Task" }
+                    .sortedBy { it.startTime }
+            assertEquals(2, longTaskParts.size)
+            assertEquals(timeInTestTz("2024-03-16", "01:00"), longTaskParts[0].startTime)
+            assertEquals(timeInTestTz("2024-03-16", "01:30"), longTaskParts[0].endTime)
+            assertEquals(timeInTestTz("2024-03-16", "02:00"), longTaskParts[1].startTime)
+            assertEquals(timeInTestTz("2024-03-16", "03:00"), longTaskParts[1].endTime)
+        }
+    }
 }
@@ -0,0 +1,178 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.domain.PinnedEntry
+import io.orangebuffalo.aionify.domain.PinnedEntryRepository
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import io.orangebuffalo.aionify.timeInTestTz
+import io.orangebuffalo.aionify.withLocalTime
+import jakarta.inject.Inject
+import org.awaitility.kotlin.await
+import org.awaitility.kotlin.untilAsserted
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for pinned entries: pinning title and tags combinations and starting entries from the quick-start bar.
+ */
+class TimeLogsPinnedEntriesTest : TimeLogsPageTestBase() {
+    @Inject
+    lateinit var pinnedEntryRepository: PinnedEntryRepository
+
+    private fun insertPinnedEntry(
+        sortOrder: Int,
+        title: String,
+        tags: Array<String> = emptyArray(),
+    ) = testDatabaseSupport.insert(
+        PinnedEntry(userId = requireNotNull(testUser.id), sortOrder = sortOrder, title = title, tags = tags),
+    )
+
+    private fun pinnedTitlesInDatabase(): List<String> =
+        testDatabaseSupport.inTransaction {
+            pinnedEntryRepository.findByUserIdOrderBySortOrderAsc(requireNotNull(testUser.id)).map { it.title }
+        }
+
+    @Test
+    fun `should pin entry from the entry menu`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:00"),
+                endTime = baseTime.withLocalTime("02:30"),
+                title = "Code review",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("dev"),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='entry-menu-button']").click()
+        assertThat(page.locator("[data-testid='pin-entry-menu-item']")).hasText("Pin")
+        page.locator("[data-testid='pin-entry-menu-item']").click()
+
+        assertThat(page.locator("[data-testid='pinned-entry-start-0']")).containsText("Code review")
+        assertThat(page.locator("[data-testid='pinned-entry-start-0']")).containsText("dev")
+
+        testDatabaseSupport.inTransaction {
+            val pinnedEntry = pinnedEntryRepository.findByUserIdOrderBySortOrderAsc(requireNotNull(testUser.id)).single()
+            assertEquals("Code review", pinnedEntry.title)
+            assertEquals(listOf("dev"), pinnedEntry.tags.toList())
+        }
+
+        // The menu now offers to unpin the entry
+        page.locator("[data-testid='entry-menu-button']").click()
+        assertThat(page.locator("[data-testid='pin-entry-menu-item']")).hasText("Unpin")
+    }
+
+    @Test
+    fun `should pin entry from autocomplete suggestions`() {
+        setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = timeInTestTz("2024-03-16", "01:00"),
+                endTime = timeInTestTz("2024-03-16", "02:00"),
+                title = "Team standup",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("meetings"),
+            ),
+        )
+
+        // Autocomplete search is debounced
+        page.clock().resume()
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='new-entry-input']").fill("standup")
+        assertThat(page.locator("[data-testid='autocomplete-item-0']")).containsText("Team standup")
+        page.locator("[data-testid='autocomplete-pin-0']").click()
+
+        assertThat(page.locator("[data-testid='pinned-entry-start-0']")).containsText("Team standup")
+        assertThat(page.locator("[data-testid='autocomplete-pin-0']")).hasAttribute("data-pinned", "true")
+        assertEquals(listOf("Team standup"), pinnedTitlesInDatabase())
+    }
+
+    @Test
+    fun `should start pinned entry stopping the active one`() {
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        val activeEntry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("03:00"),
+                    endTime = null,
+                    title = "Active Task",
+                    ownerId = requireNotNull(testUser.id),
+                    tags = emptyArray(),
+                ),
+            )
+        insertPinnedEntry(0, "Team standup", arrayOf("meetings"))
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='pinned-entry-start-0']").click()
+
+        assertThat(page.locator("[data-testid='current-entry-panel']").locator("text=Team standup")).isVisible()
+        assertThat(page.locator("[data-testid='active-entry-started-at']")).containsText("16 Mar, 03:30")
+
+        testDatabaseSupport.inTransaction {
+            val stoppedEntry = timeLogEntryRepository.findById(requireNotNull(activeEntry.id)).orElseThrow()
+            assertEquals(baseTime, stoppedEntry.endTime)
+
+            val newEntry = timeLogEntryRepository.findByOwnerIdAndEndTimeIsNull(requireNotNull(testUser.id)).orElseThrow()
+            assertEquals("Team standup", newEntry.title)
+            assertEquals(listOf("meetings"), newEntry.tags.toList())
+        }
+    }
+
+    @Test
+    fun `should reorder pinned entries`() {
+        setBaseTime("2024-03-16", "03:30")
+
+        insertPinnedEntry(0, "Team standup")
+        insertPinnedEntry(1, "Code review")
+        insertPinnedEntry(2, "Planning")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='pinned-entries-edit-button']").click()
+        assertThat(page.locator("[data-testid='pinned-entry-move-left-0']")).isDisabled()
+        assertThat(page.locator("[data-testid='pinned-entry-move-right-2']")).isDisabled()
+
+        page.locator("[data-testid='pinned-entry-move-right-0']").click()
+
+        assertThat(page.locator("[data-testid='pinned-entry-start-0']")).hasText("Code review")
+        assertThat(page.locator("[data-testid='pinned-entry-start-1']")).hasText("Team standup")
+        await untilAsserted {
+            assertEquals(listOf("Code review", "Team standup", "Planning"), pinnedTitlesInDatabase())
+        }
+
+        page.locator("[data-testid='pinned-entry-move-left-2']").click()
+
+        assertThat(page.locator("[data-testid='pinned-entry-start-1']")).hasText("Planning")
+        await untilAsserted {
+            assertEquals(listOf("Code review", "Planning", "Team standup"), pinnedTitlesInDatabase())
+        }
+    }
+
+    @Test
+    fun `should unpin entry from the quick-start bar`() {
+        setBaseTime("2024-03-16", "03:30")
+
+        insertPinnedEntry(0, "Team standup")
+        insertPinnedEntry(1, "Code review")
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='pinned-entries-edit-button']").click()
+        page.locator("[data-testid='pinned-entry-unpin-0']").click()
+
+        assertThat(page.locator("[data-testid='pinned-entry-start-0']")).hasText("Code review")
+        assertThat(page.locator("[data-testid='pinned-entry-1']")).not().isVisible()
+        await untilAsserted {
+            assertEquals(listOf("Code review"), pinnedTitlesInDatabase())
+        }
+    }
+}
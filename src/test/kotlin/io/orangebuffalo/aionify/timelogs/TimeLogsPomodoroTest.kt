@@ -0,0 +1,117 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.PomodoroIntervalEndAction
+import io.orangebuffalo.aionify.domain.PomodoroSettings
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Assertions.assertArrayEquals
+import org.junit.jupiter.api.Assertions.assertNotNull
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for the Pomodoro mode of the current entry panel.
+ */
+class TimeLogsPomodoroTest : TimeLogsPageTestBase() {
+    private fun setupActiveEntry(intervalEndAction: PomodoroIntervalEndAction) {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            PomodoroSettings(
+                userId = requireNotNull(testUser.id),
+                enabled = true,
+                workMinutes = 25,
+                breakMinutes = 5,
+                intervalEndAction = intervalEndAction,
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("03:10"),
+                endTime = null,
+                title = "Focused Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+    }
+
+    @Test
+    fun `should not display countdown when pomodoro mode is disabled`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("03:10"),
+                endTime = null,
+                title = "Focused Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:20:00")
+        assertThat(page.locator("[data-testid='pomodoro-countdown']")).not().isVisible()
+    }
+
+    @Test
+    fun `should alternate focus intervals and breaks and notify when they end`() {
+        setupActiveEntry(PomodoroIntervalEndAction.NOTIFY)
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='pomodoro-interval-kind']")).hasText("Focus")
+        assertThat(page.locator("[data-testid='pomodoro-remaining']")).hasText("00:05:00")
+        assertThat(page.locator("[data-testid='pomodoro-notification']")).not().isVisible()
+
+        timeLogsPage.advanceClock(5 * 60 * 1000)
+
+        assertThat(page.locator("[data-testid='pomodoro-notification']"))
+            .containsText("Focus interval is over, time for a break")
+        assertThat(page.locator("[data-testid='pomodoro-interval-kind']")).hasText("Break")
+        assertThat(page.locator("[data-testid='pomodoro-remaining']")).hasText("00:05:00")
+        assertThat(page.locator("[data-testid='stop-button']")).isVisible()
+
+        timeLogsPage.advanceClock(5 * 60 * 1000)
+
+        assertThat(page.locator("[data-testid='pomodoro-notification']")).containsText("Break is over, time to focus")
+        assertThat(page.locator("[data-testid='pomodoro-interval-kind']")).hasText("Focus")
+        assertThat(page.locator("[data-testid='pomodoro-remaining']")).hasText("00:25:00")
+    }
+
+    @Test
+    fun `should stop the entry when focus interval ends`() {
+        setupActiveEntry(PomodoroIntervalEndAction.STOP_ENTRY)
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='pomodoro-remaining']")).hasText("00:05:00")
+
+        timeLogsPage.advanceClock(5 * 60 * 1000)
+
+        assertThat(page.locator("[data-testid='new-entry-input']")).isVisible()
+        assertThat(page.locator("[data-testid='pomodoro-notification']"))
+            .containsText("Focus interval is over, time for a break")
+        testDatabaseSupport.inTransaction {
+            val entry = timeLogEntryRepository.findAll().single { it.title == "Focused Task" }
+            assertNotNull(entry.endTime)
+        }
+    }
+
+    @Test
+    fun `should start a break entry when focus interval ends`() {
+        setupActiveEntry(PomodoroIntervalEndAction.START_BREAK)
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='pomodoro-remaining']")).hasText("00:05:00")
+
+        timeLogsPage.advanceClock(5 * 60 * 1000)
+
+        assertThat(page.locator("[data-testid='current-entry-panel']")).containsText("Break")
+        assertThat(page.locator("[data-testid='pomodoro-interval-kind']")).hasText("Break")
+        testDatabaseSupport.inTransaction {
+            val breakEntry = timeLogEntryRepository.findAll().single { it.title == "Break" }
+            assertArrayEquals(arrayOf("break"), breakEntry.tags)
+        }
+    }
+}
@@ -0,0 +1,150 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.domain.RoundingApplication
+import io.orangebuffalo.aionify.domain.RoundingDirection
+import io.orangebuffalo.aionify.domain.RoundingSettings
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import io.orangebuffalo.aionify.withLocalTime
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+import java.time.Duration
+
+/**
+ * Tests for rounding the tracked time, either in the displayed totals or when stopping entries.
+ */
+class TimeLogsRoundingTest : TimeLogsPageTestBase() {
+    private fun enableRounding(
+        direction: RoundingDirection,
+        application: RoundingApplication,
+    ) {
+        testDatabaseSupport.insert(
+            RoundingSettings(
+                userId = requireNotNull(testUser.id),
+                enabled = true,
+                incrementMinutes = 15,
+                direction = direction,
+                application = application,
+            ),
+        )
+    }
+
+    @Test
+    fun `should round displayed totals and keep entry durations intact`() {
+        // Set base time: Saturday, March 16, 2024 at 12:00:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+        enableRounding(RoundingDirection.UP, RoundingApplication.ON_DISPLAY)
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("09:00"),
+                endTime = baseTime.withLocalTime("09:20"),
+                title = "Support Call",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("10:00"),
+                endTime = baseTime.withLocalTime("11:00"),
+                title = "Implementation",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        // Entries keep the tracked time
+        assertThat(page.locator("[data-testid='entry-duration']")).containsText(arrayOf("01:00:00", "00:20:00"))
+
+        // The 20 minutes entry counts as 30 minutes in the totals
+        val dayGroup = page.locator("[data-testid='day-group']")
+        assertThat(dayGroup.locator("[data-testid='day-total-duration']")).containsText("01:30:00")
+        assertThat(dayGroup.locator("[data-testid='rounded-total-indicator']"))
+            .hasAttribute("title", "Each entry is rounded up to 15 min")
+        assertThat(page.locator("[data-testid='weekly-total']")).containsText("01:30:00")
+        assertThat(page.locator("[data-testid='weekly-total'] [data-testid='rounded-total-indicator']")).isVisible()
+
+        // Raw data is not changed
+        val entries = timeLogEntryRepository.findAll().sortedBy { it.startTime }
+        assertEquals(baseTime.withLocalTime("09:20"), entries[0].endTime)
+    }
+
+    @Test
+    fun `should not mark totals as rounded when rounding is applied on stop`() {
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+        enableRounding(RoundingDirection.UP, RoundingApplication.ON_STOP)
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("09:00"),
+                endTime = baseTime.withLocalTime("09:20"),
+                title = "Support Call",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        assertThat(page.locator("[data-testid='day-total-duration']")).containsText("00:20:00")
+        assertThat(page.locator("[data-testid='rounded-total-indicator']")).not().isVisible()
+    }
+
+    @Test
+    fun `should round duration of the entry when stopping it`() {
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+        enableRounding(RoundingDirection.NEAREST, RoundingApplication.ON_STOP)
+
+        val activeEntry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("11:10"),
+                    endTime = null,
+                    title = "Active Task",
+                    ownerId = requireNotNull(testUser.id),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        timeLogsPage.clickStop()
+
+        // 50 minutes are rounded to the nearest 45 minutes
+        assertThat(page.locator("[data-testid='entry-duration']")).hasText("00:45:00")
+        val stoppedEntry = timeLogEntryRepository.findById(requireNotNull(activeEntry.id)).orElseThrow()
+        assertEquals(Duration.ofMinutes(45), Duration.between(stoppedEntry.startTime, stoppedEntry.endTime))
+    }
+
+    @Test
+    fun `should round duration of the active entry when starting another entry`() {
+        val baseTime = setBaseTime("2024-03-16", "12:00")
+        enableRounding(RoundingDirection.DOWN, RoundingApplication.ON_STOP)
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("10:00"),
+                endTime = baseTime.withLocalTime("11:00"),
+                title = "Earlier Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        val activeEntry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("11:20"),
+                    endTime = null,
+                    title = "Active Task",
+                    ownerId = requireNotNull(testUser.id),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        timeLogsPage.clickContinueForEntry("Earlier Task")
+
+        assertThat(page.locator("[data-testid='current-entry-panel']")).containsText("Earlier Task")
+        // 40 minutes are rounded down to 30 minutes, while the new entry starts now
+        val stoppedEntry = timeLogEntryRepository.findById(requireNotNull(activeEntry.id)).orElseThrow()
+        assertEquals(Duration.ofMinutes(30), Duration.between(stoppedEntry.startTime, stoppedEntry.endTime))
+        val newEntry = timeLogEntryRepository.findAll().single { it.endTime == null }
+        assertEquals(baseTime, newEntry.startTime)
+    }
+}
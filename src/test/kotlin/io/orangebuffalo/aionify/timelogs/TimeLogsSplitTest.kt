@@ -0,0 +1,135 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Assertions.assertArrayEquals
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Assertions.assertNull
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for splitting a time log entry into two parts.
+ */
+class TimeLogsSplitTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should split stopped entry at chosen time`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("03:00"),
+                title = "Long Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("backend"),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='entry-menu-button']").click()
+        page.locator("[data-testid='split-entry-menu-item']").click()
+        assertThat(page.locator("[data-testid='split-entry-dialog']")).isVisible()
+
+        // Defaults to the middle of the entry
+        assertThat(page.locator("[data-testid='split-entry-time-input']")).hasValue("02:00")
+
+        page.locator("[data-testid='split-entry-time-input']").fill("02:15")
+        page.locator("[data-testid='split-entry-title-input']").fill("Code Review")
+        page.locator("[data-testid='split-entry-confirm-button']").click()
+
+        assertThat(page.locator("[data-testid='split-entry-dialog']")).not().isVisible()
+
+        timeLogsPage.assertPageState(
+            TimeLogsPageState(
+                currentEntry = CurrentEntryState.NoActiveEntry(),
+                weekNavigation = WeekNavigationState(weekRange = "11 Mar - 17 Mar", weeklyTotal = "02:00:00"),
+                dayGroups =
+                    listOf(
+                        DayGroupState(
+                            displayTitle = "Today",
+                            totalDuration = "02:00:00",
+                            entries =
+                                listOf(
+                                    EntryState(
+                                        title = "Code Review",
+                                        timeRange = "02:15 - 03:00",
+                                        duration = "00:45:00",
+                                        tags = listOf("backend"),
+                                    ),
+                                    EntryState(
+                                        title = "Long Task",
+                                        timeRange = "01:00 - 02:15",
+                                        duration = "01:15:00",
+                                        tags = listOf("backend"),
+                                    ),
+                                ),
+                        ),
+                    ),
+            ),
+        )
+    }
+
+    @Test
+    fun `should split active entry and keep second part running`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        val activeEntry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("02:30"),
+                    endTime = null,
+                    title = "Active Task",
+                    ownerId = requireNotNull(testUser.id),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='split-active-entry-button']").click()
+        page.locator("[data-testid='split-entry-time-input']").fill("03:10")
+        page.locator("[data-testid='split-entry-title-input']").fill("New Focus")
+        page.locator("[data-testid='split-entry-confirm-button']").click()
+
+        assertThat(page.locator("[data-testid='split-entry-dialog']")).not().isVisible()
+        assertThat(page.locator("[data-testid='current-entry-panel']").locator("text=New Focus")).isVisible()
+
+        testDatabaseSupport.inTransaction {
+            val firstPart = timeLogEntryRepository.findById(requireNotNull(activeEntry.id)).orElseThrow()
+            assertEquals(timeInTestTz("2024-03-16", "03:10"), firstPart.endTime)
+
+            val secondPart = timeLogEntryRepository.findAll().first { it.title == "New Focus" }
+            assertEquals(timeInTestTz("2024-03-16", "03:10"), secondPart.startTime)
+            assertNull(secondPart.endTime)
+            assertArrayEquals(emptyArray<String>(), secondPart.tags)
+        }
+    }
+
+    @Test
+    fun `should not allow split point outside of entry`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "Short Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='entry-menu-button']").click()
+        page.locator("[data-testid='split-entry-menu-item']").click()
+        page.locator("[data-testid='split-entry-time-input']").fill("02:30")
+
+        assertThat(page.locator("[data-testid='split-entry-validation-message']"))
+            .hasText("Time must be before end time")
+        assertThat(page.locator("[data-testid='split-entry-confirm-button']")).isDisabled()
+    }
+}
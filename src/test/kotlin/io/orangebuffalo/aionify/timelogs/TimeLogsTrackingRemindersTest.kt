@@ -0,0 +1,148 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.GoalsSettings
+import io.orangebuffalo.aionify.domain.NotificationSettings
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import io.orangebuffalo.aionify.domain.WeekDay
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.Test
+import java.time.Instant
+import java.time.LocalTime
+
+/**
+ * Tests for the browser notifications reminding the user to track time.
+ * The browser Notification API is replaced with a recording fake, as headless browsers do not display notifications.
+ */
+class TimeLogsTrackingRemindersTest : TimeLogsPageTestBase() {
+    private lateinit var baseTime: Instant
+
+    @BeforeEach
+    fun setupNotifications() {
+        page.addInitScript(
+            """
+            window.__notifications = [];
+            window.Notification = class {
+                static permission = "granted";
+                static requestPermission() { return Promise.resolve("granted"); }
+                constructor(title, options) { window.__notifications.push({ title, body: options?.body }); }
+                close() {}
+            };
+            """.trimIndent(),
+        )
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        baseTime = setBaseTime("2024-03-16", "03:30")
+    }
+
+    private fun insertActiveEntry() {
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("03:10"),
+                endTime = null,
+                title = "Focused Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+    }
+
+    private fun assertNotifications(vararg expected: String) {
+        page.waitForFunction("count => window.__notifications.length >= count", expected.size)
+        @Suppress("UNCHECKED_CAST")
+        val notifications = page.evaluate("window.__notifications") as List<Map<String, Any?>>
+        assertEquals(expected.toList(), notifications.map { it["title"] })
+    }
+
+    @Test
+    fun `should remind when nothing is tracked during working hours`() {
+        testDatabaseSupport.insert(
+            NotificationSettings(
+                userId = requireNotNull(testUser.id),
+                noActiveEntryEnabled = true,
+                workingHoursFrom = LocalTime.of(3, 0),
+                workingHoursTo = LocalTime.of(18, 0),
+                workingDays = setOf(WeekDay.SATURDAY),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='new-entry-input']")).isVisible()
+
+        assertNotifications("Nothing is being tracked")
+
+        // Reminded only once
+        timeLogsPage.advanceClock(5 * 60 * 1000)
+        assertNotifications("Nothing is being tracked")
+    }
+
+    @Test
+    fun `should not remind outside working hours`() {
+        testDatabaseSupport.insert(
+            NotificationSettings(
+                userId = requireNotNull(testUser.id),
+                noActiveEntryEnabled = true,
+                workingHoursFrom = LocalTime.of(9, 0),
+                workingHoursTo = LocalTime.of(17, 0),
+                workingDays = setOf(WeekDay.SATURDAY),
+                longRunningEntryEnabled = true,
+                longRunningEntryMinutes = 60,
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='new-entry-input']")).isVisible()
+        timeLogsPage.advanceClock(5 * 60 * 1000)
+
+        @Suppress("UNCHECKED_CAST")
+        val notifications = page.evaluate("window.__notifications") as List<Any>
+        assertEquals(0, notifications.size)
+    }
+
+    @Test
+    fun `should remind about a long-running entry`() {
+        testDatabaseSupport.insert(
+            NotificationSettings(
+                userId = requireNotNull(testUser.id),
+                longRunningEntryEnabled = true,
+                longRunningEntryMinutes = 30,
+            ),
+        )
+        insertActiveEntry()
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:20:00")
+
+        timeLogsPage.advanceClock(10 * 60 * 1000)
+
+        assertNotifications("This entry has been running for a long time")
+        @Suppress("UNCHECKED_CAST")
+        val notifications = page.evaluate("window.__notifications") as List<Map<String, Any?>>
+        assertEquals("Focused Task", notifications.single()["body"])
+    }
+
+    @Test
+    fun `should notify when the daily goal is reached`() {
+        testDatabaseSupport.insert(
+            NotificationSettings(
+                userId = requireNotNull(testUser.id),
+                dailyGoalReachedEnabled = true,
+            ),
+        )
+        testDatabaseSupport.insert(
+            GoalsSettings(
+                userId = requireNotNull(testUser.id),
+                dailyEnabled = true,
+                dailyGoalMinutes = 30,
+            ),
+        )
+        insertActiveEntry()
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+        assertThat(page.locator("[data-testid='active-timer']")).hasText("00:20:00")
+
+        timeLogsPage.advanceClock(10 * 60 * 1000)
+
+        assertNotifications("Daily goal reached")
+    }
+}
@@ -0,0 +1,288 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Assertions.assertArrayEquals
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+
+/**
+ * Tests for undoing deletion and editing of time log entries via the undo toast.
+ */
+class TimeLogsUndoTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should restore deleted entry on undo`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "Important Task",
+                ownerId = requireNotNull(testUser.id),
+                tags = arrayOf("backend"),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        timeLogsPage.deleteEntry("Important Task")
+        assertThat(page.locator("[data-testid='no-entries']")).isVisible()
+        assertThat(page.locator("[data-testid='undo-toast-message']")).hasText("Entry deleted")
+
+        page.locator("[data-testid='undo-button']").click()
+        assertThat(page.locator("[data-testid='undo-toast']")).not().isVisible()
+
+        timeLogsPage.assertPageState(
+            TimeLogsPageState(
+                currentEntry = CurrentEntryState.NoActiveEntry(),
+                weekNavigation = WeekNavigationState(weekRange = "11 Mar - 17 Mar", weeklyTotal = "01:00:00"),
+                dayGroups =
+                    listOf(
+                        DayGroupState(
+                            displayTitle = "Today",
+                            totalDuration = "01:00:00",
+                            entries =
+                                listOf(
+                                    EntryState(
+                                        title = "Important Task",
+                                        timeRange = "01:00 - 02:00",
+                                        duration = "01:00:00",
+                                        tags = listOf("backend"),
+                                    ),
+                                ),
+                        ),
+                    ),
+            ),
+        )
+    }
+
+    @Test
+    fun `should revert title change on undo`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        val entry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("01:00"),
+                    endTime = baseTime.withLocalTime("02:00"),
+                    title = "Original Title",
+                    ownerId = requireNotNull(testUser.id),
+                    tags = arrayOf("backend"),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='time-entry-inline-title-trigger']").click()
+        page.locator("[data-testid='time-entry-inline-title-input']").fill("Wrong Title")
+        page.locator("[data-testid='time-entry-inline-title-save-button']").click()
+        assertThat(page.locator("[data-testid='time-entry-inline-title-trigger']")).containsText("Wrong Title")
+        assertThat(page.locator("[data-testid='undo-toast-message']")).hasText("Entry updated")
+
+        page.locator("[data-testid='undo-button']").click()
+
+        assertThat(page.locator("[data-testid='time-entry-inline-title-trigger']")).containsText("Original Title")
+        testDatabaseSupport.inTransaction {
+            val revertedEntry = timeLogEntryRepository.findById(requireNotNull(entry.id)).orElseThrow()
+            assertEquals("Original Title", revertedEntry.title)
+            assertEquals(timeInTestTz("2024-03-16", "01:00"), revertedEntry.startTime)
+            assertEquals(timeInTestTz("2024-03-16", "02:00"), revertedEntry.endTime)
+            assertArrayEquals(arrayOf("backend"), revertedEntry.tags)
+        }
+    }
+
+    @Test
+    fun `should restore bulk deleted entries on undo`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "First Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalDate("2024-03-15").withLocalTime("10:00"),
+                endTime = baseTime.withLocalDate("2024-03-15").withLocalTime("11:00"),
+                title = "Second Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='time-entry']:has-text('First Task') [data-testid='entry-select-checkbox']").click()
+        page.locator("[data-testid='time-entry']:has-text('Second Task') [data-testid='entry-select-checkbox']").click()
+        page.locator("[data-testid='bulk-delete-button']").click()
+        page.locator("[data-testid='bulk-delete-confirm-button']").click()
+
+        assertThat(page.locator("[data-testid='no-entries']")).isVisible()
+        assertThat(page.locator("[data-testid='undo-toast-message']")).hasText("Entries deleted: 2")
+
+        page.locator("[data-testid='undo-button']").click()
+
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(2)
+        testDatabaseSupport.inTransaction {
+            assertEquals(2, timeLogEntryRepository.findAll().toList().size)
+        }
+    }
+
+    @Test
+    fun `should restore merged entries on undo`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        val firstEntry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("01:00"),
+                    endTime = baseTime.withLocalTime("01:30"),
+                    title = "First Task",
+                    ownerId = requireNotNull(testUser.id),
+                ),
+            )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("02:00"),
+                endTime = baseTime.withLocalTime("02:30"),
+                title = "Second Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='time-entry']:has-text('First Task') [data-testid='entry-select-checkbox']").click()
+        page.locator("[data-testid='time-entry']:has-text('Second Task') [data-testid='entry-select-checkbox']").click()
+        page.locator("[data-testid='merge-selected-button']").click()
+        page.locator("[data-testid='merge-entries-confirm-button']").click()
+
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(1)
+        assertThat(page.locator("[data-testid='undo-toast-message']")).hasText("Entries merged: 2")
+
+        page.locator("[data-testid='undo-button']").click()
+
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(2)
+        testDatabaseSupport.inTransaction {
+            val entries = timeLogEntryRepository.findAll().sortedBy { it.startTime }
+            assertEquals(listOf("First Task", "Second Task"), entries.map { it.title })
+            assertEquals(firstEntry.id, entries[0].id)
+            assertEquals(timeInTestTz("2024-03-16", "01:30"), entries[0].endTime)
+        }
+    }
+
+    @Test
+    fun `should restore entry split to resolve overlap on undo`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        val longEntry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("01:00"),
+                    endTime = baseTime.withLocalTime("03:00"),
+                    title = "Long Task",
+                    ownerId = requireNotNull(testUser.id),
+                ),
+            )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:30"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "Short Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='time-entry']:has-text('Short Task') [data-testid='overlap-warning']").click()
+        page.locator("[data-testid='overlap-split-button']").click()
+
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(3)
+        assertThat(page.locator("[data-testid='undo-toast-message']")).hasText("Entry split")
+
+        page.locator("[data-testid='undo-button']").click()
+
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(2)
+        testDatabaseSupport.inTransaction {
+            val longTaskEntry = timeLogEntryRepository.findAll().single { it.title == "Long Task" }
+            assertEquals(longEntry.id, longTaskEntry.id)
+            assertEquals(timeInTestTz("2024-03-16", "01:00"), longTaskEntry.startTime)
+            assertEquals(timeInTestTz("2024-03-16", "03:00"), longTaskEntry.endTime)
+        }
+    }
+
+    @Test
+    fun `should restore edited active entry on undo after it has been stopped`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        val activeEntry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("03:00"),
+                    endTime = null,
+                    title = "Active Task",
+                    ownerId = requireNotNull(testUser.id),
+                    tags = arrayOf("backend"),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val panel = page.locator("[data-testid='current-entry-panel']")
+        panel.locator("[data-testid='active-entry-inline-title-trigger']").click()
+        page.locator("[data-testid='active-entry-inline-title-input']").fill("Renamed Task")
+        page.locator("[data-testid='active-entry-inline-title-save-button']").click()
+        assertThat(page.locator("[data-testid='undo-toast-message']")).hasText("Entry updated")
+
+        timeLogsPage.clickStop()
+        assertThat(page.locator("[data-testid='stop-button']")).not().isVisible()
+
+        page.locator("[data-testid='undo-button']").click()
+
+        assertThat(page.locator("[data-testid='undo-toast']")).not().isVisible()
+        assertThat(page.locator("[data-testid='time-entry']:has-text('Active Task')")).isVisible()
+        testDatabaseSupport.inTransaction {
+            val restoredEntry = timeLogEntryRepository.findById(requireNotNull(activeEntry.id)).orElseThrow()
+            assertEquals("Active Task", restoredEntry.title)
+            assertArrayEquals(arrayOf("backend"), restoredEntry.tags)
+            assertEquals(baseTime.withLocalTime("03:00"), restoredEntry.startTime)
+            assertEquals(baseTime, restoredEntry.endTime)
+        }
+    }
+
+    @Test
+    fun `should hide undo toast after grace period`() {
+        // Set base time: Saturday, March 16, 2024 at 03:30:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "03:30")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("01:00"),
+                endTime = baseTime.withLocalTime("02:00"),
+                title = "Obsolete Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        timeLogsPage.deleteEntry("Obsolete Task")
+        assertThat(page.locator("[data-testid='undo-toast']")).isVisible()
+
+        page.clock().runFor(11000)
+
+        assertThat(page.locator("[data-testid='undo-toast']")).not().isVisible()
+        assertThat(page.locator("[data-testid='no-entries']")).isVisible()
+    }
+}
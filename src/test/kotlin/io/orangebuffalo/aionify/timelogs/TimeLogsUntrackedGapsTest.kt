@@ -0,0 +1,156 @@
+package io.orangebuffalo.aionify.timelogs
+
+import com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat
+import io.orangebuffalo.aionify.*
+import io.orangebuffalo.aionify.domain.DailyGoalBreak
+import io.orangebuffalo.aionify.domain.GoalsSettings
+import io.orangebuffalo.aionify.domain.TimeLogEntry
+import org.junit.jupiter.api.Assertions.assertEquals
+import org.junit.jupiter.api.Test
+import java.time.LocalTime
+
+/**
+ * Tests for the untracked time markers between entries and filling the gaps.
+ */
+class TimeLogsUntrackedGapsTest : TimeLogsPageTestBase() {
+    @Test
+    fun `should show untracked gaps between entries ignoring typical breaks`() {
+        // Set base time: Saturday, March 16, 2024 at 16:00:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "16:00")
+        val userId = requireNotNull(testUser.id)
+
+        val goalsSettings = testDatabaseSupport.insert(GoalsSettings(userId = userId))
+        testDatabaseSupport.insert(
+            DailyGoalBreak(
+                goalsSettingsId = requireNotNull(goalsSettings.id),
+                sortOrder = 0,
+                fromTime = LocalTime.of(12, 0),
+                toTime = LocalTime.of(13, 0),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("09:00"),
+                endTime = baseTime.withLocalTime("12:00"),
+                title = "Morning Task",
+                ownerId = userId,
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("13:00"),
+                endTime = baseTime.withLocalTime("14:00"),
+                title = "Afternoon Task",
+                ownerId = userId,
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("14:25"),
+                endTime = baseTime.withLocalTime("15:00"),
+                title = "Late Task",
+                ownerId = userId,
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val gaps = page.locator("[data-testid='untracked-gap']")
+        assertThat(gaps).hasCount(1)
+        assertThat(gaps.locator("[data-testid='untracked-gap-duration']")).hasText("untracked 00:25:00")
+    }
+
+    @Test
+    fun `should fill gap with previous and next entries`() {
+        // Set base time: Saturday, March 16, 2024 at 16:00:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "16:00")
+
+        val firstEntry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("09:00"),
+                    endTime = baseTime.withLocalTime("10:00"),
+                    title = "First Task",
+                    ownerId = requireNotNull(testUser.id),
+                ),
+            )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("10:30"),
+                endTime = baseTime.withLocalTime("11:00"),
+                title = "Second Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        val thirdEntry =
+            testDatabaseSupport.insert(
+                TimeLogEntry(
+                    startTime = baseTime.withLocalTime("11:15"),
+                    endTime = baseTime.withLocalTime("12:00"),
+                    title = "Third Task",
+                    ownerId = requireNotNull(testUser.id),
+                ),
+            )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        val gaps = page.locator("[data-testid='untracked-gap']")
+        assertThat(gaps).hasCount(2)
+
+        // Gaps are displayed latest first, same as the entries
+        gaps.nth(1).locator("[data-testid='untracked-gap-fill-previous-button']").click()
+        assertThat(gaps).hasCount(1)
+        gaps.locator("[data-testid='untracked-gap-fill-next-button']").click()
+        assertThat(gaps).hasCount(0)
+
+        testDatabaseSupport.inTransaction {
+            val updatedFirstEntry = timeLogEntryRepository.findById(requireNotNull(firstEntry.id)).orElseThrow()
+            assertEquals(timeInTestTz("2024-03-16", "10:30"), updatedFirstEntry.endTime)
+            val updatedThirdEntry = timeLogEntryRepository.findById(requireNotNull(thirdEntry.id)).orElseThrow()
+            assertEquals(timeInTestTz("2024-03-16", "11:00"), updatedThirdEntry.startTime)
+        }
+    }
+
+    @Test
+    fun `should create new entry for the gap`() {
+        // Set base time: Saturday, March 16, 2024 at 16:00:00 NZDT
+        val baseTime = setBaseTime("2024-03-16", "16:00")
+
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("09:00"),
+                endTime = baseTime.withLocalTime("10:00"),
+                title = "First Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+        testDatabaseSupport.insert(
+            TimeLogEntry(
+                startTime = baseTime.withLocalTime("10:30"),
+                endTime = baseTime.withLocalTime("11:00"),
+                title = "Second Task",
+                ownerId = requireNotNull(testUser.id),
+            ),
+        )
+
+        loginViaToken("/portal/time-logs", testUser, testAuthSupport)
+
+        page.locator("[data-testid='untracked-gap-new-entry-button']").click()
+        assertThat(page.locator("[data-testid='add-entry-dialog']")).isVisible()
+        assertThat(page.locator("[data-testid='add-entry-start-time-input']")).hasValue("10:00")
+        assertThat(page.locator("[data-testid='add-entry-end-time-input']")).hasValue("10:30")
+
+        page.locator("[data-testid='add-entry-title-input']").fill("Forgotten Meeting")
+        page.locator("[data-testid='add-entry-save-button']").click()
+
+        assertThat(page.locator("[data-testid='add-entry-dialog']")).not().isVisible()
+        assertThat(page.locator("[data-testid='untracked-gap']")).hasCount(0)
+        assertThat(page.locator("[data-testid='time-entry']")).hasCount(3)
+
+        testDatabaseSupport.inTransaction {
+            val newEntry = timeLogEntryRepository.findAll().single { it.title == "Forgotten Meeting" }
+            assertEquals(timeInTestTz("2024-03-16", "10:00"), newEntry.startTime)
+            assertEquals(timeInTestTz("2024-03-16", "10:30"), newEntry.endTime)
+        }
+    }
+}